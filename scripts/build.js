@@ -82,6 +82,12 @@ async function buildTheSource() {
       './src/shoelace.ts',
       // The auto-loader
       './src/shoelace-autoloader.ts',
+      // Server-side rendering and hydration
+      './src/shoelace-ssr.ts',
+      './src/shoelace-hydrate.ts',
+      // Not for users, but it must be its own entry point so its code is split into a chunk that runs before the
+      // dependencies shoelace-ssr.js imports, rather than being inlined after them
+      './src/internal/server-globals-start.ts',
       // Components
       ...(await globby('./src/components/**/!(*.(style|test)).ts')),
       // Translations
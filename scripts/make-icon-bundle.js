@@ -0,0 +1,73 @@
+//
+// This script generates a module that exports a subset of icons as SVG strings. Registering the module's icons with
+// registerIconLibrary() lets <sl-icon> draw them without fetching anything at runtime.
+//
+//   node scripts/make-icon-bundle.js --icons check gear "arrow-*" --outfile src/icons.js
+//
+// Icon names can be globs. When no icons are given, every icon in the source directory is included.
+//
+import chalk from 'chalk';
+import commandLineArgs from 'command-line-args';
+import fs from 'fs/promises';
+import { globby } from 'globby';
+import path from 'path';
+
+const { icons, srcdir, outfile } = commandLineArgs([
+  { name: 'icons', type: String, multiple: true, defaultValue: ['*'] },
+  { name: 'srcdir', type: String, defaultValue: './node_modules/bootstrap-icons/icons' },
+  { name: 'outfile', type: String }
+]);
+
+if (!outfile) {
+  console.error(chalk.red('Please specify an output file with --outfile'));
+  process.exit(1);
+}
+
+// Allow comma-separated lists too, e.g. --icons check,gear
+const patterns = icons.flatMap(icon => icon.split(',')).filter(icon => icon.trim() !== '');
+const bundle = {};
+const missing = [];
+
+for (const pattern of patterns) {
+  const files = await globby(`${pattern.trim()}.svg`, { cwd: srcdir });
+
+  if (files.length === 0) {
+    missing.push(pattern);
+  }
+
+  for (const file of files.sort()) {
+    const name = path.basename(file, '.svg');
+    const svg = await fs.readFile(path.join(srcdir, file), 'utf8');
+
+    // Collapse whitespace to keep the bundle small
+    bundle[name] = svg.replace(/\s*\n\s*/g, ' ').trim();
+  }
+}
+
+if (missing.length > 0) {
+  console.error(chalk.red(`No icons in ${srcdir} match: ${missing.join(', ')}`));
+  process.exit(1);
+}
+
+const names = Object.keys(bundle).sort();
+const entries = names.map(name => `  ${JSON.stringify(name)}: ${JSON.stringify(bundle[name])}`);
+const source = [
+  '// This file was generated by scripts/make-icon-bundle.js. Do not edit it directly.',
+  '//',
+  "//   import { registerIconLibrary } from '@shoelace-style/shoelace/dist/utilities/icon-library.js';",
+  "//   import icons from './icons.js';",
+  '//',
+  "//   registerIconLibrary('default', { icons });",
+  '//',
+  'const icons = {',
+  entries.join(',\n'),
+  '};',
+  '',
+  'export default icons;',
+  ''
+].join('\n');
+
+await fs.mkdir(path.dirname(outfile), { recursive: true });
+await fs.writeFile(outfile, source, 'utf8');
+
+console.log(chalk.green(`Bundled ${names.length} icon${names.length === 1 ? '' : 's'} into ${outfile}`));
@@ -1,8 +1,14 @@
 //
 // This script bakes and copies themes, then generates a corresponding Lit stylesheet in dist/themes
 //
+// To generate a theme overlay from brand colors as well, pass a name and a primary color. The overlay is written to
+// <name>.overlay.css and only contains the tokens that depend on them, so load it after the light and dark themes.
+//
+//   node scripts/make-themes.js --outdir dist --name acme --primary "#e11d48" --radius 6px --font "Inter, sans-serif"
+//
 import chalk from 'chalk';
 import commandLineArgs from 'command-line-args';
+import esbuild from 'esbuild';
 import fs from 'fs';
 import { mkdirSync } from 'fs';
 import { globbySync } from 'globby';
@@ -10,7 +16,14 @@ import path from 'path';
 import prettier from 'prettier';
 import stripComments from 'strip-css-comments';
 
-const { outdir } = commandLineArgs({ name: 'outdir', type: String });
+const { outdir, name, primary, neutral, radius, font } = commandLineArgs([
+  { name: 'outdir', type: String },
+  { name: 'name', type: String },
+  { name: 'primary', type: String },
+  { name: 'neutral', type: String },
+  { name: 'radius', type: String },
+  { name: 'font', type: String }
+]);
 const files = globbySync('./src/themes/**/[!_]*.css');
 const filesToEmbed = globbySync('./src/themes/**/_*.css');
 const themesDir = path.join(outdir, 'themes');
@@ -23,15 +36,8 @@ filesToEmbed.forEach(file => {
   embeds[path.basename(file)] = fs.readFileSync(file, 'utf8');
 });
 
-// Loop through each theme file, copying the .css and generating a .js version for Lit users
-files.forEach(file => {
-  let source = fs.readFileSync(file, 'utf8');
-
-  // If the source has "/* _filename.css */" in it, replace it with the embedded styles
-  Object.keys(embeds).forEach(key => {
-    source = source.replace(`/* ${key} */`, embeds[key]);
-  });
-
+// Writes a theme's .css file and a .js version for Lit users
+function writeTheme(basename, source) {
   const css = prettier.format(stripComments(source), {
     parser: 'css'
   });
@@ -47,9 +53,55 @@ files.forEach(file => {
     { parser: 'babel-ts' }
   );
 
-  const cssFile = path.join(themesDir, path.basename(file));
-  const jsFile = path.join(themesDir, path.basename(file).replace('.css', '.styles.js'));
+  const cssFile = path.join(themesDir, basename);
+  const jsFile = path.join(themesDir, basename.replace('.css', '.styles.js'));
 
   fs.writeFileSync(cssFile, css, 'utf8');
   fs.writeFileSync(jsFile, js, 'utf8');
+}
+
+// Loop through each theme file, copying the .css and generating a .js version for Lit users
+files.forEach(file => {
+  let source = fs.readFileSync(file, 'utf8');
+
+  // If the source has "/* _filename.css */" in it, replace it with the embedded styles
+  Object.keys(embeds).forEach(key => {
+    source = source.replace(`/* ${key} */`, embeds[key]);
+  });
+
+  writeTheme(path.basename(file), source);
 });
+
+// Generate a theme from brand colors with the same generator that's available at runtime
+if (primary) {
+  if (!name) {
+    console.error(chalk.red('Please specify a name for the generated theme with --name'));
+    process.exit(1);
+  }
+
+  const { outputFiles } = await esbuild.build({
+    entryPoints: ['./src/internal/theme.ts'],
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    write: false,
+    logLevel: 'silent'
+  });
+  const { generateThemeOverlay } = await import(
+    `data:text/javascript;base64,${Buffer.from(outputFiles[0].text).toString('base64')}`
+  );
+
+  try {
+    writeTheme(`${name}.overlay.css`, generateThemeOverlay({ primary, neutral, radius, font }));
+  } catch (err) {
+    console.error(chalk.red(err.message));
+    process.exit(1);
+  }
+
+  console.log(
+    chalk.yellow(
+      `Generated ${name}.overlay.css. It only contains the tokens that depend on your brand, so load it after light.css ` +
+        'and dark.css.'
+    )
+  );
+}
@@ -0,0 +1,82 @@
+//
+// This script renders every component with Lit SSR to make sure they can be rendered on the server. It runs against the
+// build, so run `npm run build` first.
+//
+//   node --test scripts/test-ssr.js
+//
+import '../dist/shoelace-ssr.js';
+import { collectResult } from '@lit-labs/ssr/lib/render-result.js';
+import { describe, it } from 'node:test';
+import { getAllComponents } from './shared.js';
+import { html, unsafeStatic } from 'lit/static-html.js';
+import { render } from '@lit-labs/ssr';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+
+const metadata = JSON.parse(fs.readFileSync('./dist/custom-elements.json', 'utf8'));
+const components = getAllComponents(metadata);
+
+async function renderToString(template) {
+  return collectResult(render(template));
+}
+
+describe('server-side rendering', () => {
+  for (const component of components) {
+    it(`should render <${component.tagName}> to declarative shadow DOM`, async () => {
+      await import(`../dist/${component.path}`);
+
+      const tag = unsafeStatic(component.tagName);
+      const result = await renderToString(html`<${tag}></${tag}>`);
+
+      assert.match(result, new RegExp(`<${component.tagName}[^>]*><template shadowroot="open"`));
+    });
+  }
+
+  it('should render reflected properties and the classes that depend on attributes', async () => {
+    await import('../dist/components/button/button.js');
+
+    const result = await renderToString(html`<sl-button variant="primary" disabled>Button</sl-button>`);
+
+    assert.match(result, /<sl-button[^>]* size="medium"[^>]*>/);
+    assert.match(result, /class="[^"]*button--primary[^"]*"/);
+    assert.match(result, /class="[^"]*button--disabled[^"]*"/);
+  });
+
+  it('should render with the whole library imported', async () => {
+    await import('../dist/shoelace.js');
+
+    const result = await renderToString(html`<sl-input label="Name" value="Ann"></sl-input>`);
+
+    assert.match(result, /<input[^>]*part="input"/);
+  });
+
+  it('should render the elements of a custom prefix', async () => {
+    const { registerComponents, SlSelect } = await import('../dist/shoelace.js');
+    registerComponents([SlSelect], { prefix: 'ssr-' });
+
+    const result = await renderToString(html`<ssr-select></ssr-select>`);
+
+    assert.match(result, /<ssr-popup[^>]*>/);
+    assert.doesNotMatch(result, /<sl-popup/);
+  });
+
+  it('should not leave browser globals behind', async () => {
+    await import('../dist/translations/de.js');
+
+    assert.equal(typeof globalThis.document, 'undefined');
+    assert.equal(typeof globalThis.MutationObserver, 'undefined');
+    assert.equal(typeof globalThis.self, 'undefined');
+  });
+
+  it("should render in the element's language", async () => {
+    await import('../dist/components/format-number/format-number.js');
+
+    const result = await renderToString(html`<sl-format-number lang="de" value="1234.5"></sl-format-number>`);
+
+    assert.match(result, /1\.234,5/);
+  });
+
+  it('should do nothing when the autoloader is imported', async () => {
+    await assert.doesNotReject(import('../dist/shoelace-autoloader.js'));
+  });
+});
@@ -1,6 +1,6 @@
-import '../../../dist/shoelace.js';
 import { aTimeout, expect, fixture, html, oneEvent } from '@open-wc/testing';
 import { clickOnElement, moveMouseOnElement } from '../../internal/test.js';
+import { getToastStack as getToastStackForPlacement, notify } from '../../../dist/shoelace.js';
 import { queryByTestId } from '../../internal/test/data-testid-helpers.js';
 import { resetMouse } from '@web/test-runner-commands';
 import sinon from 'sinon';
@@ -234,6 +234,117 @@ describe('<sl-alert>', () => {
 
       expectNoToastStack();
     });
+
+    it('shows toasts in the stack for the given placement', async () => {
+      const alert = await fixture<SlAlert>(html`<sl-alert closable>I am an alert</sl-alert>`);
+      const openPromise = oneEvent(alert, 'sl-after-show');
+
+      alert.toast('bottom-start');
+      await openPromise;
+
+      expect(alert.parentElement!.classList.contains('sl-toast-stack--bottom-start')).to.be.true;
+      expect(getToastStackForPlacement('bottom-start').toasts).to.deep.equal([alert]);
+
+      await closeToast(alert);
+      expect(document.querySelector('.sl-toast-stack--bottom-start')).to.be.null;
+    });
+
+    it('queues toasts when the stack is full', async () => {
+      const container = await fixture<HTMLElement>(html`<div>
+        <sl-alert data-testid="alert1" closable>alert 1</sl-alert>
+        <sl-alert data-testid="alert2" closable>alert 2</sl-alert>
+      </div>`);
+      const alert1 = queryByTestId<SlAlert>(container, 'alert1')!;
+      const alert2 = queryByTestId<SlAlert>(container, 'alert2')!;
+      const stack = getToastStackForPlacement('bottom-end');
+      const maxVisible = stack.maxVisible;
+
+      // The stack is shared by every test, so it's restored even when an assertion fails
+      try {
+        stack.maxVisible = 1;
+        const openPromise = oneEvent(alert1, 'sl-after-show');
+        alert1.toast('bottom-end');
+        await openPromise;
+        alert2.toast('bottom-end');
+
+        expect(stack.queued).to.deep.equal([alert2]);
+        expect(alert2.isConnected).to.be.false;
+
+        const showPromise = oneEvent(alert2, 'sl-after-show');
+        await closeToast(alert1);
+        await showPromise;
+
+        expect(stack.toasts).to.deep.equal([alert2]);
+        expect(stack.queued).to.deep.equal([]);
+
+        await closeToast(alert2);
+      } finally {
+        stack.maxVisible = maxVisible;
+      }
+    });
+
+    it('does not show a toast with the same variant and message as a toast that is already showing', async () => {
+      const container = await fixture<HTMLElement>(html`<div>
+        <sl-alert data-testid="alert1" closable>Saved</sl-alert>
+        <sl-alert data-testid="alert2" closable>Saved</sl-alert>
+      </div>`);
+      const alert1 = queryByTestId<SlAlert>(container, 'alert1')!;
+      const alert2 = queryByTestId<SlAlert>(container, 'alert2')!;
+      let duplicateResolved = false;
+
+      await openToast(alert1);
+      alert2.toast().then(() => (duplicateResolved = true));
+
+      expect(getToastStackForPlacement().toasts).to.deep.equal([alert1]);
+      expect(alert2.isConnected).to.be.false;
+
+      await closeToast(alert1);
+      expect(duplicateResolved).to.be.true;
+    });
+  });
+
+  describe('notify()', () => {
+    it('creates an alert and shows it as a toast', async () => {
+      const alert = notify({ message: 'Changes saved', variant: 'success', duration: 5000 });
+      await oneEvent(alert, 'sl-after-show');
+
+      expect(alert.variant).to.equal('success');
+      expect(alert.duration).to.equal(5000);
+      expect(alert.closable).to.be.true;
+      expect(alert.textContent).to.equal('Changes saved');
+      expect(alert.parentElement!.classList.contains('sl-toast-stack--top-end')).to.be.true;
+
+      const hidePromise = oneEvent(alert, 'sl-after-hide');
+      alert.hide();
+      await hidePromise;
+    });
+
+    it('renders the message as text', async () => {
+      const alert = notify({ message: '<b>Bold</b>' });
+      await oneEvent(alert, 'sl-after-show');
+
+      expect(alert.querySelector('b')).to.be.null;
+      expect(alert.textContent).to.equal('<b>Bold</b>');
+
+      const hidePromise = oneEvent(alert, 'sl-after-hide');
+      alert.hide();
+      await hidePromise;
+    });
+
+    it('runs the action callback and closes the toast when the action button is clicked', async () => {
+      const onClick = sinon.spy();
+      const alert = notify({ message: 'File deleted', action: { label: 'Undo', onClick } });
+      await oneEvent(alert, 'sl-after-show');
+
+      const button = alert.querySelector('sl-button')!;
+      expect(button.textContent).to.equal('Undo');
+
+      const hidePromise = oneEvent(alert, 'sl-after-hide');
+      button.click();
+      await hidePromise;
+
+      expect(onClick).to.have.been.calledOnceWith(alert);
+    });
   });
 
   describe('timer controlled closing', () => {
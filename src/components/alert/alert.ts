@@ -1,18 +1,19 @@
-import '../icon-button/icon-button.js';
 import { animateTo, stopAnimations } from '../../internal/animate.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { getAnimation, setDefaultAnimation } from '../../utilities/animation-registry.js';
+import { getToastStack } from '../../internal/toast-stack.js';
 import { HasSlotController } from '../../internal/slot.js';
 import { html } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query } from 'lit/decorators.js';
 import { waitForEvent } from '../../internal/event.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIconButton from '../icon-button/icon-button.js';
 import styles from './alert.styles.js';
 import type { CSSResultGroup } from 'lit';
-
-const toastStack = Object.assign(document.createElement('div'), { className: 'sl-toast-stack' });
+import type { ToastPlacement } from '../../internal/toast-stack.js';
 
 /**
  * @summary Alerts are used to display important messages inline or as toast notifications.
@@ -43,6 +44,7 @@ const toastStack = Object.assign(document.createElement('div'), { className: 'sl
 @customElement('sl-alert')
 export default class SlAlert extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon-button': SlIconButton };
 
   private autoHideTimeout: number;
   private readonly hasSlotController = new HasSlotController(this, 'icon', 'suffix');
@@ -148,36 +150,12 @@ export default class SlAlert extends ShoelaceElement {
    * Displays the alert as a toast notification. This will move the alert out of its position in the DOM and, when
    * dismissed, it will be removed from the DOM completely. By storing a reference to the alert, you can reuse it by
    * calling this method again. The returned promise will resolve after the alert is hidden.
+   *
+   * Toasts are shown in the stack at the given placement. When the stack is full, the toast waits in a queue until
+   * there's room for it. A toast with the same variant and message as one that's already in the stack won't be shown.
    */
-  async toast() {
-    return new Promise<void>(resolve => {
-      if (toastStack.parentElement === null) {
-        document.body.append(toastStack);
-      }
-
-      toastStack.appendChild(this);
-
-      // Wait for the toast stack to render
-      requestAnimationFrame(() => {
-        // eslint-disable-next-line @typescript-eslint/no-unused-expressions -- force a reflow for the initial transition
-        this.clientWidth;
-        this.show();
-      });
-
-      this.addEventListener(
-        'sl-after-hide',
-        () => {
-          toastStack.removeChild(this);
-          resolve();
-
-          // Remove the toast stack from the DOM when there are no more alerts
-          if (toastStack.querySelector('sl-alert') === null) {
-            toastStack.remove();
-          }
-        },
-        { once: true }
-      );
-    });
+  async toast(placement: ToastPlacement = 'top-end') {
+    return getToastStack(placement).add(this);
   }
 
   render() {
@@ -1,8 +1,9 @@
-import '../icon/icon.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { html } from 'lit';
+import { property, query, state } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
 import styles from './animated-image.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -28,6 +29,7 @@ import type { CSSResultGroup } from 'lit';
 @customElement('sl-animated-image')
 export default class SlAnimatedImage extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon': SlIcon };
 
   @query('.animated-image__animated') animatedImage: HTMLImageElement;
 
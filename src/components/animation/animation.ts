@@ -1,6 +1,7 @@
 import { animations } from './animations.js';
-import { customElement, property, queryAsync } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { html } from 'lit';
+import { property, queryAsync } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
 import styles from './animation.styles.js';
@@ -1,9 +1,10 @@
-import '../icon/icon.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { html } from 'lit';
+import { property, state } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
 import styles from './avatar.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -27,6 +28,7 @@ import type { CSSResultGroup } from 'lit';
 @customElement('sl-avatar')
 export default class SlAvatar extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon': SlIcon };
 
   @state() private hasError = false;
 
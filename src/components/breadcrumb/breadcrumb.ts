@@ -1,8 +1,9 @@
-import '../icon/icon.js';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement, unscopedTagName } from '../../internal/scope.js';
 import { html } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query } from 'lit/decorators.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
 import styles from './breadcrumb.styles.js';
 import type { CSSResultGroup } from 'lit';
 import type SlBreadcrumbItem from '../breadcrumb-item/breadcrumb-item.js';
@@ -23,6 +24,7 @@ import type SlBreadcrumbItem from '../breadcrumb-item/breadcrumb-item.js';
 @customElement('sl-breadcrumb')
 export default class SlBreadcrumb extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon': SlIcon };
 
   private readonly localize = new LocalizeController(this);
   private separatorDir = this.localize.dir();
@@ -51,7 +53,7 @@ export default class SlBreadcrumb extends ShoelaceElement {
 
   private handleSlotChange() {
     const items = [...this.defaultSlot.assignedElements({ flatten: true })].filter(
-      item => item.tagName.toLowerCase() === 'sl-breadcrumb-item'
+      item => unscopedTagName(item) === 'sl-breadcrumb-item'
     ) as SlBreadcrumbItem[];
 
     items.forEach((item, index) => {
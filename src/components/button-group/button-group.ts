@@ -1,5 +1,6 @@
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement, scopedTagName, unscopedTagName } from '../../internal/scope.js';
 import { html } from 'lit';
+import { property, query, state } from 'lit/decorators.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
 import styles from './button-group.styles.js';
 import type { CSSResultGroup } from 'lit';
@@ -29,22 +30,22 @@ export default class SlButtonGroup extends ShoelaceElement {
   @property() label = '';
 
   private handleFocus(event: Event) {
-    const button = findButton(event.target as HTMLElement);
+    const button = findButton(event.target as HTMLElement, this);
     button?.classList.add('sl-button-group__button--focus');
   }
 
   private handleBlur(event: Event) {
-    const button = findButton(event.target as HTMLElement);
+    const button = findButton(event.target as HTMLElement, this);
     button?.classList.remove('sl-button-group__button--focus');
   }
 
   private handleMouseOver(event: Event) {
-    const button = findButton(event.target as HTMLElement);
+    const button = findButton(event.target as HTMLElement, this);
     button?.classList.add('sl-button-group__button--hover');
   }
 
   private handleMouseOut(event: Event) {
-    const button = findButton(event.target as HTMLElement);
+    const button = findButton(event.target as HTMLElement, this);
     button?.classList.remove('sl-button-group__button--hover');
   }
 
@@ -53,14 +54,14 @@ export default class SlButtonGroup extends ShoelaceElement {
 
     slottedElements.forEach(el => {
       const index = slottedElements.indexOf(el);
-      const button = findButton(el);
+      const button = findButton(el, this);
 
       if (button !== null) {
         button.classList.add('sl-button-group__button');
         button.classList.toggle('sl-button-group__button--first', index === 0);
         button.classList.toggle('sl-button-group__button--inner', index > 0 && index < slottedElements.length - 1);
         button.classList.toggle('sl-button-group__button--last', index === slottedElements.length - 1);
-        button.classList.toggle('sl-button-group__button--radio', button.tagName.toLowerCase() === 'sl-radio-button');
+        button.classList.toggle('sl-button-group__button--radio', unscopedTagName(button) === 'sl-radio-button');
       }
     });
   }
@@ -83,8 +84,8 @@ export default class SlButtonGroup extends ShoelaceElement {
   }
 }
 
-function findButton(el: HTMLElement) {
-  const selector = 'sl-button, sl-radio-button';
+function findButton(el: HTMLElement, group: SlButtonGroup) {
+  const selector = `${scopedTagName(group, 'sl-button')}, ${scopedTagName(group, 'sl-radio-button')}`;
 
   // The button could be the target element or a child of it (e.g. a dropdown or tooltip anchor)
   return el.closest(selector) ?? el.querySelector(selector);
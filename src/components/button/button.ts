@@ -1,14 +1,16 @@
-import '../icon/icon.js';
-import '../spinner/spinner.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { FormControlController, validValidityState } from '../../internal/form.js';
 import { HasSlotController } from '../../internal/slot.js';
 import { html, literal } from 'lit/static-html.js';
 import { ifDefined } from 'lit/directives/if-defined.js';
+import { isServer } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query, state } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
+import SlSpinner from '../spinner/spinner.js';
 import styles from './button.styles.js';
 import type { CSSResultGroup } from 'lit';
 import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
@@ -39,6 +41,10 @@ import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
 @customElement('sl-button')
 export default class SlButton extends ShoelaceElement implements ShoelaceFormControl {
   static styles: CSSResultGroup = styles;
+  static dependencies = {
+    'sl-icon': SlIcon,
+    'sl-spinner': SlSpinner
+  };
 
   private readonly formControlController = new FormControlController(this, {
     form: input => {
@@ -169,7 +175,10 @@ export default class SlButton extends ShoelaceElement implements ShoelaceFormCon
 
   constructor() {
     super();
-    this.addEventListener('click', this.handleHostClick);
+
+    if (!isServer) {
+      this.addEventListener('click', this.handleHostClick);
+    }
   }
 
   firstUpdated() {
@@ -1,5 +1,5 @@
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { HasSlotController } from '../../internal/slot.js';
 import { html } from 'lit';
 import ShoelaceElement from '../../internal/shoelace-element.js';
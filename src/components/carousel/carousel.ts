@@ -1,17 +1,18 @@
-import '../icon/icon.js';
 import { AutoplayController } from './autoplay-controller.js';
 import { clamp } from '../../internal/math.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
-import { html } from 'lit';
+import { customElement, scopedTagName } from '../../internal/scope.js';
+import { html, isServer } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
 import { map } from 'lit/directives/map.js';
 import { prefersReducedMotion } from '../../internal/animate.js';
+import { property, query, state } from 'lit/decorators.js';
 import { range } from 'lit/directives/range.js';
 import { ScrollController } from './scroll-controller.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
 import SlCarouselItem from '../carousel-item/carousel-item.js';
+import SlIcon from '../icon/icon.js';
 import styles from './carousel.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -47,6 +48,7 @@ import type { CSSResultGroup } from 'lit';
 @customElement('sl-carousel')
 export default class SlCarousel extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon': SlIcon };
 
   /** When set, allows the user to navigate the carousel in the same direction indefinitely. */
   @property({ type: Boolean, reflect: true }) loop = false;
@@ -87,7 +89,6 @@ export default class SlCarousel extends ShoelaceElement {
 
   private autoplayController = new AutoplayController(this, () => this.next());
   private scrollController = new ScrollController(this);
-  private readonly slides = this.getElementsByTagName('sl-carousel-item');
   private intersectionObserver: IntersectionObserver; // determines which slide is displayed
   // A map containing the state of all the slides
   private readonly intersectionObserverEntries = new Map<Element, IntersectionObserverEntry>();
@@ -145,7 +146,14 @@ export default class SlCarousel extends ShoelaceElement {
   }
 
   private getSlides({ excludeClones = true }: { excludeClones?: boolean } = {}) {
-    return [...this.slides].filter(slide => !excludeClones || !slide.hasAttribute('data-clone'));
+    // The server doesn't know about the carousel's children
+    if (isServer) {
+      return [];
+    }
+
+    return [
+      ...(this.getElementsByTagName(scopedTagName(this, 'sl-carousel-item')) as HTMLCollectionOf<SlCarouselItem>)
+    ].filter(slide => !excludeClones || !slide.hasAttribute('data-clone'));
   }
 
   private handleKeyDown(event: KeyboardEvent) {
@@ -116,4 +116,26 @@ export default css`
     content: var(--sl-input-required-content);
     margin-inline-start: var(--sl-input-required-content-offset);
   }
+
+  /* Forced colors mode */
+  @media (forced-colors: active) {
+    .checkbox--checked .checkbox__control,
+    .checkbox--indeterminate .checkbox__control,
+    .checkbox.checkbox--checked:not(.checkbox--disabled) .checkbox__control:hover,
+    .checkbox.checkbox--indeterminate:not(.checkbox--disabled) .checkbox__control:hover {
+      border-color: SelectedItem;
+      background-color: SelectedItem;
+      color: SelectedItemText;
+    }
+
+    .checkbox--disabled .checkbox__control {
+      border-color: GrayText;
+    }
+
+    .checkbox--disabled.checkbox--checked .checkbox__control,
+    .checkbox--disabled.checkbox--indeterminate .checkbox__control {
+      background-color: GrayText;
+      color: Canvas;
+    }
+  }
 `;
@@ -1,16 +1,19 @@
-import '../icon/icon.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { defaultValue } from '../../internal/default-value.js';
 import { FormControlController } from '../../internal/form.js';
 import { html } from 'lit';
 import { ifDefined } from 'lit/directives/if-defined.js';
 import { live } from 'lit/directives/live.js';
+import { property, query, state } from 'lit/decorators.js';
+import { validatorsConverter } from '../../internal/validators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
 import styles from './checkbox.styles.js';
 import type { CSSResultGroup } from 'lit';
 import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
+import type { Validator } from '../../internal/validators.js';
 
 /**
  * @summary Checkboxes allow the user to toggle an option on or off.
@@ -39,11 +42,15 @@ import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
 @customElement('sl-checkbox')
 export default class SlCheckbox extends ShoelaceElement implements ShoelaceFormControl {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon': SlIcon };
 
   private readonly formControlController = new FormControlController(this, {
     value: (control: SlCheckbox) => (control.checked ? control.value || 'on' : undefined),
     defaultValue: (control: SlCheckbox) => control.defaultChecked,
-    setValue: (control: SlCheckbox, checked: boolean) => (control.checked = checked)
+    setValue: (control: SlCheckbox, checked: boolean) => (control.checked = checked),
+    dirty: (control: SlCheckbox) => control.checked !== control.defaultChecked,
+    markPristine: (control: SlCheckbox) => (control.defaultChecked = control.checked),
+    setValidationMessage: (control: SlCheckbox, message: string) => control.input.setCustomValidity(message)
   });
 
   @query('input[type="checkbox"]') input: HTMLInputElement;
@@ -86,6 +93,13 @@ export default class SlCheckbox extends ShoelaceElement implements ShoelaceFormC
   /** Makes the checkbox a required field. */
   @property({ type: Boolean, reflect: true }) required = false;
 
+  /**
+   * Validators to run in addition to the browser's constraint validation. A validator can be a function that returns a
+   * validation message, an object with a `validate` function and a `debounce` delay for async validators, or the name
+   * of a registered rule such as `equals-field:password`. In HTML, use a space-delimited list of rules.
+   */
+  @property({ converter: validatorsConverter }) validators: Validator[] = [];
+
   /** Gets the validity state object */
   get validity() {
     return this.input.validity;
@@ -173,8 +187,7 @@ export default class SlCheckbox extends ShoelaceElement implements ShoelaceFormC
    * the custom validation message, call this method with an empty string.
    */
   setCustomValidity(message: string) {
-    this.input.setCustomValidity(message);
-    this.formControlController.updateValidity();
+    this.formControlController.setCustomValidity(message);
   }
 
   render() {
@@ -206,6 +206,73 @@ export default css`
     font-size: 1rem;
   }
 
+  /* Make room for longer format names like OKLCH */
+  .color-picker__user-input sl-button::part(label) {
+    padding: 0 var(--sl-spacing-2x-small);
+  }
+
+  .color-picker__contrast {
+    display: flex;
+    align-items: center;
+    gap: var(--sl-spacing-small);
+    border-top: solid 1px var(--sl-color-neutral-200);
+    padding: var(--sl-spacing-small);
+    font-size: var(--sl-font-size-small);
+    color: var(--sl-color-neutral-700);
+  }
+
+  .color-picker__contrast-preview {
+    flex: 0 0 auto;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    width: 3.25rem;
+    height: 3.25rem;
+    border: solid 1px var(--sl-color-neutral-200);
+    border-radius: var(--sl-border-radius-medium);
+    font-size: var(--sl-font-size-x-large);
+    font-weight: var(--sl-font-weight-semibold);
+    forced-color-adjust: none;
+  }
+
+  .color-picker__contrast-details {
+    flex: 1 1 auto;
+  }
+
+  .color-picker__contrast-ratio strong {
+    color: var(--sl-color-neutral-900);
+    font-weight: var(--sl-font-weight-semibold);
+  }
+
+  .color-picker__contrast-levels {
+    border-collapse: collapse;
+    margin-top: var(--sl-spacing-3x-small);
+  }
+
+  .color-picker__contrast-levels th,
+  .color-picker__contrast-levels td {
+    padding: 0 var(--sl-spacing-2x-small);
+    font-weight: var(--sl-font-weight-normal);
+    text-align: center;
+  }
+
+  .color-picker__contrast-levels th[scope='row'] {
+    padding-inline-start: 0;
+    text-align: start;
+  }
+
+  .color-picker__contrast-level sl-icon {
+    vertical-align: -2px;
+  }
+
+  .color-picker__contrast-level--pass {
+    color: var(--sl-color-success-600);
+  }
+
+  .color-picker__contrast-level--fail {
+    color: var(--sl-color-danger-600);
+  }
+
   .color-picker__swatches {
     display: grid;
     grid-template-columns: repeat(8, 1fr);
@@ -239,6 +306,58 @@ export default css`
     outline-offset: var(--sl-focus-ring-offset);
   }
 
+  .color-picker__remove-swatch {
+    position: absolute;
+    top: -0.375rem;
+    inset-inline-end: -0.375rem;
+    display: none;
+    align-items: center;
+    justify-content: center;
+    width: 1rem;
+    height: 1rem;
+    border: solid 1px var(--sl-color-neutral-300);
+    border-radius: 50%;
+    background: var(--sl-panel-background-color);
+    color: var(--sl-color-neutral-700);
+    font-size: 0.5rem;
+    padding: 0;
+    cursor: pointer;
+  }
+
+  .color-picker__swatch--custom:hover .color-picker__remove-swatch {
+    display: flex;
+  }
+
+  .color-picker__add-swatch {
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    width: var(--swatch-size);
+    height: var(--swatch-size);
+    border: dashed 1px var(--sl-color-neutral-400);
+    border-radius: var(--sl-border-radius-small);
+    background: none;
+    color: var(--sl-color-neutral-600);
+    font-size: var(--sl-font-size-small);
+    padding: 0;
+    cursor: pointer;
+  }
+
+  .color-picker__add-swatch:hover:not(:disabled) {
+    border-color: var(--sl-color-primary-600);
+    color: var(--sl-color-primary-600);
+  }
+
+  .color-picker__add-swatch:focus-visible {
+    outline: var(--sl-focus-ring);
+    outline-offset: var(--sl-focus-ring-offset);
+  }
+
+  .color-picker__add-swatch:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+
   .color-picker__transparent-bg {
     background-image: linear-gradient(45deg, var(--sl-color-neutral-300) 25%, transparent 25%),
       linear-gradient(45deg, transparent 75%, var(--sl-color-neutral-300) 75%),
@@ -1,10 +1,12 @@
-import '../../../dist/shoelace.js';
 import { aTimeout, expect, fixture, html, oneEvent } from '@open-wc/testing';
 import { clickOnElement } from '../../internal/test.js';
+import { createMemoryColorStorage } from '../../utilities/color-storage.js';
+import { getColorStorage, setColorStorage } from '../../../dist/shoelace.js';
 import { runFormControlBaseTests } from '../../internal/test/form-control-base-tests.js';
 import { sendKeys } from '@web/test-runner-commands';
 import { serialize } from '../../utilities/form.js';
 import sinon from 'sinon';
+import type { ColorStorage } from '../../utilities/color-storage.js';
 import type SlColorPicker from './color-picker.js';
 
 describe('<sl-color-picker>', () => {
@@ -288,6 +290,240 @@ describe('<sl-color-picker>', () => {
     });
   });
 
+  describe('when using CSS Color 4 formats', () => {
+    it('should parse oklch, oklab, lab, and hwb values', async () => {
+      const el = await fixture<SlColorPicker>(html` <sl-color-picker></sl-color-picker> `);
+
+      for (const color of [
+        'oklch(62.8% 0.2577 29.23)',
+        'oklab(62.8% 0.2249 0.1258)',
+        'lab(54.29% 80.8 69.89)',
+        'hwb(0 0% 0%)'
+      ]) {
+        el.value = color;
+        await el.updateComplete;
+        expect(el.value).to.equal('#ff0000');
+      }
+    });
+
+    it('should ignore invalid CSS Color 4 values', async () => {
+      const el = await fixture<SlColorPicker>(html` <sl-color-picker value="#ff0000"></sl-color-picker> `);
+
+      el.value = 'oklch(62.8% 0.2577)';
+      await el.updateComplete;
+
+      expect(el.getFormattedValue('hex')).to.equal('#ff0000');
+    });
+
+    it('should render the value in the selected format', async () => {
+      const el = await fixture<SlColorPicker>(
+        html` <sl-color-picker format="oklch" value="#ff0000"></sl-color-picker> `
+      );
+      expect(el.value).to.equal('oklch(62.8% 0.2577 29.23)');
+
+      el.opacity = true;
+      el.value = 'oklch(62.8% 0.2577 29.23 / 50%)';
+      await el.updateComplete;
+      expect(el.value).to.equal('oklch(62.8% 0.2577 29.23 / 0.50)');
+    });
+
+    it('should return the value in other formats with getFormattedValue()', async () => {
+      const el = await fixture<SlColorPicker>(html` <sl-color-picker value="#ff0000"></sl-color-picker> `);
+
+      expect(el.getFormattedValue('hwb')).to.equal('hwb(0 0% 0%)');
+      expect(el.getFormattedValue('lab')).to.equal('lab(54.29% 80.8 69.88)');
+      expect(el.getFormattedValue('oklch')).to.equal('oklch(62.8% 0.2577 29.23)');
+    });
+  });
+
+  describe('when checking contrast', () => {
+    it('should not show the contrast panel without a contrast color', async () => {
+      const el = await fixture<SlColorPicker>(html` <sl-color-picker inline value="#000000"></sl-color-picker> `);
+      expect(el.shadowRoot!.querySelector('[part~="contrast"]')).to.not.exist;
+    });
+
+    it('should show the contrast ratio and the levels that pass', async () => {
+      const el = await fixture<SlColorPicker>(html`
+        <sl-color-picker inline value="#000000" contrast-color="#ffffff"></sl-color-picker>
+      `);
+      const ratio = el.shadowRoot!.querySelector('[part~="contrast-ratio"]')!;
+      const levels = el.shadowRoot!.querySelectorAll('.color-picker__contrast-level');
+
+      expect(ratio.textContent).to.contain('21:1');
+      expect(levels).to.have.lengthOf(4);
+      levels.forEach(level => expect(level).to.have.class('color-picker__contrast-level--pass'));
+    });
+
+    it('should show the levels that fail', async () => {
+      const el = await fixture<SlColorPicker>(html`
+        <sl-color-picker inline value="#767676" contrast-color="#ffffff"></sl-color-picker>
+      `);
+      const ratio = el.shadowRoot!.querySelector('[part~="contrast-ratio"]')!;
+      const passing = el.shadowRoot!.querySelectorAll('.color-picker__contrast-level--pass');
+
+      // Only AA for normal text and AA and AAA for large text pass
+      expect(ratio.textContent).to.contain('4.54:1');
+      expect(passing).to.have.lengthOf(3);
+    });
+
+    it('should update the contrast ratio when the value changes', async () => {
+      const el = await fixture<SlColorPicker>(html`
+        <sl-color-picker inline value="#000000" contrast-color="#ffffff"></sl-color-picker>
+      `);
+
+      el.value = '#ffffff';
+      await el.updateComplete;
+
+      const ratio = el.shadowRoot!.querySelector('[part~="contrast-ratio"]')!;
+      expect(ratio.textContent).to.contain('1:1');
+      expect(el.shadowRoot!.querySelectorAll('.color-picker__contrast-level--fail')).to.have.lengthOf(4);
+    });
+  });
+
+  describe('when storing colors', () => {
+    it('should add the current color to the custom swatches', async () => {
+      const storage = createMemoryColorStorage();
+      const el = await fixture<SlColorPicker>(html`
+        <sl-color-picker inline custom-swatches value="#ff0000" .storage=${storage}></sl-color-picker>
+      `);
+      const addButton = el.shadowRoot!.querySelector<HTMLButtonElement>('[part~="add-swatch-button"]')!;
+
+      addButton.click();
+      await el.updateComplete;
+
+      expect(storage.get('default:swatches')).to.deep.equal(['#ff0000']);
+      expect(el.shadowRoot!.querySelectorAll('[part~="custom-swatch"]')).to.have.lengthOf(1);
+    });
+
+    it('should not add the same color twice', async () => {
+      const storage = createMemoryColorStorage();
+      const el = await fixture<SlColorPicker>(html`
+        <sl-color-picker inline custom-swatches .storage=${storage}></sl-color-picker>
+      `);
+
+      el.addSwatch('#ff0000');
+      el.addSwatch('rgb(255, 0, 0)');
+      await el.updateComplete;
+
+      expect(storage.get('default:swatches')).to.deep.equal(['rgb(255, 0, 0)']);
+    });
+
+    it('should remove a custom swatch when its remove button is clicked', async () => {
+      const storage = createMemoryColorStorage();
+      storage.set('default:swatches', ['#ff0000', '#00ff00']);
+      const el = await fixture<SlColorPicker>(html`
+        <sl-color-picker inline custom-swatches .storage=${storage}></sl-color-picker>
+      `);
+      const removeButton = el.shadowRoot!.querySelector<HTMLButtonElement>('[part~="remove-swatch-button"]')!;
+
+      removeButton.click();
+      await el.updateComplete;
+
+      expect(storage.get('default:swatches')).to.deep.equal(['#00ff00']);
+      expect(el.value).to.equal('');
+    });
+
+    it('should remove a custom swatch when delete is pressed', async () => {
+      const storage = createMemoryColorStorage();
+      storage.set('default:swatches', ['#ff0000', '#00ff00']);
+      const el = await fixture<SlColorPicker>(html`
+        <sl-color-picker inline custom-swatches .storage=${storage}></sl-color-picker>
+      `);
+      const swatch = el.shadowRoot!.querySelector<HTMLElement>('[part~="custom-swatch"]')!;
+
+      swatch.focus();
+      await sendKeys({ press: 'Delete' });
+      await el.updateComplete;
+
+      expect(storage.get('default:swatches')).to.deep.equal(['#00ff00']);
+    });
+
+    it('should add the chosen color to the recent colors when the color picker loses focus', async () => {
+      const storage = createMemoryColorStorage();
+      const el = await fixture<SlColorPicker>(html`
+        <sl-color-picker inline recent-colors swatches="#00ff00; #0000ff" .storage=${storage}></sl-color-picker>
+      `);
+      const swatches = el.shadowRoot!.querySelectorAll<HTMLElement>('[part~="swatch"]');
+
+      el.focus();
+      swatches[0].click();
+      el.blur();
+      await el.updateComplete;
+
+      el.focus();
+      swatches[1].click();
+      el.blur();
+      await el.updateComplete;
+
+      expect(storage.get('default:recent')).to.deep.equal(['#0000ff', '#00ff00']);
+      expect(el.shadowRoot!.querySelectorAll('[part~="recent-color"]')).to.have.lengthOf(2);
+    });
+
+    it('should not add a color to the recent colors when the value is unchanged', async () => {
+      const storage = createMemoryColorStorage();
+      const el = await fixture<SlColorPicker>(html`
+        <sl-color-picker inline recent-colors value="#ff0000" .storage=${storage}></sl-color-picker>
+      `);
+
+      el.focus();
+      el.blur();
+      await el.updateComplete;
+
+      expect(storage.get('default:recent')).to.deep.equal([]);
+      expect(el.shadowRoot!.querySelector('[part~="recent-colors"]')).to.not.exist;
+    });
+
+    it('should remember no more than max-recent-colors', async () => {
+      const storage = createMemoryColorStorage();
+      storage.set('default:recent', ['#111111', '#222222']);
+      const el = await fixture<SlColorPicker>(html`
+        <sl-color-picker inline recent-colors max-recent-colors="2" .storage=${storage}></sl-color-picker>
+      `);
+
+      el.focus();
+      el.value = '#333333';
+      el.blur();
+      await el.updateComplete;
+
+      expect(storage.get('default:recent')).to.deep.equal(['#333333', '#111111']);
+    });
+
+    it('should share colors with color pickers that have the same storage key', async () => {
+      const storage = createMemoryColorStorage();
+      const container = await fixture<HTMLElement>(html`
+        <div>
+          <sl-color-picker inline custom-swatches storage-key="brand" .storage=${storage}></sl-color-picker>
+          <sl-color-picker inline custom-swatches storage-key="brand" .storage=${storage}></sl-color-picker>
+          <sl-color-picker inline custom-swatches storage-key="other" .storage=${storage}></sl-color-picker>
+        </div>
+      `);
+      const [first, second, third] = [...container.querySelectorAll<SlColorPicker>('sl-color-picker')];
+
+      first.addSwatch('#ff0000');
+      await Promise.all([first.updateComplete, second.updateComplete, third.updateComplete]);
+
+      expect(storage.get('brand:swatches')).to.deep.equal(['#ff0000']);
+      expect(second.shadowRoot!.querySelectorAll('[part~="custom-swatch"]')).to.have.lengthOf(1);
+      expect(third.shadowRoot!.querySelectorAll('[part~="custom-swatch"]')).to.have.lengthOf(0);
+    });
+
+    it('should use the storage adapter set with setColorStorage()', async () => {
+      // The default adapter must be set on the same module instance that the components use
+      const originalStorage = getColorStorage() as ColorStorage;
+      const storage = createMemoryColorStorage();
+
+      setColorStorage(storage);
+      storage.set('default:swatches', ['#ff0000']);
+
+      try {
+        const el = await fixture<SlColorPicker>(html` <sl-color-picker inline custom-swatches></sl-color-picker> `);
+        expect(el.shadowRoot!.querySelectorAll('[part~="custom-swatch"]')).to.have.lengthOf(1);
+      } finally {
+        setColorStorage(originalStorage);
+      }
+    });
+  });
+
   it('should render in a dropdown', async () => {
     const el = await fixture<SlColorPicker>(html` <sl-color-picker></sl-color-picker> `);
     const dropdown = el.shadowRoot!.querySelector('sl-dropdown');
@@ -1,32 +1,34 @@
-import '../button-group/button-group.js';
-import '../button/button.js';
-import '../dropdown/dropdown.js';
-import '../icon/icon.js';
-import '../input/input.js';
-import '../visually-hidden/visually-hidden.js';
 import { clamp } from '../../internal/math.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { defaultValue } from '../../internal/default-value.js';
 import { drag } from '../../internal/drag.js';
 import { FormControlController } from '../../internal/form.js';
-import { html } from 'lit';
+import { getColorStorage, onColorsStored, storeColors } from '../../internal/color-storage.js';
+import { getContrastRatio, parseColor4, rgbToHwb, rgbToLab, rgbToOklab, rgbToOklch } from '../../internal/color.js';
+import { html, isServer } from 'lit';
 import { ifDefined } from 'lit/directives/if-defined.js';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query, state } from 'lit/decorators.js';
 import { styleMap } from 'lit/directives/style-map.js';
 import { TinyColor } from '@ctrl/tinycolor';
+import { validatorsConverter } from '../../internal/validators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlButton from '../button/button.js';
+import SlButtonGroup from '../button-group/button-group.js';
+import SlDropdown from '../dropdown/dropdown.js';
+import SlIcon from '../icon/icon.js';
+import SlInput from '../input/input.js';
+import SlVisuallyHidden from '../visually-hidden/visually-hidden.js';
 import styles from './color-picker.styles.js';
+import type { ColorStorage } from '../../internal/color-storage.js';
 import type { CSSResultGroup } from 'lit';
 import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
+import type { Validator } from '../../internal/validators.js';
 import type SlChangeEvent from '../../events/sl-change.js';
-import type SlDropdown from '../dropdown/dropdown.js';
-import type SlInput from '../input/input.js';
 import type SlInputEvent from '../../events/sl-input.js';
 
-const hasEyeDropper = 'EyeDropper' in window;
-
 interface EyeDropperConstructor {
   new (): EyeDropperInterface;
 }
@@ -37,6 +39,21 @@ interface EyeDropperInterface {
 
 declare const EyeDropper: EyeDropperConstructor;
 
+type ColorFormat = 'hex' | 'rgb' | 'hsl' | 'hsv' | 'hwb' | 'lab' | 'oklab' | 'oklch';
+
+const formats: ColorFormat[] = ['hex', 'rgb', 'hsl', 'hsv', 'hwb', 'lab', 'oklab', 'oklch'];
+
+// The minimum WCAG 2 contrast ratios for normal and large text
+const contrastLevels = [
+  { level: 'AA', normal: 4.5, large: 3 },
+  { level: 'AAA', normal: 7, large: 4.5 }
+];
+
+function round(value: number, digits = 0) {
+  // Adding zero turns -0 into 0
+  return Number(value.toFixed(digits)) + 0;
+}
+
 /**
  * @summary Color pickers allow the user to select a color.
  * @documentation https://shoelace.style/components/color-picker
@@ -46,6 +63,7 @@ declare const EyeDropper: EyeDropperConstructor;
  * @dependency sl-button
  * @dependency sl-button-group
  * @dependency sl-dropdown
+ * @dependency sl-icon
  * @dependency sl-input
  * @dependency sl-visually-hidden
  *
@@ -61,6 +79,11 @@ declare const EyeDropper: EyeDropperConstructor;
  * @csspart trigger - The color picker's dropdown trigger.
  * @csspart swatches - The container that holds the swatches.
  * @csspart swatch - Each individual swatch.
+ * @csspart custom-swatch - Each swatch the user has added. Also has the `swatch` part.
+ * @csspart remove-swatch-button - The button that removes a custom swatch.
+ * @csspart add-swatch-button - The button that adds the current color to the custom swatches.
+ * @csspart recent-colors - The container that holds the recent colors.
+ * @csspart recent-color - Each recent color. Also has the `swatch` part.
  * @csspart grid - The color grid.
  * @csspart grid-handle - The color grid's handle.
  * @csspart slider - Hue and opacity sliders.
@@ -83,6 +106,10 @@ declare const EyeDropper: EyeDropperConstructor;
  * @csspart format-button__label - The format button's exported `label` part.
  * @csspart format-button__suffix - The format button's exported `suffix` part.
  * @csspart format-button__caret - The format button's exported `caret` part.
+ * @csspart contrast - The contrast panel that's shown when `contrast-color` is set.
+ * @csspart contrast-preview - The sample text that's drawn in the selected color on the contrast color.
+ * @csspart contrast-ratio - The contrast ratio.
+ * @csspart contrast-levels - The table that shows which WCAG levels pass and fail.
  *
  * @cssproperty --grid-width - The width of the color grid.
  * @cssproperty --grid-height - The height of the color grid.
@@ -94,10 +121,22 @@ declare const EyeDropper: EyeDropperConstructor;
 @customElement('sl-color-picker')
 export default class SlColorPicker extends ShoelaceElement implements ShoelaceFormControl {
   static styles: CSSResultGroup = styles;
+  static dependencies = {
+    'sl-button-group': SlButtonGroup,
+    'sl-button': SlButton,
+    'sl-dropdown': SlDropdown,
+    'sl-icon': SlIcon,
+    'sl-input': SlInput,
+    'sl-visually-hidden': SlVisuallyHidden
+  };
 
-  private readonly formControlController = new FormControlController(this);
+  private readonly formControlController = new FormControlController(this, {
+    setValidationMessage: (control: SlColorPicker, message: string) => control.input.setCustomValidity(message)
+  });
   private isSafeValue = false;
   private readonly localize = new LocalizeController(this);
+  private stopListeningForStoredColors?: () => void;
+  private valueOnFocus = '';
 
   @query('[part~="base"]') base: HTMLElement;
   @query('[part~="input"]') input: SlInput;
@@ -113,6 +152,9 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
   @state() private saturation = 100;
   @state() private brightness = 100;
   @state() private alpha = 100;
+  @state() private storedRecentColors: string[] = [];
+  @state() private storedSwatches: string[] = [];
+  @state() private hasEyeDropper = false;
 
   /**
    * The current value of the color picker. The value's format will vary based the `format` attribute. To get the value
@@ -131,10 +173,11 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
   @property() label = '';
 
   /**
-   * The format to use. If opacity is enabled, these will translate to HEXA, RGBA, HSLA, and HSVA respectively. The color
-   * picker will accept user input in any format (including CSS color names) and convert it to the desired format.
+   * The format to use. If opacity is enabled, these will translate to HEXA, RGBA, HSLA, and HSVA respectively, and the
+   * CSS Color 4 formats HWB, Lab, OKLab, and OKLCH will include the alpha after a slash. The color picker will accept
+   * user input in any format (including CSS color names) and convert it to the desired format.
    */
-  @property() format: 'hex' | 'rgb' | 'hsl' | 'hsv' = 'hex';
+  @property() format: ColorFormat = 'hex';
 
   /** Renders the color picker inline rather than in a dropdown. */
   @property({ type: Boolean, reflect: true }) inline = false;
@@ -170,6 +213,34 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
    */
   @property() swatches: string | string[] = '';
 
+  /**
+   * A color to compare the selected color against, such as the background that text will be shown on. When set, a panel
+   * shows the WCAG 2 contrast ratio of the two colors and whether it passes the AA and AAA levels. Can be any format the
+   * color picker can parse.
+   */
+  @property({ attribute: 'contrast-color' }) contrastColor = '';
+
+  /** Remembers the colors the user chooses and shows the most recent ones below the swatches. */
+  @property({ attribute: 'recent-colors', type: Boolean }) recentColors = false;
+
+  /** The maximum number of recent colors to remember. */
+  @property({ attribute: 'max-recent-colors', type: Number }) maxRecentColors = 8;
+
+  /** Lets users add the current color to the swatches and remove the swatches they've added. */
+  @property({ attribute: 'custom-swatches', type: Boolean }) customSwatches = false;
+
+  /**
+   * The key that recent colors and custom swatches are stored under. Color pickers with the same key share their recent
+   * colors and custom swatches, so a brand palette can be used by every color picker on the page.
+   */
+  @property({ attribute: 'storage-key' }) storageKey = 'default';
+
+  /**
+   * The adapter that stores recent colors and custom swatches. When not set, the adapter that was set with
+   * `setColorStorage()` is used, which stores colors in `localStorage` by default.
+   */
+  @property({ attribute: false }) storage?: ColorStorage;
+
   /**
    * By default, form controls are associated with the nearest containing `<form>` element. This attribute allows you
    * to place the form control outside of a form and associate it with the form that has this `id`. The form must be in
@@ -180,6 +251,13 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
   /** Makes the color picker a required field. */
   @property({ type: Boolean, reflect: true }) required = false;
 
+  /**
+   * Validators to run in addition to the browser's constraint validation. A validator can be a function that returns a
+   * validation message, an object with a `validate` function and a `debounce` delay for async validators, or the name
+   * of a registered rule such as `equals-field:password`. In HTML, use a space-delimited list of rules.
+   */
+  @property({ converter: validatorsConverter }) validators: Validator[] = [];
+
   /** Gets the validity state object */
   get validity() {
     return this.input.validity;
@@ -192,16 +270,44 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
 
   constructor() {
     super();
-    this.addEventListener('focusin', this.handleFocusIn);
-    this.addEventListener('focusout', this.handleFocusOut);
+
+    if (!isServer) {
+      this.addEventListener('focusin', this.handleFocusIn);
+      this.addEventListener('focusout', this.handleFocusOut);
+    }
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.stopListeningForStoredColors = onColorsStored(this.handleColorsStored);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.stopListeningForStoredColors?.();
   }
 
   firstUpdated() {
+    // Browser support is checked after the first render, since that has to match the markup rendered on the server
+    this.hasEyeDropper = 'EyeDropper' in window;
+
     this.input.updateComplete.then(() => {
       this.formControlController.updateValidity();
     });
   }
 
+  private get colorStorage() {
+    return this.storage ?? getColorStorage();
+  }
+
+  private get recentColorsKey() {
+    return `${this.storageKey}:recent`;
+  }
+
+  private get swatchesKey() {
+    return `${this.storageKey}:swatches`;
+  }
+
   private handleCopy() {
     this.input.select();
     document.execCommand('copy');
@@ -214,20 +320,34 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
     });
   }
 
-  private handleFocusIn = () => {
+  private handleFocusIn = (event: FocusEvent) => {
     this.hasFocus = true;
     this.emit('sl-focus');
+
+    // Focus that moves within the color picker is retargeted to the host
+    if (!this.contains(event.relatedTarget as Node | null)) {
+      this.valueOnFocus = this.value;
+    }
   };
 
-  private handleFocusOut = () => {
+  private handleFocusOut = (event: FocusEvent) => {
     this.hasFocus = false;
     this.emit('sl-blur');
+
+    if (!this.contains(event.relatedTarget as Node | null)) {
+      this.addRecentColor();
+    }
+  };
+
+  private handleColorsStored = (storage: ColorStorage, key: string) => {
+    if (storage === this.colorStorage && (key === this.recentColorsKey || key === this.swatchesKey)) {
+      this.loadStoredColors();
+    }
   };
 
   private handleFormatToggle() {
-    const formats = ['hex', 'rgb', 'hsl', 'hsv'];
     const nextIndex = (formats.indexOf(this.format) + 1) % formats.length;
-    this.format = formats[nextIndex] as 'hex' | 'rgb' | 'hsl' | 'hsv';
+    this.format = formats[nextIndex];
     this.setColor(this.value);
     this.emit('sl-change');
     this.emit('sl-input');
@@ -468,7 +588,8 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
   }
 
   private parseColor(colorString: string) {
-    const color = new TinyColor(colorString);
+    // TinyColor doesn't understand CSS Color 4 functions, so we convert them to RGB first
+    const color = new TinyColor(parseColor4(colorString) ?? colorString);
     if (!color.isValid) {
       return null;
     }
@@ -496,7 +617,25 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
       a: hsvColor.a
     };
 
+    // Unrounded channels prevent the CSS Color 4 values from drifting when they're converted back and forth
+    const exactRgb = { r: color.r, g: color.g, b: color.b, a: color.a };
+    const hwb = rgbToHwb(exactRgb);
+    const lab = rgbToLab(exactRgb);
+    const oklab = rgbToOklab(exactRgb);
+    const oklch = rgbToOklch(exactRgb);
+
+    // CSS Color 4 functions take an optional alpha after a slash
+    const withAlpha = (string: string) => this.setLetterCase(`${string.slice(0, -1)} / ${rgb.a.toFixed(2)})`);
+    const hwbString = `hwb(${round(hwb.h)} ${round(hwb.w)}% ${round(hwb.b)}%)`;
+    const labString = `lab(${round(lab.l, 2)}% ${round(lab.a, 2)} ${round(lab.b, 2)})`;
+    const oklabString = `oklab(${round(oklab.l * 100, 2)}% ${round(oklab.a, 4)} ${round(oklab.b, 4)})`;
+    const oklchString = `oklch(${round(oklch.l * 100, 2)}% ${round(oklch.c, 4)} ${round(oklch.h, 2)})`;
+
     return {
+      hwb: { ...hwb, string: this.setLetterCase(hwbString), alphaString: withAlpha(hwbString) },
+      lab: { ...lab, string: this.setLetterCase(labString), alphaString: withAlpha(labString) },
+      oklab: { ...oklab, string: this.setLetterCase(oklabString), alphaString: withAlpha(oklabString) },
+      oklch: { ...oklch, string: this.setLetterCase(oklchString), alphaString: withAlpha(oklchString) },
       hsl: {
         h: hsl.h,
         s: hsl.s,
@@ -587,6 +726,9 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
       this.inputValue = this.opacity ? currentColor.rgba.string : currentColor.rgb.string;
     } else if (this.format === 'hsv') {
       this.inputValue = this.opacity ? currentColor.hsva.string : currentColor.hsv.string;
+    } else if (this.format === 'hwb' || this.format === 'lab' || this.format === 'oklab' || this.format === 'oklch') {
+      const color = currentColor[this.format];
+      this.inputValue = this.opacity ? color.alphaString : color.string;
     } else {
       this.inputValue = this.opacity ? currentColor.hexa : currentColor.hex;
     }
@@ -602,10 +744,11 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
 
   private handleAfterHide() {
     this.previewButton.classList.remove('color-picker__preview-color--copied');
+    this.addRecentColor();
   }
 
   private handleEyeDropper() {
-    if (!hasEyeDropper) {
+    if (!this.hasEyeDropper) {
       return;
     }
 
@@ -641,6 +784,48 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
     }
   }
 
+  private handleCustomSwatchKeyDown(event: KeyboardEvent, color: string) {
+    if (!this.disabled && (event.key === 'Delete' || event.key === 'Backspace')) {
+      const swatch = event.currentTarget as HTMLElement;
+      const siblings = [...this.shadowRoot!.querySelectorAll<HTMLElement>('[part~="custom-swatch"]')];
+      const index = siblings.indexOf(swatch);
+
+      event.preventDefault();
+      this.removeSwatch(color);
+
+      // Keep focus in the swatches so users can remove several in a row
+      this.updateComplete.then(() => {
+        const remaining = [...this.shadowRoot!.querySelectorAll<HTMLElement>('[part~="custom-swatch"]')];
+        const next =
+          remaining[Math.min(index, remaining.length - 1)] ??
+          this.shadowRoot!.querySelector<HTMLElement>('.color-picker__add-swatch');
+        next?.focus();
+      });
+    }
+  }
+
+  private loadStoredColors() {
+    this.storedRecentColors = this.recentColors ? this.colorStorage.get(this.recentColorsKey) : [];
+    this.storedSwatches = this.customSwatches ? this.colorStorage.get(this.swatchesKey) : [];
+  }
+
+  /** Adds the value to the recent colors when it has changed since the color picker received focus. */
+  private addRecentColor() {
+    if (!this.recentColors || !this.value || this.value === this.valueOnFocus) {
+      return;
+    }
+
+    const colors = [this.value, ...this.withoutColor(this.colorStorage.get(this.recentColorsKey), this.value)];
+    this.valueOnFocus = this.value;
+    storeColors(this.colorStorage, this.recentColorsKey, colors.slice(0, Math.max(this.maxRecentColors, 0)));
+  }
+
+  /** Removes the colors that look the same as the given color, regardless of their format. */
+  private withoutColor(colors: string[], color: string) {
+    const hexa = this.parseColor(color)?.hexa;
+    return colors.filter(c => this.parseColor(c)?.hexa !== hexa);
+  }
+
   /** Generates a hex string from HSV values. Hue must be 0-360. All other arguments must be 0-100. */
   private getHexString(hue: number, saturation: number, brightness: number, alpha = 100) {
     const color = new TinyColor(`hsva(${hue}, ${saturation}, ${brightness}, ${alpha / 100})`);
@@ -656,6 +841,11 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
     event.stopImmediatePropagation();
   }
 
+  @watch(['recentColors', 'customSwatches', 'storageKey', 'storage'])
+  handleStorageChange() {
+    this.loadStoredColors();
+  }
+
   @watch('format', { waitUntilFirstUpdate: true })
   handleFormatChange() {
     this.syncValues();
@@ -719,8 +909,25 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
     }
   }
 
-  /** Returns the current value as a string in the specified format. */
-  getFormattedValue(format: 'hex' | 'hexa' | 'rgb' | 'rgba' | 'hsl' | 'hsla' | 'hsv' | 'hsva' = 'hex') {
+  /**
+   * Returns the current value as a string in the specified format. The CSS Color 4 formats `hwb`, `lab`, `oklab`, and
+   * `oklch` include the alpha when opacity is enabled.
+   */
+  getFormattedValue(
+    format:
+      | 'hex'
+      | 'hexa'
+      | 'rgb'
+      | 'rgba'
+      | 'hsl'
+      | 'hsla'
+      | 'hsv'
+      | 'hsva'
+      | 'hwb'
+      | 'lab'
+      | 'oklab'
+      | 'oklch' = 'hex'
+  ) {
     const currentColor = this.parseColor(
       `hsva(${this.hue}, ${this.saturation}%, ${this.brightness}%, ${this.alpha / 100})`
     );
@@ -746,11 +953,36 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
         return currentColor.hsv.string;
       case 'hsva':
         return currentColor.hsva.string;
+      case 'hwb':
+      case 'lab':
+      case 'oklab':
+      case 'oklch':
+        return this.opacity ? currentColor[format].alphaString : currentColor[format].string;
       default:
         return '';
     }
   }
 
+  /** Adds a color to the custom swatches. When no color is given, the current value is added. */
+  addSwatch(color = this.value) {
+    if (!color || !this.parseColor(color)) {
+      return;
+    }
+
+    const colors = [...this.withoutColor(this.colorStorage.get(this.swatchesKey), color), color];
+    storeColors(this.colorStorage, this.swatchesKey, colors);
+  }
+
+  /** Removes a color from the custom swatches. */
+  removeSwatch(color: string) {
+    storeColors(this.colorStorage, this.swatchesKey, this.withoutColor(this.colorStorage.get(this.swatchesKey), color));
+  }
+
+  /** Forgets the recent colors. */
+  clearRecentColors() {
+    storeColors(this.colorStorage, this.recentColorsKey, []);
+  }
+
   /** Checks for validity but does not show a validation message. Returns `true` when valid and `false` when invalid. */
   checkValidity() {
     return this.input.checkValidity();
@@ -781,8 +1013,61 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
 
   /** Sets a custom validation message. Pass an empty string to restore validity. */
   setCustomValidity(message: string) {
-    this.input.setCustomValidity(message);
-    this.formControlController.updateValidity();
+    this.formControlController.setCustomValidity(message);
+  }
+
+  private renderSwatch(swatch: string, part: string) {
+    const parsedColor = this.parseColor(swatch);
+    const isCustom = part.split(' ').includes('custom-swatch');
+
+    // If we can't parse it, skip it
+    if (!parsedColor) {
+      console.error(`Unable to parse swatch color: "${swatch}"`, this);
+      return '';
+    }
+
+    return html`
+      <div
+        part=${part}
+        class=${classMap({
+          'color-picker__swatch': true,
+          'color-picker__swatch--custom': isCustom,
+          'color-picker__transparent-bg': true
+        })}
+        tabindex=${ifDefined(this.disabled ? undefined : '0')}
+        role="button"
+        aria-label=${swatch}
+        @click=${() => this.selectSwatch(swatch)}
+        @keydown=${(event: KeyboardEvent) => {
+          if (!this.disabled && event.key === 'Enter') {
+            this.setColor(parsedColor.hexa);
+          }
+
+          if (isCustom) {
+            this.handleCustomSwatchKeyDown(event, swatch);
+          }
+        }}
+      >
+        <div class="color-picker__swatch-color" style=${styleMap({ backgroundColor: parsedColor.hexa })}></div>
+        ${isCustom && !this.disabled
+          ? html`
+              <button
+                part="remove-swatch-button"
+                class="color-picker__remove-swatch"
+                type="button"
+                tabindex="-1"
+                aria-label=${this.localize.term('remove')}
+                @click=${(event: MouseEvent) => {
+                  event.stopPropagation();
+                  this.removeSwatch(swatch);
+                }}
+              >
+                <sl-icon library="system" name="x-lg"></sl-icon>
+              </button>
+            `
+          : ''}
+      </div>
+    `;
   }
 
   render() {
@@ -791,6 +1076,12 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
     const swatches = Array.isArray(this.swatches)
       ? this.swatches // allow arrays for legacy purposes
       : this.swatches.split(';').filter(color => color.trim() !== '');
+    const contrastColor = this.contrastColor ? this.parseColor(this.contrastColor) : null;
+    const currentColor = this.parseColor(
+      `hsva(${this.hue}, ${this.saturation}%, ${this.brightness}%, ${this.alpha / 100})`
+    );
+    const contrastRatio =
+      contrastColor && currentColor && !this.isEmpty ? getContrastRatio(currentColor.rgba, contrastColor.rgba) : null;
 
     const colorPicker = html`
       <div
@@ -955,7 +1246,7 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
                   </sl-button>
                 `
               : ''}
-            ${hasEyeDropper
+            ${this.hasEyeDropper
               ? html`
                   <sl-button
                     part="eye-dropper-button"
@@ -981,36 +1272,93 @@ export default class SlColorPicker extends ShoelaceElement implements ShoelaceFo
           </sl-button-group>
         </div>
 
-        ${swatches.length > 0
+        ${contrastRatio !== null
+          ? html`
+              <div part="contrast" class="color-picker__contrast">
+                <div
+                  part="contrast-preview"
+                  class="color-picker__contrast-preview"
+                  style=${styleMap({ color: currentColor!.hexa, backgroundColor: contrastColor!.hex })}
+                  aria-hidden="true"
+                >
+                  Aa
+                </div>
+                <div class="color-picker__contrast-details">
+                  <div part="contrast-ratio" class="color-picker__contrast-ratio">
+                    ${this.localize.term('contrastRatio')}
+                    <strong>
+                      ${this.localize.number(Math.floor(contrastRatio * 100) / 100, { maximumFractionDigits: 2 })}:1
+                    </strong>
+                  </div>
+                  <table part="contrast-levels" class="color-picker__contrast-levels">
+                    <tr>
+                      <td></td>
+                      ${contrastLevels.map(({ level }) => html`<th scope="col">${level}</th>`)}
+                    </tr>
+                    ${(['normal', 'large'] as const).map(
+                      size => html`
+                        <tr>
+                          <th scope="row">${this.localize.term(size === 'normal' ? 'normalText' : 'largeText')}</th>
+                          ${contrastLevels.map(level => {
+                            // WCAG doesn't allow rounding, so 4.499:1 fails AA
+                            const isPassing = contrastRatio >= level[size];
+
+                            return html`
+                              <td
+                                class=${classMap({
+                                  'color-picker__contrast-level': true,
+                                  'color-picker__contrast-level--pass': isPassing,
+                                  'color-picker__contrast-level--fail': !isPassing
+                                })}
+                              >
+                                <sl-icon
+                                  library="system"
+                                  name=${isPassing ? 'check' : 'x-lg'}
+                                  label=${this.localize.term(isPassing ? 'pass' : 'fail')}
+                                ></sl-icon>
+                              </td>
+                            `;
+                          })}
+                        </tr>
+                      `
+                    )}
+                  </table>
+                </div>
+              </div>
+            `
+          : ''}
+        ${swatches.length > 0 || this.customSwatches
           ? html`
               <div part="swatches" class="color-picker__swatches">
-                ${swatches.map(swatch => {
-                  const parsedColor = this.parseColor(swatch);
-
-                  // If we can't parse it, skip it
-                  if (!parsedColor) {
-                    console.error(`Unable to parse swatch color: "${swatch}"`, this);
-                    return '';
-                  }
-
-                  return html`
-                    <div
-                      part="swatch"
-                      class="color-picker__swatch color-picker__transparent-bg"
-                      tabindex=${ifDefined(this.disabled ? undefined : '0')}
-                      role="button"
-                      aria-label=${swatch}
-                      @click=${() => this.selectSwatch(swatch)}
-                      @keydown=${(event: KeyboardEvent) =>
-                        !this.disabled && event.key === 'Enter' && this.setColor(parsedColor.hexa)}
-                    >
-                      <div
-                        class="color-picker__swatch-color"
-                        style=${styleMap({ backgroundColor: parsedColor.hexa })}
-                      ></div>
-                    </div>
-                  `;
-                })}
+                ${swatches.map(swatch => this.renderSwatch(swatch, 'swatch'))}
+                ${this.customSwatches
+                  ? html`
+                      ${this.storedSwatches.map(swatch => this.renderSwatch(swatch, 'swatch custom-swatch'))}
+                      <button
+                        part="add-swatch-button"
+                        class="color-picker__add-swatch"
+                        type="button"
+                        aria-label=${this.localize.term('addSwatch')}
+                        title=${this.localize.term('addSwatch')}
+                        ?disabled=${this.disabled || this.isEmpty}
+                        @click=${() => this.addSwatch()}
+                      >
+                        <sl-icon library="system" name="plus-lg"></sl-icon>
+                      </button>
+                    `
+                  : ''}
+              </div>
+            `
+          : ''}
+        ${this.storedRecentColors.length > 0
+          ? html`
+              <div
+                part="recent-colors"
+                class="color-picker__swatches color-picker__recent-colors"
+                role="group"
+                aria-label=${this.localize.term('recentColors')}
+              >
+                ${this.storedRecentColors.map(color => this.renderSwatch(color, 'swatch recent-color'))}
               </div>
             `
           : ''}
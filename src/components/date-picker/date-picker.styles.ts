@@ -0,0 +1,137 @@
+import { css } from 'lit';
+import componentStyles from '../../styles/component.styles.js';
+
+export default css`
+  ${componentStyles}
+
+  :host {
+    display: block;
+  }
+
+  /** The popup */
+  .date-picker {
+    display: block;
+  }
+
+  .date-picker::part(popup) {
+    z-index: var(--sl-z-index-dropdown);
+  }
+
+  .date-picker[data-current-placement^='top']::part(popup) {
+    transform-origin: bottom;
+  }
+
+  .date-picker[data-current-placement^='bottom']::part(popup) {
+    transform-origin: top;
+  }
+
+  .date-picker__trigger {
+    font-size: inherit;
+    color: var(--sl-input-icon-color);
+    margin-inline-end: calc(var(--sl-input-spacing-small) * -1);
+  }
+
+  .date-picker__value-input {
+    position: absolute;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+    padding: 0;
+    margin: 0;
+    opacity: 0;
+    z-index: -1;
+    pointer-events: none;
+  }
+
+  /* Calendar */
+  .date-picker__calendar {
+    font-family: var(--sl-font-sans);
+    font-size: var(--sl-font-size-medium);
+    font-weight: var(--sl-font-weight-normal);
+    color: var(--sl-color-neutral-700);
+    box-shadow: var(--sl-shadow-large);
+    background: var(--sl-panel-background-color);
+    border: solid var(--sl-panel-border-width) var(--sl-panel-border-color);
+    border-radius: var(--sl-border-radius-medium);
+    padding: var(--sl-spacing-x-small);
+    user-select: none;
+    -webkit-user-select: none;
+  }
+
+  .date-picker__calendar[hidden] {
+    display: none;
+  }
+
+  .date-picker__header {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    margin-bottom: var(--sl-spacing-2x-small);
+  }
+
+  .date-picker__title {
+    flex: 1 1 auto;
+    font-weight: var(--sl-font-weight-semibold);
+    text-align: center;
+  }
+
+  .date-picker__grid {
+    border-collapse: collapse;
+  }
+
+  .date-picker__weekday {
+    font-size: var(--sl-font-size-small);
+    font-weight: var(--sl-font-weight-semibold);
+    color: var(--sl-color-neutral-500);
+    width: 2.25em;
+    height: 2em;
+    text-align: center;
+  }
+
+  .date-picker__day {
+    width: 2.25em;
+    height: 2.25em;
+    border-radius: var(--sl-border-radius-medium);
+    text-align: center;
+    cursor: pointer;
+  }
+
+  .date-picker__day:hover {
+    background-color: var(--sl-color-neutral-100);
+  }
+
+  .date-picker__day:focus {
+    outline: none;
+  }
+
+  .date-picker__day:focus-visible {
+    outline: var(--sl-focus-ring);
+    outline-offset: calc(-1 * var(--sl-focus-ring-width));
+  }
+
+  .date-picker__day--outside {
+    color: var(--sl-color-neutral-400);
+  }
+
+  .date-picker__day--today {
+    font-weight: var(--sl-font-weight-bold);
+    color: var(--sl-color-primary-600);
+  }
+
+  .date-picker__day--selected,
+  .date-picker__day--selected:hover {
+    background-color: var(--sl-color-primary-600);
+    color: var(--sl-color-neutral-0);
+  }
+
+  .date-picker__day--disabled {
+    color: var(--sl-color-neutral-300);
+    text-decoration: line-through;
+    cursor: not-allowed;
+  }
+
+  .date-picker__day--disabled:hover {
+    background: none;
+  }
+`;
@@ -0,0 +1,213 @@
+import '../../../dist/shoelace.js';
+import { aTimeout, expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { clickOnElement } from '../../internal/test.js';
+import { runFormControlBaseTests } from '../../internal/test/form-control-base-tests.js';
+import { sendKeys } from '@web/test-runner-commands';
+import { serialize } from '../../utilities/form.js';
+import sinon from 'sinon';
+import type SlDatePicker from './date-picker.js';
+
+describe('<sl-date-picker>', () => {
+  it('should pass accessibility tests', async () => {
+    const el = await fixture<SlDatePicker>(html` <sl-date-picker label="Select a date"></sl-date-picker> `);
+    await expect(el).to.be.accessible();
+  });
+
+  it('should display the value in the current locale', async () => {
+    const el = await fixture<SlDatePicker>(html` <sl-date-picker lang="de" value="2023-06-15"></sl-date-picker> `);
+    expect(el.input.value).to.equal('15.06.2023');
+  });
+
+  it('should get and set the value as a date', async () => {
+    const el = await fixture<SlDatePicker>(html` <sl-date-picker value="2023-06-15"></sl-date-picker> `);
+
+    expect(el.valueAsDate!.getFullYear()).to.equal(2023);
+    expect(el.valueAsDate!.getMonth()).to.equal(5);
+    expect(el.valueAsDate!.getDate()).to.equal(15);
+
+    el.valueAsDate = new Date(2024, 1, 29);
+    expect(el.value).to.equal('2024-02-29');
+  });
+
+  it('should not emit sl-change or sl-input when the value is changed programmatically', async () => {
+    const el = await fixture<SlDatePicker>(html` <sl-date-picker></sl-date-picker> `);
+
+    el.addEventListener('sl-change', () => expect.fail('sl-change should not be emitted'));
+    el.addEventListener('sl-input', () => expect.fail('sl-input should not be emitted'));
+    el.value = '2023-06-15';
+    await el.updateComplete;
+  });
+
+  it('should parse a typed date and emit sl-change and sl-input', async () => {
+    const el = await fixture<SlDatePicker>(html` <sl-date-picker lang="de"></sl-date-picker> `);
+    const changeHandler = sinon.spy();
+    const inputHandler = sinon.spy();
+
+    el.addEventListener('sl-change', changeHandler);
+    el.addEventListener('sl-input', inputHandler);
+    el.focus();
+    await sendKeys({ type: '1.2.2023' });
+    await sendKeys({ press: 'Enter' });
+    await el.updateComplete;
+
+    expect(el.value).to.equal('2023-02-01');
+    expect(el.input.value).to.equal('01.02.2023');
+    expect(changeHandler).to.have.been.calledOnce;
+    expect(inputHandler).to.have.been.calledOnce;
+  });
+
+  it('should restore the previous value when an invalid date is typed', async () => {
+    const el = await fixture<SlDatePicker>(html` <sl-date-picker value="2023-06-15"></sl-date-picker> `);
+
+    el.focus();
+    await sendKeys({ press: 'Control+A' });
+    await sendKeys({ type: '2023-02-30' });
+    await sendKeys({ press: 'Enter' });
+    await el.updateComplete;
+
+    expect(el.value).to.equal('2023-06-15');
+  });
+
+  describe('when the calendar is open', () => {
+    it('should open when the trigger is clicked', async () => {
+      const el = await fixture<SlDatePicker>(html` <sl-date-picker></sl-date-picker> `);
+      const trigger = el.shadowRoot!.querySelector<HTMLElement>('[part~="trigger"]')!;
+
+      await clickOnElement(trigger);
+      await oneEvent(el, 'sl-after-show');
+
+      expect(el.open).to.be.true;
+      expect(el.calendar.hidden).to.be.false;
+    });
+
+    it('should start at the month of the selected date', async () => {
+      const el = await fixture<SlDatePicker>(html` <sl-date-picker value="2023-06-15" lang="en"></sl-date-picker> `);
+
+      await el.show();
+      const title = el.shadowRoot!.querySelector('[part~="title"]')!;
+      const selected = el.shadowRoot!.querySelector('[part~="day--selected"]')!;
+
+      expect(title.textContent!.trim()).to.equal('June 2023');
+      expect(selected.textContent!.trim()).to.equal('15');
+      expect(selected.getAttribute('tabindex')).to.equal('0');
+    });
+
+    it('should move between days with the arrow keys and select a day with enter', async () => {
+      const el = await fixture<SlDatePicker>(html` <sl-date-picker value="2023-06-15"></sl-date-picker> `);
+      const changeHandler = sinon.spy();
+
+      el.addEventListener('sl-change', changeHandler);
+      await el.show();
+      await sendKeys({ press: 'ArrowRight' });
+      await sendKeys({ press: 'ArrowDown' });
+      await sendKeys({ press: 'Enter' });
+      await el.updateComplete;
+      await aTimeout(50);
+
+      expect(el.value).to.equal('2023-06-23');
+      expect(el.open).to.be.false;
+      expect(changeHandler).to.have.been.calledOnce;
+    });
+
+    it('should change the month with page up and page down', async () => {
+      const el = await fixture<SlDatePicker>(html` <sl-date-picker value="2023-01-31"></sl-date-picker> `);
+
+      await el.show();
+      await sendKeys({ press: 'PageDown' });
+      await sendKeys({ press: 'Enter' });
+      await el.updateComplete;
+
+      expect(el.value).to.equal('2023-02-28');
+    });
+
+    it('should not select dates outside of the min and max range', async () => {
+      const el = await fixture<SlDatePicker>(html`
+        <sl-date-picker value="2023-06-15" max="2023-06-15"></sl-date-picker>
+      `);
+
+      await el.show();
+      await sendKeys({ press: 'ArrowRight' });
+      await sendKeys({ press: 'Enter' });
+      await el.updateComplete;
+
+      expect(el.value).to.equal('2023-06-15');
+      expect(el.open).to.be.true;
+    });
+
+    it('should close when escape is pressed', async () => {
+      const el = await fixture<SlDatePicker>(html` <sl-date-picker></sl-date-picker> `);
+
+      await el.show();
+      await sendKeys({ press: 'Escape' });
+      await oneEvent(el, 'sl-after-hide');
+
+      expect(el.open).to.be.false;
+    });
+  });
+
+  describe('when using constraint validation', () => {
+    it('should be invalid when required and empty', async () => {
+      const el = await fixture<SlDatePicker>(html` <sl-date-picker required></sl-date-picker> `);
+      expect(el.checkValidity()).to.be.false;
+
+      el.value = '2023-06-15';
+      await el.updateComplete;
+      expect(el.checkValidity()).to.be.true;
+    });
+
+    it('should be invalid when the value is outside of the min and max range', async () => {
+      const el = await fixture<SlDatePicker>(html`
+        <sl-date-picker min="2023-06-01" max="2023-06-30" value="2023-07-01"></sl-date-picker>
+      `);
+
+      expect(el.checkValidity()).to.be.false;
+      expect(el.validity.rangeOverflow).to.be.true;
+    });
+
+    it('should be invalid when the value is a disabled date', async () => {
+      const el = await fixture<SlDatePicker>(html` <sl-date-picker value="2023-06-17"></sl-date-picker> `);
+
+      el.isDateDisabled = date => date.getDay() === 0 || date.getDay() === 6;
+      await el.updateComplete;
+      await el.updateComplete;
+
+      expect(el.checkValidity()).to.be.false;
+      expect(el.validity.customError).to.be.true;
+      expect(el.hasAttribute('data-invalid')).to.be.true;
+    });
+  });
+
+  describe('when submitting a form', () => {
+    it('should serialize its name and value with FormData', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><sl-date-picker name="date" value="2023-06-15"></sl-date-picker></form>
+      `);
+      const json = serialize(form);
+      expect(json.date).to.equal('2023-06-15');
+    });
+  });
+
+  describe('when resetting a form', () => {
+    it('should reset the element to its initial value', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-date-picker name="date" value="2023-06-15"></sl-date-picker>
+          <sl-button type="reset">Reset</sl-button>
+        </form>
+      `);
+      const button = form.querySelector('sl-button')!;
+      const datePicker = form.querySelector('sl-date-picker')!;
+      datePicker.value = '2024-01-01';
+
+      await datePicker.updateComplete;
+      setTimeout(() => button.click());
+
+      await oneEvent(form, 'reset');
+      await datePicker.updateComplete;
+
+      expect(datePicker.value).to.equal('2023-06-15');
+    });
+  });
+
+  runFormControlBaseTests('sl-date-picker');
+});
@@ -0,0 +1,807 @@
+import {
+  addDays,
+  addMonths,
+  createDate,
+  isSameDay,
+  isSameMonth,
+  parseIsoDate,
+  startOfMonth,
+  startOfWeek,
+  today,
+  toIsoDate
+} from '../../internal/date.js';
+import { animateTo, stopAnimations } from '../../internal/animate.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { customElement } from '../../internal/scope.js';
+import { defaultValue } from '../../internal/default-value.js';
+import { FormControlController } from '../../internal/form.js';
+import { getAnimation, setDefaultAnimation } from '../../utilities/animation-registry.js';
+import { HasSlotController } from '../../internal/slot.js';
+import { html } from 'lit';
+import { live } from 'lit/directives/live.js';
+import { LocalizeController } from '../../utilities/localize.js';
+import { property, query, state } from 'lit/decorators.js';
+import { waitForEvent } from '../../internal/event.js';
+import { watch } from '../../internal/watch.js';
+import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIconButton from '../icon-button/icon-button.js';
+import SlInput from '../input/input.js';
+import SlPopup from '../popup/popup.js';
+import styles from './date-picker.styles.js';
+import type { CSSResultGroup } from 'lit';
+import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
+
+// The dates shown in the input are always Gregorian with Latin digits so they can be parsed back reliably
+const inputDateFormat: Intl.DateTimeFormatOptions = {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  calendar: 'gregory',
+  numberingSystem: 'latn'
+};
+
+/**
+ * @summary Date pickers let the user enter a date or choose one from a calendar.
+ * @documentation https://shoelace.style/components/date-picker
+ * @status experimental
+ * @since 2.6
+ *
+ * @dependency sl-icon-button
+ * @dependency sl-input
+ * @dependency sl-popup
+ *
+ * @slot label - The date picker's label. Alternatively, you can use the `label` attribute.
+ * @slot help-text - Text that describes how to use the date picker. Alternatively, you can use the `help-text`
+ *  attribute.
+ *
+ * @event sl-change - Emitted when the control's value changes.
+ * @event sl-clear - Emitted when the control's value is cleared.
+ * @event sl-input - Emitted when the control receives input.
+ * @event sl-focus - Emitted when the control gains focus.
+ * @event sl-blur - Emitted when the control loses focus.
+ * @event sl-show - Emitted when the calendar opens.
+ * @event sl-after-show - Emitted after the calendar opens and all animations are complete.
+ * @event sl-hide - Emitted when the calendar closes.
+ * @event sl-after-hide - Emitted after the calendar closes and all animations are complete.
+ * @event sl-invalid - Emitted when the form control has been checked for validity and its constraints aren't satisfied.
+ *
+ * @csspart form-control - The form control that wraps the label, input, and help text.
+ * @csspart form-control-label - The label's wrapper.
+ * @csspart form-control-input - The input's wrapper.
+ * @csspart form-control-help-text - The help text's wrapper.
+ * @csspart base - The `<sl-input>` that shows the date.
+ * @csspart input - The internal `<input>` control.
+ * @csspart trigger - The button that opens the calendar.
+ * @csspart calendar - The calendar container.
+ * @csspart header - The calendar's header, which contains the title and the previous and next month buttons.
+ * @csspart title - The calendar's title, which shows the month and year.
+ * @csspart navigation-button - The previous and next month buttons.
+ * @csspart grid - The table that contains the days.
+ * @csspart weekday - The weekday headings.
+ * @csspart day - Each day in the grid. Days also receive `day--selected`, `day--today`, `day--outside`, and
+ *  `day--disabled` parts to reflect their state.
+ */
+@customElement('sl-date-picker')
+export default class SlDatePicker extends ShoelaceElement implements ShoelaceFormControl {
+  static styles: CSSResultGroup = styles;
+  static dependencies = {
+    'sl-icon-button': SlIconButton,
+    'sl-input': SlInput,
+    'sl-popup': SlPopup
+  };
+
+  private readonly formControlController = new FormControlController(this, {
+    assumeInteractionOn: ['sl-blur', 'sl-input']
+  });
+  private readonly hasSlotController = new HasSlotController(this, 'help-text', 'label');
+  private readonly localize = new LocalizeController(this);
+  private customValidityMessage = '';
+
+  @query('.date-picker') popup: SlPopup;
+  @query('.date-picker__input') input: SlInput;
+  @query('.date-picker__value-input') valueInput: HTMLInputElement;
+  @query('.date-picker__calendar') calendar: HTMLElement;
+
+  @state() private focusedDate = today();
+
+  /** The name of the date picker, submitted as a name/value pair with form data. */
+  @property() name = '';
+
+  /** The current value of the date picker as an ISO 8601 date string, e.g. `2023-06-15`. */
+  @property() value = '';
+
+  /** The default value of the form control. Primarily used for resetting the form control. */
+  @defaultValue() defaultValue = '';
+
+  /** The date picker's size. */
+  @property({ reflect: true }) size: 'small' | 'medium' | 'large' = 'medium';
+
+  /** The date picker's label. If you need to display HTML, use the `label` slot instead. */
+  @property() label = '';
+
+  /** The date picker's help text. If you need to display HTML, use the `help-text` slot instead. */
+  @property({ attribute: 'help-text' }) helpText = '';
+
+  /** Placeholder text to show as a hint when the date picker is empty. */
+  @property() placeholder = '';
+
+  /** Draws a filled date picker. */
+  @property({ type: Boolean, reflect: true }) filled = false;
+
+  /** Draws a pill-style date picker with rounded edges. */
+  @property({ type: Boolean, reflect: true }) pill = false;
+
+  /** Adds a clear button when the date picker is not empty. */
+  @property({ type: Boolean }) clearable = false;
+
+  /** Disables the date picker. */
+  @property({ type: Boolean, reflect: true }) disabled = false;
+
+  /**
+   * Indicates whether or not the calendar is open. You can toggle this attribute to show and hide the calendar, or you
+   * can use the `show()` and `hide()` methods and this attribute will reflect the calendar's open state.
+   */
+  @property({ type: Boolean, reflect: true }) open = false;
+
+  /**
+   * The preferred placement of the calendar. Note that the actual placement may vary as needed to keep the calendar
+   * inside of the viewport.
+   */
+  @property({ reflect: true }) placement: 'top' | 'bottom' = 'bottom';
+
+  /**
+   * Enable this option to prevent the calendar from being clipped when the component is placed inside a container with
+   * `overflow: auto|scroll`. Hoisting uses a fixed positioning strategy that works in many, but not all, scenarios.
+   */
+  @property({ type: Boolean }) hoist = false;
+
+  /** The earliest date that can be chosen as an ISO 8601 date string. */
+  @property() min: string;
+
+  /** The latest date that can be chosen as an ISO 8601 date string. */
+  @property() max: string;
+
+  /**
+   * A function that determines whether a date can be chosen. Disabled dates can't be picked from the calendar, and
+   * typing one makes the control invalid.
+   */
+  @property({ attribute: false }) isDateDisabled: ((date: Date) => boolean) | undefined;
+
+  /**
+   * The first day of the week, where 0 is Sunday, 1 is Monday, etc. By default, the first day of the week is determined
+   * by the current locale.
+   */
+  @property({ attribute: 'first-day-of-week', type: Number }) firstDayOfWeek: number | undefined;
+
+  /**
+   * By default, form controls are associated with the nearest containing `<form>` element. This attribute allows you
+   * to place the form control outside of a form and associate it with the form that has this `id`. The form must be in
+   * the same document or shadow root for this to work.
+   */
+  @property({ reflect: true }) form = '';
+
+  /** Makes the date picker a required field. */
+  @property({ type: Boolean, reflect: true }) required = false;
+
+  /** Gets or sets the current value as a `Date` object. Returns `null` if the value can't be converted. */
+  get valueAsDate() {
+    return parseIsoDate(this.value);
+  }
+
+  set valueAsDate(newValue: Date | null) {
+    this.value = newValue ? toIsoDate(newValue) : '';
+  }
+
+  /** Gets the validity state object */
+  get validity() {
+    return this.valueInput.validity;
+  }
+
+  /** Gets the validation message */
+  get validationMessage() {
+    return this.valueInput.validationMessage;
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+
+    // Because this is a form control, it shouldn't be opened initially
+    this.open = false;
+  }
+
+  firstUpdated() {
+    this.updateDateValidity();
+  }
+
+  private addOpenListeners() {
+    document.addEventListener('focusin', this.handleDocumentFocusIn);
+    document.addEventListener('mousedown', this.handleDocumentMouseDown);
+  }
+
+  private removeOpenListeners() {
+    document.removeEventListener('focusin', this.handleDocumentFocusIn);
+    document.removeEventListener('mousedown', this.handleDocumentMouseDown);
+  }
+
+  private handleDocumentFocusIn = (event: FocusEvent) => {
+    // Close when focusing out of the date picker
+    const path = event.composedPath();
+    if (this && !path.includes(this)) {
+      this.hide();
+    }
+  };
+
+  private handleDocumentMouseDown = (event: MouseEvent) => {
+    // Close when clicking outside of the date picker
+    const path = event.composedPath();
+    if (this && !path.includes(this)) {
+      this.hide();
+    }
+  };
+
+  private handleInputFocus(event: Event) {
+    event.stopPropagation();
+    this.emit('sl-focus');
+  }
+
+  private handleInputBlur(event: Event) {
+    event.stopPropagation();
+    this.emit('sl-blur');
+  }
+
+  private handleInputInput(event: Event) {
+    // The value isn't updated until the user commits the date they're typing
+    event.stopPropagation();
+  }
+
+  private handleInputChange(event: Event) {
+    const text = this.input.value.trim();
+    const oldValue = this.value;
+
+    // Prevent the <sl-input>'s sl-change event from bubbling up
+    event.stopPropagation();
+
+    if (text === '') {
+      this.value = '';
+    } else {
+      const date = this.parseDate(text);
+
+      if (date) {
+        this.value = toIsoDate(date);
+      }
+    }
+
+    // Show the canonical format, or restore the previous date when the input couldn't be parsed
+    this.input.value = this.formatDate(parseIsoDate(this.value));
+
+    if (this.value !== oldValue) {
+      this.emit('sl-input');
+      this.emit('sl-change');
+    }
+  }
+
+  private handleInputClear(event: Event) {
+    event.stopPropagation();
+    this.emit('sl-clear');
+  }
+
+  private handleInputKeyDown(event: KeyboardEvent) {
+    // Open the calendar with the down arrow, just like a select
+    if (event.key === 'ArrowDown' && !this.open) {
+      event.preventDefault();
+      this.show();
+    }
+
+    if (event.key === 'Escape' && this.open) {
+      event.preventDefault();
+      event.stopPropagation();
+      this.hide();
+    }
+  }
+
+  private handleTriggerClick() {
+    if (this.open) {
+      this.hide();
+      this.input.focus();
+    } else {
+      this.show();
+    }
+  }
+
+  private handleCalendarKeyDown(event: KeyboardEvent) {
+    const isRtl = this.localize.dir() === 'rtl';
+    const isDay = (event.target as HTMLElement).closest('[part~="day"]') !== null;
+    let newDate: Date | null = null;
+
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation();
+      this.hide();
+      this.input.focus();
+      return;
+    }
+
+    // The remaining keys only apply to the grid
+    if (!isDay) {
+      return;
+    }
+
+    switch (event.key) {
+      case 'ArrowLeft':
+        newDate = addDays(this.focusedDate, isRtl ? 1 : -1);
+        break;
+      case 'ArrowRight':
+        newDate = addDays(this.focusedDate, isRtl ? -1 : 1);
+        break;
+      case 'ArrowUp':
+        newDate = addDays(this.focusedDate, -7);
+        break;
+      case 'ArrowDown':
+        newDate = addDays(this.focusedDate, 7);
+        break;
+      case 'Home':
+        newDate = startOfWeek(this.focusedDate, this.getFirstDayOfWeek());
+        break;
+      case 'End':
+        newDate = addDays(startOfWeek(this.focusedDate, this.getFirstDayOfWeek()), 6);
+        break;
+      case 'PageUp':
+        newDate = addMonths(this.focusedDate, event.shiftKey ? -12 : -1);
+        break;
+      case 'PageDown':
+        newDate = addMonths(this.focusedDate, event.shiftKey ? 12 : 1);
+        break;
+      case 'Enter':
+      case ' ':
+        event.preventDefault();
+        this.selectDate(this.focusedDate);
+        return;
+    }
+
+    if (newDate) {
+      event.preventDefault();
+      this.focusDate(newDate);
+    }
+  }
+
+  private handleDayClick(date: Date) {
+    this.selectDate(date);
+  }
+
+  private handlePreviousMonthClick() {
+    this.focusDate(addMonths(this.focusedDate, -1), false);
+  }
+
+  private handleNextMonthClick() {
+    this.focusDate(addMonths(this.focusedDate, 1), false);
+  }
+
+  private stopNestedEventPropagation(event: CustomEvent) {
+    event.stopImmediatePropagation();
+  }
+
+  private handleInvalid(event: Event) {
+    this.formControlController.setValidity(false);
+    this.formControlController.emitInvalidEvent(event);
+  }
+
+  // Moves the keyboard focus to a date, changing the visible month as needed
+  private async focusDate(date: Date, moveFocus = true) {
+    this.focusedDate = date;
+
+    if (moveFocus) {
+      await this.updateComplete;
+      this.calendar.querySelector<HTMLElement>('[part~="day"][tabindex="0"]')?.focus();
+    }
+  }
+
+  private selectDate(date: Date) {
+    const oldValue = this.value;
+
+    if (this.isDateUnavailable(date)) {
+      return;
+    }
+
+    this.value = toIsoDate(date);
+
+    if (this.value !== oldValue) {
+      // Emit after updating
+      this.updateComplete.then(() => {
+        this.emit('sl-input');
+        this.emit('sl-change');
+      });
+    }
+
+    this.hide();
+    this.input.focus({ preventScroll: true });
+  }
+
+  // Returns the first day of the week, falling back to the locale's preference
+  private getFirstDayOfWeek() {
+    if (typeof this.firstDayOfWeek === 'number' && this.firstDayOfWeek >= 0 && this.firstDayOfWeek <= 6) {
+      return this.firstDayOfWeek;
+    }
+
+    try {
+      // Intl.Locale.weekInfo uses 1 for Monday through 7 for Sunday
+      const locale = new Intl.Locale(this.localize.lang()) as Intl.Locale & { weekInfo?: { firstDay: number } };
+      return (locale.weekInfo?.firstDay ?? 7) % 7;
+    } catch {
+      return 0;
+    }
+  }
+
+  // Determines whether a date is outside of the min/max range or disabled by the user
+  private isDateUnavailable(date: Date) {
+    const min = parseIsoDate(this.min);
+    const max = parseIsoDate(this.max);
+
+    if ((min && date < min) || (max && date > max)) {
+      return true;
+    }
+
+    return typeof this.isDateDisabled === 'function' ? this.isDateDisabled(date) : false;
+  }
+
+  // Formats a date for the input using the current locale
+  private formatDate(date: Date | null) {
+    return date ? this.localize.date(date, inputDateFormat) : '';
+  }
+
+  // Parses a date typed in the current locale's format. ISO 8601 dates are accepted as well.
+  private parseDate(text: string) {
+    const isoDate = parseIsoDate(text);
+
+    if (isoDate) {
+      return isoDate;
+    }
+
+    const numbers = text.match(/\d+/g);
+    if (!numbers || numbers.length !== 3) {
+      return null;
+    }
+
+    // Determine the order of the year, month, and day using the locale's format
+    const order = new Intl.DateTimeFormat(this.localize.lang(), inputDateFormat)
+      .formatToParts(new Date(2000, 0, 1))
+      .map(part => part.type)
+      .filter(type => type === 'year' || type === 'month' || type === 'day');
+    const parts = Object.fromEntries(order.map((type, index) => [type, Number(numbers[index])]));
+    const year = numbers[order.indexOf('year')].length <= 2 ? 2000 + parts.year : parts.year;
+
+    return createDate(year, parts.month - 1, parts.day);
+  }
+
+  // Disabled dates can't be expressed with native constraints, so they're reported as a custom error
+  private updateDateValidity() {
+    const date = parseIsoDate(this.value);
+    const isDisabled = date !== null && typeof this.isDateDisabled === 'function' && this.isDateDisabled(date);
+
+    this.valueInput.setCustomValidity(
+      this.customValidityMessage || (isDisabled ? this.localize.term('dateUnavailable') : '')
+    );
+    this.formControlController.updateValidity();
+  }
+
+  @watch('disabled', { waitUntilFirstUpdate: true })
+  handleDisabledChange() {
+    // Close the calendar when the control is disabled
+    if (this.disabled) {
+      this.open = false;
+      this.handleOpenChange();
+    }
+  }
+
+  @watch(['value', 'min', 'max', 'isDateDisabled'], { waitUntilFirstUpdate: true })
+  async handleValueChange() {
+    await this.updateComplete;
+    this.updateDateValidity();
+  }
+
+  @watch('open', { waitUntilFirstUpdate: true })
+  async handleOpenChange() {
+    if (this.open && !this.disabled) {
+      // Start at the selected date or today
+      this.focusedDate = parseIsoDate(this.value) ?? today();
+
+      // Show
+      this.emit('sl-show');
+      this.addOpenListeners();
+
+      await stopAnimations(this);
+      this.calendar.hidden = false;
+      this.popup.active = true;
+
+      await this.focusDate(this.focusedDate);
+
+      const { keyframes, options } = getAnimation(this, 'date-picker.show', { dir: this.localize.dir() });
+      await animateTo(this.popup.popup, keyframes, options);
+
+      this.emit('sl-after-show');
+    } else {
+      // Hide
+      this.emit('sl-hide');
+      this.removeOpenListeners();
+
+      await stopAnimations(this);
+      const { keyframes, options } = getAnimation(this, 'date-picker.hide', { dir: this.localize.dir() });
+      await animateTo(this.popup.popup, keyframes, options);
+      this.calendar.hidden = true;
+      this.popup.active = false;
+
+      this.emit('sl-after-hide');
+    }
+  }
+
+  /** Shows the calendar. */
+  async show() {
+    if (this.open || this.disabled) {
+      this.open = false;
+      return undefined;
+    }
+
+    this.open = true;
+    return waitForEvent(this, 'sl-after-show');
+  }
+
+  /** Hides the calendar. */
+  async hide() {
+    if (!this.open || this.disabled) {
+      this.open = false;
+      return undefined;
+    }
+
+    this.open = false;
+    return waitForEvent(this, 'sl-after-hide');
+  }
+
+  /** Checks for validity but does not show a validation message. Returns `true` when valid and `false` when invalid. */
+  checkValidity() {
+    return this.valueInput.checkValidity();
+  }
+
+  /** Gets the associated form, if one exists. */
+  getForm(): HTMLFormElement | null {
+    return this.formControlController.getForm();
+  }
+
+  /** Checks for validity and shows the browser's validation message if the control is invalid. */
+  reportValidity() {
+    return this.valueInput.reportValidity();
+  }
+
+  /** Sets a custom validation message. Pass an empty string to restore validity. */
+  setCustomValidity(message: string) {
+    this.customValidityMessage = message;
+    this.updateDateValidity();
+  }
+
+  /** Sets focus on the date picker. */
+  focus(options?: FocusOptions) {
+    this.input.focus(options);
+  }
+
+  /** Removes focus from the date picker. */
+  blur() {
+    this.input.blur();
+  }
+
+  private renderCalendar() {
+    const isRtl = this.localize.dir() === 'rtl';
+    const firstDayOfWeek = this.getFirstDayOfWeek();
+    const selectedDate = parseIsoDate(this.value);
+    const todaysDate = today();
+    const viewDate = startOfMonth(this.focusedDate);
+    const firstVisibleDate = startOfWeek(viewDate, firstDayOfWeek);
+    const min = parseIsoDate(this.min);
+    const max = parseIsoDate(this.max);
+    const hasPreviousMonth = !min || addDays(viewDate, -1) >= min;
+    const hasNextMonth = !max || addMonths(viewDate, 1) <= max;
+    const weeks = [...Array(6).keys()].map(week =>
+      [...Array(7).keys()].map(day => addDays(firstVisibleDate, week * 7 + day))
+    );
+
+    return html`
+      <div class="date-picker__header" part="header">
+        <sl-icon-button
+          part="navigation-button navigation-button--previous"
+          class="date-picker__navigation-button"
+          library="system"
+          name=${isRtl ? 'chevron-right' : 'chevron-left'}
+          label=${this.localize.term('previousMonth')}
+          ?disabled=${!hasPreviousMonth}
+          @click=${this.handlePreviousMonthClick}
+          @sl-focus=${this.stopNestedEventPropagation}
+          @sl-blur=${this.stopNestedEventPropagation}
+        ></sl-icon-button>
+        <div id="title" part="title" class="date-picker__title" aria-live="polite">
+          ${this.localize.date(viewDate, { month: 'long', year: 'numeric', calendar: 'gregory' })}
+        </div>
+        <sl-icon-button
+          part="navigation-button navigation-button--next"
+          class="date-picker__navigation-button"
+          library="system"
+          name=${isRtl ? 'chevron-left' : 'chevron-right'}
+          label=${this.localize.term('nextMonth')}
+          ?disabled=${!hasNextMonth}
+          @click=${this.handleNextMonthClick}
+          @sl-focus=${this.stopNestedEventPropagation}
+          @sl-blur=${this.stopNestedEventPropagation}
+        ></sl-icon-button>
+      </div>
+
+      <table part="grid" class="date-picker__grid" role="grid" aria-labelledby="title">
+        <thead>
+          <tr>
+            ${weeks[0].map(
+              date => html`
+                <th
+                  part="weekday"
+                  class="date-picker__weekday"
+                  scope="col"
+                  abbr=${this.localize.date(date, { weekday: 'long' })}
+                >
+                  ${this.localize.date(date, { weekday: 'narrow' })}
+                </th>
+              `
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          ${weeks.map(
+            week => html`
+              <tr>
+                ${week.map(date => {
+                  const isSelected = isSameDay(date, selectedDate);
+                  const isToday = isSameDay(date, todaysDate);
+                  const isOutside = !isSameMonth(date, viewDate);
+                  const isDisabled = this.isDateUnavailable(date);
+                  const isFocused = isSameDay(date, this.focusedDate);
+
+                  return html`
+                    <td
+                      part="day ${isSelected ? 'day--selected' : ''} ${isToday ? 'day--today' : ''} ${isOutside
+                        ? 'day--outside'
+                        : ''} ${isDisabled ? 'day--disabled' : ''}"
+                      class=${classMap({
+                        'date-picker__day': true,
+                        'date-picker__day--selected': isSelected,
+                        'date-picker__day--today': isToday,
+                        'date-picker__day--outside': isOutside,
+                        'date-picker__day--disabled': isDisabled
+                      })}
+                      role="gridcell"
+                      tabindex=${isFocused ? '0' : '-1'}
+                      aria-selected=${isSelected ? 'true' : 'false'}
+                      aria-disabled=${isDisabled ? 'true' : 'false'}
+                      aria-current=${isToday ? 'date' : 'false'}
+                      aria-label=${this.localize.date(date, { dateStyle: 'full', calendar: 'gregory' })}
+                      @click=${() => this.handleDayClick(date)}
+                    >
+                      ${this.localize.number(date.getDate())}
+                    </td>
+                  `;
+                })}
+              </tr>
+            `
+          )}
+        </tbody>
+      </table>
+    `;
+  }
+
+  render() {
+    const hasLabelSlot = this.hasSlotController.test('label');
+    const hasHelpTextSlot = this.hasSlotController.test('help-text');
+
+    return html`
+      <sl-popup
+        class=${classMap({
+          'date-picker': true,
+          'date-picker--open': this.open,
+          'date-picker--disabled': this.disabled
+        })}
+        placement=${`${this.placement}-start` as const}
+        strategy=${this.hoist ? 'fixed' : 'absolute'}
+        distance="4"
+        flip
+        shift
+      >
+        <sl-input
+          slot="anchor"
+          part="base"
+          class="date-picker__input"
+          exportparts="
+            form-control,
+            form-control-label,
+            form-control-input,
+            form-control-help-text,
+            input
+          "
+          type="text"
+          autocomplete="off"
+          label=${this.label}
+          help-text=${this.helpText}
+          placeholder=${this.placeholder}
+          size=${this.size}
+          .value=${live(this.formatDate(parseIsoDate(this.value)))}
+          ?filled=${this.filled}
+          ?pill=${this.pill}
+          ?clearable=${this.clearable}
+          ?disabled=${this.disabled}
+          ?required=${this.required}
+          aria-haspopup="dialog"
+          aria-expanded=${this.open ? 'true' : 'false'}
+          @keydown=${this.handleInputKeyDown}
+          @sl-focus=${this.handleInputFocus}
+          @sl-blur=${this.handleInputBlur}
+          @sl-input=${this.handleInputInput}
+          @sl-change=${this.handleInputChange}
+          @sl-clear=${this.handleInputClear}
+        >
+          ${hasLabelSlot ? html`<slot name="label" slot="label"></slot>` : ''}
+          ${hasHelpTextSlot ? html`<slot name="help-text" slot="help-text"></slot>` : ''}
+          <sl-icon-button
+            slot="suffix"
+            part="trigger"
+            class="date-picker__trigger"
+            library="system"
+            name="calendar"
+            label=${this.localize.term('chooseDate')}
+            ?disabled=${this.disabled}
+            @click=${this.handleTriggerClick}
+            @sl-focus=${this.stopNestedEventPropagation}
+            @sl-blur=${this.stopNestedEventPropagation}
+          ></sl-icon-button>
+        </sl-input>
+
+        <div
+          part="calendar"
+          class="date-picker__calendar"
+          role="dialog"
+          aria-label=${this.localize.term('chooseDate')}
+          hidden
+          @keydown=${this.handleCalendarKeyDown}
+        >
+          ${this.open ? this.renderCalendar() : ''}
+        </div>
+      </sl-popup>
+
+      <input
+        class="date-picker__value-input"
+        type="date"
+        .value=${this.value}
+        min=${this.min ?? ''}
+        max=${this.max ?? ''}
+        ?disabled=${this.disabled}
+        ?required=${this.required}
+        tabindex="-1"
+        aria-hidden="true"
+        @focus=${() => this.focus()}
+        @invalid=${this.handleInvalid}
+      />
+    `;
+  }
+}
+
+setDefaultAnimation('date-picker.show', {
+  keyframes: [
+    { opacity: 0, scale: 0.9 },
+    { opacity: 1, scale: 1 }
+  ],
+  options: { duration: 100, easing: 'ease' }
+});
+
+setDefaultAnimation('date-picker.hide', {
+  keyframes: [
+    { opacity: 1, scale: 1 },
+    { opacity: 0, scale: 0.9 }
+  ],
+  options: { duration: 100, easing: 'ease' }
+});
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'sl-date-picker': SlDatePicker;
+  }
+}
@@ -1,9 +1,10 @@
-import '../../../dist/shoelace.js';
 // cspell:dictionaries lorem-ipsum
 import { expect, fixture, html, waitUntil } from '@open-wc/testing';
+import { getModalStack, getTopModal } from '../../../dist/shoelace.js';
 import { sendKeys } from '@web/test-runner-commands';
 import sinon from 'sinon';
 import type SlDialog from './dialog';
+import type SlDrawer from '../drawer/drawer';
 
 describe('<sl-dialog>', () => {
   it('should be visible with the open attribute', async () => {
@@ -146,4 +147,70 @@ describe('<sl-dialog>', () => {
 
     expect(el.open).to.be.false;
   });
+
+  it('should make the rest of the page inert while open', async () => {
+    const container = await fixture<HTMLDivElement>(html`
+      <div>
+        <button>Outside</button>
+        <sl-dialog></sl-dialog>
+      </div>
+    `);
+    const button = container.querySelector('button')!;
+    const el = container.querySelector<SlDialog>('sl-dialog')!;
+
+    await el.show();
+    expect(button.hasAttribute('inert')).to.be.true;
+    expect(el.hasAttribute('inert')).to.be.false;
+
+    await el.hide();
+    expect(button.hasAttribute('inert')).to.be.false;
+  });
+
+  it('should restore focus to the element that opened it', async () => {
+    const container = await fixture<HTMLDivElement>(html`
+      <div>
+        <button>Open</button>
+        <sl-dialog></sl-dialog>
+      </div>
+    `);
+    const button = container.querySelector('button')!;
+    const el = container.querySelector<SlDialog>('sl-dialog')!;
+
+    button.focus();
+    await el.show();
+    await el.hide();
+    await waitUntil(() => document.activeElement === button);
+
+    expect(document.activeElement).to.equal(button);
+  });
+
+  it('should stack on top of a drawer and only close the top modal when pressing Escape', async () => {
+    const drawer = await fixture<SlDrawer>(html`
+      <sl-drawer>
+        <button>Open</button>
+        <sl-dialog></sl-dialog>
+      </sl-drawer>
+    `);
+    const button = drawer.querySelector('button')!;
+    const el = drawer.querySelector<SlDialog>('sl-dialog')!;
+
+    await drawer.show();
+    button.focus();
+    await el.show();
+
+    expect(getModalStack()).to.deep.equal([drawer, el]);
+    expect(getTopModal()).to.equal(el);
+    expect(button.hasAttribute('inert')).to.be.true;
+
+    await sendKeys({ press: 'Escape' });
+    await waitUntil(() => !el.open);
+
+    expect(drawer.open).to.be.true;
+    expect(getTopModal()).to.equal(drawer);
+    expect(button.hasAttribute('inert')).to.be.false;
+
+    await waitUntil(() => document.activeElement === button);
+    await drawer.hide();
+    expect(getModalStack()).to.be.empty;
+  });
 });
@@ -1,17 +1,18 @@
-import '../icon-button/icon-button.js';
 import { animateTo, stopAnimations } from '../../internal/animate.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { getAnimation, setDefaultAnimation } from '../../utilities/animation-registry.js';
 import { HasSlotController } from '../../internal/slot.js';
 import { html } from 'lit';
 import { ifDefined } from 'lit/directives/if-defined.js';
 import { LocalizeController } from '../../utilities/localize.js';
 import { lockBodyScrolling, unlockBodyScrolling } from '../../internal/scroll.js';
+import { property, query } from 'lit/decorators.js';
 import { waitForEvent } from '../../internal/event.js';
 import { watch } from '../../internal/watch.js';
 import Modal from '../../internal/modal.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIconButton from '../icon-button/icon-button.js';
 import styles from './dialog.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -64,11 +65,11 @@ import type { CSSResultGroup } from 'lit';
 @customElement('sl-dialog')
 export default class SlDialog extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon-button': SlIconButton };
 
   private readonly hasSlotController = new HasSlotController(this, 'footer');
   private readonly localize = new LocalizeController(this);
   private modal = new Modal(this);
-  private originalTrigger: HTMLElement | null;
 
   @query('.dialog') dialog: HTMLElement;
   @query('.dialog__panel') panel: HTMLElement;
@@ -104,6 +105,7 @@ export default class SlDialog extends ShoelaceElement {
 
   disconnectedCallback() {
     super.disconnectedCallback();
+    this.modal.deactivate();
     unlockBodyScrolling(this);
   }
 
@@ -131,7 +133,8 @@ export default class SlDialog extends ShoelaceElement {
   }
 
   private handleDocumentKeyDown = (event: KeyboardEvent) => {
-    if (this.open && event.key === 'Escape') {
+    // Only the modal on top of the stack responds to the escape key
+    if (this.open && this.modal.isActive() && event.key === 'Escape') {
       event.stopPropagation();
       this.requestClose('keyboard');
     }
@@ -143,7 +146,6 @@ export default class SlDialog extends ShoelaceElement {
       // Show
       this.emit('sl-show');
       this.addOpenListeners();
-      this.originalTrigger = document.activeElement as HTMLElement;
       this.modal.activate();
 
       lockBodyScrolling(this);
@@ -220,10 +222,7 @@ export default class SlDialog extends ShoelaceElement {
       unlockBodyScrolling(this);
 
       // Restore focus to the original trigger
-      const trigger = this.originalTrigger;
-      if (typeof trigger?.focus === 'function') {
-        setTimeout(() => trigger.focus());
-      }
+      this.modal.restoreFocus();
 
       this.emit('sl-after-hide');
     }
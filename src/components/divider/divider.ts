@@ -1,4 +1,5 @@
-import { customElement, property } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
+import { property } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
 import styles from './divider.styles.js';
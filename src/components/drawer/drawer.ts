@@ -1,18 +1,19 @@
-import '../icon-button/icon-button.js';
 import { animateTo, stopAnimations } from '../../internal/animate.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { getAnimation, setDefaultAnimation } from '../../utilities/animation-registry.js';
 import { HasSlotController } from '../../internal/slot.js';
 import { html } from 'lit';
 import { ifDefined } from 'lit/directives/if-defined.js';
 import { LocalizeController } from '../../utilities/localize.js';
 import { lockBodyScrolling, unlockBodyScrolling } from '../../internal/scroll.js';
+import { property, query } from 'lit/decorators.js';
 import { uppercaseFirstLetter } from '../../internal/string.js';
 import { waitForEvent } from '../../internal/event.js';
 import { watch } from '../../internal/watch.js';
 import Modal from '../../internal/modal.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIconButton from '../icon-button/icon-button.js';
 import styles from './drawer.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -72,11 +73,11 @@ import type { CSSResultGroup } from 'lit';
 @customElement('sl-drawer')
 export default class SlDrawer extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon-button': SlIconButton };
 
   private readonly hasSlotController = new HasSlotController(this, 'footer');
   private readonly localize = new LocalizeController(this);
   private modal = new Modal(this);
-  private originalTrigger: HTMLElement | null;
 
   @query('.drawer') drawer: HTMLElement;
   @query('.drawer__panel') panel: HTMLElement;
@@ -124,6 +125,7 @@ export default class SlDrawer extends ShoelaceElement {
 
   disconnectedCallback() {
     super.disconnectedCallback();
+    this.modal.deactivate();
     unlockBodyScrolling(this);
   }
 
@@ -151,7 +153,8 @@ export default class SlDrawer extends ShoelaceElement {
   }
 
   private handleDocumentKeyDown = (event: KeyboardEvent) => {
-    if (this.open && !this.contained && event.key === 'Escape') {
+    // Only the modal on top of the stack responds to the escape key
+    if (this.open && !this.contained && this.modal.isActive() && event.key === 'Escape') {
       event.stopPropagation();
       this.requestClose('keyboard');
     }
@@ -163,12 +166,13 @@ export default class SlDrawer extends ShoelaceElement {
       // Show
       this.emit('sl-show');
       this.addOpenListeners();
-      this.originalTrigger = document.activeElement as HTMLElement;
 
-      // Lock body scrolling only if the drawer isn't contained
+      // Only drawers that aren't contained are modal and lock body scrolling
       if (!this.contained) {
         this.modal.activate();
         lockBodyScrolling(this);
+      } else {
+        this.modal.captureTrigger();
       }
 
       // When the drawer is shown, Safari will attempt to set focus on whatever element has autofocus. This causes the
@@ -249,10 +253,7 @@ export default class SlDrawer extends ShoelaceElement {
       this.panel.hidden = false;
 
       // Restore focus to the original trigger
-      const trigger = this.originalTrigger;
-      if (typeof trigger?.focus === 'function') {
-        setTimeout(() => trigger.focus());
-      }
+      this.modal.restoreFocus();
 
       this.emit('sl-after-hide');
     }
@@ -1,20 +1,20 @@
-import '../popup/popup.js';
 import { animateTo, stopAnimations } from '../../internal/animate.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement, unscopedTagName } from '../../internal/scope.js';
 import { getAnimation, setDefaultAnimation } from '../../utilities/animation-registry.js';
 import { getTabbableBoundary } from '../../internal/tabbable.js';
 import { html } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query } from 'lit/decorators.js';
 import { waitForEvent } from '../../internal/event.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlPopup from '../popup/popup.js';
 import styles from './dropdown.styles.js';
 import type { CSSResultGroup } from 'lit';
 import type SlButton from '../button/button.js';
 import type SlIconButton from '../icon-button/icon-button.js';
 import type SlMenu from '../menu/menu.js';
-import type SlPopup from '../popup/popup.js';
 import type SlSelectEvent from '../../events/sl-select.js';
 
 /**
@@ -43,6 +43,7 @@ import type SlSelectEvent from '../../events/sl-select.js';
 @customElement('sl-dropdown')
 export default class SlDropdown extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-popup': SlPopup };
 
   @query('.dropdown') popup: SlPopup;
   @query('.dropdown__trigger') trigger: HTMLSlotElement;
@@ -133,7 +134,7 @@ export default class SlDropdown extends ShoelaceElement {
   }
 
   getMenu() {
-    return this.panel.assignedElements({ flatten: true }).find(el => el.tagName.toLowerCase() === 'sl-menu') as
+    return this.panel.assignedElements({ flatten: true }).find(el => unscopedTagName(el) === 'sl-menu') as
       | SlMenu
       | undefined;
   }
@@ -160,7 +161,7 @@ export default class SlDropdown extends ShoelaceElement {
     // Handle tabbing
     if (event.key === 'Tab') {
       // Tabbing within an open menu should close the dropdown and refocus the trigger
-      if (this.open && document.activeElement?.tagName.toLowerCase() === 'sl-menu-item') {
+      if (this.open && document.activeElement && unscopedTagName(document.activeElement) === 'sl-menu-item') {
         event.preventDefault();
         this.hide();
         this.focusOnTrigger();
@@ -199,7 +200,7 @@ export default class SlDropdown extends ShoelaceElement {
     const target = event.target as HTMLElement;
 
     // Hide the dropdown when a menu item is selected
-    if (!this.stayOpenOnSelect && target.tagName.toLowerCase() === 'sl-menu') {
+    if (!this.stayOpenOnSelect && unscopedTagName(target) === 'sl-menu') {
       this.hide();
       this.focusOnTrigger();
     }
@@ -286,7 +287,7 @@ export default class SlDropdown extends ShoelaceElement {
     let target: HTMLElement;
 
     if (accessibleTrigger) {
-      switch (accessibleTrigger.tagName.toLowerCase()) {
+      switch (unscopedTagName(accessibleTrigger)) {
         // Shoelace buttons have to update the internal button so it's announced correctly by screen readers
         case 'sl-button':
         case 'sl-icon-button':
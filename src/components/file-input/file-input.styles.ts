@@ -0,0 +1,146 @@
+import { css } from 'lit';
+import componentStyles from '../../styles/component.styles.js';
+import formControlStyles from '../../styles/form-control.styles.js';
+
+export default css`
+  ${componentStyles}
+  ${formControlStyles}
+
+  :host {
+    --preview-size: 1.5em;
+
+    display: block;
+  }
+
+  .file-input {
+    position: relative;
+    font-family: var(--sl-input-font-family);
+    font-weight: var(--sl-input-font-weight);
+    letter-spacing: var(--sl-input-letter-spacing);
+  }
+
+  /* Dropzone */
+  .file-input__dropzone {
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    justify-content: center;
+    gap: var(--sl-spacing-x-small);
+    width: 100%;
+    background-color: var(--sl-input-background-color);
+    border: dashed var(--sl-input-border-width) var(--sl-input-border-color);
+    border-radius: var(--sl-input-border-radius-medium);
+    font: inherit;
+    color: var(--sl-input-placeholder-color);
+    text-align: center;
+    cursor: pointer;
+    transition: var(--sl-transition-fast) color, var(--sl-transition-fast) border, var(--sl-transition-fast) box-shadow,
+      var(--sl-transition-fast) background-color;
+  }
+
+  .file-input__dropzone:hover:not(:disabled) {
+    background-color: var(--sl-input-background-color-hover);
+    border-color: var(--sl-input-border-color-hover);
+  }
+
+  .file-input__dropzone:focus-visible {
+    outline: none;
+    border-color: var(--sl-input-border-color-focus);
+    box-shadow: 0 0 0 var(--sl-focus-ring-width) var(--sl-input-focus-ring-color);
+  }
+
+  .file-input--dragging .file-input__dropzone {
+    background-color: var(--sl-color-primary-50);
+    border-style: solid;
+    border-color: var(--sl-color-primary-600);
+    color: var(--sl-color-primary-600);
+  }
+
+  .file-input--disabled .file-input__dropzone {
+    background-color: var(--sl-input-background-color-disabled);
+    border-color: var(--sl-input-border-color-disabled);
+    color: var(--sl-input-color-disabled);
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+
+  .file-input__icon {
+    display: flex;
+    font-size: 2em;
+  }
+
+  .file-input__native {
+    display: none;
+  }
+
+  .file-input__value-input {
+    position: absolute;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+    padding: 0;
+    margin: 0;
+    opacity: 0;
+    z-index: -1;
+  }
+
+  /* Files */
+  .file-input__files {
+    display: flex;
+    flex-wrap: wrap;
+    gap: var(--sl-spacing-2x-small);
+    margin-top: var(--sl-spacing-x-small);
+  }
+
+  .file-input__tag::part(content) {
+    display: flex;
+    align-items: center;
+    gap: var(--sl-spacing-x-small);
+    min-width: 0;
+  }
+
+  .file-input__preview {
+    width: var(--preview-size);
+    height: var(--preview-size);
+    border-radius: var(--sl-border-radius-small);
+    object-fit: cover;
+  }
+
+  .file-input__file-name {
+    max-width: 20ch;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .file-input__file-size {
+    opacity: 0.75;
+  }
+
+  /* Sizes */
+  .file-input--small .file-input__dropzone {
+    padding: var(--sl-spacing-small);
+    border-radius: var(--sl-input-border-radius-small);
+    font-size: var(--sl-input-font-size-small);
+  }
+
+  .file-input--medium .file-input__dropzone {
+    padding: var(--sl-spacing-large);
+    border-radius: var(--sl-input-border-radius-medium);
+    font-size: var(--sl-input-font-size-medium);
+  }
+
+  .file-input--large .file-input__dropzone {
+    padding: var(--sl-spacing-x-large);
+    border-radius: var(--sl-input-border-radius-large);
+    font-size: var(--sl-input-font-size-large);
+  }
+
+  /* Forced colors mode */
+  @media (forced-colors: active) {
+    .file-input__dropzone:focus-visible {
+      outline: solid var(--sl-focus-ring-width) Highlight;
+    }
+  }
+`;
@@ -0,0 +1,185 @@
+import '../../../dist/shoelace.js';
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { runFormControlBaseTests } from '../../internal/test/form-control-base-tests.js';
+import sinon from 'sinon';
+import type SlFileInput from './file-input.js';
+import type SlTag from '../tag/tag.js';
+
+function createFile(name: string, type = 'text/plain', size = 4) {
+  return new File(['x'.repeat(size)], name, { type });
+}
+
+function dropFiles(el: SlFileInput, files: File[]) {
+  const dataTransfer = new DataTransfer();
+  files.forEach(file => dataTransfer.items.add(file));
+  el.dropzone.dispatchEvent(new DragEvent('drop', { bubbles: true, cancelable: true, dataTransfer }));
+}
+
+describe('<sl-file-input>', () => {
+  it('should pass accessibility tests', async () => {
+    const el = await fixture<SlFileInput>(html` <sl-file-input label="Attachments"></sl-file-input> `);
+    await expect(el).to.be.accessible();
+  });
+
+  it('should add dropped files and emit sl-change and sl-input', async () => {
+    const el = await fixture<SlFileInput>(html` <sl-file-input multiple></sl-file-input> `);
+    const changeHandler = sinon.spy();
+    const inputHandler = sinon.spy();
+    const files = [createFile('a.txt'), createFile('b.txt')];
+
+    el.addEventListener('sl-change', changeHandler);
+    el.addEventListener('sl-input', inputHandler);
+    dropFiles(el, files);
+    await oneEvent(el, 'sl-change');
+
+    expect(el.value.map(file => file.name)).to.deep.equal(['a.txt', 'b.txt']);
+    expect(el.shadowRoot!.querySelectorAll('sl-tag')).to.have.lengthOf(2);
+    expect(changeHandler).to.have.been.calledOnce;
+    expect(inputHandler).to.have.been.calledOnce;
+  });
+
+  it('should replace the file when multiple is not set', async () => {
+    const el = await fixture<SlFileInput>(html` <sl-file-input></sl-file-input> `);
+
+    dropFiles(el, [createFile('a.txt')]);
+    await oneEvent(el, 'sl-change');
+    dropFiles(el, [createFile('b.txt'), createFile('c.txt')]);
+    await oneEvent(el, 'sl-change');
+
+    expect(el.value.map(file => file.name)).to.deep.equal(['b.txt']);
+  });
+
+  it('should not emit sl-change or sl-input when the value is changed programmatically', async () => {
+    const el = await fixture<SlFileInput>(html` <sl-file-input></sl-file-input> `);
+
+    el.addEventListener('sl-change', () => expect.fail('sl-change should not be emitted'));
+    el.addEventListener('sl-input', () => expect.fail('sl-input should not be emitted'));
+    el.value = [createFile('a.txt')];
+    await el.updateComplete;
+  });
+
+  it('should remove a file when its tag is removed', async () => {
+    const el = await fixture<SlFileInput>(html` <sl-file-input multiple></sl-file-input> `);
+    el.value = [createFile('a.txt'), createFile('b.txt')];
+    await el.updateComplete;
+
+    const tag = el.shadowRoot!.querySelector<SlTag>('sl-tag')!;
+    const removeButton = tag.shadowRoot!.querySelector<HTMLElement>('[part~="remove-button"]')!;
+    const changeHandler = sinon.spy();
+
+    el.addEventListener('sl-change', changeHandler);
+    removeButton.click();
+    await oneEvent(el, 'sl-change');
+
+    expect(el.value.map(file => file.name)).to.deep.equal(['b.txt']);
+    expect(changeHandler).to.have.been.calledOnce;
+  });
+
+  it('should show a preview for image files', async () => {
+    const el = await fixture<SlFileInput>(html` <sl-file-input multiple></sl-file-input> `);
+    el.value = [createFile('photo.png', 'image/png'), createFile('notes.txt')];
+    await el.updateComplete;
+
+    const previews = el.shadowRoot!.querySelectorAll<HTMLImageElement>('[part~="preview"]');
+    expect(previews).to.have.lengthOf(1);
+    expect(previews[0].src).to.match(/^blob:/);
+  });
+
+  describe('when using constraint validation', () => {
+    it('should be invalid when required and empty', async () => {
+      const el = await fixture<SlFileInput>(html` <sl-file-input required></sl-file-input> `);
+      expect(el.checkValidity()).to.be.false;
+      expect(el.hasAttribute('data-invalid')).to.be.true;
+
+      el.value = [createFile('a.txt')];
+      await el.updateComplete;
+      expect(el.checkValidity()).to.be.true;
+    });
+
+    it('should be invalid when a file is not accepted', async () => {
+      const el = await fixture<SlFileInput>(html` <sl-file-input accept=".pdf, image/*"></sl-file-input> `);
+
+      el.value = [createFile('photo.jpg', 'image/jpeg')];
+      await el.updateComplete;
+      expect(el.checkValidity()).to.be.true;
+
+      el.value = [createFile('notes.txt')];
+      await el.updateComplete;
+      expect(el.checkValidity()).to.be.false;
+      expect(el.validationMessage).to.contain('notes.txt');
+    });
+
+    it('should be invalid when a file is larger than max-size', async () => {
+      const el = await fixture<SlFileInput>(html` <sl-file-input max-size="10"></sl-file-input> `);
+
+      el.value = [createFile('large.txt', 'text/plain', 20)];
+      await el.updateComplete;
+
+      expect(el.checkValidity()).to.be.false;
+      expect(el.shadowRoot!.querySelector('sl-tag')!.variant).to.equal('danger');
+    });
+
+    it('should be invalid when there are more files than max-files', async () => {
+      const el = await fixture<SlFileInput>(html` <sl-file-input multiple max-files="1"></sl-file-input> `);
+
+      el.value = [createFile('a.txt'), createFile('b.txt')];
+      await el.updateComplete;
+
+      expect(el.checkValidity()).to.be.false;
+    });
+
+    it('should keep a custom validation message when the files change', async () => {
+      const el = await fixture<SlFileInput>(html` <sl-file-input></sl-file-input> `);
+
+      el.setCustomValidity('Invalid selection');
+      el.value = [createFile('a.txt')];
+      await el.updateComplete;
+
+      expect(el.checkValidity()).to.be.false;
+      expect(el.validationMessage).to.equal('Invalid selection');
+    });
+  });
+
+  describe('when submitting a form', () => {
+    it('should submit the files with FormData', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><sl-file-input name="attachments" multiple></sl-file-input></form>
+      `);
+      const el = form.querySelector('sl-file-input')!;
+      const files = [createFile('a.txt'), createFile('b.txt')];
+
+      el.value = files;
+      await el.updateComplete;
+
+      const formData = new FormData(form);
+      expect(formData.getAll('attachments')).to.deep.equal(files);
+    });
+
+    it('should prevent submission when required and empty', async () => {
+      const form = await fixture<HTMLFormElement>(html`<form><sl-file-input required></sl-file-input></form>`);
+      const submitHandler = sinon.spy((event: SubmitEvent) => event.preventDefault());
+
+      form.addEventListener('submit', submitHandler);
+      form.requestSubmit();
+
+      expect(form.reportValidity()).to.be.false;
+      expect(submitHandler).to.not.have.been.called;
+    });
+  });
+
+  describe('when resetting a form', () => {
+    it('should remove the files', async () => {
+      const form = await fixture<HTMLFormElement>(html`<form><sl-file-input name="a"></sl-file-input></form>`);
+      const el = form.querySelector('sl-file-input')!;
+
+      el.value = [createFile('a.txt')];
+      await el.updateComplete;
+      form.reset();
+      await el.updateComplete;
+
+      expect(el.value).to.deep.equal([]);
+    });
+  });
+
+  runFormControlBaseTests('sl-file-input');
+});
@@ -0,0 +1,531 @@
+import { classMap } from 'lit/directives/class-map.js';
+import { customElement } from '../../internal/scope.js';
+import { formatBytes } from '../../internal/number.js';
+import { FormControlController } from '../../internal/form.js';
+import { HasSlotController } from '../../internal/slot.js';
+import { html } from 'lit';
+import { LocalizeController } from '../../utilities/localize.js';
+import { property, query, state } from 'lit/decorators.js';
+import { validatorsConverter } from '../../internal/validators.js';
+import { watch } from '../../internal/watch.js';
+import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlFormatBytes from '../format-bytes/format-bytes.js';
+import SlIcon from '../icon/icon.js';
+import SlTag from '../tag/tag.js';
+import styles from './file-input.styles.js';
+import type { CSSResultGroup } from 'lit';
+import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
+import type { Validator } from '../../internal/validators.js';
+
+// Determines if a file matches an `accept` list of file extensions and MIME types, e.g. `.pdf, image/*`
+function isAcceptedFile(file: File, accept: string) {
+  const fileName = file.name.toLowerCase();
+  const fileType = file.type.toLowerCase();
+
+  return accept
+    .split(',')
+    .map(type => type.trim().toLowerCase())
+    .filter(type => type !== '')
+    .some(type => {
+      if (type.startsWith('.')) {
+        return fileName.endsWith(type);
+      }
+
+      if (type.endsWith('/*')) {
+        return fileType.startsWith(type.slice(0, -1));
+      }
+
+      return fileType === type;
+    });
+}
+
+function isSameFile(a: File, b: File) {
+  return a.name === b.name && a.size === b.size && a.lastModified === b.lastModified && a.type === b.type;
+}
+
+/**
+ * @summary File inputs let the user choose files by browsing or by dragging and dropping them.
+ * @documentation https://shoelace.style/components/file-input
+ * @status experimental
+ * @since 2.6
+ *
+ * @dependency sl-format-bytes
+ * @dependency sl-icon
+ * @dependency sl-tag
+ *
+ * @slot label - The file input's label. Alternatively, you can use the `label` attribute.
+ * @slot help-text - Text that describes how to use the file input. Alternatively, you can use the `help-text`
+ *  attribute.
+ * @slot icon - An icon to show in the dropzone in lieu of the default icon.
+ * @slot dropzone-label - Text to show in the dropzone in lieu of the default text.
+ *
+ * @event sl-blur - Emitted when the control loses focus.
+ * @event sl-change - Emitted when files are added or removed by the user.
+ * @event sl-focus - Emitted when the control gains focus.
+ * @event sl-input - Emitted when the control receives input.
+ * @event sl-invalid - Emitted when the form control has been checked for validity and its constraints aren't satisfied.
+ *
+ * @csspart form-control - The form control that wraps the label, input, and help text.
+ * @csspart form-control-label - The label's wrapper.
+ * @csspart form-control-input - The input's wrapper.
+ * @csspart form-control-help-text - The help text's wrapper.
+ * @csspart base - The component's base wrapper, the dropzone that can be clicked to browse for files.
+ * @csspart icon - The container that wraps the dropzone's icon.
+ * @csspart dropzone-label - The dropzone's text.
+ * @csspart files - The container that houses the tags of the selected files.
+ * @csspart tag - The tags that represent each selected file.
+ * @csspart tag__base - The tag's base part.
+ * @csspart tag__content - The tag's content part.
+ * @csspart tag__remove-button - The tag's remove button.
+ * @csspart tag__remove-button__base - The tag's remove button base part.
+ * @csspart preview - The thumbnail that's shown for image files.
+ *
+ * @cssproperty --preview-size - The size of the thumbnails that are shown for image files.
+ */
+@customElement('sl-file-input')
+export default class SlFileInput extends ShoelaceElement implements ShoelaceFormControl {
+  static styles: CSSResultGroup = styles;
+  static dependencies = {
+    'sl-format-bytes': SlFormatBytes,
+    'sl-icon': SlIcon,
+    'sl-tag': SlTag
+  };
+
+  private readonly formControlController = new FormControlController(this, {
+    assumeInteractionOn: ['sl-change'],
+    setValue: (control: SlFileInput, files: File[]) => (control.value = [...files]),
+    dirty: (control: SlFileInput) =>
+      control.value.length !== control.defaultValue.length ||
+      control.value.some((file, index) => file !== control.defaultValue[index]),
+    markPristine: (control: SlFileInput) => (control.defaultValue = [...control.value]),
+    setValidationMessage: (control: SlFileInput, message: string) => {
+      control.customValidityMessage = message;
+      control.updateConstraintValidity();
+    }
+  });
+  private readonly hasSlotController = new HasSlotController(this, 'help-text', 'label');
+  private readonly localize = new LocalizeController(this);
+  private readonly previewUrls = new Map<File, string>();
+  private customValidityMessage = '';
+
+  @query('.file-input__dropzone') dropzone: HTMLButtonElement;
+  @query('.file-input__native') input: HTMLInputElement;
+  @query('.file-input__value-input') valueInput: HTMLInputElement;
+
+  @state() private hasFocus = false;
+  @state() private isDragging = false;
+  @property() title = ''; // make reactive to pass through
+
+  /** The name of the file input, submitted with form data. */
+  @property() name = '';
+
+  /** The selected files, which are submitted with form data. */
+  @property({ attribute: false }) value: File[] = [];
+
+  /** The default value of the form control. Primarily used for resetting the form control. */
+  defaultValue: File[] = [];
+
+  /** The file input's size. */
+  @property({ reflect: true }) size: 'small' | 'medium' | 'large' = 'medium';
+
+  /** The file input's label. If you need to display HTML, use the `label` slot instead. */
+  @property() label = '';
+
+  /** The file input's help text. If you need to display HTML, use the `help-text` slot instead. */
+  @property({ attribute: 'help-text' }) helpText = '';
+
+  /**
+   * A comma-separated list of file extensions and MIME types that are accepted, e.g. `.pdf, image/*`. Works just like
+   * the `accept` attribute of a native file input, but files that are dropped are checked too.
+   */
+  @property() accept = '';
+
+  /** Allows more than one file to be selected. */
+  @property({ type: Boolean, reflect: true }) multiple = false;
+
+  /** The maximum size of each file in bytes. Files that are larger make the control invalid. */
+  @property({ attribute: 'max-size', type: Number }) maxSize = 0;
+
+  /** The maximum number of files that can be selected when `multiple` is enabled. Set to 0 to allow any number. */
+  @property({ attribute: 'max-files', type: Number }) maxFiles = 0;
+
+  /** Disables the file input. */
+  @property({ type: Boolean, reflect: true }) disabled = false;
+
+  /**
+   * By default, form controls are associated with the nearest containing `<form>` element. This attribute allows you
+   * to place the form control outside of a form and associate it with the form that has this `id`. The form must be in
+   * the same document or shadow root for this to work.
+   */
+  @property({ reflect: true }) form = '';
+
+  /** Requires at least one file to be selected. */
+  @property({ type: Boolean, reflect: true }) required = false;
+
+  /**
+   * Validators to run in addition to the browser's constraint validation. A validator can be a function that returns a
+   * validation message, an object with a `validate` function and a `debounce` delay for async validators, or the name
+   * of a registered rule such as `max-items:3`. In HTML, use a space-delimited list of rules.
+   */
+  @property({ converter: validatorsConverter }) validators: Validator[] = [];
+
+  /** Gets the validity state object */
+  get validity() {
+    return this.valueInput.validity;
+  }
+
+  /** Gets the validation message */
+  get validationMessage() {
+    return this.valueInput.validationMessage;
+  }
+
+  firstUpdated() {
+    this.updateConstraintValidity();
+    this.formControlController.updateValidity();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.previewUrls.forEach(url => URL.revokeObjectURL(url));
+    this.previewUrls.clear();
+  }
+
+  // Returns a message for the first file that doesn't satisfy the accept, max-size, or max-files constraints
+  private getConstraintMessage() {
+    if (this.multiple && this.maxFiles > 0 && this.value.length > this.maxFiles) {
+      return this.localize.term('maxFiles', this.maxFiles);
+    }
+
+    const file = this.value.find(f => !this.isValidFile(f));
+    if (file) {
+      return this.accept && !isAcceptedFile(file, this.accept)
+        ? this.localize.term('fileTypeNotAccepted', file.name)
+        : this.localize.term('fileTooLarge', file.name, formatBytes(this.localize, this.maxSize));
+    }
+
+    return '';
+  }
+
+  private isValidFile(file: File) {
+    return (!this.accept || isAcceptedFile(file, this.accept)) && (this.maxSize <= 0 || file.size <= this.maxSize);
+  }
+
+  // Applies the custom validity message or, when there isn't one, the message for the file constraints
+  private updateConstraintValidity() {
+    this.valueInput?.setCustomValidity(this.customValidityMessage || this.getConstraintMessage());
+  }
+
+  private getPreviewUrl(file: File) {
+    let url = this.previewUrls.get(file);
+
+    if (!url) {
+      url = URL.createObjectURL(file);
+      this.previewUrls.set(file, url);
+    }
+
+    return url;
+  }
+
+  private addFiles(files: File[]) {
+    const newFiles = files.filter(file => !this.value.some(f => isSameFile(f, file)));
+
+    if (newFiles.length === 0) {
+      return;
+    }
+
+    this.value = this.multiple ? [...this.value, ...newFiles] : newFiles.slice(0, 1);
+
+    // Emit after updating
+    this.updateComplete.then(() => {
+      this.emit('sl-input');
+      this.emit('sl-change');
+    });
+  }
+
+  private handleBlur() {
+    this.hasFocus = false;
+    this.emit('sl-blur');
+  }
+
+  private handleFocus() {
+    this.hasFocus = true;
+    this.emit('sl-focus');
+  }
+
+  private handleDropzoneClick() {
+    this.input.click();
+  }
+
+  private handleDragOver(event: DragEvent) {
+    event.preventDefault();
+
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = this.disabled ? 'none' : 'copy';
+    }
+
+    this.isDragging = !this.disabled;
+  }
+
+  private handleDragLeave(event: DragEvent) {
+    // Ignore drags that move between elements inside the dropzone
+    if (!this.dropzone.contains(event.relatedTarget as Node | null)) {
+      this.isDragging = false;
+    }
+  }
+
+  private handleDrop(event: DragEvent) {
+    event.preventDefault();
+    this.isDragging = false;
+
+    if (!this.disabled && event.dataTransfer) {
+      this.addFiles([...event.dataTransfer.files]);
+    }
+  }
+
+  private handleInputChange(event: Event) {
+    event.stopPropagation();
+    this.addFiles([...(this.input.files ?? [])]);
+
+    // Clear the native input so choosing the same file again is detected
+    this.input.value = '';
+  }
+
+  private handleInvalid(event: Event) {
+    this.formControlController.setValidity(false);
+    this.formControlController.emitInvalidEvent(event);
+  }
+
+  private handleTagRemove(event: Event, file: File) {
+    event.stopPropagation();
+
+    if (!this.disabled) {
+      this.removeFile(file);
+      this.dropzone.focus();
+
+      // Emit after updating
+      this.updateComplete.then(() => {
+        this.emit('sl-input');
+        this.emit('sl-change');
+      });
+    }
+  }
+
+  @watch('disabled', { waitUntilFirstUpdate: true })
+  handleDisabledChange() {
+    // Disabled form controls are always valid
+    this.formControlController.setValidity(this.disabled);
+  }
+
+  @watch(['accept', 'maxFiles', 'maxSize', 'multiple'], { waitUntilFirstUpdate: true })
+  handleConstraintsChange() {
+    this.updateConstraintValidity();
+    this.formControlController.updateValidity();
+  }
+
+  @watch('value', { waitUntilFirstUpdate: true })
+  async handleValueChange() {
+    // Release the thumbnails of files that were removed
+    this.previewUrls.forEach((url, file) => {
+      if (!this.value.includes(file)) {
+        URL.revokeObjectURL(url);
+        this.previewUrls.delete(file);
+      }
+    });
+
+    await this.updateComplete;
+    this.updateConstraintValidity();
+    this.formControlController.updateValidity();
+  }
+
+  /** Removes a file from the selected files. */
+  removeFile(file: File) {
+    this.value = this.value.filter(f => f !== file);
+  }
+
+  /** Opens the browser's file picker. */
+  browse() {
+    this.input.click();
+  }
+
+  /** Checks for validity but does not show a validation message. Returns `true` when valid and `false` when invalid. */
+  checkValidity() {
+    return this.valueInput.checkValidity();
+  }
+
+  /** Gets the associated form, if one exists. */
+  getForm(): HTMLFormElement | null {
+    return this.formControlController.getForm();
+  }
+
+  /** Checks for validity and shows the browser's validation message if the control is invalid. */
+  reportValidity() {
+    return this.valueInput.reportValidity();
+  }
+
+  /** Sets a custom validation message. Pass an empty string to restore validity. */
+  setCustomValidity(message: string) {
+    this.formControlController.setCustomValidity(message);
+  }
+
+  /** Sets focus on the file input. */
+  focus(options?: FocusOptions) {
+    this.dropzone.focus(options);
+  }
+
+  /** Removes focus from the file input. */
+  blur() {
+    this.dropzone.blur();
+  }
+
+  render() {
+    const hasLabelSlot = this.hasSlotController.test('label');
+    const hasHelpTextSlot = this.hasSlotController.test('help-text');
+    const hasLabel = this.label ? true : !!hasLabelSlot;
+    const hasHelpText = this.helpText ? true : !!hasHelpTextSlot;
+
+    return html`
+      <div
+        part="form-control"
+        class=${classMap({
+          'form-control': true,
+          'form-control--small': this.size === 'small',
+          'form-control--medium': this.size === 'medium',
+          'form-control--large': this.size === 'large',
+          'form-control--has-label': hasLabel,
+          'form-control--has-help-text': hasHelpText
+        })}
+      >
+        <label
+          id="label"
+          part="form-control-label"
+          class="form-control__label"
+          aria-hidden=${hasLabel ? 'false' : 'true'}
+          @click=${() => this.focus()}
+        >
+          <slot name="label">${this.label}</slot>
+        </label>
+
+        <div
+          part="form-control-input"
+          class=${classMap({
+            'form-control-input': true,
+            'file-input': true,
+            'file-input--small': this.size === 'small',
+            'file-input--medium': this.size === 'medium',
+            'file-input--large': this.size === 'large',
+            'file-input--disabled': this.disabled,
+            'file-input--focused': this.hasFocus,
+            'file-input--dragging': this.isDragging,
+            'file-input--has-files': this.value.length > 0
+          })}
+        >
+          <button
+            part="base"
+            class="file-input__dropzone"
+            type="button"
+            title=${this.title /* An empty title prevents browser validation tooltips from appearing on hover */}
+            ?disabled=${this.disabled}
+            aria-labelledby="label"
+            aria-describedby="help-text"
+            @click=${this.handleDropzoneClick}
+            @focus=${this.handleFocus}
+            @blur=${this.handleBlur}
+            @dragenter=${this.handleDragOver}
+            @dragover=${this.handleDragOver}
+            @dragleave=${this.handleDragLeave}
+            @drop=${this.handleDrop}
+          >
+            <span part="icon" class="file-input__icon">
+              <slot name="icon">
+                <sl-icon library="system" name="cloud-arrow-up"></sl-icon>
+              </slot>
+            </span>
+            <span part="dropzone-label" class="file-input__dropzone-label">
+              <slot name="dropzone-label">${this.localize.term('dropFiles')}</slot>
+            </span>
+          </button>
+
+          <input
+            class="file-input__native"
+            type="file"
+            accept=${this.accept}
+            ?multiple=${this.multiple}
+            ?disabled=${this.disabled}
+            tabindex="-1"
+            aria-hidden="true"
+            @change=${this.handleInputChange}
+          />
+
+          <input
+            class="file-input__value-input"
+            type="text"
+            ?disabled=${this.disabled}
+            ?required=${this.required}
+            .value=${this.value.map(file => file.name).join(', ')}
+            tabindex="-1"
+            aria-hidden="true"
+            @focus=${() => this.focus()}
+            @invalid=${this.handleInvalid}
+          />
+
+          ${this.value.length > 0
+            ? html`
+                <div part="files" class="file-input__files" role="list">
+                  ${this.value.map(
+                    file => html`
+                      <sl-tag
+                        part="tag"
+                        exportparts="
+                          base:tag__base,
+                          content:tag__content,
+                          remove-button:tag__remove-button,
+                          remove-button__base:tag__remove-button__base
+                        "
+                        class="file-input__tag"
+                        role="listitem"
+                        size=${this.size}
+                        variant=${this.isValidFile(file) ? 'neutral' : 'danger'}
+                        ?removable=${!this.disabled}
+                        @sl-remove=${(event: Event) => this.handleTagRemove(event, file)}
+                      >
+                        ${file.type.startsWith('image/')
+                          ? html`<img
+                              part="preview"
+                              class="file-input__preview"
+                              src=${this.getPreviewUrl(file)}
+                              alt=""
+                            />`
+                          : html`<sl-icon
+                              class="file-input__file-icon"
+                              library="system"
+                              name="file-earmark"
+                            ></sl-icon>`}
+                        <span class="file-input__file-name">${file.name}</span>
+                        <sl-format-bytes class="file-input__file-size" value=${file.size}></sl-format-bytes>
+                      </sl-tag>
+                    `
+                  )}
+                </div>
+              `
+            : ''}
+        </div>
+
+        <slot
+          name="help-text"
+          part="form-control-help-text"
+          id="help-text"
+          class="form-control__help-text"
+          aria-hidden=${hasHelpText ? 'false' : 'true'}
+        >
+          ${this.helpText}
+        </slot>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'sl-file-input': SlFileInput;
+  }
+}
@@ -1,5 +1,7 @@
-import { customElement, property } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
+import { formatBytes } from '../../internal/number.js';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property } from 'lit/decorators.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
 
 /**
@@ -26,18 +28,7 @@ export default class SlFormatBytes extends ShoelaceElement {
       return '';
     }
 
-    const bitPrefixes = ['', 'kilo', 'mega', 'giga', 'tera']; // petabit isn't a supported unit
-    const bytePrefixes = ['', 'kilo', 'mega', 'giga', 'tera', 'peta'];
-    const prefix = this.unit === 'bit' ? bitPrefixes : bytePrefixes;
-    const index = Math.max(0, Math.min(Math.floor(Math.log10(this.value) / 3), prefix.length - 1));
-    const unit = prefix[index] + this.unit;
-    const valueToFormat = parseFloat((this.value / Math.pow(1000, index)).toPrecision(3));
-
-    return this.localize.number(valueToFormat, {
-      style: 'unit',
-      unit,
-      unitDisplay: this.display
-    });
+    return formatBytes(this.localize, this.value, { unit: this.unit, display: this.display });
   }
 }
 
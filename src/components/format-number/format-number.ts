@@ -1,5 +1,6 @@
-import { customElement, property } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property } from 'lit/decorators.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
 
 /**
@@ -1,9 +1,10 @@
-import '../icon/icon.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { html, literal } from 'lit/static-html.js';
 import { ifDefined } from 'lit/directives/if-defined.js';
+import { property, query, state } from 'lit/decorators.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
 import styles from './icon-button.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -23,6 +24,7 @@ import type { CSSResultGroup } from 'lit';
 @customElement('sl-icon-button')
 export default class SlIconButton extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon': SlIcon };
 
   @query('.icon-button') button: HTMLButtonElement | HTMLLinkElement;
 
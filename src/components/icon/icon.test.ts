@@ -1,5 +1,6 @@
 import { aTimeout, elementUpdated, expect, fixture, html, oneEvent } from '@open-wc/testing';
 import { registerIconLibrary } from '../../../dist/shoelace.js';
+import sinon from 'sinon';
 import type SlErrorEvent from '../../events/sl-error';
 import type SlIcon from './icon';
 import type SlLoadEvent from '../../events/sl-load';
@@ -155,6 +156,70 @@ describe('<sl-icon>', () => {
     });
   });
 
+  describe('bundled icons', () => {
+    before(() => {
+      registerIconLibrary('bundled-library', {
+        icons: testLibraryIcons,
+        mutator: (svg: SVGElement) => svg.setAttribute('fill', 'currentColor')
+      });
+    });
+
+    afterEach(() => sinon.restore());
+
+    it('renders bundled icons without fetching them', async () => {
+      const fetchSpy = sinon.spy(window, 'fetch');
+      const el = await fixture<SlIcon>(html` <sl-icon library="bundled-library"></sl-icon> `);
+      const loadHandler = sinon.spy();
+
+      el.addEventListener('sl-load', loadHandler);
+      el.name = 'test-icon1';
+      await el.updateComplete;
+
+      expect(el.shadowRoot?.querySelector('svg')).to.exist;
+      expect(el.shadowRoot?.querySelector('svg')?.part.contains('svg')).to.be.true;
+      expect(el.shadowRoot?.querySelector('svg')?.getAttribute('fill')).to.equal('currentColor');
+      expect(loadHandler).to.have.been.calledOnce;
+      expect(fetchSpy).to.not.have.been.called;
+    });
+
+    it('renders bundled system icons without fetching them', async () => {
+      const fetchSpy = sinon.spy(window, 'fetch');
+      const el = await fixture<SlIcon>(html` <sl-icon library="system" name="x-lg"></sl-icon> `);
+      await el.updateComplete;
+
+      expect(el.shadowRoot?.querySelector('svg')).to.exist;
+      expect(fetchSpy).to.not.have.been.called;
+    });
+
+    it('emits sl-error when a bundled icon is not an svg', async () => {
+      const el = await fixture<SlIcon>(html` <sl-icon library="bundled-library"></sl-icon> `);
+      const errorHandler = sinon.spy();
+
+      el.addEventListener('sl-error', errorHandler);
+      el.name = 'bad-icon';
+      await el.updateComplete;
+
+      expect(el.shadowRoot?.querySelector('svg')).to.be.null;
+      expect(errorHandler).to.have.been.calledOnce;
+    });
+
+    it('uses the resolver for icons that are not bundled', async () => {
+      registerIconLibrary('partly-bundled-library', {
+        icons: { 'test-icon1': testLibraryIcons['test-icon1'] },
+        resolver: (name: string) => `data:image/svg+xml,${encodeURIComponent(`<svg id="${name}"></svg>`)}`
+      });
+
+      const el = await fixture<SlIcon>(html` <sl-icon library="partly-bundled-library"></sl-icon> `);
+      const listener = oneEvent(el, 'sl-load');
+
+      el.name = 'not-bundled';
+      await listener;
+      await elementUpdated(el);
+
+      expect(el.shadowRoot?.querySelector('svg')?.getAttribute('id')).to.equal('not-bundled');
+    });
+  });
+
   describe('svg spritesheets', () => {
     //  For some reason ESLint wants to fail in CI here, but works locally.
     /* eslint-disable */
@@ -1,7 +1,8 @@
-import { customElement, property, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { getIconLibrary, type IconLibrary, unwatchIcon, watchIcon } from './library.js';
 import { html } from 'lit';
 import { isTemplateResult } from 'lit/directive-helpers.js';
+import { property, state } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
 import styles from './icon.styles.js';
@@ -14,6 +15,41 @@ type SVGResult = HTMLTemplateResult | SVGSVGElement | typeof RETRYABLE_ERROR | t
 
 let parser: DOMParser;
 const iconCache = new Map<string, Promise<SVGResult>>();
+const bundledIconCache = new Map<string, SVGSVGElement | typeof CACHEABLE_ERROR>();
+
+/** Parses an SVG string into an SVG element that's ready to be cloned into an icon. */
+function parseSvg(text: string): SVGSVGElement | typeof CACHEABLE_ERROR {
+  try {
+    const div = document.createElement('div');
+    div.innerHTML = text;
+
+    const svg = div.firstElementChild;
+    if (svg?.tagName?.toLowerCase() !== 'svg') return CACHEABLE_ERROR;
+
+    if (!parser) parser = new DOMParser();
+    const doc = parser.parseFromString(svg.outerHTML, 'text/html');
+
+    const svgEl = doc.body.querySelector('svg');
+    if (!svgEl) return CACHEABLE_ERROR;
+
+    svgEl.part.add('svg');
+    return document.adoptNode(svgEl);
+  } catch {
+    return CACHEABLE_ERROR;
+  }
+}
+
+/** Returns a bundled SVG string as an SVG element, parsing it only the first time it's used. */
+function getBundledIcon(text: string) {
+  let svg = bundledIconCache.get(text);
+
+  if (!svg) {
+    svg = parseSvg(text.trim());
+    bundledIconCache.set(text, svg);
+  }
+
+  return svg;
+}
 
 /**
  * @summary Icons are symbols that can be used to represent various options within an application.
@@ -51,20 +87,7 @@ export default class SlIcon extends ShoelaceElement {
     }
 
     try {
-      const div = document.createElement('div');
-      div.innerHTML = await fileData.text();
-
-      const svg = div.firstElementChild;
-      if (svg?.tagName?.toLowerCase() !== 'svg') return CACHEABLE_ERROR;
-
-      if (!parser) parser = new DOMParser();
-      const doc = parser.parseFromString(svg.outerHTML, 'text/html');
-
-      const svgEl = doc.body.querySelector('svg');
-      if (!svgEl) return CACHEABLE_ERROR;
-
-      svgEl.part.add('svg');
-      return document.adoptNode(svgEl);
+      return parseSvg(await fileData.text());
     } catch {
       return CACHEABLE_ERROR;
     }
@@ -131,6 +154,16 @@ export default class SlIcon extends ShoelaceElement {
   @watch(['name', 'src', 'library'])
   async setIcon() {
     const library = getIconLibrary(this.library);
+    const bundledIcon = this.name ? library?.icons?.[this.name] : undefined;
+
+    // Bundled icons are drawn synchronously since there's nothing to fetch
+    if (bundledIcon !== undefined) {
+      if (this.initialRender) {
+        this.setSvg(getBundledIcon(bundledIcon), library);
+      }
+      return;
+    }
+
     const url = this.getUrl();
 
     if (!url) {
@@ -165,6 +198,10 @@ export default class SlIcon extends ShoelaceElement {
       return;
     }
 
+    this.setSvg(svg, library);
+  }
+
+  private setSvg(svg: SVGSVGElement | typeof RETRYABLE_ERROR | typeof CACHEABLE_ERROR, library?: IconLibrary) {
     switch (svg) {
       case RETRYABLE_ERROR:
       case CACHEABLE_ERROR:
@@ -9,8 +9,13 @@ export interface IconLibrary {
   resolver: IconLibraryResolver;
   mutator?: IconLibraryMutator;
   spriteSheet?: boolean;
+  /** A map of icon names to SVG strings. These icons are drawn synchronously instead of being fetched. */
+  icons?: Record<string, string>;
 }
 
+/** The resolver is optional when the library provides its icons as SVG strings. */
+export type IconLibraryOptions = Omit<IconLibrary, 'name' | 'resolver'> & { resolver?: IconLibraryResolver };
+
 let registry: IconLibrary[] = [defaultLibrary, systemLibrary];
 let watchedIcons: SlIcon[] = [];
 
@@ -30,13 +35,14 @@ export function getIconLibrary(name?: string) {
 }
 
 /** Adds an icon library to the registry, or overrides an existing one. */
-export function registerIconLibrary(name: string, options: Omit<IconLibrary, 'name'>) {
+export function registerIconLibrary(name: string, options: IconLibraryOptions) {
   unregisterIconLibrary(name);
   registry.push({
     name,
-    resolver: options.resolver,
+    resolver: options.resolver ?? (() => ''),
     mutator: options.mutator,
-    spriteSheet: options.spriteSheet
+    spriteSheet: options.spriteSheet,
+    icons: options.icons
   });
 
   // Redraw watched icons
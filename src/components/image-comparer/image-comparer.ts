@@ -1,13 +1,14 @@
-import '../icon/icon.js';
 import { clamp } from '../../internal/math.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { drag } from '../../internal/drag.js';
 import { html } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query } from 'lit/decorators.js';
 import { styleMap } from 'lit/directives/style-map.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
 import styles from './image-comparer.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -37,6 +38,7 @@ import type { CSSResultGroup } from 'lit';
 @customElement('sl-image-comparer')
 export default class SlImageComparer extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon': SlIcon };
 
   private readonly localize = new LocalizeController(this);
 
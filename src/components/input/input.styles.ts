@@ -276,6 +276,50 @@ export default css`
     visibility: hidden;
   }
 
+  /*
+   * Number formats
+   */
+
+  .input__spin-buttons {
+    display: flex;
+    flex-direction: column;
+    margin-inline-end: var(--sl-spacing-3x-small);
+  }
+
+  .input__spin-button {
+    flex: 1 1 50%;
+    display: inline-flex;
+    align-items: center;
+    justify-content: center;
+    font-size: var(--sl-font-size-x-small);
+    color: var(--sl-input-icon-color);
+    border: none;
+    background: none;
+    padding: 0 var(--sl-spacing-2x-small);
+    transition: var(--sl-transition-fast) color;
+    cursor: pointer;
+  }
+
+  .input__spin-button:hover {
+    color: var(--sl-input-icon-color-hover);
+  }
+
+  .input__spin-button:focus {
+    outline: none;
+  }
+
+  .input__number-value {
+    position: absolute;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+    padding: 0;
+    margin: 0;
+    opacity: 0;
+    z-index: -1;
+  }
+
   /* Don't show the browser's password toggle in Edge */
   ::-ms-reveal {
     display: none;
@@ -291,4 +335,11 @@ export default css`
   .input--no-spin-buttons input[type='number'] {
     -moz-appearance: textfield;
   }
+
+  /* Forced colors mode */
+  @media (forced-colors: active) {
+    .input--standard.input--focused:not(.input--disabled) {
+      outline: solid var(--sl-focus-ring-width) Highlight;
+    }
+  }
 `;
@@ -370,6 +370,223 @@ describe('<sl-input>', () => {
     });
   });
 
+  describe('when using a mask', () => {
+    it('should format the value as the user types', async () => {
+      const el = await fixture<SlInput>(html` <sl-input mask="phone"></sl-input> `);
+
+      el.focus();
+      await sendKeys({ type: '555a1234567' });
+      await el.updateComplete;
+
+      expect(el.value).to.equal('(555) 123-4567');
+      expect(el.unmaskedValue).to.equal('5551234567');
+      expect(el.input.selectionStart).to.equal(14);
+    });
+
+    it('should format values that are set programmatically', async () => {
+      const el = await fixture<SlInput>(html` <sl-input mask="date" value="12252023"></sl-input> `);
+      expect(el.value).to.equal('12/25/2023');
+
+      el.value = '0101';
+      await el.updateComplete;
+      expect(el.value).to.equal('01/01');
+    });
+
+    it('should keep the caret in place when typing in the middle of the value', async () => {
+      const el = await fixture<SlInput>(html` <sl-input mask="phone" value="5551234"></sl-input> `);
+
+      el.focus();
+      el.setSelectionRange(2, 2);
+      await sendKeys({ type: '9' });
+      await el.updateComplete;
+
+      expect(el.value).to.equal('(595) 512-34');
+      expect(el.input.selectionStart).to.equal(3);
+    });
+
+    it('should delete the character before a literal when backspace is pressed after it', async () => {
+      const el = await fixture<SlInput>(html` <sl-input mask="phone" value="5551234"></sl-input> `);
+
+      el.focus();
+      el.setSelectionRange(6, 6);
+      await sendKeys({ press: 'Backspace' });
+      await el.updateComplete;
+
+      expect(el.value).to.equal('(551) 234');
+      expect(el.input.selectionStart).to.equal(3);
+    });
+
+    it('should support optional sections and uppercase letters', async () => {
+      const el = await fixture<SlInput>(html` <sl-input mask="AA99 XXXX XXXX XXX[X XXXX]"></sl-input> `);
+
+      el.value = 'de89370400440532013000';
+      await el.updateComplete;
+
+      expect(el.value).to.equal('DE89 3704 0044 0532 0130');
+    });
+
+    it('should use a function that returns a pattern', async () => {
+      const el = await fixture<SlInput>(html` <sl-input></sl-input> `);
+
+      el.mask = value => (value.length > 5 ? '99999-9999' : '99999');
+      el.value = '123456789';
+      await el.updateComplete;
+
+      expect(el.value).to.equal('12345-6789');
+    });
+
+    it('should be invalid when the mask is not filled', async () => {
+      const el = await fixture<SlInput>(html` <sl-input mask="phone" value="555123"></sl-input> `);
+      expect(el.checkValidity()).to.be.false;
+
+      el.value = '5551234567';
+      await el.updateComplete;
+      expect(el.checkValidity()).to.be.true;
+    });
+
+    it('should submit the masked value by default and the raw value when mask-value="raw"', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-input name="a" mask="phone" value="5551234567"></sl-input>
+          <sl-input name="b" mask="phone" mask-value="raw" value="5551234567"></sl-input>
+        </form>
+      `);
+      const formData = new FormData(form);
+
+      expect(formData.get('a')).to.equal('(555) 123-4567');
+      expect(formData.get('b')).to.equal('5551234567');
+    });
+  });
+
+  describe('when using validators', () => {
+    it('should be invalid when a validator returns a message', async () => {
+      const el = await fixture<SlInput>(html` <sl-input value="abc"></sl-input> `);
+
+      el.validators = [value => (String(value).length < 5 ? 'Too short' : undefined)];
+      await el.updateComplete;
+
+      expect(el.checkValidity()).to.be.false;
+      expect(el.validity.customError).to.be.true;
+      expect(el.validationMessage).to.equal('Too short');
+      expect(el.hasAttribute('data-invalid')).to.be.true;
+
+      el.value = 'abcdef';
+      await el.updateComplete;
+
+      expect(el.checkValidity()).to.be.true;
+      expect(el.hasAttribute('data-valid')).to.be.true;
+    });
+
+    it('should parse named rules from the validators attribute', async () => {
+      const el = await fixture<SlInput>(html` <sl-input value="abc" validators="matches:[0-9]+"></sl-input> `);
+
+      expect(el.checkValidity()).to.be.false;
+
+      el.value = '123';
+      await el.updateComplete;
+
+      expect(el.checkValidity()).to.be.true;
+    });
+
+    it('should validate again when the field it depends on changes', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-input name="password" value="secret"></sl-input>
+          <sl-input name="confirm" value="secret" validators="equals-field:password"></sl-input>
+        </form>
+      `);
+      const [password, confirm] = form.querySelectorAll('sl-input');
+
+      expect(confirm.checkValidity()).to.be.true;
+
+      password.focus();
+      await sendKeys({ type: '!' });
+      await password.updateComplete;
+
+      expect(confirm.checkValidity()).to.be.false;
+      expect(confirm.validationMessage).to.equal('The values must match');
+    });
+
+    it('should not run async validators again when another field changes', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-input name="password" value="secret"></sl-input>
+          <sl-input name="confirm" value="secret"></sl-input>
+        </form>
+      `);
+      const [password, confirm] = form.querySelectorAll('sl-input');
+      const validate = sinon.spy(() => Promise.resolve('That password was found in a data breach'));
+
+      confirm.validators = ['equals-field:password', { debounce: 10, validate }];
+      await confirm.updateComplete;
+      await waitUntil(() => !confirm.hasAttribute('data-pending'));
+
+      expect(validate).to.have.been.calledOnce;
+      expect(confirm.validationMessage).to.equal('That password was found in a data breach');
+
+      password.focus();
+      await sendKeys({ type: '!' });
+      await password.updateComplete;
+
+      expect(confirm.hasAttribute('data-pending')).to.be.false;
+      expect(confirm.validationMessage).to.equal('The values must match');
+      expect(validate).to.have.been.calledOnce;
+    });
+
+    it('should give precedence to setCustomValidity() over validators', async () => {
+      const el = await fixture<SlInput>(html` <sl-input value="abc"></sl-input> `);
+
+      el.validators = [() => 'From validator'];
+      await el.updateComplete;
+      el.setCustomValidity('From custom validity');
+
+      expect(el.validationMessage).to.equal('From custom validity');
+
+      el.setCustomValidity('');
+
+      expect(el.validationMessage).to.equal('From validator');
+    });
+
+    it('should be pending while async validators run and wait for them before submitting', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-input name="username" value="admin"></sl-input>
+          <sl-button type="submit">Submit</sl-button>
+        </form>
+      `);
+      const el = form.querySelector('sl-input')!;
+      const button = form.querySelector('sl-button')!;
+      const submitHandler = sinon.spy((event: SubmitEvent) => event.preventDefault());
+      let resolveValidation: () => void;
+
+      el.validators = [
+        {
+          debounce: 10,
+          validate: async value => {
+            await new Promise<void>(resolve => (resolveValidation = resolve));
+            return value === 'admin' ? 'That username is taken' : undefined;
+          }
+        }
+      ];
+      await el.updateComplete;
+
+      expect(el.hasAttribute('data-pending')).to.be.true;
+
+      form.addEventListener('submit', submitHandler);
+      button.click();
+
+      expect(submitHandler).to.not.have.been.called;
+
+      await waitUntil(() => resolveValidation !== undefined);
+      resolveValidation!();
+      await waitUntil(() => !el.hasAttribute('data-pending'));
+
+      expect(el.checkValidity()).to.be.false;
+      expect(el.validationMessage).to.equal('That username is taken');
+      expect(submitHandler).to.not.have.been.called;
+    });
+  });
+
   describe('when the value changes', () => {
     it('should emit sl-change and sl-input when the user types in the input', async () => {
       const el = await fixture<SlInput>(html` <sl-input></sl-input> `);
@@ -467,6 +684,135 @@ describe('<sl-input>', () => {
     });
   });
 
+  describe('when using a number format', () => {
+    it("should parse numbers in the user's locale", async () => {
+      const el = await fixture<SlInput>(html` <sl-input lang="de" number-format="decimal"></sl-input> `);
+
+      el.focus();
+      await sendKeys({ type: '1.234,5' });
+      await el.updateComplete;
+
+      expect(el.value).to.equal('1234.5');
+    });
+
+    it('should format the value when the input is not focused', async () => {
+      const el = await fixture<SlInput>(html` <sl-input lang="de" number-format="decimal" value="1234.5"></sl-input> `);
+      expect(el.input.value).to.equal('1.234,5');
+
+      el.focus();
+      await el.updateComplete;
+      expect(el.input.value).to.equal('1234,5');
+
+      el.blur();
+      await el.updateComplete;
+      expect(el.input.value).to.equal('1.234,5');
+    });
+
+    it('should format currencies and percentages', async () => {
+      const el = await fixture<SlInput>(html`
+        <sl-input lang="en-US" number-format="currency" currency="EUR" value="1234.5"></sl-input>
+      `);
+      expect(el.input.value).to.equal('€1,234.50');
+
+      el.numberFormat = 'percent';
+      el.value = '0.25';
+      await el.updateComplete;
+      expect(el.input.value).to.equal('25%');
+    });
+
+    it('should store percentages as fractions', async () => {
+      const el = await fixture<SlInput>(html` <sl-input lang="en-US" number-format="percent"></sl-input> `);
+
+      el.focus();
+      await sendKeys({ type: '12.5' });
+      await el.updateComplete;
+
+      expect(el.value).to.equal('0.125');
+    });
+
+    it('should keep the previous value when the text is not a number', async () => {
+      const el = await fixture<SlInput>(html` <sl-input lang="en-US" number-format="decimal" value="5"></sl-input> `);
+
+      el.focus();
+      el.select();
+      await sendKeys({ type: 'abc' });
+      el.blur();
+      await el.updateComplete;
+
+      expect(el.value).to.equal('5');
+      expect(el.input.value).to.equal('5');
+    });
+
+    it('should step with the arrow keys and stay within min and max', async () => {
+      const el = await fixture<SlInput>(html`
+        <sl-input number-format="decimal" value="9" min="0" max="10" step="2"></sl-input>
+      `);
+      const inputHandler = sinon.spy();
+
+      el.addEventListener('sl-input', inputHandler);
+      el.focus();
+      await sendKeys({ press: 'ArrowUp' });
+      await el.updateComplete;
+      expect(el.value).to.equal('10');
+
+      await sendKeys({ press: 'ArrowDown' });
+      await el.updateComplete;
+      expect(el.value).to.equal('8');
+      expect(el.input.value).to.equal('8');
+      expect(inputHandler).to.have.been.calledTwice;
+    });
+
+    it('should step when the spin buttons are clicked', async () => {
+      const el = await fixture<SlInput>(html` <sl-input number-format="decimal" value="1"></sl-input> `);
+      const incrementButton = el.shadowRoot!.querySelector<HTMLButtonElement>('[part~="increment-button"]')!;
+      const changeHandler = sinon.spy();
+
+      el.addEventListener('sl-change', changeHandler);
+      incrementButton.click();
+      await el.updateComplete;
+
+      expect(el.value).to.equal('2');
+      expect(changeHandler).to.have.been.calledOnce;
+    });
+
+    it('should not emit sl-input or sl-change when stepping leaves the value unchanged', async () => {
+      const el = await fixture<SlInput>(html` <sl-input number-format="decimal" value="10" max="10"></sl-input> `);
+      const incrementButton = el.shadowRoot!.querySelector<HTMLButtonElement>('[part~="increment-button"]')!;
+      const inputHandler = sinon.spy();
+      const changeHandler = sinon.spy();
+
+      el.addEventListener('sl-input', inputHandler);
+      el.addEventListener('sl-change', changeHandler);
+      el.focus();
+      await sendKeys({ press: 'ArrowUp' });
+      incrementButton.click();
+      await el.updateComplete;
+
+      expect(el.value).to.equal('10');
+      expect(inputHandler).to.not.have.been.called;
+      expect(changeHandler).to.not.have.been.called;
+    });
+
+    it('should be invalid when the value is out of range', async () => {
+      const el = await fixture<SlInput>(html` <sl-input number-format="decimal" value="20" max="10"></sl-input> `);
+      expect(el.checkValidity()).to.be.false;
+      expect(el.validity.rangeOverflow).to.be.true;
+
+      el.value = '5';
+      await el.updateComplete;
+      expect(el.checkValidity()).to.be.true;
+    });
+
+    it('should submit the canonical value', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><sl-input name="a" lang="fr" number-format="currency" currency="EUR" value="1234.5"></sl-input></form>
+      `);
+      const formData = new FormData(form);
+
+      expect(formData.get('a')).to.equal('1234.5');
+    });
+  });
+
   describe('when using spellcheck', () => {
     it('should enable spellcheck when no attribute is present', async () => {
       const el = await fixture<SlInput>(html` <sl-input></sl-input> `);
@@ -1,6 +1,6 @@
-import '../icon/icon.js';
+import { applyMask, getMaskPattern } from '../../internal/mask.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { defaultValue } from '../../internal/default-value.js';
 import { FormControlController } from '../../internal/form.js';
 import { HasSlotController } from '../../internal/slot.js';
@@ -8,11 +8,17 @@ import { html } from 'lit';
 import { ifDefined } from 'lit/directives/if-defined.js';
 import { live } from 'lit/directives/live.js';
 import { LocalizeController } from '../../utilities/localize.js';
+import { parseLocalizedNumber, roundNumber } from '../../internal/number.js';
+import { property, query, state } from 'lit/decorators.js';
+import { validatorsConverter } from '../../internal/validators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
 import styles from './input.styles.js';
 import type { CSSResultGroup } from 'lit';
+import type { Mask } from '../../internal/mask.js';
 import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
+import type { Validator } from '../../internal/validators.js';
 
 /**
  * @summary Inputs collect data from the user.
@@ -47,24 +53,36 @@ import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
  * @csspart clear-button - The clear button.
  * @csspart password-toggle-button - The password toggle button.
  * @csspart suffix - The container that wraps the suffix.
+ * @csspart spin-buttons - The container that wraps the increment and decrement buttons when `number-format` is set.
+ * @csspart increment-button - The button that increments the value.
+ * @csspart decrement-button - The button that decrements the value.
  */
 @customElement('sl-input')
 export default class SlInput extends ShoelaceElement implements ShoelaceFormControl {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon': SlIcon };
 
   private readonly formControlController = new FormControlController(this, {
-    assumeInteractionOn: ['sl-blur', 'sl-input']
+    assumeInteractionOn: ['sl-blur', 'sl-input'],
+    value: (control: SlInput) => control.getFormValue(control.value),
+    defaultValue: (control: SlInput) => control.getFormValue(control.defaultValue),
+    setValidationMessage: (control: SlInput, message: string) => {
+      control.input.setCustomValidity(message);
+      control.numberValueInput?.setCustomValidity(message);
+    }
   });
   private readonly hasSlotController = new HasSlotController(this, 'help-text', 'label');
   private readonly localize = new LocalizeController(this);
 
   @query('.input__control') input: HTMLInputElement;
+  @query('.input__number-value') numberValueInput: HTMLInputElement;
 
   @state() private hasFocus = false;
+  @state() private numberText = '';
   @property() title = ''; // make reactive to pass through
 
-  private __numberInput = Object.assign(document.createElement('input'), { type: 'number' });
-  private __dateInput = Object.assign(document.createElement('input'), { type: 'date' });
+  private __numberInput: HTMLInputElement | undefined;
+  private __dateInput: HTMLInputElement | undefined;
 
   /**
    * The type of input. Works the same as a native `<input>` element, but only a subset of types are supported. Defaults
@@ -137,24 +155,80 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
   /** Makes the input a required field. */
   @property({ type: Boolean, reflect: true }) required = false;
 
+  /**
+   * Validators to run in addition to the browser's constraint validation. A validator can be a function that returns a
+   * validation message, an object with a `validate` function and a `debounce` delay for async validators, or the name
+   * of a registered rule such as `equals-field:password`. In HTML, use a space-delimited list of rules.
+   */
+  @property({ converter: validatorsConverter }) validators: Validator[] = [];
+
   /** A regular expression pattern to validate input against. */
   @property() pattern: string;
 
+  /**
+   * Formats the value as the user types. Use the name of a preset such as `phone`, `card`, `date`, `time`, or `iban`,
+   * or a pattern where `9` is a digit, `a` is a letter, `*` is a letter or digit, and other characters are inserted
+   * automatically. `A` and `X` work like `a` and `*` but convert letters to uppercase. Wrap a section in square brackets
+   * to make it optional, and use a backslash to insert one of the special characters. In JavaScript, you can also set a
+   * function that returns a pattern based on what the user has entered. Unless a `pattern` is set, values that don't
+   * fill the mask are invalid.
+   */
+  @property() mask: Mask;
+
+  /**
+   * Determines which value is submitted with form data when a mask is used. Use `masked` to submit the value as it's
+   * shown and `raw` to submit it without the characters the mask inserted.
+   */
+  @property({ attribute: 'mask-value' }) maskValue: 'masked' | 'raw' = 'masked';
+
+  /**
+   * Turns the input into a locale-aware number input. The value is formatted with grouping separators, currency symbols,
+   * or percent signs while the input isn't focused, and users can enter numbers the way they're written in their locale,
+   * e.g. `1.234,5` in German. The value is always a plain number such as `1234.5`. Percentages are stored as fractions,
+   * so `25 %` has a value of `0.25`.
+   */
+  @property({ attribute: 'number-format' }) numberFormat: 'decimal' | 'currency' | 'percent';
+
+  /** The [ISO 4217](https://en.wikipedia.org/wiki/ISO_4217) currency code to use when `number-format` is `currency`. */
+  @property() currency = 'USD';
+
+  /** How to display the currency when `number-format` is `currency`. */
+  @property({ attribute: 'currency-display' }) currencyDisplay: 'symbol' | 'narrowSymbol' | 'code' | 'name' = 'symbol';
+
+  /** Turns off grouping separators when `number-format` is set. */
+  @property({ attribute: 'no-grouping', type: Boolean }) noGrouping = false;
+
+  /** The minimum number of integer digits to show when `number-format` is set. Possible values are 1-21. */
+  @property({ attribute: 'minimum-integer-digits', type: Number }) minimumIntegerDigits: number;
+
+  /** The minimum number of fraction digits to show when `number-format` is set. Possible values are 0-20. */
+  @property({ attribute: 'minimum-fraction-digits', type: Number }) minimumFractionDigits: number;
+
+  /** The maximum number of fraction digits to show when `number-format` is set. Possible values are 0-20. */
+  @property({ attribute: 'maximum-fraction-digits', type: Number }) maximumFractionDigits: number;
+
+  /** The minimum number of significant digits to show when `number-format` is set. Possible values are 1-21. */
+  @property({ attribute: 'minimum-significant-digits', type: Number }) minimumSignificantDigits: number;
+
+  /** The maximum number of significant digits to show when `number-format` is set. Possible values are 1-21. */
+  @property({ attribute: 'maximum-significant-digits', type: Number }) maximumSignificantDigits: number;
+
   /** The minimum length of input that will be considered valid. */
   @property({ type: Number }) minlength: number;
 
   /** The maximum length of input that will be considered valid. */
   @property({ type: Number }) maxlength: number;
 
-  /** The input's minimum value. Only applies to date and number input types. */
+  /** The input's minimum value. Only applies to date and number input types and when `number-format` is set. */
   @property() min: number | string;
 
-  /** The input's maximum value. Only applies to date and number input types. */
+  /** The input's maximum value. Only applies to date and number input types and when `number-format` is set. */
   @property() max: number | string;
 
   /**
    * Specifies the granularity that the value must adhere to, or the special value `any` which means no stepping is
-   * implied, allowing any numeric value. Only applies to date and number input types.
+   * implied, allowing any numeric value. Only applies to date and number input types and when `number-format` is set.
+   * With `number-format`, the arrow keys and spin buttons step by 1, or by 0.01 for percentages, unless a step is set.
    */
   @property() step: number | 'any';
 
@@ -195,39 +269,61 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
 
   //
   // NOTE: We use an in-memory input for these getters/setters instead of the one in the template because the properties
-  // can be set before the component is rendered.
+  // can be set before the component is rendered. They're created on first use, since there's no document on the server.
   //
 
+  private getDateInput() {
+    return (this.__dateInput ??= Object.assign(document.createElement('input'), { type: 'date' }));
+  }
+
+  private getNumberInput() {
+    return (this.__numberInput ??= Object.assign(document.createElement('input'), { type: 'number' }));
+  }
+
   /** Gets or sets the current value as a `Date` object. Returns `null` if the value can't be converted. */
   get valueAsDate() {
-    this.__dateInput.value = this.value;
-    return this.input?.valueAsDate || this.__dateInput.valueAsDate;
+    const dateInput = this.getDateInput();
+    dateInput.value = this.value;
+    return this.input?.valueAsDate || dateInput.valueAsDate;
   }
 
   set valueAsDate(newValue: Date | null) {
-    this.__dateInput.valueAsDate = newValue;
-    this.value = this.__dateInput.value;
+    const dateInput = this.getDateInput();
+    dateInput.valueAsDate = newValue;
+    this.value = dateInput.value;
   }
 
   /** Gets or sets the current value as a number. Returns `NaN` if the value can't be converted. */
   get valueAsNumber() {
-    this.__numberInput.value = this.value;
-    return this.input?.valueAsNumber || this.__numberInput.valueAsNumber;
+    const numberInput = this.getNumberInput();
+    numberInput.value = this.value;
+    return this.input?.valueAsNumber || numberInput.valueAsNumber;
   }
 
   set valueAsNumber(newValue: number) {
-    this.__numberInput.valueAsNumber = newValue;
-    this.value = this.__numberInput.value;
+    const numberInput = this.getNumberInput();
+    numberInput.valueAsNumber = newValue;
+    this.value = numberInput.value;
+  }
+
+  /** Gets the value without the characters that were inserted by the mask. Without a mask, this is the same as `value`. */
+  get unmaskedValue() {
+    return this.mask ? applyMask(this.mask, this.value).raw : this.value;
   }
 
   /** Gets the validity state object */
   get validity() {
-    return this.input.validity;
+    return this.validationInput.validity;
   }
 
   /** Gets the validation message */
   get validationMessage() {
-    return this.input.validationMessage;
+    return this.validationInput.validationMessage;
+  }
+
+  // Number formats are validated by a hidden number input that holds the value, since the text is localized
+  private get validationInput() {
+    return this.numberFormat ? this.numberValueInput : this.input;
   }
 
   firstUpdated() {
@@ -240,7 +336,7 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
   }
 
   private handleChange() {
-    this.value = this.input.value;
+    this.updateValueFromInput();
     this.emit('sl-change');
   }
 
@@ -256,11 +352,21 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
 
   private handleFocus() {
     this.hasFocus = true;
+
+    // Numbers are edited without formatting
+    if (this.numberFormat) {
+      this.numberText = this.formatNumberText(this.value);
+    }
+
     this.emit('sl-focus');
   }
 
-  private handleInput() {
-    this.value = this.input.value;
+  private handleInput(event: InputEvent) {
+    if (this.mask && !event.isComposing) {
+      this.conformInputToMask(event);
+    }
+
+    this.updateValueFromInput();
     this.formControlController.updateValidity();
     this.emit('sl-input');
   }
@@ -273,6 +379,12 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
   private handleKeyDown(event: KeyboardEvent) {
     const hasModifier = event.metaKey || event.ctrlKey || event.shiftKey || event.altKey;
 
+    // Step number formats with the arrow keys like native number inputs
+    if (this.numberFormat && !this.readonly && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) {
+      event.preventDefault();
+      this.handleStepNumber(event.key === 'ArrowUp' ? 1 : -1);
+    }
+
     // Pressing enter when focused on an input should submit the form like a native input, but we wait a tick before
     // submitting to allow users to cancel the keydown event if they need to
     if (event.key === 'Enter' && !hasModifier) {
@@ -290,6 +402,117 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
     }
   }
 
+  // Formats the text in the input with the mask and moves the caret to where the user expects it
+  private conformInputToMask(event: InputEvent) {
+    const text = this.input.value;
+    const caret = this.input.selectionStart ?? text.length;
+    let result = applyMask(this.mask, text, caret, !event.inputType.startsWith('delete'));
+
+    // Deleting a character that the mask inserted deletes the character before it instead
+    if (event.inputType === 'deleteContentBackward' && result.raw === this.unmaskedValue && result.rawCaret > 0) {
+      const raw = result.raw.slice(0, result.rawCaret - 1) + result.raw.slice(result.rawCaret);
+      result = applyMask(this.mask, raw, result.rawCaret - 1, false);
+    }
+
+    this.input.value = result.value;
+    this.input.setSelectionRange(result.caret, result.caret);
+  }
+
+  // Sets the value from the text in the input. The text of number formats is parsed and ignored until it's a number.
+  private updateValueFromInput() {
+    if (this.numberFormat) {
+      const value = this.parseNumberText(this.input.value);
+      this.numberText = this.input.value;
+
+      if (value !== null) {
+        this.value = value;
+      }
+    } else {
+      this.value = this.input.value;
+    }
+  }
+
+  // Parses localized text to a value, e.g. `1.234,5` to `1234.5` in German. Returns null if the text isn't a number.
+  private parseNumberText(text: string) {
+    if (text.trim() === '') {
+      return '';
+    }
+
+    const number = parseLocalizedNumber(text, this.localize.lang());
+
+    if (isNaN(number)) {
+      return null;
+    }
+
+    return String(roundNumber(this.numberFormat === 'percent' ? number / 100 : number));
+  }
+
+  // Formats a value for editing, which uses the locale's decimal separator but no other formatting
+  private formatNumberText(value: string) {
+    const number = Number(value);
+
+    if (value === '' || isNaN(number)) {
+      return value;
+    }
+
+    return this.localize.number(this.numberFormat === 'percent' ? roundNumber(number * 100) : number, {
+      useGrouping: false,
+      maximumFractionDigits: 20
+    });
+  }
+
+  // Formats a value for display when the input isn't focused
+  private formatNumber(value: string) {
+    const number = Number(value);
+
+    if (value === '' || isNaN(number)) {
+      return value;
+    }
+
+    return this.localize.number(number, {
+      style: this.numberFormat,
+      currency: this.currency,
+      currencyDisplay: this.currencyDisplay,
+      useGrouping: !this.noGrouping,
+      minimumIntegerDigits: this.minimumIntegerDigits,
+      minimumFractionDigits: this.minimumFractionDigits,
+      maximumFractionDigits: this.maximumFractionDigits,
+      minimumSignificantDigits: this.minimumSignificantDigits,
+      maximumSignificantDigits: this.maximumSignificantDigits
+    });
+  }
+
+  // Steps the value of a number format up or down, snapping to the step and staying between min and max
+  private stepNumber(direction: 1 | -1) {
+    const defaultStep = this.numberFormat === 'percent' ? 0.01 : 1;
+    const step = this.step && this.step !== 'any' ? Number(this.step) : defaultStep;
+    const min = this.min !== undefined && this.min !== '' ? Number(this.min) : -Infinity;
+    const max = this.max !== undefined && this.max !== '' ? Number(this.max) : Infinity;
+    const base = isFinite(min) ? min : 0;
+    const steps = roundNumber(((Number(this.value) || 0) - base) / step);
+    const nextStep = direction === 1 ? Math.floor(steps) + 1 : Math.ceil(steps) - 1;
+
+    this.value = String(Math.min(Math.max(roundNumber(base + nextStep * step), min), max));
+  }
+
+  // Steps the value when the user presses an arrow key or a spin button. Like native number inputs, no events are
+  // emitted when the value can't change, e.g. because it's already at the max.
+  private handleStepNumber(direction: 1 | -1) {
+    const oldValue = this.value;
+
+    this.stepNumber(direction);
+
+    if (this.value !== oldValue) {
+      this.emit('sl-input');
+      this.emit('sl-change');
+    }
+  }
+
+  // Returns the value that's submitted with form data, which is the raw value when requested
+  private getFormValue(value: string) {
+    return this.mask && this.maskValue === 'raw' ? applyMask(this.mask, value).raw : value;
+  }
+
   private handlePasswordToggle() {
     this.passwordVisible = !this.passwordVisible;
   }
@@ -300,6 +523,30 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
     this.formControlController.setValidity(this.disabled);
   }
 
+  @watch(['mask', 'value'])
+  handleMaskChange() {
+    // Values that are set programmatically are formatted too
+    if (this.mask) {
+      const { value } = applyMask(this.mask, this.value);
+
+      if (value !== this.value) {
+        this.value = value;
+      }
+    }
+  }
+
+  @watch('value')
+  handleNumberValueChange() {
+    // When the value changes while a number is being edited, e.g. by stepping, show the new value
+    if (this.numberFormat && this.hasFocus) {
+      const value = this.parseNumberText(this.numberText);
+
+      if (value !== null && value !== this.value) {
+        this.numberText = this.formatNumberText(this.value);
+      }
+    }
+  }
+
   @watch('step', { waitUntilFirstUpdate: true })
   handleStepChange() {
     // If step changes, the value may become invalid so we need to recheck after the update. We set the new step
@@ -347,10 +594,7 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
   ) {
     // @ts-expect-error - start, end, and selectMode are optional
     this.input.setRangeText(replacement, start, end, selectMode);
-
-    if (this.value !== this.input.value) {
-      this.value = this.input.value;
-    }
+    this.updateValueFromInput();
   }
 
   /** Displays the browser picker for an input element (only works if the browser supports it for the input type). */
@@ -362,6 +606,11 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
 
   /** Increments the value of a numeric input type by the value of the step attribute. */
   stepUp() {
+    if (this.numberFormat) {
+      this.stepNumber(1);
+      return;
+    }
+
     this.input.stepUp();
     if (this.value !== this.input.value) {
       this.value = this.input.value;
@@ -370,6 +619,11 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
 
   /** Decrements the value of a numeric input type by the value of the step attribute. */
   stepDown() {
+    if (this.numberFormat) {
+      this.stepNumber(-1);
+      return;
+    }
+
     this.input.stepDown();
     if (this.value !== this.input.value) {
       this.value = this.input.value;
@@ -378,7 +632,7 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
 
   /** Checks for validity but does not show a validation message. Returns `true` when valid and `false` when invalid. */
   checkValidity() {
-    return this.input.checkValidity();
+    return this.validationInput.checkValidity();
   }
 
   /** Gets the associated form, if one exists. */
@@ -388,13 +642,12 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
 
   /** Checks for validity and shows the browser's validation message if the control is invalid. */
   reportValidity() {
-    return this.input.reportValidity();
+    return this.validationInput.reportValidity();
   }
 
   /** Sets a custom validation message. Pass an empty string to restore validity. */
   setCustomValidity(message: string) {
-    this.input.setCustomValidity(message);
-    this.formControlController.updateValidity();
+    this.formControlController.setCustomValidity(message);
   }
 
   render() {
@@ -404,6 +657,12 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
     const hasHelpText = this.helpText ? true : !!hasHelpTextSlot;
     const hasClearIcon =
       this.clearable && !this.disabled && !this.readonly && (typeof this.value === 'number' || this.value.length > 0);
+    const hasSpinButtons = this.numberFormat && !this.noSpinButtons && !this.disabled && !this.readonly;
+    let displayValue = this.value;
+
+    if (this.numberFormat) {
+      displayValue = this.hasFocus ? this.numberText : this.formatNumber(this.value);
+    }
 
     return html`
       <div
@@ -452,7 +711,7 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
               part="input"
               id="input"
               class="input__control"
-              type=${this.type === 'password' && this.passwordVisible ? 'text' : this.type}
+              type=${(this.type === 'password' && this.passwordVisible) || this.numberFormat ? 'text' : this.type}
               title=${this.title /* An empty title prevents browser validation tooltips from appearing on hover */}
               name=${ifDefined(this.name)}
               ?disabled=${this.disabled}
@@ -464,15 +723,15 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
               min=${ifDefined(this.min)}
               max=${ifDefined(this.max)}
               step=${ifDefined(this.step as number)}
-              .value=${live(this.value)}
+              .value=${live(displayValue)}
               autocapitalize=${ifDefined(this.autocapitalize)}
               autocomplete=${ifDefined(this.autocomplete)}
               autocorrect=${ifDefined(this.autocorrect)}
               ?autofocus=${this.autofocus}
               spellcheck=${this.spellcheck}
-              pattern=${ifDefined(this.pattern)}
+              pattern=${ifDefined(this.pattern || (this.mask ? getMaskPattern(this.mask, this.value) : undefined))}
               enterkeyhint=${ifDefined(this.enterkeyhint)}
-              inputmode=${ifDefined(this.inputmode)}
+              inputmode=${ifDefined(this.inputmode || (this.numberFormat ? 'decimal' : undefined))}
               aria-describedby="help-text"
               @change=${this.handleChange}
               @input=${this.handleInput}
@@ -482,6 +741,27 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
               @blur=${this.handleBlur}
             />
 
+            ${
+              this.numberFormat
+                ? html`
+                    <input
+                      class="input__number-value"
+                      type="number"
+                      ?disabled=${this.disabled}
+                      ?required=${this.required}
+                      min=${ifDefined(this.min)}
+                      max=${ifDefined(this.max)}
+                      step=${this.step ?? 'any'}
+                      .value=${live(this.value)}
+                      tabindex="-1"
+                      aria-hidden="true"
+                      @focus=${() => this.focus()}
+                      @invalid=${this.handleInvalid}
+                    />
+                  `
+                : ''
+            }
+
             ${
               hasClearIcon
                 ? html`
@@ -527,6 +807,37 @@ export default class SlInput extends ShoelaceElement implements ShoelaceFormCont
                 : ''
             }
 
+            ${
+              hasSpinButtons
+                ? html`
+                    <div part="spin-buttons" class="input__spin-buttons">
+                      <button
+                        part="increment-button"
+                        class="input__spin-button"
+                        type="button"
+                        tabindex="-1"
+                        aria-hidden="true"
+                        @mousedown=${(event: MouseEvent) => event.preventDefault()}
+                        @click=${() => this.handleStepNumber(1)}
+                      >
+                        <sl-icon name="chevron-up" library="system"></sl-icon>
+                      </button>
+                      <button
+                        part="decrement-button"
+                        class="input__spin-button"
+                        type="button"
+                        tabindex="-1"
+                        aria-hidden="true"
+                        @mousedown=${(event: MouseEvent) => event.preventDefault()}
+                        @click=${() => this.handleStepNumber(-1)}
+                      >
+                        <sl-icon name="chevron-down" library="system"></sl-icon>
+                      </button>
+                    </div>
+                  `
+                : ''
+            }
+
             <slot name="suffix" part="suffix" class="input__suffix"></slot>
           </div>
         </div>
@@ -1,10 +1,11 @@
-import '../icon/icon.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { getTextContent } from '../../internal/slot.js';
-import { html } from 'lit';
+import { html, isServer } from 'lit';
+import { property, query } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
 import styles from './menu-item.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -30,6 +31,7 @@ import type { CSSResultGroup } from 'lit';
 @customElement('sl-menu-item')
 export default class SlMenuItem extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon': SlIcon };
 
   private cachedTextLabel: string;
 
@@ -50,7 +52,10 @@ export default class SlMenuItem extends ShoelaceElement {
 
   constructor() {
     super();
-    this.addEventListener('click', this.handleHostClick);
+
+    if (!isServer) {
+      this.addEventListener('click', this.handleHostClick);
+    }
   }
 
   private handleDefaultSlotChange() {
@@ -1,5 +1,6 @@
-import { customElement, query } from 'lit/decorators.js';
+import { customElement, scopedTagName, unscopedTagName } from '../../internal/scope.js';
 import { html } from 'lit';
+import { query } from 'lit/decorators.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
 import styles from './menu.styles.js';
 import type { CSSResultGroup } from 'lit';
@@ -31,7 +32,7 @@ export default class SlMenu extends ShoelaceElement {
 
   private handleClick(event: MouseEvent) {
     const target = event.target as HTMLElement;
-    const item = target.closest('sl-menu-item');
+    const item = target.closest<SlMenuItem>(scopedTagName(this, 'sl-menu-item'));
 
     if (!item || item.disabled || item.inert) {
       return;
@@ -110,7 +111,7 @@ export default class SlMenu extends ShoelaceElement {
 
   private isMenuItem(item: HTMLElement) {
     return (
-      item.tagName.toLowerCase() === 'sl-menu-item' ||
+      unscopedTagName(item) === 'sl-menu-item' ||
       ['menuitem', 'menuitemcheckbox', 'menuitemradio'].includes(item.getAttribute('role') ?? '')
     );
   }
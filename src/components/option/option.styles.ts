@@ -13,6 +13,10 @@ export default css`
     outline: none;
   }
 
+  :host([hidden]) {
+    display: none;
+  }
+
   .option {
     position: relative;
     display: flex;
@@ -1,10 +1,11 @@
-import '../icon/icon.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { html } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query, state } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
 import styles from './option.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -29,6 +30,7 @@ import type { CSSResultGroup } from 'lit';
 @customElement('sl-option')
 export default class SlOption extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon': SlIcon };
 
   private cachedTextLabel: string;
   // @ts-expect-error - Controller is currently unused
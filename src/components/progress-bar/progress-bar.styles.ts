@@ -47,6 +47,7 @@ export default css`
     animation-name: indeterminate-rtl;
   }
 
+  /* Forced colors mode */
   @media (forced-colors: active) {
     .progress-bar {
       outline: solid 1px SelectedItem;
@@ -57,6 +58,10 @@ export default css`
       outline: solid 1px SelectedItem;
       background-color: SelectedItem;
     }
+
+    .progress-bar__label {
+      color: SelectedItemText;
+    }
   }
 
   @keyframes indeterminate {
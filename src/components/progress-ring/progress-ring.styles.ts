@@ -67,4 +67,15 @@ export default css`
     text-align: center;
     user-select: none;
   }
+
+  /* Forced colors mode */
+  @media (forced-colors: active) {
+    .progress-ring__track {
+      stroke: GrayText;
+    }
+
+    .progress-ring__indicator {
+      stroke: SelectedItem;
+    }
+  }
 `;
@@ -1,6 +1,5 @@
-import '../button-group/button-group.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement, getScopedRegistry, scopedTagName, unscopedTagName } from '../../internal/scope.js';
 import {
   customErrorValidityState,
   FormControlController,
@@ -9,11 +8,15 @@ import {
 } from '../../internal/form.js';
 import { HasSlotController } from '../../internal/slot.js';
 import { html } from 'lit';
+import { property, query, state } from 'lit/decorators.js';
+import { validatorsConverter } from '../../internal/validators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlButtonGroup from '../button-group/button-group.js';
 import styles from './radio-group.styles.js';
 import type { CSSResultGroup } from 'lit';
 import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
+import type { Validator } from '../../internal/validators.js';
 import type SlRadio from '../radio/radio.js';
 import type SlRadioButton from '../radio-button/radio-button.js';
 
@@ -43,8 +46,15 @@ import type SlRadioButton from '../radio-button/radio-button.js';
 @customElement('sl-radio-group')
 export default class SlRadioGroup extends ShoelaceElement implements ShoelaceFormControl {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-button-group': SlButtonGroup };
 
-  protected readonly formControlController = new FormControlController(this);
+  protected readonly formControlController = new FormControlController(this, {
+    setValidationMessage: (control: SlRadioGroup, message: string) => {
+      control.customValidityMessage = message;
+      control.errorMessage = message;
+      control.validationInput.setCustomValidity(message);
+    }
+  });
   private readonly hasSlotController = new HasSlotController(this, 'help-text', 'label');
   private customValidityMessage = '';
   private validationTimeout: number;
@@ -84,6 +94,13 @@ export default class SlRadioGroup extends ShoelaceElement implements ShoelaceFor
   /** Ensures a child radio is checked before allowing the containing form to submit. */
   @property({ type: Boolean, reflect: true }) required = false;
 
+  /**
+   * Validators to run in addition to the browser's constraint validation. A validator can be a function that returns a
+   * validation message, an object with a `validate` function and a `debounce` delay for async validators, or the name
+   * of a registered rule such as `equals-field:password`. In HTML, use a space-delimited list of rules.
+   */
+  @property({ converter: validatorsConverter }) validators: Validator[] = [];
+
   /** Gets the validity state object */
   get validity() {
     const isRequiredAndEmpty = this.required && !this.value;
@@ -121,12 +138,16 @@ export default class SlRadioGroup extends ShoelaceElement implements ShoelaceFor
     this.formControlController.updateValidity();
   }
 
+  private getRadioSelector() {
+    return `${scopedTagName(this, 'sl-radio')}, ${scopedTagName(this, 'sl-radio-button')}`;
+  }
+
   private getAllRadios() {
-    return [...this.querySelectorAll<SlRadio | SlRadioButton>('sl-radio, sl-radio-button')];
+    return [...this.querySelectorAll<SlRadio | SlRadioButton>(this.getRadioSelector())];
   }
 
   private handleRadioClick(event: MouseEvent) {
-    const target = (event.target as HTMLElement).closest<SlRadio | SlRadioButton>('sl-radio, sl-radio-button')!;
+    const target = (event.target as HTMLElement).closest<SlRadio | SlRadioButton>(this.getRadioSelector())!;
     const radios = this.getAllRadios();
     const oldValue = this.value;
 
@@ -216,7 +237,7 @@ export default class SlRadioGroup extends ShoelaceElement implements ShoelaceFor
       })
     );
 
-    this.hasButtonGroup = radios.some(radio => radio.tagName.toLowerCase() === 'sl-radio-button');
+    this.hasButtonGroup = radios.some(radio => unscopedTagName(radio) === 'sl-radio-button');
 
     if (!radios.some(radio => radio.checked)) {
       if (this.hasButtonGroup) {
@@ -231,7 +252,7 @@ export default class SlRadioGroup extends ShoelaceElement implements ShoelaceFor
     }
 
     if (this.hasButtonGroup) {
-      const buttonGroup = this.shadowRoot?.querySelector('sl-button-group');
+      const buttonGroup = this.shadowRoot?.querySelector<SlButtonGroup>('[part~="button-group"]');
 
       if (buttonGroup) {
         buttonGroup.disableRole = true;
@@ -240,22 +261,26 @@ export default class SlRadioGroup extends ShoelaceElement implements ShoelaceFor
   }
 
   private syncRadios() {
-    if (customElements.get('sl-radio') && customElements.get('sl-radio-button')) {
+    const registry = getScopedRegistry(this);
+    const radioTagName = scopedTagName(this, 'sl-radio');
+    const radioButtonTagName = scopedTagName(this, 'sl-radio-button');
+
+    if (registry.get(radioTagName) && registry.get(radioButtonTagName)) {
       this.syncRadioElements();
       return;
     }
 
-    if (customElements.get('sl-radio')) {
+    if (registry.get(radioTagName)) {
       this.syncRadioElements();
     } else {
-      customElements.whenDefined('sl-radio').then(() => this.syncRadios());
+      registry.whenDefined(radioTagName).then(() => this.syncRadios());
     }
 
-    if (customElements.get('sl-radio-button')) {
+    if (registry.get(radioButtonTagName)) {
       this.syncRadioElements();
     } else {
       // Rerun this handler when <sl-radio> or <sl-radio-button> is registered
-      customElements.whenDefined('sl-radio-button').then(() => this.syncRadios());
+      registry.whenDefined(radioButtonTagName).then(() => this.syncRadios());
     }
   }
 
@@ -316,10 +341,7 @@ export default class SlRadioGroup extends ShoelaceElement implements ShoelaceFor
 
   /** Sets a custom validation message. Pass an empty string to restore validity. */
   setCustomValidity(message = '') {
-    this.customValidityMessage = message;
-    this.errorMessage = message;
-    this.validationInput.setCustomValidity(message);
-    this.formControlController.updateValidity();
+    this.formControlController.setCustomValidity(message);
   }
 
   render() {
@@ -111,4 +111,23 @@ export default css`
     margin-inline-start: 0.5em;
     user-select: none;
   }
+
+  /* Forced colors mode */
+  @media (forced-colors: active) {
+    .radio--checked .radio__control,
+    .radio.radio--checked:not(.radio--disabled) .radio__control:hover {
+      border-color: SelectedItem;
+      background-color: SelectedItem;
+      color: SelectedItemText;
+    }
+
+    .radio--disabled .radio__control {
+      border-color: GrayText;
+    }
+
+    .radio--disabled.radio--checked .radio__control {
+      background-color: GrayText;
+      color: Canvas;
+    }
+  }
 `;
@@ -1,9 +1,10 @@
-import '../icon/icon.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, state } from 'lit/decorators.js';
-import { html } from 'lit';
+import { customElement } from '../../internal/scope.js';
+import { html, isServer } from 'lit';
+import { property, state } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
 import styles from './radio.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -29,6 +30,7 @@ import type { CSSResultGroup } from 'lit';
 @customElement('sl-radio')
 export default class SlRadio extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon': SlIcon };
 
   @state() checked = false;
   @state() protected hasFocus = false;
@@ -47,9 +49,12 @@ export default class SlRadio extends ShoelaceElement {
 
   constructor() {
     super();
-    this.addEventListener('blur', this.handleBlur);
-    this.addEventListener('click', this.handleClick);
-    this.addEventListener('focus', this.handleFocus);
+
+    if (!isServer) {
+      this.addEventListener('blur', this.handleBlur);
+      this.addEventListener('click', this.handleClick);
+      this.addEventListener('focus', this.handleFocus);
+    }
   }
 
   connectedCallback() {
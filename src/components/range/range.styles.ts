@@ -55,6 +55,40 @@ export default css`
     );
   }
 
+  /* Range mode */
+  .range--range {
+    height: var(--sl-input-height-medium);
+  }
+
+  .range--range .range__control {
+    position: absolute;
+    top: calc(50% - var(--track-height) / 2);
+    left: 0;
+    pointer-events: none;
+  }
+
+  .range--range .range__control--max {
+    background: none;
+  }
+
+  .range--range .range__control--top {
+    z-index: 1;
+  }
+
+  .range--range .range__control::-webkit-slider-thumb {
+    pointer-events: all;
+  }
+
+  .range--range .range__control::-moz-range-thumb {
+    pointer-events: all;
+  }
+
+  /* The lower input's background draws the active track between the thumbs */
+  .range--range .range__control::-moz-range-progress,
+  .range--range .range__control::-moz-range-track {
+    background: none;
+  }
+
   /* Webkit */
   .range__control::-webkit-slider-runnable-track {
     width: 100%;
@@ -210,18 +244,52 @@ export default css`
     bottom: 100%;
   }
 
+  /* Forced colors mode */
   @media (forced-colors: active) {
+    /* The track's fill is a gradient, which would be removed, so the control draws its own system colors */
+    .range__control {
+      --track-color-active: SelectedItem;
+      --track-color-inactive: GrayText;
+      forced-color-adjust: none;
+    }
+
+    .range__control:disabled {
+      --track-color-active: GrayText;
+    }
+
     .range__control,
     .range__tooltip {
       border: solid 1px transparent;
     }
 
-    .range__control::-webkit-slider-thumb {
-      border: solid 1px transparent;
+    .range__control::-webkit-slider-thumb,
+    .range__control:enabled::-webkit-slider-thumb:hover,
+    .range__control:enabled::-webkit-slider-thumb:active {
+      background-color: SelectedItem;
+      border: solid 1px CanvasText;
     }
 
-    .range__control::-moz-range-thumb {
-      border: solid 1px transparent;
+    .range__control::-moz-range-thumb,
+    .range__control:enabled::-moz-range-thumb:hover,
+    .range__control:enabled::-moz-range-thumb:active {
+      background-color: SelectedItem;
+      border: solid 1px CanvasText;
+    }
+
+    .range__control:disabled::-webkit-slider-thumb {
+      background-color: GrayText;
+    }
+
+    .range__control:disabled::-moz-range-thumb {
+      background-color: GrayText;
+    }
+
+    .range__control:enabled:focus-visible::-webkit-slider-thumb {
+      outline-color: Highlight;
+    }
+
+    .range__control:enabled:focus-visible::-moz-range-thumb {
+      outline-color: Highlight;
     }
 
     .range__tooltip:after {
@@ -232,5 +232,139 @@ describe('<sl-range>', () => {
     });
   });
 
+  describe('when range is set', () => {
+    it('should render two inputs and two tooltips', async () => {
+      const el = await fixture<SlRange>(html` <sl-range range min-value="20" max-value="80"></sl-range> `);
+      const inputs = el.shadowRoot!.querySelectorAll<HTMLInputElement>('[part~="input"]');
+      const tooltips = el.shadowRoot!.querySelectorAll('[part~="tooltip"]');
+
+      expect(inputs.length).to.equal(2);
+      expect(inputs[0].value).to.equal('20');
+      expect(inputs[1].value).to.equal('80');
+      expect(tooltips.length).to.equal(2);
+    });
+
+    it('should format each tooltip with tooltipFormatter', async () => {
+      const el = await fixture<SlRange>(html` <sl-range range min-value="20" max-value="80"></sl-range> `);
+
+      el.tooltipFormatter = value => `$${value}`;
+      await el.updateComplete;
+
+      const minTooltip = el.shadowRoot!.querySelector('[part~="tooltip--min"]')!;
+      const maxTooltip = el.shadowRoot!.querySelector('[part~="tooltip--max"]')!;
+      expect(minTooltip.textContent!.trim()).to.equal('$20');
+      expect(maxTooltip.textContent!.trim()).to.equal('$80');
+    });
+
+    it('should not let the thumbs cross when the values are set programmatically', async () => {
+      const el = await fixture<SlRange>(html` <sl-range range min-value="20" max-value="80"></sl-range> `);
+
+      el.maxValue = 10;
+      await el.updateComplete;
+      await el.updateComplete;
+
+      expect(el.maxValue).to.equal(20);
+    });
+
+    it('should not let the thumbs cross when using the keyboard', async () => {
+      const el = await fixture<SlRange>(html` <sl-range range min-value="49" max-value="50"></sl-range> `);
+      const minInput = el.shadowRoot!.querySelector<HTMLInputElement>('[part~="input--min"]')!;
+
+      minInput.focus();
+      await sendKeys({ press: 'ArrowRight' });
+      await sendKeys({ press: 'ArrowRight' });
+      await el.updateComplete;
+
+      expect(el.minValue).to.equal(50);
+      expect(el.maxValue).to.equal(50);
+    });
+
+    it('should emit sl-input and sl-change when a thumb is moved with the keyboard', async () => {
+      const el = await fixture<SlRange>(html` <sl-range range min-value="20" max-value="80"></sl-range> `);
+      const maxInput = el.shadowRoot!.querySelector<HTMLInputElement>('[part~="input--max"]')!;
+      const changeHandler = sinon.spy();
+      const inputHandler = sinon.spy();
+
+      el.addEventListener('sl-change', changeHandler);
+      el.addEventListener('sl-input', inputHandler);
+      maxInput.focus();
+      await sendKeys({ press: 'ArrowLeft' });
+      await el.updateComplete;
+
+      expect(el.minValue).to.equal(20);
+      expect(el.maxValue).to.equal(79);
+      expect(changeHandler).to.have.been.calledOnce;
+      expect(inputHandler).to.have.been.calledOnce;
+    });
+
+    it('should have both values when sl-input and sl-change are emitted', async () => {
+      const el = await fixture<SlRange>(html` <sl-range range min-value="20" max-value="80"></sl-range> `);
+      const minInput = el.shadowRoot!.querySelector<HTMLInputElement>('[part~="input--min"]')!;
+      const getValues = (event: Event) => {
+        const range = event.target as SlRange;
+        return { minValue: range.minValue, maxValue: range.maxValue };
+      };
+      const changeHandler = sinon.spy(getValues);
+      const inputHandler = sinon.spy(getValues);
+
+      el.addEventListener('sl-change', changeHandler);
+      el.addEventListener('sl-input', inputHandler);
+      minInput.focus();
+      await sendKeys({ press: 'ArrowRight' });
+      await el.updateComplete;
+
+      expect(inputHandler.firstCall.returnValue).to.deep.equal({ minValue: 21, maxValue: 80 });
+      expect(changeHandler.firstCall.returnValue).to.deep.equal({ minValue: 21, maxValue: 80 });
+    });
+
+    it('should serialize both values with FormData', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><sl-range name="price" range min-value="20" max-value="80"></sl-range></form>
+      `);
+      const formData = new FormData(form);
+
+      expect(formData.getAll('price')).to.deep.equal(['20', '80']);
+    });
+
+    it('should be invalid when setCustomValidity() is called for either thumb', async () => {
+      const el = await fixture<SlRange>(html` <sl-range range></sl-range> `);
+
+      el.setCustomValidity('Invalid maximum', 'max');
+      await el.updateComplete;
+
+      expect(el.checkValidity()).to.be.false;
+      expect(el.validationMessage).to.equal('Invalid maximum');
+      expect(el.hasAttribute('data-invalid')).to.be.true;
+
+      el.setCustomValidity('', 'max');
+      await el.updateComplete;
+
+      expect(el.checkValidity()).to.be.true;
+      expect(el.hasAttribute('data-valid')).to.be.true;
+    });
+
+    it('should reset both values when the form is reset', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-range name="a" range min-value="20" max-value="80"></sl-range>
+          <sl-button type="reset">Reset</sl-button>
+        </form>
+      `);
+      const button = form.querySelector('sl-button')!;
+      const range = form.querySelector('sl-range')!;
+
+      range.minValue = 30;
+      range.maxValue = 40;
+      await range.updateComplete;
+
+      setTimeout(() => button.click());
+      await oneEvent(form, 'reset');
+      await range.updateComplete;
+
+      expect(range.minValue).to.equal(20);
+      expect(range.maxValue).to.equal(80);
+    });
+  });
+
   runFormControlBaseTests('sl-range');
 });
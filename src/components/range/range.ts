@@ -1,6 +1,7 @@
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, eventOptions, property, query, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { defaultValue } from '../../internal/default-value.js';
+import { eventOptions, property, query, state } from 'lit/decorators.js';
 import { FormControlController } from '../../internal/form.js';
 import { HasSlotController } from '../../internal/slot.js';
 import { html } from 'lit';
@@ -14,7 +15,7 @@ import type { CSSResultGroup } from 'lit';
 import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
 
 /**
- * @summary Ranges allow the user to select a single value within a given range using a slider.
+ * @summary Ranges allow the user to select a single value, or a pair of values, within a given range using a slider.
  * @documentation https://shoelace.style/components/range
  * @status stable
  * @since 2.0
@@ -23,9 +24,11 @@ import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
  * @slot help-text - Text that describes how to use the input. Alternatively, you can use the `help-text` attribute.
  *
  * @event sl-blur - Emitted when the control loses focus.
- * @event sl-change - Emitted when an alteration to the control's value is committed by the user.
+ * @event sl-change - Emitted when an alteration to the control's value is committed by the user. In range mode, both ends
+ *  of the selection are available as `minValue` and `maxValue`.
  * @event sl-focus - Emitted when the control gains focus.
- * @event sl-input - Emitted when the control receives input.
+ * @event sl-input - Emitted when the control receives input. In range mode, both ends of the selection are available as
+ *  `minValue` and `maxValue`.
  * @event sl-invalid - Emitted when the form control has been checked for validity and its constraints aren't satisfied.
  *
  * @csspart form-control - The form control that wraps the label, input, and help text.
@@ -33,38 +36,76 @@ import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
  * @csspart form-control-input - The range's wrapper.
  * @csspart form-control-help-text - The help text's wrapper.
  * @csspart base - The component's base wrapper.
- * @csspart input - The internal `<input>` element.
- * @csspart tooltip - The range's tooltip.
+ * @csspart input - The internal `<input>` element. In range mode, both inputs receive this part.
+ * @csspart input--min - The input that controls the lower value in range mode.
+ * @csspart input--max - The input that controls the upper value in range mode.
+ * @csspart tooltip - The range's tooltip. In range mode, both tooltips receive this part.
+ * @csspart tooltip--min - The lower value's tooltip in range mode.
+ * @csspart tooltip--max - The upper value's tooltip in range mode.
  *
  * @cssproperty --thumb-size - The size of the thumb.
  * @cssproperty --tooltip-offset - The vertical distance the tooltip is offset from the track.
  * @cssproperty --track-color-active - The color of the portion of the track that represents the current value.
  * @cssproperty --track-color-inactive - The of the portion of the track that represents the remaining value.
  * @cssproperty --track-height - The height of the track.
- * @cssproperty --track-active-offset - The point of origin of the active track.
+ * @cssproperty --track-active-offset - The point of origin of the active track. Not used in range mode, where the
+ *  active track spans from the lower value to the upper value.
  */
 @customElement('sl-range')
 export default class SlRange extends ShoelaceElement implements ShoelaceFormControl {
   static styles: CSSResultGroup = styles;
 
-  private readonly formControlController = new FormControlController(this);
+  private readonly formControlController = new FormControlController(this, {
+    value: (control: SlRange) => (control.range ? [control.minValue, control.maxValue] : control.value),
+    defaultValue: (control: SlRange) =>
+      control.range ? [control.defaultMinValue, control.defaultMaxValue] : control.defaultValue,
+    setValue: (control: SlRange, value: number | number[]) => {
+      if (Array.isArray(value)) {
+        [control.minValue, control.maxValue] = value;
+      } else {
+        control.value = value;
+      }
+    },
+    markPristine: (control: SlRange) => {
+      if (control.range) {
+        [control.defaultMinValue, control.defaultMaxValue] = [control.minValue, control.maxValue];
+      } else {
+        control.defaultValue = control.value;
+      }
+    }
+  });
   private readonly hasSlotController = new HasSlotController(this, 'help-text', 'label');
   private readonly localize = new LocalizeController(this);
   private resizeObserver: ResizeObserver;
 
   @query('.range__control') input: HTMLInputElement;
+  @query('.range__control--max') maxInput: HTMLInputElement | null;
   @query('.range__tooltip') output: HTMLOutputElement | null;
+  @query('.range__tooltip--max') maxOutput: HTMLOutputElement | null;
 
   @state() private hasFocus = false;
   @state() private hasTooltip = false;
+  @state() private activeThumb: 'min' | 'max' = 'max';
   @property() title = ''; // make reactive to pass through
 
   /** The name of the range, submitted as a name/value pair with form data. */
   @property() name = '';
 
-  /** The current value of the range, submitted as a name/value pair with form data. */
+  /** The current value of the range, submitted as a name/value pair with form data. Not used in range mode. */
   @property({ type: Number }) value = 0;
 
+  /**
+   * Enables range mode, which shows two thumbs that let the user select a pair of values. The values are available
+   * through the `minValue` and `maxValue` properties and are submitted as two name/value pairs with form data.
+   */
+  @property({ type: Boolean, reflect: true }) range = false;
+
+  /** The lower value in range mode. It can't be greater than the upper value. */
+  @property({ attribute: 'min-value', type: Number }) minValue = 0;
+
+  /** The upper value in range mode. It can't be less than the lower value. */
+  @property({ attribute: 'max-value', type: Number }) maxValue = 100;
+
   /** The range's label. If you need to display HTML, use the `label` slot instead. */
   @property() label = '';
 
@@ -102,14 +143,20 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
   /** The default value of the form control. Primarily used for resetting the form control. */
   @defaultValue() defaultValue = 0;
 
+  /** The default lower value in range mode. Primarily used for resetting the form control. */
+  @defaultValue('minValue') defaultMinValue = 0;
+
+  /** The default upper value in range mode. Primarily used for resetting the form control. */
+  @defaultValue('maxValue') defaultMaxValue = 100;
+
   /** Gets the validity state object */
   get validity() {
-    return this.input.validity;
+    return this.getInvalidInput().validity;
   }
 
   /** Gets the validation message */
   get validationMessage() {
-    return this.input.validationMessage;
+    return this.getInvalidInput().validationMessage;
   }
 
   connectedCallback() {
@@ -123,6 +170,9 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
       this.value = this.max;
     }
 
+    this.minValue = Math.min(Math.max(this.minValue, this.min), this.max);
+    this.maxValue = Math.min(Math.max(this.maxValue, this.minValue), this.max);
+
     this.updateComplete.then(() => {
       this.syncRange();
       this.resizeObserver.observe(this.input);
@@ -134,6 +184,15 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
     this.resizeObserver.unobserve(this.input);
   }
 
+  // In range mode, the input that's invalid (or the lower input when both are valid) determines the validity
+  private getInvalidInput() {
+    if (this.range && this.maxInput && this.input.validity.valid && !this.maxInput.validity.valid) {
+      return this.maxInput;
+    }
+
+    return this.input;
+  }
+
   private handleChange() {
     this.emit('sl-change');
   }
@@ -144,6 +203,29 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
     this.syncRange();
   }
 
+  private handleRangeInput(event: Event) {
+    const thumb = event.target === this.maxInput ? 'max' : 'min';
+    const input = event.target as HTMLInputElement;
+    const value = parseFloat(input.value);
+    const oldValues = [this.minValue, this.maxValue];
+
+    // Prevent the thumbs from crossing
+    if (thumb === 'min') {
+      this.minValue = Math.min(value, this.maxValue);
+    } else {
+      this.maxValue = Math.max(value, this.minValue);
+    }
+
+    input.value = String(thumb === 'min' ? this.minValue : this.maxValue);
+    this.activeThumb = thumb;
+
+    if (this.minValue !== oldValues[0] || this.maxValue !== oldValues[1]) {
+      this.emit('sl-input');
+    }
+
+    this.syncRange();
+  }
+
   private handleBlur() {
     this.hasFocus = false;
     this.hasTooltip = false;
@@ -165,14 +247,19 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
     this.hasTooltip = false;
   }
 
-  private syncProgress(percent: number) {
+  private syncProgress(percent: number, startPercent?: number) {
     this.input.style.setProperty('--percent', `${percent * 100}%`);
+
+    // In range mode, the active track starts at the lower thumb
+    if (startPercent !== undefined) {
+      this.input.style.setProperty('--track-active-offset', `${startPercent * 100}%`);
+    }
   }
 
-  private syncTooltip(percent: number) {
-    if (this.output !== null) {
+  private syncTooltip(percent: number, output = this.output) {
+    if (output !== null) {
       const inputWidth = this.input.offsetWidth;
-      const tooltipWidth = this.output.offsetWidth;
+      const tooltipWidth = output.offsetWidth;
       const thumbSize = getComputedStyle(this.input).getPropertyValue('--thumb-size');
       const isRtl = this.localize.dir() === 'rtl';
       const percentAsWidth = inputWidth * percent;
@@ -182,10 +269,10 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
       // off depending on the size of the control, thumb, and tooltip dimensions.
       if (isRtl) {
         const x = `${inputWidth - percentAsWidth}px + ${percent} * ${thumbSize}`;
-        this.output.style.translate = `calc((${x} - ${tooltipWidth / 2}px - ${thumbSize} / 2))`;
+        output.style.translate = `calc((${x} - ${tooltipWidth / 2}px - ${thumbSize} / 2))`;
       } else {
         const x = `${percentAsWidth}px - ${percent} * ${thumbSize}`;
-        this.output.style.translate = `calc(${x} - ${tooltipWidth / 2}px + ${thumbSize} / 2)`;
+        output.style.translate = `calc(${x} - ${tooltipWidth / 2}px + ${thumbSize} / 2)`;
       }
     }
   }
@@ -202,6 +289,27 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
     this.syncRange();
   }
 
+  @watch(['range', 'minValue', 'maxValue'], { waitUntilFirstUpdate: true })
+  async handleRangeValueChange() {
+    // Wait for the inputs to render in case range mode was just toggled
+    await this.updateComplete;
+
+    if (!this.range) {
+      this.syncRange();
+      return;
+    }
+
+    // The values may have constraints, so we set the native controls' values and sync them back to ensure they adhere
+    // to min, max, and step properly. The thumbs are never allowed to cross.
+    this.input.value = this.minValue.toString();
+    this.maxInput!.value = this.maxValue.toString();
+    this.minValue = parseFloat(this.input.value);
+    this.maxValue = Math.max(parseFloat(this.maxInput!.value), this.minValue);
+
+    this.formControlController.updateValidity();
+    this.syncRange();
+  }
+
   @watch('disabled', { waitUntilFirstUpdate: true })
   handleDisabledChange() {
     // Disabled form controls are always valid
@@ -210,7 +318,22 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
 
   @watch('hasTooltip', { waitUntilFirstUpdate: true })
   syncRange() {
-    const percent = Math.max(0, (this.value - this.min) / (this.max - this.min));
+    const toPercent = (value: number) => Math.max(0, (value - this.min) / (this.max - this.min));
+
+    if (this.range) {
+      const minPercent = toPercent(this.minValue);
+      const maxPercent = toPercent(this.maxValue);
+
+      this.syncProgress(maxPercent, minPercent);
+
+      if (this.tooltip !== 'none') {
+        this.syncTooltip(minPercent);
+        this.syncTooltip(maxPercent, this.maxOutput);
+      }
+      return;
+    }
+
+    const percent = toPercent(this.value);
 
     this.syncProgress(percent);
 
@@ -234,16 +357,34 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
     this.input.blur();
   }
 
-  /** Increments the value of the range by the value of the step attribute. */
+  /**
+   * Increments the value of the range by the value of the step attribute. In range mode, the upper value is
+   * incremented.
+   */
   stepUp() {
+    if (this.range) {
+      this.maxInput!.stepUp();
+      this.maxValue = Number(this.maxInput!.value);
+      return;
+    }
+
     this.input.stepUp();
     if (this.value !== Number(this.input.value)) {
       this.value = Number(this.input.value);
     }
   }
 
-  /** Decrements the value of the range by the value of the step attribute. */
+  /**
+   * Decrements the value of the range by the value of the step attribute. In range mode, the lower value is
+   * decremented.
+   */
   stepDown() {
+    if (this.range) {
+      this.input.stepDown();
+      this.minValue = Number(this.input.value);
+      return;
+    }
+
     this.input.stepDown();
     if (this.value !== Number(this.input.value)) {
       this.value = Number(this.input.value);
@@ -252,6 +393,13 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
 
   /** Checks for validity but does not show a validation message. Returns `true` when valid and `false` when invalid. */
   checkValidity() {
+    if (this.range && this.maxInput) {
+      // Check both inputs so each one emits its own invalid event
+      const isMinValid = this.input.checkValidity();
+      const isMaxValid = this.maxInput.checkValidity();
+      return isMinValid && isMaxValid;
+    }
+
     return this.input.checkValidity();
   }
 
@@ -262,15 +410,100 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
 
   /** Checks for validity and shows the browser's validation message if the control is invalid. */
   reportValidity() {
+    if (this.range && this.maxInput) {
+      return this.input.reportValidity() && this.maxInput.reportValidity();
+    }
+
     return this.input.reportValidity();
   }
 
-  /** Sets a custom validation message. Pass an empty string to restore validity. */
-  setCustomValidity(message: string) {
-    this.input.setCustomValidity(message);
+  /**
+   * Sets a custom validation message. Pass an empty string to restore validity. In range mode, pass `min` or `max` as
+   * the second argument to set the message on that thumb. Otherwise, the message is set on the lower thumb.
+   */
+  setCustomValidity(message: string, thumb: 'min' | 'max' = 'min') {
+    const input = this.range && thumb === 'max' ? this.maxInput! : this.input;
+
+    input.setCustomValidity(message);
     this.formControlController.updateValidity();
   }
 
+  private renderTooltip(value: number, thumb?: 'min' | 'max') {
+    if (this.tooltip === 'none' || this.disabled) {
+      return '';
+    }
+
+    return html`
+      <output
+        part=${thumb ? `tooltip tooltip--${thumb}` : 'tooltip'}
+        class=${classMap({
+          range__tooltip: true,
+          'range__tooltip--min': thumb === 'min',
+          'range__tooltip--max': thumb === 'max'
+        })}
+      >
+        ${typeof this.tooltipFormatter === 'function' ? this.tooltipFormatter(value) : value}
+      </output>
+    `;
+  }
+
+  private renderRangeInputs() {
+    // The lower thumb is moved to the top when it's the last one used, or when both thumbs are at the maximum so the
+    // user can still move it
+    const isMinOnTop = this.activeThumb === 'min' || this.minValue >= this.max;
+
+    return html`
+      <input
+        part="input input--min"
+        id="input"
+        class=${classMap({
+          range__control: true,
+          'range__control--min': true,
+          'range__control--top': isMinOnTop
+        })}
+        title=${this.title}
+        type="range"
+        ?disabled=${this.disabled}
+        min=${ifDefined(this.min)}
+        max=${ifDefined(this.max)}
+        step=${ifDefined(this.step)}
+        .value=${live(this.minValue.toString())}
+        aria-labelledby="label min-label"
+        aria-describedby="help-text"
+        @change=${this.handleChange}
+        @focus=${this.handleFocus}
+        @input=${this.handleRangeInput}
+        @invalid=${this.handleInvalid}
+        @blur=${this.handleBlur}
+      />
+      <input
+        part="input input--max"
+        class=${classMap({
+          range__control: true,
+          'range__control--max': true,
+          'range__control--top': !isMinOnTop
+        })}
+        title=${this.title}
+        type="range"
+        ?disabled=${this.disabled}
+        min=${ifDefined(this.min)}
+        max=${ifDefined(this.max)}
+        step=${ifDefined(this.step)}
+        .value=${live(this.maxValue.toString())}
+        aria-labelledby="label max-label"
+        aria-describedby="help-text"
+        @change=${this.handleChange}
+        @focus=${this.handleFocus}
+        @input=${this.handleRangeInput}
+        @invalid=${this.handleInvalid}
+        @blur=${this.handleBlur}
+      />
+      <span id="min-label" hidden>${this.localize.term('minimum')}</span>
+      <span id="max-label" hidden>${this.localize.term('maximum')}</span>
+      ${this.renderTooltip(this.minValue, 'min')} ${this.renderTooltip(this.maxValue, 'max')}
+    `;
+  }
+
   render() {
     const hasLabelSlot = this.hasSlotController.test('label');
     const hasHelpTextSlot = this.hasSlotController.test('help-text');
@@ -290,6 +523,7 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
       >
         <label
           part="form-control-label"
+          id="label"
           class="form-control__label"
           for="input"
           aria-hidden=${hasLabel ? 'false' : 'true'}
@@ -302,6 +536,7 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
             part="base"
             class=${classMap({
               range: true,
+              'range--range': this.range,
               'range--disabled': this.disabled,
               'range--focused': this.hasFocus,
               'range--rtl': this.localize.dir() === 'rtl',
@@ -314,32 +549,32 @@ export default class SlRange extends ShoelaceElement implements ShoelaceFormCont
             @touchstart=${this.handleThumbDragStart}
             @touchend=${this.handleThumbDragEnd}
           >
-            <input
-              part="input"
-              id="input"
-              class="range__control"
-              title=${this.title /* An empty title prevents browser validation tooltips from appearing on hover */}
-              type="range"
-              name=${ifDefined(this.name)}
-              ?disabled=${this.disabled}
-              min=${ifDefined(this.min)}
-              max=${ifDefined(this.max)}
-              step=${ifDefined(this.step)}
-              .value=${live(this.value.toString())}
-              aria-describedby="help-text"
-              @change=${this.handleChange}
-              @focus=${this.handleFocus}
-              @input=${this.handleInput}
-              @invalid=${this.handleInvalid}
-              @blur=${this.handleBlur}
-            />
-            ${this.tooltip !== 'none' && !this.disabled
-              ? html`
-                  <output part="tooltip" class="range__tooltip">
-                    ${typeof this.tooltipFormatter === 'function' ? this.tooltipFormatter(this.value) : this.value}
-                  </output>
-                `
-              : ''}
+            ${this.range
+              ? this.renderRangeInputs()
+              : html`
+                  <input
+                    part="input"
+                    id="input"
+                    class="range__control"
+                    title=${
+                      this.title /* An empty title prevents browser validation tooltips from appearing on hover */
+                    }
+                    type="range"
+                    name=${ifDefined(this.name)}
+                    ?disabled=${this.disabled}
+                    min=${ifDefined(this.min)}
+                    max=${ifDefined(this.max)}
+                    step=${ifDefined(this.step)}
+                    .value=${live(this.value.toString())}
+                    aria-describedby="help-text"
+                    @change=${this.handleChange}
+                    @focus=${this.handleFocus}
+                    @input=${this.handleInput}
+                    @invalid=${this.handleInvalid}
+                    @blur=${this.handleBlur}
+                  />
+                  ${this.renderTooltip(this.value)}
+                `}
           </div>
         </div>
 
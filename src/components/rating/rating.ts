@@ -1,13 +1,14 @@
-import '../icon/icon.js';
 import { clamp } from '../../internal/math.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, eventOptions, property, query, state } from 'lit/decorators.js';
+import { customElement, scopedTagName } from '../../internal/scope.js';
+import { eventOptions, property, query, state } from 'lit/decorators.js';
 import { html } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
 import { styleMap } from 'lit/directives/style-map.js';
 import { unsafeHTML } from 'lit/directives/unsafe-html.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
 import styles from './rating.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -34,6 +35,7 @@ import type { CSSResultGroup } from 'lit';
 @customElement('sl-rating')
 export default class SlRating extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon': SlIcon };
 
   private readonly localize = new LocalizeController(this);
 
@@ -68,7 +70,10 @@ export default class SlRating extends ShoelaceElement {
    * The function should return a string containing trusted HTML of the symbol to render at the specified value. Works
    * well with `<sl-icon>` elements.
    */
-  @property() getSymbol: (value: number) => string = () => '<sl-icon name="star-fill" library="system"></sl-icon>';
+  @property() getSymbol: (value: number) => string = () => {
+    const icon = scopedTagName(this, 'sl-icon');
+    return `<${icon} name="star-fill" library="system"></${icon}>`;
+  };
 
   private getValueFromMousePosition(event: MouseEvent) {
     return this.getValueFromXCoordinate(event.clientX);
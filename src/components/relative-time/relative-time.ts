@@ -1,6 +1,7 @@
-import { customElement, property, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { html } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, state } from 'lit/decorators.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
 
 interface UnitConfig {
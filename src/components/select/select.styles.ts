@@ -112,6 +112,31 @@ export default css`
     cursor: not-allowed !important;
   }
 
+  /* Filterable selects */
+  .select--filterable .select__combobox {
+    cursor: text;
+  }
+
+  .select--filterable.select--multiple .select__display-input {
+    position: relative;
+    z-index: auto;
+    flex: 1 1 4em;
+    order: 1;
+    width: auto;
+    min-width: 4em;
+    height: auto;
+    opacity: 1;
+  }
+
+  .select--filterable.select--multiple .select__tags {
+    flex: 0 1 auto;
+  }
+
+  .select--filterable.select--multiple .select__clear,
+  .select--filterable.select--multiple .select__expand-icon {
+    order: 2;
+  }
+
   /* Standard selects */
   .select--standard .select__combobox {
     background-color: var(--sl-input-background-color);
@@ -311,6 +336,21 @@ export default css`
     max-height: var(--auto-size-available-height);
   }
 
+  .select__listbox-status {
+    display: flex;
+    align-items: center;
+    gap: var(--sl-spacing-x-small);
+    font-size: var(--sl-font-size-medium);
+    color: var(--sl-color-neutral-500);
+    padding-block: var(--sl-spacing-x-small);
+    padding-inline: var(--sl-spacing-medium);
+  }
+
+  .select__virtual-spacer {
+    position: relative;
+    overflow: hidden;
+  }
+
   .select__listbox ::slotted(sl-divider) {
     --spacing: var(--sl-spacing-x-small);
   }
@@ -322,4 +362,11 @@ export default css`
     padding-block: var(--sl-spacing-x-small);
     padding-inline: var(--sl-spacing-x-large);
   }
+
+  /* Forced colors mode */
+  @media (forced-colors: active) {
+    .select--standard:not(.select--disabled).select--focused .select__combobox {
+      outline: solid var(--sl-focus-ring-width) Highlight;
+    }
+  }
 `;
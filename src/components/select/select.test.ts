@@ -1,6 +1,6 @@
-import '../../../dist/shoelace.js';
 import { aTimeout, expect, fixture, html, oneEvent, waitUntil } from '@open-wc/testing';
 import { clickOnElement } from '../../internal/test.js';
+import { registerComponents, SlSelect as SlSelectElement } from '../../../dist/shoelace.js';
 import { runFormControlBaseTests } from '../../internal/test/form-control-base-tests.js';
 import { sendKeys } from '@web/test-runner-commands';
 import { serialize } from '../../utilities/form.js';
@@ -362,6 +362,25 @@ describe('<sl-select>', () => {
       expect(select.hasAttribute('data-user-invalid')).to.be.false;
       expect(select.hasAttribute('data-user-valid')).to.be.false;
     });
+
+    it('should be invalid when fewer options than min-items are selected', async () => {
+      const el = await fixture<SlSelect>(html`
+        <sl-select multiple value="option-1" validators="min-items:2">
+          <sl-option value="option-1">Option 1</sl-option>
+          <sl-option value="option-2">Option 2</sl-option>
+          <sl-option value="option-3">Option 3</sl-option>
+        </sl-select>
+      `);
+
+      await waitUntil(() => el.hasAttribute('data-invalid'));
+      expect(el.checkValidity()).to.be.false;
+      expect(el.validationMessage).to.equal('At least 2 items are required');
+
+      el.value = ['option-1', 'option-2'];
+      await waitUntil(() => el.hasAttribute('data-valid'));
+
+      expect(el.checkValidity()).to.be.true;
+    });
   });
 
   describe('when submitting a form', () => {
@@ -593,5 +612,318 @@ describe('<sl-select>', () => {
     expect(tag.hasAttribute('pill')).to.be.true;
   });
 
+  describe('when filterable', () => {
+    it('should hide options that do not match the query', async () => {
+      const el = await fixture<SlSelect>(html`
+        <sl-select filterable>
+          <sl-option value="apple">Apple</sl-option>
+          <sl-option value="banana">Banana</sl-option>
+          <sl-option value="cherry">Cherry</sl-option>
+        </sl-select>
+      `);
+      const [apple, banana, cherry] = el.querySelectorAll<SlOption>('sl-option');
+
+      el.focus();
+      await sendKeys({ type: 'an' });
+      await el.updateComplete;
+
+      expect(el.open).to.be.true;
+      expect(apple.hidden).to.be.true;
+      expect(banana.hidden).to.be.false;
+      expect(cherry.hidden).to.be.true;
+    });
+
+    it('should select the first matching option when pressing enter', async () => {
+      const el = await fixture<SlSelect>(html`
+        <sl-select filterable>
+          <sl-option value="apple">Apple</sl-option>
+          <sl-option value="banana">Banana</sl-option>
+          <sl-option value="cherry">Cherry</sl-option>
+        </sl-select>
+      `);
+      const changeHandler = sinon.spy();
+
+      el.addEventListener('sl-change', changeHandler);
+      el.focus();
+      await sendKeys({ type: 'che' });
+      await el.updateComplete;
+      await sendKeys({ press: 'Enter' });
+      await el.updateComplete;
+
+      expect(el.value).to.equal('cherry');
+      expect(changeHandler).to.have.been.calledOnce;
+    });
+
+    it('should show all options again when the listbox closes', async () => {
+      const el = await fixture<SlSelect>(html`
+        <sl-select filterable>
+          <sl-option value="apple">Apple</sl-option>
+          <sl-option value="banana">Banana</sl-option>
+        </sl-select>
+      `);
+
+      el.focus();
+      await sendKeys({ type: 'ban' });
+      await el.updateComplete;
+      await el.hide();
+
+      expect([...el.querySelectorAll('sl-option')].every(option => !option.hidden)).to.be.true;
+    });
+
+    it('should show the empty state when no options match', async () => {
+      const el = await fixture<SlSelect>(html`
+        <sl-select filterable>
+          <sl-option value="apple">Apple</sl-option>
+        </sl-select>
+      `);
+
+      el.focus();
+      await sendKeys({ type: 'xyz' });
+      await waitUntil(() => el.shadowRoot!.querySelector('[part~="listbox-status"]'));
+      const status = el.shadowRoot!.querySelector('[part~="listbox-status"]')!;
+
+      expect(status.textContent!.trim()).to.equal('No results');
+    });
+
+    it('should commit a custom value when allow-custom-value is set', async () => {
+      const el = await fixture<SlSelect>(html`
+        <sl-select filterable allow-custom-value>
+          <sl-option value="apple">Apple</sl-option>
+        </sl-select>
+      `);
+      const changeHandler = sinon.spy();
+
+      el.addEventListener('sl-change', changeHandler);
+      el.focus();
+      await sendKeys({ type: 'Kiwi' });
+      await el.updateComplete;
+      await sendKeys({ press: 'Enter' });
+      await waitUntil(() => changeHandler.calledOnce);
+
+      expect(el.value).to.equal('Kiwi');
+      expect(el.displayLabel).to.equal('Kiwi');
+    });
+
+    it('should keep a custom initial value when allow-custom-value is set', async () => {
+      const el = await fixture<SlSelect>(html`
+        <sl-select value="kiwi" filterable allow-custom-value>
+          <sl-option value="apple">Apple</sl-option>
+        </sl-select>
+      `);
+      await aTimeout(0);
+      await el.updateComplete;
+
+      expect(el.value).to.equal('kiwi');
+    });
+
+    it('should serialize custom values with FormData when multiple is set', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-select name="a" filterable allow-custom-value multiple>
+            <sl-option value="apple">Apple</sl-option>
+          </sl-select>
+        </form>
+      `);
+      const el = form.querySelector('sl-select')!;
+
+      el.focus();
+      await sendKeys({ type: 'kiwi' });
+      await sendKeys({ press: 'Enter' });
+      await waitUntil(() => el.value.length === 1);
+      await sendKeys({ type: 'Apple' });
+      await sendKeys({ press: 'Enter' });
+      await waitUntil(() => el.value.length === 2);
+
+      expect(new FormData(form).getAll('a')).to.deep.equal(['kiwi', 'apple']);
+    });
+
+    it('should load options from the provider', async () => {
+      const el = await fixture<SlSelect>(html`<sl-select></sl-select>`);
+      const provider = sinon.spy((query: string) =>
+        Promise.resolve(
+          ['Apple', 'Banana', 'Cherry']
+            .filter(label => label.toLowerCase().includes(query.toLowerCase()))
+            .map(label => ({ value: label.toLowerCase(), label }))
+        )
+      );
+
+      el.provider = provider;
+      el.providerDelay = 0;
+      el.focus();
+      await sendKeys({ type: 'err' });
+      await waitUntil(() => provider.calledWith('err'));
+      await waitUntil(() => el.shadowRoot!.querySelectorAll('sl-option:not([hidden])').length === 1);
+      await sendKeys({ press: 'Enter' });
+      await el.updateComplete;
+
+      expect(el.value).to.equal('cherry');
+      expect(el.displayLabel).to.equal('Cherry');
+    });
+
+    it('should emit sl-error when the provider fails', async () => {
+      const el = await fixture<SlSelect>(html`<sl-select></sl-select>`);
+      const errorHandler = sinon.spy();
+
+      el.provider = () => Promise.reject(new Error('Network error'));
+      el.addEventListener('sl-error', errorHandler);
+      await el.show();
+      await waitUntil(() => errorHandler.calledOnce);
+
+      expect(errorHandler).to.have.been.calledOnce;
+    });
+  });
+
+  describe('when virtual', () => {
+    const createOptions = (count: number) =>
+      Array.from({ length: count }, (_, i) => ({ value: `option-${i + 1}`, label: `Option ${i + 1}` }));
+
+    const getRenderedOptions = (el: SlSelect) => [...el.shadowRoot!.querySelectorAll<SlOption>('sl-option')];
+
+    it('should only render the options that are scrolled into view', async () => {
+      const el = await fixture<SlSelect>(html`<sl-select></sl-select>`);
+      el.options = createOptions(5000);
+      await el.show();
+      await el.updateComplete;
+
+      const renderedOptions = getRenderedOptions(el);
+      expect(renderedOptions.length).to.be.greaterThan(0);
+      expect(renderedOptions.length).to.be.lessThan(50);
+      expect(renderedOptions[0]).to.have.attribute('aria-setsize', '5000');
+      expect(renderedOptions[0]).to.have.attribute('aria-posinset', '1');
+    });
+
+    it('should select options with the keyboard', async () => {
+      const el = await fixture<SlSelect>(html`<sl-select></sl-select>`);
+      const displayInput = el.shadowRoot!.querySelector<HTMLInputElement>('.select__display-input')!;
+      const changeHandler = sinon.spy();
+
+      el.options = createOptions(5000);
+      el.addEventListener('sl-change', changeHandler);
+      el.focus();
+      await sendKeys({ press: 'Enter' });
+      await el.updateComplete;
+      await sendKeys({ press: 'ArrowDown' });
+      await el.updateComplete;
+
+      expect(displayInput).to.have.attribute('aria-activedescendant', 'option-1');
+
+      await sendKeys({ press: 'Enter' });
+      await el.updateComplete;
+
+      expect(el.value).to.equal('option-2');
+      expect(el.displayLabel).to.equal('Option 2');
+      expect(changeHandler).to.have.been.calledOnce;
+    });
+
+    it('should render the current option when navigating to the end', async () => {
+      const el = await fixture<SlSelect>(html`<sl-select></sl-select>`);
+      el.options = createOptions(5000);
+      await el.show();
+
+      await sendKeys({ press: 'End' });
+      await waitUntil(() => getRenderedOptions(el).some(option => option.current));
+
+      const currentOption = getRenderedOptions(el).find(option => option.current)!;
+      expect(currentOption).to.have.attribute('value', 'option-5000');
+      expect(currentOption).to.have.attribute('aria-posinset', '5000');
+    });
+
+    it('should read options from slotted options', async () => {
+      const el = await fixture<SlSelect>(html`
+        <sl-select virtual value="option-2">
+          <sl-option value="option-1">Option 1</sl-option>
+          <sl-option value="option-2">Option 2</sl-option>
+          <sl-option value="option-3">Option 3</sl-option>
+        </sl-select>
+      `);
+      await el.show();
+      await el.updateComplete;
+
+      expect(el.displayLabel).to.equal('Option 2');
+      expect(getRenderedOptions(el)).to.have.lengthOf(3);
+      expect(getRenderedOptions(el)[1].selected).to.be.true;
+    });
+
+    it('should toggle options and render tags when multiple is set', async () => {
+      const el = await fixture<SlSelect>(html`<sl-select multiple></sl-select>`);
+      el.options = createOptions(5000);
+      await el.show();
+      await el.updateComplete;
+
+      await clickOnElement(getRenderedOptions(el)[2]);
+      await el.updateComplete;
+      await clickOnElement(getRenderedOptions(el)[0]);
+      await el.updateComplete;
+
+      const tags = el.shadowRoot!.querySelectorAll('sl-tag');
+      expect(el.value).to.deep.equal(['option-1', 'option-3']);
+      expect(el.displayLabel).to.equal('2 options selected');
+      expect(tags).to.have.lengthOf(2);
+      expect(tags[0]).to.have.trimmed.text('Option 1');
+    });
+
+    it('should filter options when filterable', async () => {
+      const el = await fixture<SlSelect>(html`<sl-select filterable></sl-select>`);
+      el.options = createOptions(5000);
+      el.focus();
+
+      await sendKeys({ type: 'Option 4999' });
+      await el.updateComplete;
+      await sendKeys({ press: 'Enter' });
+      await el.updateComplete;
+
+      expect(el.value).to.equal('option-4999');
+    });
+  });
+
+  describe('when registered with a custom prefix', () => {
+    before(() => {
+      registerComponents([SlSelectElement], { prefix: 'scoped-' });
+    });
+
+    it('should register the elements that it renders with the same prefix', () => {
+      expect(customElements.get('scoped-select')).to.exist;
+      expect(customElements.get('scoped-popup')).to.exist;
+      expect(customElements.get('scoped-tag')).to.exist;
+      expect(customElements.get('scoped-option')).to.exist;
+    });
+
+    it('should render and style the elements of its own prefix', async () => {
+      const el = await fixture<SlSelect>(html`
+        <scoped-select multiple value="option-1 option-2">
+          <scoped-option value="option-1">Option 1</scoped-option>
+          <scoped-option value="option-2">Option 2</scoped-option>
+        </scoped-select>
+      `);
+      await el.updateComplete;
+
+      expect(el.shadowRoot!.querySelector('sl-popup')).to.be.null;
+      expect(el.shadowRoot!.querySelector('scoped-popup')).to.exist;
+      expect(el.shadowRoot!.querySelectorAll('scoped-tag')).to.have.lengthOf(2);
+    });
+
+    it('should select its own options', async () => {
+      const el = await fixture<SlSelect>(html`
+        <scoped-select>
+          <scoped-option value="option-1">Option 1</scoped-option>
+          <scoped-option value="option-2">Option 2</scoped-option>
+        </scoped-select>
+      `);
+      const option = el.querySelector<SlOption>('scoped-option[value="option-2"]')!;
+
+      await el.show();
+      await clickOnElement(option);
+      await el.updateComplete;
+
+      expect(el.value).to.equal('option-2');
+    });
+
+    it('should throw when the prefix is invalid', () => {
+      expect(() => {
+        registerComponents([SlSelectElement], { prefix: 'scoped' });
+      }).to.throw();
+    });
+  });
+
   runFormControlBaseTests('sl-select');
 });
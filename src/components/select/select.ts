@@ -1,26 +1,50 @@
-import '../icon/icon.js';
-import '../popup/popup.js';
-import '../tag/tag.js';
 import { animateTo, stopAnimations } from '../../internal/animate.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement, getScopedRegistry, scopedTagName, unscopedTagName } from '../../internal/scope.js';
 import { defaultValue } from '../../internal/default-value.js';
 import { FormControlController } from '../../internal/form.js';
 import { getAnimation, setDefaultAnimation } from '../../utilities/animation-registry.js';
 import { HasSlotController } from '../../internal/slot.js';
-import { html } from 'lit';
+import { html, isServer } from 'lit';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { live } from 'lit/directives/live.js';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query, state } from 'lit/decorators.js';
+import { repeat } from 'lit/directives/repeat.js';
 import { scrollIntoView } from '../../internal/scroll.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import { validatorsConverter } from '../../internal/validators.js';
+import { VirtualizerController } from '../../internal/virtualizer.js';
 import { waitForEvent } from '../../internal/event.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIcon from '../icon/icon.js';
+import SlOption from '../option/option.js';
+import SlPopup from '../popup/popup.js';
+import SlSpinner from '../spinner/spinner.js';
+import SlTag from '../tag/tag.js';
 import styles from './select.styles.js';
 import type { CSSResultGroup } from 'lit';
 import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
-import type SlOption from '../option/option.js';
-import type SlPopup from '../popup/popup.js';
+import type { Validator } from '../../internal/validators.js';
 import type SlRemoveEvent from '../../events/sl-remove.js';
 
+/** An option returned by the select's `provider` function or set with the `options` property. */
+export interface SelectOptionData {
+  /** The option's value. Spaces will be replaced with underscores, just like `<sl-option>` values. */
+  value: string;
+  /** The option's plain text label. */
+  label: string;
+  /** Draws the option in a disabled state, preventing selection. */
+  disabled?: boolean;
+}
+
+/**
+ * A function that receives the current query and resolves with the options to show. The signal is aborted when a newer
+ * query supersedes the request.
+ */
+export type SelectOptionsProvider = (query: string, signal: AbortSignal) => Promise<SelectOptionData[]>;
+
 /**
  * @summary Selects allow you to choose items from a menu of predefined options.
  * @documentation https://shoelace.style/components/select
@@ -28,7 +52,9 @@ import type SlRemoveEvent from '../../events/sl-remove.js';
  * @since 2.0
  *
  * @dependency sl-icon
+ * @dependency sl-option
  * @dependency sl-popup
+ * @dependency sl-spinner
  * @dependency sl-tag
  *
  * @slot - The listbox options. Must be `<sl-option>` elements. You can use `<sl-divider>` to group items visually.
@@ -48,6 +74,7 @@ import type SlRemoveEvent from '../../events/sl-remove.js';
  * @event sl-hide - Emitted when the select's menu closes.
  * @event sl-after-hide - Emitted after the select's menu closes and all animations are complete.
  * @event sl-invalid - Emitted when the form control has been checked for validity and its constraints aren't satisfied.
+ * @event sl-error - Emitted when the provider fails to load options.
  *
  * @csspart form-control - The form control that wraps the label, input, and help text.
  * @csspart form-control-label - The label's wrapper.
@@ -57,6 +84,7 @@ import type SlRemoveEvent from '../../events/sl-remove.js';
  * @csspart prefix - The container that wraps the prefix slot.
  * @csspart display-input - The element that displays the selected option's label, an `<input>` element.
  * @csspart listbox - The listbox container where options are slotted.
+ * @csspart listbox-status - The message shown in the listbox while options are loading or when no options match.
  * @csspart tags - The container that houses option tags when `multiselect` is used.
  * @csspart tag - The individual tags that represent each multiselect option.
  * @csspart tag__base - The tag's base part.
@@ -69,14 +97,31 @@ import type SlRemoveEvent from '../../events/sl-remove.js';
 @customElement('sl-select')
 export default class SlSelect extends ShoelaceElement implements ShoelaceFormControl {
   static styles: CSSResultGroup = styles;
+  static dependencies = {
+    'sl-icon': SlIcon,
+    'sl-option': SlOption,
+    'sl-popup': SlPopup,
+    'sl-spinner': SlSpinner,
+    'sl-tag': SlTag
+  };
 
   private readonly formControlController = new FormControlController(this, {
-    assumeInteractionOn: ['sl-blur', 'sl-input']
+    assumeInteractionOn: ['sl-blur', 'sl-input'],
+    setValidationMessage: (control: SlSelect, message: string) => control.valueInput.setCustomValidity(message)
   });
   private readonly hasSlotController = new HasSlotController(this, 'help-text', 'label');
   private readonly localize = new LocalizeController(this);
   private typeToSelectString = '';
   private typeToSelectTimeout: number;
+  private providerTimeout: number;
+  private providerAbortController: AbortController | null = null;
+  private generatedOptionData = new Map<string, SelectOptionData & { isCustom: boolean }>();
+  private virtualOptions: SelectOptionData[] = [];
+  private virtualOptionsByValue = new Map<string, SelectOptionData>();
+  private readonly virtualizer = new VirtualizerController(this, {
+    getScrollElement: () => (this.isVirtual ? this.listbox : null),
+    getCount: () => this.visibleVirtualOptions.length
+  });
 
   @query('.select') popup: SlPopup;
   @query('.select__combobox') combobox: HTMLSlotElement;
@@ -88,6 +133,13 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
   @state() displayLabel = '';
   @state() currentOption: SlOption;
   @state() selectedOptions: SlOption[] = [];
+  @state() private query = '';
+  @state() private providedValues: string[] = [];
+  @state() private isLoading = false;
+  @state() private hasNoResults = false;
+  @state() private visibleVirtualOptions: SelectOptionData[] = [];
+  @state() private selectedVirtualOptions: SelectOptionData[] = [];
+  @state() private currentIndex = -1;
 
   /** The name of the select, submitted as a name/value pair with form data. */
   @property() name = '';
@@ -168,6 +220,55 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
   /** The select's required attribute. */
   @property({ type: Boolean, reflect: true }) required = false;
 
+  /**
+   * Validators to run in addition to the browser's constraint validation. A validator can be a function that returns a
+   * validation message, an object with a `validate` function and a `debounce` delay for async validators, or the name
+   * of a registered rule such as `equals-field:password`. In HTML, use a space-delimited list of rules.
+   */
+  @property({ converter: validatorsConverter }) validators: Validator[] = [];
+
+  /**
+   * Turns the select into a combobox with an editable text field. Typing into the field filters the options by their
+   * label.
+   */
+  @property({ type: Boolean, reflect: true }) filterable = false;
+
+  /**
+   * When the select is filterable, allows the user to commit text that doesn't match any option as the value. Custom
+   * values are committed by pressing enter or, for single selects, by moving focus away from the select.
+   */
+  @property({ attribute: 'allow-custom-value', type: Boolean }) allowCustomValue = false;
+
+  /**
+   * A function that loads options for the current query, e.g. from a server. Setting a provider makes the select
+   * filterable. Options that are selected initially must be slotted as `<sl-option>` elements, since the provider may
+   * not return them until the user searches for them.
+   */
+  @property({ attribute: false }) provider: SelectOptionsProvider | undefined;
+
+  /** The number of milliseconds to wait after the user stops typing before calling the provider. */
+  @property({ attribute: 'provider-delay', type: Number }) providerDelay = 300;
+
+  /**
+   * Only renders the options that are scrolled into view, which keeps selects with thousands of options fast. The
+   * options are read from the slotted `<sl-option>` elements or from the `options` property. Other slotted elements,
+   * such as dividers, aren't shown. Virtual selects don't support providers.
+   */
+  @property({ type: Boolean, reflect: true }) virtual = false;
+
+  /** The options to show, as an alternative to slotting `<sl-option>` elements. Setting options makes the select virtual. */
+  @property({ attribute: false }) options: SelectOptionData[] | undefined;
+
+  /** Filterable selects and selects with a provider let the user type into the combobox. */
+  private get isFilterable() {
+    return this.filterable || typeof this.provider === 'function';
+  }
+
+  /** Virtual selects render their options from data. */
+  private get isVirtual() {
+    return this.virtual || Array.isArray(this.options);
+  }
+
   /** Gets the validity state object */
   get validity() {
     return this.valueInput.validity;
@@ -212,6 +313,7 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
     // Close when focusing out of the select
     const path = event.composedPath();
     if (this && !path.includes(this)) {
+      this.commitQueryOnLeave();
       this.hide();
     }
   };
@@ -219,7 +321,7 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
   private handleDocumentKeyDown = (event: KeyboardEvent) => {
     const target = event.target as HTMLElement;
     const isClearButton = target.closest('.select__clear') !== null;
-    const isIconButton = target.closest('sl-icon-button') !== null;
+    const isIconButton = target.closest(scopedTagName(this, 'sl-icon-button')) !== null;
 
     // Ignore presses when the target is an icon button (e.g. the remove button in <sl-tag>)
     if (isClearButton || isIconButton) {
@@ -235,8 +337,8 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
     }
 
     // Handle enter and space. When pressing space, we allow for type to select behaviors so if there's anything in the
-    // buffer we _don't_ close it.
-    if (event.key === 'Enter' || (event.key === ' ' && this.typeToSelectString === '')) {
+    // buffer we _don't_ close it. Filterable selects treat space as text.
+    if (event.key === 'Enter' || (event.key === ' ' && this.typeToSelectString === '' && !this.isFilterable)) {
       event.preventDefault();
       event.stopImmediatePropagation();
 
@@ -246,9 +348,17 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
         return;
       }
 
-      // If it is open, update the value based on the current selection and close it
-      if (this.currentOption && !this.currentOption.disabled) {
-        if (this.multiple) {
+      // If it is open, update the value based on the current selection and close it. Filterable selects may not have a
+      // current option when nothing matches the query.
+      const currentVirtualOption = this.isVirtual ? this.visibleVirtualOptions[this.currentIndex] : undefined;
+      const hasCurrentOption = this.isVirtual
+        ? currentVirtualOption && !currentVirtualOption.disabled
+        : this.currentOption?.current && !this.currentOption.disabled;
+
+      if (hasCurrentOption) {
+        if (currentVirtualOption) {
+          this.selectVirtualOption(currentVirtualOption);
+        } else if (this.multiple) {
           this.toggleOptionSelection(this.currentOption);
         } else {
           this.setSelectedOptions(this.currentOption);
@@ -264,15 +374,22 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
           this.hide();
           this.displayInput.focus({ preventScroll: true });
         }
+      } else if (this.isFilterable && this.allowCustomValue) {
+        this.commitQuery();
       }
 
       return;
     }
 
-    // Navigate options
+    // Navigate options. In filterable selects, home and end move the caret instead.
     if (['ArrowUp', 'ArrowDown', 'Home', 'End'].includes(event.key)) {
-      const allOptions = this.getAllOptions();
-      const currentIndex = allOptions.indexOf(this.currentOption);
+      if (this.isFilterable && (event.key === 'Home' || event.key === 'End')) {
+        return;
+      }
+
+      const allOptions = this.isVirtual ? [] : this.getAllOptions().filter(el => !el.hidden);
+      const optionCount = this.isVirtual ? this.visibleVirtualOptions.length : allOptions.length;
+      const currentIndex = this.isVirtual ? this.currentIndex : allOptions.indexOf(this.currentOption);
       let newIndex = Math.max(0, currentIndex);
 
       // Prevent scrolling
@@ -283,36 +400,46 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
         this.show();
 
         // If an option is already selected, stop here because we want that one to remain highlighted when the listbox
-        // opens for the first time
-        if (this.currentOption) {
+        // opens for the first time. Virtual selects highlight it when they open.
+        if (this.currentOption || this.isVirtual) {
           return;
         }
       }
 
       if (event.key === 'ArrowDown') {
         newIndex = currentIndex + 1;
-        if (newIndex > allOptions.length - 1) newIndex = 0;
+        if (newIndex > optionCount - 1) newIndex = 0;
       } else if (event.key === 'ArrowUp') {
         newIndex = currentIndex - 1;
-        if (newIndex < 0) newIndex = allOptions.length - 1;
+        if (newIndex < 0) newIndex = optionCount - 1;
       } else if (event.key === 'Home') {
         newIndex = 0;
       } else if (event.key === 'End') {
-        newIndex = allOptions.length - 1;
+        newIndex = optionCount - 1;
       }
 
-      this.setCurrentOption(allOptions[newIndex]);
+      if (this.isVirtual) {
+        this.setCurrentIndex(newIndex);
+      } else {
+        this.setCurrentOption(allOptions[newIndex]);
+      }
     }
 
     // All other "printable" keys trigger type to select
     if (event.key.length === 1 || event.key === 'Backspace') {
-      const allOptions = this.getAllOptions();
+      const allOptions = this.isVirtual ? [] : this.getAllOptions();
 
       // Don't block important key combos like CMD+R
       if (event.metaKey || event.ctrlKey || event.altKey) {
         return;
       }
 
+      // Filterable selects receive text through the display input, which is handled in handleDisplayInputInput()
+      if (this.isFilterable) {
+        this.handleFilterableKeyDown(event);
+        return;
+      }
+
       // Open, unless the key that triggered is backspace
       if (!this.open) {
         if (event.key === 'Backspace') {
@@ -334,6 +461,17 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
         this.typeToSelectString += event.key.toLowerCase();
       }
 
+      if (this.isVirtual) {
+        const index = this.visibleVirtualOptions.findIndex(option =>
+          option.label.toLowerCase().startsWith(this.typeToSelectString)
+        );
+
+        if (index > -1) {
+          this.setCurrentIndex(index);
+        }
+        return;
+      }
+
       for (const option of allOptions) {
         const label = option.getTextLabel().toLowerCase();
 
@@ -349,6 +487,7 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
     // Close when clicking outside of the select
     const path = event.composedPath();
     if (this && !path.includes(this)) {
+      this.commitQueryOnLeave();
       this.hide();
     }
   };
@@ -359,13 +498,18 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
 
   private handleComboboxMouseDown(event: MouseEvent) {
     const path = event.composedPath();
-    const isIconButton = path.some(el => el instanceof Element && el.tagName.toLowerCase() === 'sl-icon-button');
+    const isIconButton = path.some(el => el instanceof Element && unscopedTagName(el) === 'sl-icon-button');
 
     // Ignore disabled controls and clicks on tags (remove buttons)
     if (this.disabled || isIconButton) {
       return;
     }
 
+    // Let the user place the caret in a filterable select without closing the listbox
+    if (this.isFilterable && this.open && path.includes(this.displayInput)) {
+      return;
+    }
+
     event.preventDefault();
     this.displayInput.focus({ preventScroll: true });
     this.open = !this.open;
@@ -380,7 +524,11 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
     event.stopPropagation();
 
     if (this.value !== '') {
-      this.setSelectedOptions([]);
+      if (this.isVirtual) {
+        this.setVirtualSelection([]);
+      } else {
+        this.setSelectedOptions([]);
+      }
       this.displayInput.focus({ preventScroll: true });
 
       // Emit after update
@@ -400,11 +548,13 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
 
   private handleOptionClick(event: MouseEvent) {
     const target = event.target as HTMLElement;
-    const option = target.closest('sl-option');
+    const option = target.closest<SlOption>(scopedTagName(this, 'sl-option'));
     const oldValue = this.value;
 
     if (option && !option.disabled) {
-      if (this.multiple) {
+      if (this.isVirtual) {
+        this.selectVirtualOption(this.virtualOptionsByValue.get(option.value)!);
+      } else if (this.multiple) {
         this.toggleOptionSelection(option);
       } else {
         this.setSelectedOptions(option);
@@ -428,28 +578,78 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
     }
   }
 
-  private handleDefaultSlotChange() {
-    const allOptions = this.getAllOptions();
-    const value = Array.isArray(this.value) ? this.value : [this.value];
-    const values: string[] = [];
+  private handleFilterableKeyDown(event: KeyboardEvent) {
+    if (event.key === 'Backspace') {
+      // Remove the last tag when pressing backspace in an empty multiple select
+      if (this.multiple && this.query === '' && this.getSelectedLabels().length > 0) {
+        event.preventDefault();
+        this.deselectOptionAt(this.getSelectedLabels().length - 1);
 
+        // Emit after updating
+        this.updateComplete.then(() => {
+          this.emit('sl-input');
+          this.emit('sl-change');
+        });
+        return;
+      }
+
+      // Don't edit the selected option's label while the listbox is closed
+      if (!this.open) {
+        event.preventDefault();
+      }
+
+      return;
+    }
+
+    // When the listbox is closed, the input shows the selected option's label. Clear it so the key starts a new query.
+    if (!this.open) {
+      this.displayInput.value = '';
+    }
+  }
+
+  private handleDisplayInputInput() {
+    if (!this.isFilterable) {
+      return;
+    }
+
+    this.query = this.displayInput.value;
+    this.filterOptions();
+
+    if (!this.open) {
+      this.show();
+    }
+
+    if (this.provider) {
+      this.requestOptions();
+    }
+
+    this.updateComplete.then(() => this.updateFilterResults());
+  }
+
+  private handleDefaultSlotChange() {
     // Check for duplicate values in menu items
-    if (customElements.get('sl-option')) {
-      allOptions.forEach(option => values.push(option.value));
+    const registry = getScopedRegistry(this);
+    const optionTagName = scopedTagName(this, 'sl-option');
+
+    if (registry.get(optionTagName)) {
+      if (this.isVirtual) {
+        this.updateVirtualOptions();
+        return;
+      }
 
       // Select only the options that match the new value
-      this.setSelectedOptions(allOptions.filter(el => value.includes(el.value)));
+      this.selectOptionsMatchingValue();
     } else {
       // Rerun this handler when <sl-option> is registered
-      customElements.whenDefined('sl-option').then(() => this.handleDefaultSlotChange());
+      registry.whenDefined(optionTagName).then(() => this.handleDefaultSlotChange());
     }
   }
 
-  private handleTagRemove(event: SlRemoveEvent, option: SlOption) {
+  private handleTagRemove(event: SlRemoveEvent, index: number) {
     event.stopPropagation();
 
     if (!this.disabled) {
-      this.toggleOptionSelection(option, false);
+      this.deselectOptionAt(index);
 
       // Emit after updating
       this.updateComplete.then(() => {
@@ -459,14 +659,366 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
     }
   }
 
-  // Gets an array of all <sl-option> elements
+  // Gets an array of all <sl-option> elements, including the ones the select renders for provided and custom values
   private getAllOptions() {
-    return [...this.querySelectorAll<SlOption>('sl-option')];
+    return [
+      ...this.querySelectorAll<SlOption>(scopedTagName(this, 'sl-option')),
+      ...(this.shadowRoot?.querySelectorAll<SlOption>(`.select__listbox > ${scopedTagName(this, 'sl-option')}`) ?? [])
+    ];
   }
 
   // Gets the first <sl-option> element
   private getFirstOption() {
-    return this.querySelector<SlOption>('sl-option');
+    return this.getAllOptions()[0] ?? null;
+  }
+
+  // Gets the labels of the selected options, which are shown as tags in multiple selects
+  private getSelectedLabels() {
+    return this.isVirtual
+      ? this.selectedVirtualOptions.map(option => option.label)
+      : this.selectedOptions.map(option => option.getTextLabel());
+  }
+
+  // Deselects the option at the given index of the selection, e.g. when its tag is removed
+  private deselectOptionAt(index: number) {
+    if (this.isVirtual) {
+      this.selectVirtualOption(this.selectedVirtualOptions[index], false);
+    } else {
+      this.toggleOptionSelection(this.selectedOptions[index], false);
+    }
+  }
+
+  // Collects the options of a virtual select from the options property or the slotted options, then filters them and
+  // selects the ones that match the current value
+  private updateVirtualOptions() {
+    this.collectVirtualOptions();
+    this.filterOptions();
+    this.selectOptionsMatchingValue();
+  }
+
+  private collectVirtualOptions() {
+    const options = this.options
+      ? this.options.map(option => ({ ...option, value: String(option.value).replace(/ /g, '_') }))
+      : [...this.querySelectorAll<SlOption>(scopedTagName(this, 'sl-option'))].map(el => ({
+          value: el.value,
+          label: el.getTextLabel(),
+          disabled: el.disabled
+        }));
+
+    this.virtualOptionsByValue = new Map(options.map(option => [option.value, option]));
+
+    // Custom values are added after the other options
+    for (const data of this.generatedOptionData.values()) {
+      if (data.isCustom && !this.virtualOptionsByValue.has(data.value)) {
+        options.push(data);
+        this.virtualOptionsByValue.set(data.value, data);
+      }
+    }
+
+    this.virtualOptions = options;
+  }
+
+  // The virtual equivalent of setCurrentOption()
+  private setCurrentIndex(index: number) {
+    this.currentIndex = index;
+
+    if (index > -1) {
+      // Wait for the options to render so the listbox has the right height
+      this.updateComplete.then(() => this.virtualizer.scrollToIndex(index));
+    }
+  }
+
+  // The virtual equivalent of setSelectedOptions() and toggleOptionSelection()
+  private selectVirtualOption(option: SelectOptionData, force?: boolean) {
+    if (!this.multiple) {
+      this.setVirtualSelection([option.value]);
+      return;
+    }
+
+    const value = this.selectedVirtualOptions.map(el => el.value).filter(val => val !== option.value);
+    const isSelected = force ?? !this.selectedVirtualOptions.includes(option);
+
+    this.setVirtualSelection(isSelected ? [...value, option.value] : value);
+  }
+
+  // The virtual equivalent of selectionChanged()
+  private setVirtualSelection(value: string[]) {
+    // Keep the selected options in the same order as the options
+    const selectedValues = new Set(value);
+    this.selectedVirtualOptions = this.multiple
+      ? this.virtualOptions.filter(option => selectedValues.has(option.value))
+      : [this.virtualOptionsByValue.get(value[0])!].filter(Boolean);
+
+    if (this.multiple) {
+      this.value = this.selectedVirtualOptions.map(option => option.value);
+
+      if (this.placeholder && this.value.length === 0) {
+        // When no items are selected, keep the value empty so the placeholder shows
+        this.displayLabel = '';
+      } else {
+        this.displayLabel = this.localize.term('numOptionsSelected', this.selectedVirtualOptions.length);
+      }
+    } else {
+      this.value = this.selectedVirtualOptions[0]?.value ?? '';
+      this.displayLabel = this.selectedVirtualOptions[0]?.label ?? '';
+    }
+
+    // Update validity
+    this.updateComplete.then(() => {
+      this.formControlController.updateValidity();
+    });
+  }
+
+  // Selects the options that match the current value. Options for provided and custom values are rendered by the select,
+  // so we wait for them to render when they don't exist yet.
+  private selectOptionsMatchingValue() {
+    if (this.isVirtual) {
+      const virtualValue = Array.isArray(this.value) ? this.value : [this.value];
+      const missingVirtualValues = virtualValue.filter(val => val !== '' && !this.virtualOptionsByValue.has(val));
+
+      if (this.allowCustomValue && missingVirtualValues.length > 0) {
+        missingVirtualValues.forEach(val =>
+          this.generatedOptionData.set(val, { value: val, label: val, isCustom: true })
+        );
+        this.collectVirtualOptions();
+        this.filterOptions();
+      }
+
+      this.setVirtualSelection(virtualValue);
+      return;
+    }
+
+    const allOptions = this.getAllOptions();
+    const value = Array.isArray(this.value) ? this.value : [this.value];
+    const missingValues = value.filter(val => val !== '' && !allOptions.some(el => el.value === val));
+
+    if (this.allowCustomValue) {
+      missingValues
+        .filter(val => !this.generatedOptionData.has(val))
+        .forEach(val => this.generatedOptionData.set(val, { value: val, label: val, isCustom: true }));
+    }
+
+    if (missingValues.some(val => this.generatedOptionData.has(val))) {
+      this.requestUpdate();
+      this.updateComplete.then(() => {
+        const currentValue = Array.isArray(this.value) ? this.value : [this.value];
+        this.setSelectedOptions(this.getAllOptions().filter(el => currentValue.includes(el.value)));
+      });
+      return;
+    }
+
+    this.setSelectedOptions(allOptions.filter(el => value.includes(el.value)));
+  }
+
+  // Gets the data for options the select renders itself. Provided options that no longer match the query and custom
+  // options are kept as long as they're selected, otherwise their selection would be lost.
+  private getGeneratedOptions() {
+    const value = Array.isArray(this.value) ? this.value : [this.value];
+    const normalizedQuery = this.query.trim().toLowerCase();
+    // The server doesn't know about the select's children
+    const slottedValues = isServer
+      ? []
+      : [...this.querySelectorAll<SlOption>(scopedTagName(this, 'sl-option'))].map(el => el.value);
+    const generatedValues = [...new Set([...this.providedValues, ...value])].filter(
+      val => this.generatedOptionData.has(val) && !slottedValues.includes(val)
+    );
+
+    return generatedValues.map(val => {
+      const data = this.generatedOptionData.get(val)!;
+      const isVisible = data.isCustom
+        ? data.label.toLowerCase().includes(normalizedQuery)
+        : this.providedValues.includes(data.value);
+
+      return { ...data, isVisible };
+    });
+  }
+
+  // Hides slotted options whose label doesn't contain the query. Provided options are filtered by the provider.
+  private filterOptions() {
+    const normalizedQuery = this.query.trim().toLowerCase();
+
+    if (this.isVirtual) {
+      this.visibleVirtualOptions =
+        normalizedQuery === ''
+          ? this.virtualOptions
+          : this.virtualOptions.filter(option => option.label.toLowerCase().includes(normalizedQuery));
+      return;
+    }
+
+    this.querySelectorAll<SlOption>(scopedTagName(this, 'sl-option')).forEach(option => {
+      option.hidden = normalizedQuery !== '' && !option.getTextLabel().toLowerCase().includes(normalizedQuery);
+    });
+  }
+
+  // Highlights the best match after filtering and determines whether the empty state should be shown. When custom values
+  // are allowed, only an exact match is highlighted so pressing enter commits the query as typed.
+  private updateFilterResults() {
+    if (!this.open) {
+      return;
+    }
+
+    const normalizedQuery = this.query.trim().toLowerCase();
+
+    if (this.isVirtual) {
+      const options = this.visibleVirtualOptions;
+
+      this.hasNoResults = options.length === 0;
+      this.setCurrentIndex(
+        this.allowCustomValue
+          ? options.findIndex(option => option.label.toLowerCase() === normalizedQuery)
+          : options.findIndex(option => !option.disabled)
+      );
+      return;
+    }
+
+    const visibleOptions = this.getAllOptions().filter(el => !el.hidden);
+    const match = this.allowCustomValue
+      ? visibleOptions.find(el => el.getTextLabel().toLowerCase() === normalizedQuery)
+      : visibleOptions.find(el => !el.disabled);
+
+    this.hasNoResults = visibleOptions.length === 0;
+    this.setCurrentOption(match ?? null);
+  }
+
+  // Waits for the user to stop typing, then loads options from the provider
+  private requestOptions(delay = this.providerDelay) {
+    clearTimeout(this.providerTimeout);
+    this.providerAbortController?.abort();
+    this.isLoading = true;
+    this.providerTimeout = window.setTimeout(() => this.loadOptions(), delay);
+  }
+
+  private async loadOptions() {
+    const provider = this.provider;
+    const abortController = new AbortController();
+    const signal = abortController.signal;
+
+    if (!provider) {
+      this.isLoading = false;
+      return;
+    }
+
+    this.providerAbortController = abortController;
+
+    try {
+      const results = await provider(this.query, signal);
+
+      // Ignore results for queries that have been superseded
+      if (signal.aborted) {
+        return;
+      }
+
+      this.providedValues = results.map(result => {
+        const value = String(result.value).replace(/ /g, '_');
+        this.generatedOptionData.set(value, { ...result, value, isCustom: false });
+        return value;
+      });
+    } catch {
+      if (signal.aborted) {
+        return;
+      }
+
+      this.providedValues = [];
+      this.emit('sl-error');
+    }
+
+    this.isLoading = false;
+    this.providerAbortController = null;
+
+    await this.updateComplete;
+    this.updateFilterResults();
+  }
+
+  // Stops filtering and shows all options again
+  private resetFilter() {
+    clearTimeout(this.providerTimeout);
+    this.providerAbortController?.abort();
+    this.providerAbortController = null;
+    this.isLoading = false;
+    this.hasNoResults = false;
+    this.query = '';
+    this.filterOptions();
+  }
+
+  // Selects the option whose label matches the query or, if there isn't one, commits the query as a custom value
+  private async commitQuery() {
+    const label = this.query.trim();
+    const oldValue = this.value;
+
+    if (!this.allowCustomValue || label === '') {
+      return;
+    }
+
+    const value = label.replace(/ /g, '_');
+
+    if (this.isVirtual) {
+      const isMatch = (option: SelectOptionData) =>
+        option.label.toLowerCase() === label.toLowerCase() || option.value === value;
+
+      if (!this.virtualOptions.some(isMatch)) {
+        this.generatedOptionData.set(value, { value, label, isCustom: true });
+        this.collectVirtualOptions();
+      }
+
+      const virtualOption = this.virtualOptions.find(isMatch)!;
+
+      if (virtualOption.disabled) {
+        return;
+      }
+
+      this.selectVirtualOption(virtualOption, true);
+
+      if (this.multiple) {
+        this.query = '';
+        this.filterOptions();
+      } else {
+        this.hide();
+      }
+    } else {
+      await this.commitQueryToOption(label, value);
+    }
+
+    if (this.value !== oldValue) {
+      // Emit after updating
+      this.updateComplete.then(() => {
+        this.emit('sl-input');
+        this.emit('sl-change');
+      });
+    }
+  }
+
+  // Selects the option whose label or value matches the query, adding a custom option when there isn't one
+  private async commitQueryToOption(label: string, value: string) {
+    const findOption = () =>
+      this.getAllOptions().find(el => el.getTextLabel().toLowerCase() === label.toLowerCase() || el.value === value);
+    let option = findOption();
+
+    if (!option) {
+      this.generatedOptionData.set(value, { value, label, isCustom: true });
+      this.requestUpdate();
+      await this.updateComplete;
+      option = findOption();
+    }
+
+    if (!option || option.disabled) {
+      return;
+    }
+
+    if (this.multiple) {
+      this.toggleOptionSelection(option, true);
+      this.query = '';
+      this.filterOptions();
+    } else {
+      this.setSelectedOptions(option);
+      this.hide();
+    }
+  }
+
+  // Single selects commit custom values when the user leaves the control, just like a text field would
+  private commitQueryOnLeave() {
+    if (this.open && this.isFilterable && this.allowCustomValue && !this.multiple) {
+      this.commitQuery();
+    }
   }
 
   // Sets the current option, which is the option the user is currently interacting with (e.g. via keyboard). Only one
@@ -485,7 +1037,13 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
       this.currentOption = option;
       option.current = true;
       option.tabIndex = 0;
-      option.focus();
+
+      // Focus stays in the display input while the user is typing into a filterable select
+      if (this.isFilterable) {
+        scrollIntoView(option, this.listbox, 'vertical', 'auto');
+      } else {
+        option.focus();
+      }
     }
   }
 
@@ -558,39 +1116,60 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
     }
   }
 
+  @watch(['virtual', 'options'])
+  handleVirtualChange() {
+    if (this.isVirtual) {
+      this.updateVirtualOptions();
+    } else if (this.hasUpdated) {
+      this.selectOptionsMatchingValue();
+    }
+  }
+
   @watch('value', { waitUntilFirstUpdate: true })
   handleValueChange() {
-    const allOptions = this.getAllOptions();
-    const value = Array.isArray(this.value) ? this.value : [this.value];
-
     // Select only the options that match the new value
-    this.setSelectedOptions(allOptions.filter(el => value.includes(el.value)));
+    this.selectOptionsMatchingValue();
   }
 
   @watch('open', { waitUntilFirstUpdate: true })
   async handleOpenChange() {
     if (this.open && !this.disabled) {
       // Reset the current option
-      this.setCurrentOption(this.selectedOptions[0] || this.getFirstOption());
+      if (this.isVirtual) {
+        this.setCurrentIndex(Math.max(0, this.visibleVirtualOptions.indexOf(this.selectedVirtualOptions[0])));
+      } else {
+        this.setCurrentOption(this.selectedOptions[0] || this.getFirstOption());
+      }
 
       // Show
       this.emit('sl-show');
       this.addOpenListeners();
 
+      // Load the initial options without waiting for the user to type
+      if (this.provider) {
+        this.requestOptions(0);
+      }
+
       await stopAnimations(this);
       this.listbox.hidden = false;
       this.popup.active = true;
 
       // Select the appropriate option based on value after the listbox opens
       requestAnimationFrame(() => {
-        this.setCurrentOption(this.currentOption);
+        if (this.isVirtual) {
+          this.setCurrentIndex(this.currentIndex);
+        } else {
+          this.setCurrentOption(this.currentOption);
+        }
       });
 
       const { keyframes, options } = getAnimation(this, 'select.show', { dir: this.localize.dir() });
       await animateTo(this.popup.popup, keyframes, options);
 
       // Make sure the current option is scrolled into view (required for Safari)
-      if (this.currentOption) {
+      if (this.isVirtual && this.currentIndex > -1) {
+        this.virtualizer.scrollToIndex(this.currentIndex);
+      } else if (this.currentOption) {
         scrollIntoView(this.currentOption, this.listbox, 'vertical', 'auto');
       }
 
@@ -600,6 +1179,10 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
       this.emit('sl-hide');
       this.removeOpenListeners();
 
+      if (this.isFilterable) {
+        this.resetFilter();
+      }
+
       await stopAnimations(this);
       const { keyframes, options } = getAnimation(this, 'select.hide', { dir: this.localize.dir() });
       await animateTo(this.popup.popup, keyframes, options);
@@ -610,6 +1193,14 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
     }
   }
 
+  updated() {
+    if (this.isVirtual) {
+      this.virtualizer.measure(
+        this.shadowRoot!.querySelector<HTMLElement>(`.select__virtual-options > ${scopedTagName(this, 'sl-option')}`)
+      );
+    }
+  }
+
   /** Shows the listbox. */
   async show() {
     if (this.open || this.disabled) {
@@ -649,8 +1240,7 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
 
   /** Sets a custom validation message. Pass an empty string to restore validity. */
   setCustomValidity(message: string) {
-    this.valueInput.setCustomValidity(message);
-    this.formControlController.updateValidity();
+    this.formControlController.setCustomValidity(message);
   }
 
   /** Sets focus on the control. */
@@ -663,6 +1253,36 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
     this.displayInput.blur();
   }
 
+  // Renders the options of a virtual select that are scrolled into view
+  private renderVirtualOptions() {
+    const { start, end, offset, totalSize } = this.virtualizer;
+    const options = this.visibleVirtualOptions;
+
+    return html`
+      <div class="select__virtual-spacer" style=${styleMap({ height: `${totalSize}px` })}>
+        <div class="select__virtual-options" style=${styleMap({ transform: `translateY(${offset}px)` })}>
+          ${options
+            .slice(start, end)
+            .map(
+              (option, index) => html`
+                <sl-option
+                  id="option-${start + index}"
+                  value=${option.value}
+                  aria-setsize=${options.length}
+                  aria-posinset=${start + index + 1}
+                  ?disabled=${!!option.disabled}
+                  .selected=${this.selectedVirtualOptions.includes(option)}
+                  .current=${start + index === this.currentIndex}
+                >
+                  ${option.label}
+                </sl-option>
+              `
+            )}
+        </div>
+      </div>
+    `;
+  }
+
   render() {
     const hasLabelSlot = this.hasSlotController.test('label');
     const hasHelpTextSlot = this.hasSlotController.test('help-text');
@@ -670,6 +1290,21 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
     const hasHelpText = this.helpText ? true : !!hasHelpTextSlot;
     const hasClearIcon = this.clearable && !this.disabled && this.value.length > 0;
     const isPlaceholderVisible = this.placeholder && this.value.length === 0;
+    const isFilterable = this.isFilterable;
+    const isFiltering = isFilterable && this.open;
+    const isVirtual = this.isVirtual;
+    const selectedLabels = this.getSelectedLabels();
+    let displayInputValue = this.displayLabel;
+    let displayInputPlaceholder = this.placeholder;
+
+    // While filtering, the display input holds the query and the selected option's label becomes the placeholder. Tags
+    // already show the selection of filterable multiple selects.
+    if (isFiltering) {
+      displayInputValue = this.query;
+      displayInputPlaceholder = this.multiple ? this.placeholder : this.displayLabel || this.placeholder;
+    } else if (isFilterable && this.multiple) {
+      displayInputValue = '';
+    }
 
     return html`
       <div
@@ -703,6 +1338,7 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
               'select--open': this.open,
               'select--disabled': this.disabled,
               'select--multiple': this.multiple,
+              'select--filterable': isFilterable,
               'select--focused': this.hasFocus,
               'select--placeholder-visible': isPlaceholderVisible,
               'select--top': this.placement === 'top',
@@ -732,16 +1368,20 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
                 part="display-input"
                 class="select__display-input"
                 type="text"
-                placeholder=${this.placeholder}
+                placeholder=${displayInputPlaceholder}
                 .disabled=${this.disabled}
-                .value=${this.displayLabel}
+                .value=${live(displayInputValue)}
                 autocomplete="off"
                 spellcheck="false"
                 autocapitalize="off"
-                readonly
+                ?readonly=${!isFilterable}
                 aria-controls="listbox"
                 aria-expanded=${this.open ? 'true' : 'false'}
                 aria-haspopup="listbox"
+                aria-autocomplete=${isFilterable ? 'list' : 'none'}
+                aria-activedescendant=${ifDefined(
+                  isVirtual && this.open && this.currentIndex > -1 ? `option-${this.currentIndex}` : undefined
+                )}
                 aria-labelledby="label"
                 aria-disabled=${this.disabled ? 'true' : 'false'}
                 aria-describedby="help-text"
@@ -749,12 +1389,13 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
                 tabindex="0"
                 @focus=${this.handleFocus}
                 @blur=${this.handleBlur}
+                @input=${this.handleDisplayInputInput}
               />
 
               ${this.multiple
                 ? html`
                     <div part="tags" class="select__tags">
-                      ${this.selectedOptions.map((option, index) => {
+                      ${selectedLabels.map((label, index) => {
                         if (index < this.maxOptionsVisible || this.maxOptionsVisible <= 0) {
                           return html`
                             <sl-tag
@@ -768,13 +1409,13 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
                               ?pill=${this.pill}
                               size=${this.size}
                               removable
-                              @sl-remove=${(event: SlRemoveEvent) => this.handleTagRemove(event, option)}
+                              @sl-remove=${(event: SlRemoveEvent) => this.handleTagRemove(event, index)}
                             >
-                              ${option.getTextLabel()}
+                              ${label}
                             </sl-tag>
                           `;
                         } else if (index === this.maxOptionsVisible) {
-                          return html` <sl-tag size=${this.size}> +${this.selectedOptions.length - index} </sl-tag> `;
+                          return html` <sl-tag size=${this.size}> +${selectedLabels.length - index} </sl-tag> `;
                         } else {
                           return null;
                         }
@@ -830,7 +1471,33 @@ export default class SlSelect extends ShoelaceElement implements ShoelaceFormCon
               @mouseup=${this.handleOptionClick}
               @slotchange=${this.handleDefaultSlotChange}
             >
-              <slot></slot>
+              ${isVirtual
+                ? html`
+                    <div class="select__source-options" hidden><slot></slot></div>
+                    ${this.renderVirtualOptions()}
+                  `
+                : html`
+                    <slot></slot>
+
+                    ${repeat(
+                      this.getGeneratedOptions(),
+                      option => option.value,
+                      option => html`
+                        <sl-option value=${option.value} ?disabled=${option.disabled} ?hidden=${!option.isVisible}>
+                          ${option.label}
+                        </sl-option>
+                      `
+                    )}
+                  `}
+              ${isFiltering && (this.isLoading || this.hasNoResults)
+                ? html`
+                    <div part="listbox-status" class="select__listbox-status" aria-live="polite">
+                      ${this.isLoading
+                        ? html`<sl-spinner></sl-spinner> ${this.localize.term('loading')}`
+                        : this.localize.term('noResults')}
+                    </div>
+                  `
+                : ''}
             </div>
           </sl-popup>
         </div>
@@ -43,6 +43,17 @@ export default css`
     animation: spin var(--speed) linear infinite;
   }
 
+  /* Forced colors mode */
+  @media (forced-colors: active) {
+    .spinner__track {
+      stroke: GrayText;
+    }
+
+    .spinner__indicator {
+      stroke: SelectedItem;
+    }
+  }
+
   @keyframes spin {
     0% {
       transform: rotate(0deg);
@@ -1,9 +1,10 @@
 import { clamp } from '../../internal/math.js';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { drag } from '../../internal/drag.js';
-import { html } from 'lit';
+import { html, isServer } from 'lit';
 import { ifDefined } from 'lit/directives/if-defined.js';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
 import styles from './split-panel.styles.js';
@@ -228,23 +229,29 @@ export default class SlSplitPanel extends ShoelaceElement {
       )
     `;
     const secondary = 'auto';
+    let template: string;
 
     if (this.primary === 'end') {
       if (isRtl && !this.vertical) {
-        this.style[gridTemplate] = `${primary} var(--divider-width) ${secondary}`;
+        template = `${primary} var(--divider-width) ${secondary}`;
       } else {
-        this.style[gridTemplate] = `${secondary} var(--divider-width) ${primary}`;
+        template = `${secondary} var(--divider-width) ${primary}`;
       }
     } else {
       if (isRtl && !this.vertical) {
-        this.style[gridTemplate] = `${secondary} var(--divider-width) ${primary}`;
+        template = `${secondary} var(--divider-width) ${primary}`;
       } else {
-        this.style[gridTemplate] = `${primary} var(--divider-width) ${secondary}`;
+        template = `${primary} var(--divider-width) ${secondary}`;
       }
     }
 
-    // Unset the alt grid template property
-    this.style[gridTemplateAlt] = '';
+    // The host can't be styled on the server, so the panels are sized once the split panel hydrates
+    if (!isServer) {
+      this.style[gridTemplate] = template;
+
+      // Unset the alt grid template property
+      this.style[gridTemplateAlt] = '';
+    }
 
     return html`
       <slot name="start" part="panel start" class="start"></slot>
@@ -155,10 +155,32 @@ export default css`
     margin-inline-start: var(--sl-input-required-content-offset);
   }
 
+  /* Forced colors mode */
   @media (forced-colors: active) {
+    .switch__control,
+    .switch__control .switch__thumb {
+      border-color: ButtonText;
+    }
+
+    .switch--checked .switch__control,
+    .switch.switch--checked:not(.switch--disabled) .switch__control:hover {
+      background-color: SelectedItem;
+      border-color: SelectedItem;
+    }
+
     .switch.switch--checked:not(.switch--disabled) .switch__control:hover .switch__thumb,
     .switch--checked .switch__control .switch__thumb {
-      background-color: ButtonText;
+      background-color: SelectedItemText;
+      border-color: SelectedItem;
+    }
+
+    .switch--disabled .switch__control,
+    .switch--disabled .switch__control .switch__thumb {
+      border-color: GrayText;
+    }
+
+    .switch--disabled.switch--checked .switch__control {
+      background-color: GrayText;
     }
   }
 `;
@@ -1,10 +1,11 @@
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { defaultValue } from '../../internal/default-value.js';
 import { FormControlController } from '../../internal/form.js';
 import { html } from 'lit';
 import { ifDefined } from 'lit/directives/if-defined.js';
 import { live } from 'lit/directives/live.js';
+import { property, query, state } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
 import styles from './switch.styles.js';
@@ -41,7 +42,9 @@ export default class SlSwitch extends ShoelaceElement implements ShoelaceFormCon
   private readonly formControlController = new FormControlController(this, {
     value: (control: SlSwitch) => (control.checked ? control.value || 'on' : undefined),
     defaultValue: (control: SlSwitch) => control.defaultChecked,
-    setValue: (control: SlSwitch, checked: boolean) => (control.checked = checked)
+    setValue: (control: SlSwitch, checked: boolean) => (control.checked = checked),
+    dirty: (control: SlSwitch) => control.checked !== control.defaultChecked,
+    markPristine: (control: SlSwitch) => (control.defaultChecked = control.checked)
   });
 
   @query('input[type="checkbox"]') input: HTMLInputElement;
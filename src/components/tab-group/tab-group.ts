@@ -1,11 +1,12 @@
-import '../icon-button/icon-button.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement, getScopedRegistry, scopedTagName, unscopedTagName } from '../../internal/scope.js';
 import { html } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query, state } from 'lit/decorators.js';
 import { scrollIntoView } from '../../internal/scroll.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIconButton from '../icon-button/icon-button.js';
 import styles from './tab-group.styles.js';
 import type { CSSResultGroup } from 'lit';
 import type SlTab from '../tab/tab.js';
@@ -42,6 +43,7 @@ import type SlTabPanel from '../tab-panel/tab-panel.js';
 @customElement('sl-tab-group')
 export default class SlTabGroup extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon-button': SlIconButton };
   private readonly localize = new LocalizeController(this);
 
   private activeTab?: SlTab;
@@ -70,9 +72,10 @@ export default class SlTabGroup extends ShoelaceElement {
   @property({ attribute: 'no-scroll-controls', type: Boolean }) noScrollControls = false;
 
   connectedCallback() {
+    const registry = getScopedRegistry(this);
     const whenAllDefined = Promise.all([
-      customElements.whenDefined('sl-tab'),
-      customElements.whenDefined('sl-tab-panel')
+      registry.whenDefined(scopedTagName(this, 'sl-tab')),
+      registry.whenDefined(scopedTagName(this, 'sl-tab-panel'))
     ]);
 
     super.connectedCallback();
@@ -125,13 +128,13 @@ export default class SlTabGroup extends ShoelaceElement {
 
     return [...(slot.assignedElements() as SlTab[])].filter(el => {
       return options.includeDisabled
-        ? el.tagName.toLowerCase() === 'sl-tab'
-        : el.tagName.toLowerCase() === 'sl-tab' && !el.disabled;
+        ? unscopedTagName(el) === 'sl-tab'
+        : unscopedTagName(el) === 'sl-tab' && !el.disabled;
     });
   }
 
   private getAllPanels() {
-    return [...this.body.assignedElements()].filter(el => el.tagName.toLowerCase() === 'sl-tab-panel') as [SlTabPanel];
+    return [...this.body.assignedElements()].filter(el => unscopedTagName(el) === 'sl-tab-panel') as [SlTabPanel];
   }
 
   private getActiveTab() {
@@ -140,8 +143,8 @@ export default class SlTabGroup extends ShoelaceElement {
 
   private handleClick(event: MouseEvent) {
     const target = event.target as HTMLElement;
-    const tab = target.closest('sl-tab');
-    const tabGroup = tab?.closest('sl-tab-group');
+    const tab = target.closest<SlTab>(scopedTagName(this, 'sl-tab'));
+    const tabGroup = tab?.closest(scopedTagName(this, 'sl-tab-group'));
 
     // Ensure the target tab is in this tab group
     if (tabGroup !== this) {
@@ -155,8 +158,8 @@ export default class SlTabGroup extends ShoelaceElement {
 
   private handleKeyDown(event: KeyboardEvent) {
     const target = event.target as HTMLElement;
-    const tab = target.closest('sl-tab');
-    const tabGroup = tab?.closest('sl-tab-group');
+    const tab = target.closest<SlTab>(scopedTagName(this, 'sl-tab'));
+    const tabGroup = tab?.closest(scopedTagName(this, 'sl-tab-group'));
 
     // Ensure the target tab is in this tab group
     if (tabGroup !== this) {
@@ -176,7 +179,7 @@ export default class SlTabGroup extends ShoelaceElement {
       const activeEl = this.tabs.find(t => t.matches(':focus'));
       const isRtl = this.localize.dir() === 'rtl';
 
-      if (activeEl?.tagName.toLowerCase() === 'sl-tab') {
+      if (activeEl && unscopedTagName(activeEl) === 'sl-tab') {
         let index = this.tabs.indexOf(activeEl);
 
         if (event.key === 'Home') {
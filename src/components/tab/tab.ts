@@ -1,10 +1,11 @@
-import '../icon-button/icon-button.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query } from 'lit/decorators.js';
-import { html } from 'lit';
+import { customElement } from '../../internal/scope.js';
+import { html, isServer } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIconButton from '../icon-button/icon-button.js';
 import styles from './tab.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -29,6 +30,7 @@ let id = 0;
 @customElement('sl-tab')
 export default class SlTab extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon-button': SlIconButton };
   private readonly localize = new LocalizeController(this);
 
   private readonly attrId = ++id;
@@ -79,8 +81,11 @@ export default class SlTab extends ShoelaceElement {
   }
 
   render() {
-    // If the user didn't provide an ID, we'll set one so we can link tabs and tab panels with aria labels
-    this.id = this.id.length > 0 ? this.id : this.componentId;
+    // If the user didn't provide an ID, we'll set one so we can link tabs and tab panels with aria labels. The server
+    // doesn't know the host's ID, so this waits until the tab hydrates.
+    if (!isServer) {
+      this.id = this.id.length > 0 ? this.id : this.componentId;
+    }
 
     return html`
       <div
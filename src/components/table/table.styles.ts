@@ -0,0 +1,199 @@
+import { css } from 'lit';
+import componentStyles from '../../styles/component.styles.js';
+
+export default css`
+  ${componentStyles}
+
+  :host {
+    --max-height: none;
+
+    display: block;
+  }
+
+  .table {
+    max-height: var(--max-height);
+    overflow: auto;
+    border: solid var(--sl-panel-border-width) var(--sl-panel-border-color);
+    border-radius: var(--sl-border-radius-medium);
+    background-color: var(--sl-panel-background-color);
+  }
+
+  .table--resizing {
+    cursor: col-resize;
+    user-select: none;
+    -webkit-user-select: none;
+  }
+
+  .table__table {
+    width: 100%;
+    border-collapse: separate;
+    border-spacing: 0;
+    font-family: var(--sl-font-sans);
+    font-size: var(--sl-font-size-small);
+    color: var(--sl-color-neutral-700);
+  }
+
+  .table__table--fixed {
+    table-layout: fixed;
+  }
+
+  /* Header */
+  .table__header-cell {
+    position: sticky;
+    top: 0;
+    z-index: 1;
+    font-weight: var(--sl-font-weight-semibold);
+    color: var(--sl-color-neutral-900);
+    text-align: start;
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    background-color: var(--sl-color-neutral-50);
+    border-bottom: solid var(--sl-panel-border-width) var(--sl-panel-border-color);
+    padding: var(--sl-spacing-x-small) var(--sl-spacing-small);
+  }
+
+  .table__sort-button {
+    display: inline-flex;
+    align-items: center;
+    gap: var(--sl-spacing-2x-small);
+    max-width: 100%;
+    font: inherit;
+    color: inherit;
+    background: none;
+    border: none;
+    border-radius: var(--sl-border-radius-small);
+    padding: 0;
+    margin: 0;
+    cursor: pointer;
+  }
+
+  .table__sort-button:focus {
+    outline: none;
+  }
+
+  .table__sort-button:focus-visible {
+    outline: var(--sl-focus-ring);
+    outline-offset: var(--sl-focus-ring-offset);
+  }
+
+  .table__sort-icon {
+    flex: 0 0 auto;
+    font-size: var(--sl-font-size-x-small);
+    opacity: 0;
+    transition: var(--sl-transition-fast) opacity, var(--sl-transition-fast) rotate;
+  }
+
+  .table__sort-button:hover .table__sort-icon,
+  .table__sort-icon--asc,
+  .table__sort-icon--desc {
+    opacity: 1;
+  }
+
+  .table__sort-icon--asc {
+    rotate: 180deg;
+  }
+
+  /* Resizer */
+  .table__resizer {
+    position: absolute;
+    top: 0;
+    bottom: 0;
+    inset-inline-end: 0;
+    width: 0.5rem;
+    cursor: col-resize;
+    touch-action: none;
+  }
+
+  .table__resizer::after {
+    content: '';
+    position: absolute;
+    top: 25%;
+    bottom: 25%;
+    inset-inline-end: 0;
+    width: 2px;
+    background-color: var(--sl-color-neutral-300);
+    transition: var(--sl-transition-fast) background-color;
+  }
+
+  .table__resizer:hover::after,
+  .table__header-cell--resizing .table__resizer::after {
+    top: 0;
+    bottom: 0;
+    background-color: var(--sl-color-primary-600);
+  }
+
+  .table__resizer:focus {
+    outline: none;
+  }
+
+  .table__resizer:focus-visible::after {
+    top: 0;
+    bottom: 0;
+    background-color: var(--sl-color-primary-600);
+  }
+
+  /* Rows and cells */
+  .table__cell {
+    border-bottom: solid var(--sl-panel-border-width) var(--sl-color-neutral-100);
+    padding: var(--sl-spacing-x-small) var(--sl-spacing-small);
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+
+  .table__row:last-child .table__cell {
+    border-bottom: none;
+  }
+
+  .table__row:hover .table__cell {
+    background-color: var(--sl-color-neutral-50);
+  }
+
+  .table__row--selectable {
+    cursor: pointer;
+  }
+
+  .table__row--selectable:focus {
+    outline: none;
+  }
+
+  .table__row--selectable:focus-visible {
+    outline: var(--sl-focus-ring);
+    outline-offset: calc(-1 * var(--sl-focus-ring-width));
+  }
+
+  .table__row--selected .table__cell,
+  .table__row--selected:hover .table__cell {
+    background-color: var(--sl-color-primary-50);
+  }
+
+  .table__cell--align-center {
+    text-align: center;
+  }
+
+  .table__cell--align-end {
+    text-align: end;
+  }
+
+  .table__cell--checkbox {
+    width: calc(var(--sl-toggle-size-medium) + 2 * var(--sl-spacing-small));
+  }
+
+  .table__checkbox::part(label) {
+    margin: 0;
+  }
+
+  /* Empty and loading states */
+  .table__message {
+    padding: var(--sl-spacing-large) var(--sl-spacing-small);
+  }
+
+  .table__empty,
+  .table__loading {
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    gap: var(--sl-spacing-x-small);
+    color: var(--sl-color-neutral-500);
+  }
+`;
@@ -0,0 +1,270 @@
+import '../../../dist/shoelace.js';
+import { clickOnElement } from '../../internal/test.js';
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { sendKeys } from '@web/test-runner-commands';
+import sinon from 'sinon';
+import type { TableColumn, TableRow } from './table.js';
+import type SlCheckbox from '../checkbox/checkbox.js';
+import type SlColumnResizeEvent from '../../events/sl-column-resize.js';
+import type SlSortEvent from '../../events/sl-sort.js';
+import type SlTable from './table.js';
+
+const columns: TableColumn[] = [
+  { field: 'name', label: 'Name', sortable: true },
+  { field: 'age', label: 'Age', sortable: true, align: 'end' }
+];
+
+function createRows(): TableRow[] {
+  return [
+    { id: 1, name: 'Charlie', age: 42 },
+    { id: 2, name: 'alice', age: 7 },
+    { id: 3, name: 'Bob', age: 30 }
+  ];
+}
+
+async function createTable(selection: 'none' | 'single' | 'multiple' = 'none') {
+  const el = await fixture<SlTable>(html` <sl-table selection=${selection}></sl-table> `);
+  el.columns = columns;
+  el.rows = createRows();
+  await el.updateComplete;
+  return el;
+}
+
+function getColumnText(el: SlTable, index: number) {
+  return [...el.shadowRoot!.querySelectorAll('tbody tr')].map(row =>
+    row.querySelectorAll('td')[index].textContent!.trim()
+  );
+}
+
+describe('<sl-table>', () => {
+  it('should pass accessibility tests', async () => {
+    const el = await createTable();
+    await expect(el).to.be.accessible();
+  });
+
+  it('should render a header cell for each column and a row for each item', async () => {
+    const el = await createTable();
+    const headerCells = el.shadowRoot!.querySelectorAll('[part~="header-cell"]');
+    const rows = el.shadowRoot!.querySelectorAll('[part~="row"]');
+
+    expect(headerCells.length).to.equal(2);
+    expect(rows.length).to.equal(3);
+    expect(getColumnText(el, 0)).to.deep.equal(['Charlie', 'alice', 'Bob']);
+  });
+
+  it('should use a column render function when provided', async () => {
+    const el = await createTable();
+    el.columns = [{ field: 'name', label: 'Name', render: row => html`<strong>${row.name as string}</strong>` }];
+    await el.updateComplete;
+
+    expect(el.shadowRoot!.querySelector('td strong')!.textContent).to.equal('Charlie');
+  });
+
+  it('should show the empty state when there are no rows', async () => {
+    const el = await fixture<SlTable>(html` <sl-table lang="en"></sl-table> `);
+    el.columns = columns;
+    await el.updateComplete;
+
+    const empty = el.shadowRoot!.querySelector('[part~="empty"]')!;
+    expect(empty.textContent!.trim()).to.equal('No data');
+  });
+
+  it('should show the loading state instead of the rows when loading', async () => {
+    const el = await createTable();
+    el.loading = true;
+    await el.updateComplete;
+
+    expect(el.shadowRoot!.querySelector('[part~="loading"]')).to.exist;
+    expect(el.shadowRoot!.querySelectorAll('[part~="row"]').length).to.equal(0);
+    expect(el.table.getAttribute('aria-busy')).to.equal('true');
+  });
+
+  describe('when sorting', () => {
+    it('should sort ascending, then descending when a sortable header is clicked', async () => {
+      const el = await createTable();
+      const sortButton = el.shadowRoot!.querySelector<HTMLButtonElement>('[part~="sort-button"]')!;
+      const headerCell = sortButton.closest('th')!;
+
+      sortButton.click();
+      await el.updateComplete;
+      expect(getColumnText(el, 0)).to.deep.equal(['alice', 'Bob', 'Charlie']);
+      expect(headerCell.getAttribute('aria-sort')).to.equal('ascending');
+
+      sortButton.click();
+      await el.updateComplete;
+      expect(getColumnText(el, 0)).to.deep.equal(['Charlie', 'Bob', 'alice']);
+      expect(headerCell.getAttribute('aria-sort')).to.equal('descending');
+    });
+
+    it('should sort numbers numerically', async () => {
+      const el = await createTable();
+      el.sortBy = 'age';
+      await el.updateComplete;
+
+      expect(getColumnText(el, 1)).to.deep.equal(['7', '30', '42']);
+    });
+
+    it('should sort empty values last in both directions', async () => {
+      const el = await createTable();
+      el.rows = [...createRows(), { id: 4, name: 'Dana', age: null }, { id: 5, name: 'Eve', age: '' }];
+      el.sortBy = 'age';
+      await el.updateComplete;
+      expect(getColumnText(el, 0)).to.deep.equal(['alice', 'Bob', 'Charlie', 'Dana', 'Eve']);
+
+      el.sortDirection = 'desc';
+      await el.updateComplete;
+      expect(getColumnText(el, 0)).to.deep.equal(['Charlie', 'Bob', 'alice', 'Dana', 'Eve']);
+    });
+
+    it('should emit sl-sort with the field and direction', async () => {
+      const el = await createTable();
+      const sortButton = el.shadowRoot!.querySelectorAll<HTMLButtonElement>('[part~="sort-button"]')[1];
+
+      setTimeout(() => sortButton.click());
+      const event = (await oneEvent(el, 'sl-sort')) as SlSortEvent;
+
+      expect(event.detail).to.deep.equal({ field: 'age', direction: 'asc' });
+    });
+
+    it('should not sort when sl-sort is prevented', async () => {
+      const el = await createTable();
+      const sortButton = el.shadowRoot!.querySelector<HTMLButtonElement>('[part~="sort-button"]')!;
+
+      el.addEventListener('sl-sort', event => event.preventDefault());
+      sortButton.click();
+      await el.updateComplete;
+
+      expect(el.sortBy).to.equal('');
+      expect(getColumnText(el, 0)).to.deep.equal(['Charlie', 'alice', 'Bob']);
+    });
+
+    it('should keep the original order when manual-sort is set', async () => {
+      const el = await createTable();
+      el.manualSort = true;
+      el.sortBy = 'name';
+      await el.updateComplete;
+
+      expect(getColumnText(el, 0)).to.deep.equal(['Charlie', 'alice', 'Bob']);
+    });
+  });
+
+  describe('when selection is multiple', () => {
+    it('should select a row when its checkbox is clicked', async () => {
+      const el = await createTable('multiple');
+      const checkbox = el.shadowRoot!.querySelector<SlCheckbox>('tbody sl-checkbox')!;
+      const selectionHandler = sinon.spy();
+
+      el.addEventListener('sl-row-selection-change', selectionHandler);
+      await clickOnElement(checkbox);
+      await el.updateComplete;
+
+      expect(el.selectedRows.map(row => row.id)).to.deep.equal([1]);
+      expect(selectionHandler).to.have.been.calledOnce;
+    });
+
+    it('should show the select all checkbox as indeterminate when some rows are selected', async () => {
+      const el = await createTable('multiple');
+      const selectAll = el.shadowRoot!.querySelector<SlCheckbox>('thead sl-checkbox')!;
+
+      el.selectedRows = [el.rows[1]];
+      await el.updateComplete;
+      expect(selectAll.indeterminate).to.be.true;
+      expect(selectAll.checked).to.be.false;
+
+      el.selectAll();
+      await el.updateComplete;
+      expect(selectAll.indeterminate).to.be.false;
+      expect(selectAll.checked).to.be.true;
+    });
+
+    it('should select and deselect all rows when the select all checkbox is clicked', async () => {
+      const el = await createTable('multiple');
+      const selectAll = el.shadowRoot!.querySelector<SlCheckbox>('thead sl-checkbox')!;
+
+      await clickOnElement(selectAll);
+      await el.updateComplete;
+      expect(el.selectedRows.length).to.equal(3);
+
+      await clickOnElement(selectAll);
+      await el.updateComplete;
+      expect(el.selectedRows.length).to.equal(0);
+    });
+
+    it('should keep the selection when the rows are replaced', async () => {
+      const el = await createTable('multiple');
+
+      el.selectedRows = [el.rows[2]];
+      await el.updateComplete;
+      el.rows = createRows();
+      await el.updateComplete;
+
+      expect(el.selectedRows.length).to.equal(1);
+      expect(el.selectedRows[0]).to.equal(el.rows[2]);
+    });
+
+    it('should keep selected rows that only match by key when another row is selected', async () => {
+      const el = await createTable('multiple');
+      const checkbox = el.shadowRoot!.querySelector<SlCheckbox>('tbody sl-checkbox')!;
+      const selectionHandler = sinon.spy();
+
+      // These are separate objects with the same keys, e.g. from a previous fetch
+      el.selectedRows = createRows().slice(1);
+      el.addEventListener('sl-row-selection-change', selectionHandler);
+      await el.updateComplete;
+      await clickOnElement(checkbox);
+      await el.updateComplete;
+
+      expect(el.selectedRows.map(row => row.id)).to.deep.equal([1, 2, 3]);
+      expect(selectionHandler).to.have.been.calledOnce;
+    });
+  });
+
+  describe('when selection is single', () => {
+    it('should select a row when it is clicked and deselect the previous row', async () => {
+      const el = await createTable('single');
+      const rows = el.shadowRoot!.querySelectorAll<HTMLTableRowElement>('[part~="row"]');
+
+      await clickOnElement(rows[0]);
+      await clickOnElement(rows[1]);
+      await el.updateComplete;
+
+      expect(el.selectedRows.map(row => row.id)).to.deep.equal([2]);
+      expect(rows[1].getAttribute('aria-selected')).to.equal('true');
+      expect(rows[0].getAttribute('aria-selected')).to.equal('false');
+    });
+
+    it('should select the focused row when enter is pressed', async () => {
+      const el = await createTable('single');
+      const row = el.shadowRoot!.querySelector<HTMLTableRowElement>('[part~="row"]')!;
+
+      row.focus();
+      await sendKeys({ press: 'ArrowDown' });
+      await sendKeys({ press: 'Enter' });
+      await el.updateComplete;
+
+      expect(el.selectedRows.map(r => r.id)).to.deep.equal([2]);
+    });
+  });
+
+  describe('when resizable', () => {
+    it('should resize a column with the keyboard and emit sl-column-resize', async () => {
+      const el = await createTable();
+      el.resizable = true;
+      await el.updateComplete;
+
+      const resizer = el.shadowRoot!.querySelector<HTMLElement>('[part~="resizer"]')!;
+      const headerCell = resizer.closest('th')!;
+      const initialWidth = headerCell.getBoundingClientRect().width;
+      const resizeHandler = sinon.spy<(event: SlColumnResizeEvent) => void>(() => undefined);
+
+      el.addEventListener('sl-column-resize', resizeHandler);
+      resizer.focus();
+      await sendKeys({ press: 'ArrowRight' });
+      await el.updateComplete;
+
+      expect(resizeHandler).to.have.been.calledOnce;
+      expect(resizeHandler.args[0][0].detail.field).to.equal('name');
+      expect(headerCell.getBoundingClientRect().width).to.be.closeTo(initialWidth + 10, 1);
+    });
+  });
+});
@@ -0,0 +1,542 @@
+import { clamp } from '../../internal/math.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { customElement } from '../../internal/scope.js';
+import { drag } from '../../internal/drag.js';
+import { html } from 'lit';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { live } from 'lit/directives/live.js';
+import { LocalizeController } from '../../utilities/localize.js';
+import { property, query, state } from 'lit/decorators.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import { watch } from '../../internal/watch.js';
+import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlCheckbox from '../checkbox/checkbox.js';
+import SlIcon from '../icon/icon.js';
+import SlSpinner from '../spinner/spinner.js';
+import SlVisuallyHidden from '../visually-hidden/visually-hidden.js';
+import styles from './table.styles.js';
+import type { CSSResultGroup, TemplateResult } from 'lit';
+
+/** A row of data. Values are looked up by each column's `field`. */
+export type TableRow = Record<string, unknown>;
+
+export interface TableColumn {
+  /** The key of the value to show from each row. Must be unique among the table's columns. */
+  field: string;
+  /** The column's header text. */
+  label: string;
+  /** Allows the column to be sorted by clicking its header. */
+  sortable?: boolean;
+  /** Allows the column to be resized when the table is resizable. Defaults to `true`. */
+  resizable?: boolean;
+  /** The column's initial width in pixels. */
+  width?: number;
+  /** The narrowest the column can be resized to in pixels. Defaults to 48. */
+  minWidth?: number;
+  /** The horizontal alignment of the column's header and cells. */
+  align?: 'start' | 'center' | 'end';
+  /** A custom comparator used when sorting the column ascending. */
+  compare?: (a: TableRow, b: TableRow) => number;
+  /** Renders the content of a cell. By default, the row's value is shown as a string. */
+  render?: (row: TableRow, column: TableColumn) => TemplateResult | string | number | null | undefined;
+}
+
+/**
+ * @summary Tables display rows of data in columns that can be sorted, selected, and resized.
+ * @documentation https://shoelace.style/components/table
+ * @status experimental
+ * @since 2.6
+ *
+ * @dependency sl-checkbox
+ * @dependency sl-icon
+ * @dependency sl-spinner
+ * @dependency sl-visually-hidden
+ *
+ * @slot empty - Content to show when there are no rows. Defaults to a localized "No data" message.
+ * @slot loading - Content to show while the table is loading. Defaults to a spinner and a localized "Loading" message.
+ *
+ * @event {{ field: string, direction: 'asc' | 'desc' }} sl-sort - Emitted when the user sorts a column. Calling
+ *  `event.preventDefault()` will keep the current sort order.
+ * @event {{ selection: TableRow[] }} sl-row-selection-change - Emitted when the user selects or deselects rows.
+ * @event {{ field: string, width: number }} sl-column-resize - Emitted when the user finishes resizing a column.
+ *
+ * @csspart base - The component's base wrapper, which scrolls when the table overflows.
+ * @csspart table - The `<table>` element.
+ * @csspart header - The table's header.
+ * @csspart header-row - The header row.
+ * @csspart header-cell - Each header cell.
+ * @csspart sort-button - The button that sorts a sortable column.
+ * @csspart sort-icon - The icon that shows a column's sort direction.
+ * @csspart resizer - The handle used to resize a column.
+ * @csspart body - The table's body.
+ * @csspart row - Each row. Selected rows also receive the `row--selected` part.
+ * @csspart cell - Each cell.
+ * @csspart checkbox - The checkboxes that select rows.
+ * @csspart empty - The container that shows when there are no rows.
+ * @csspart loading - The container that shows while the table is loading.
+ *
+ * @cssproperty [--max-height=none] - The maximum height of the table. When the rows overflow, the header sticks to the
+ *  top while the body scrolls.
+ */
+@customElement('sl-table')
+export default class SlTable extends ShoelaceElement {
+  static styles: CSSResultGroup = styles;
+  static dependencies = {
+    'sl-checkbox': SlCheckbox,
+    'sl-icon': SlIcon,
+    'sl-spinner': SlSpinner,
+    'sl-visually-hidden': SlVisuallyHidden
+  };
+
+  private readonly localize = new LocalizeController(this);
+
+  @query('.table__table') table: HTMLTableElement;
+
+  @state() private columnWidths = new Map<string, number>();
+  @state() private resizingField = '';
+
+  /** The columns to show, in order. */
+  @property({ attribute: false }) columns: TableColumn[] = [];
+
+  /** The rows of data to show. */
+  @property({ attribute: false }) rows: TableRow[] = [];
+
+  /**
+   * The field that uniquely identifies each row. It's used to keep rows selected when the `rows` array is replaced. If
+   * a row doesn't have this field, the row object itself is used.
+   */
+  @property({ attribute: 'row-key' }) rowKey = 'id';
+
+  /**
+   * The selection behavior of the table. Single allows one row to be selected by clicking it. Multiple shows
+   * checkboxes that allow any number of rows to be selected.
+   */
+  @property() selection: 'none' | 'single' | 'multiple' = 'none';
+
+  /** The rows that are currently selected. */
+  @property({ attribute: false }) selectedRows: TableRow[] = [];
+
+  /** The field of the column the table is sorted by. */
+  @property({ attribute: 'sort-by', reflect: true }) sortBy = '';
+
+  /** The direction the table is sorted in. */
+  @property({ attribute: 'sort-direction', reflect: true }) sortDirection: 'asc' | 'desc' = 'asc';
+
+  /**
+   * By default, rows are sorted in the browser. Set this when the rows are sorted elsewhere, e.g. on a server, and the
+   * table will show them in the order they're given while still updating the sort indicator and emitting `sl-sort`.
+   */
+  @property({ attribute: 'manual-sort', type: Boolean }) manualSort = false;
+
+  /** Allows the columns to be resized by dragging the edges of their headers. */
+  @property({ type: Boolean, reflect: true }) resizable = false;
+
+  /** Shows the loading state instead of the rows. */
+  @property({ type: Boolean, reflect: true }) loading = false;
+
+  private getRowKey(row: TableRow) {
+    return row[this.rowKey] ?? row;
+  }
+
+  private isRowSelected(row: TableRow) {
+    const key = this.getRowKey(row);
+    return this.selectedRows.some(selectedRow => this.getRowKey(selectedRow) === key);
+  }
+
+  private getColumnWidth(column: TableColumn) {
+    return this.columnWidths.get(column.field) ?? column.width;
+  }
+
+  // Returns the rows in the order they should be displayed
+  private getSortedRows() {
+    const column = this.columns.find(col => col.field === this.sortBy);
+
+    if (this.manualSort || !column?.sortable) {
+      return this.rows;
+    }
+
+    const collator = new Intl.Collator(this.localize.lang(), { numeric: true, sensitivity: 'base' });
+    const isEmpty = (row: TableRow) => {
+      const value = row[column.field];
+      return value === null || value === undefined || value === '';
+    };
+    const compare =
+      column.compare ??
+      ((a: TableRow, b: TableRow) => {
+        const valueA = a[column.field];
+        const valueB = b[column.field];
+
+        if (typeof valueA === 'number' && typeof valueB === 'number') {
+          return valueA - valueB;
+        }
+
+        if (valueA instanceof Date && valueB instanceof Date) {
+          return valueA.getTime() - valueB.getTime();
+        }
+
+        return collator.compare(String(valueA), String(valueB));
+      });
+    const direction = this.sortDirection === 'desc' ? -1 : 1;
+
+    // Array.sort() is stable, so rows with equal values keep their original order
+    return [...this.rows].sort((a, b) => {
+      // Empty values always go last, regardless of the direction, unless the column compares them itself
+      if (!column.compare && (isEmpty(a) || isEmpty(b))) {
+        return Number(isEmpty(a)) - Number(isEmpty(b));
+      }
+
+      return compare(a, b) * direction;
+    });
+  }
+
+  private setSelection(selection: TableRow[]) {
+    this.selectedRows = selection;
+    this.emit('sl-row-selection-change', { detail: { selection: this.selectedRows } });
+  }
+
+  private handleSortClick(column: TableColumn) {
+    const direction = this.sortBy === column.field && this.sortDirection === 'asc' ? 'desc' : 'asc';
+    const slSort = this.emit('sl-sort', { cancelable: true, detail: { field: column.field, direction } });
+
+    if (!slSort.defaultPrevented) {
+      this.sortBy = column.field;
+      this.sortDirection = direction;
+    }
+  }
+
+  private handleSelectAllChange(event: Event) {
+    const checkbox = event.target as HTMLInputElement;
+    this.setSelection(checkbox.checked ? [...this.rows] : []);
+  }
+
+  private handleRowCheckboxChange(event: Event, row: TableRow) {
+    const checkbox = event.target as HTMLInputElement;
+    const key = this.getRowKey(row);
+    const selection = this.selectedRows.filter(selectedRow => this.getRowKey(selectedRow) !== key);
+
+    if (checkbox.checked) {
+      selection.push(row);
+    }
+
+    // Keep the selection in the same order as the rows. Rows are matched by key, since the selected rows may be
+    // different objects than the ones in `rows`, e.g. after the data was fetched again.
+    const selectedKeys = new Set(selection.map(selectedRow => this.getRowKey(selectedRow)));
+    this.setSelection(this.rows.filter(r => selectedKeys.has(this.getRowKey(r))));
+  }
+
+  private handleRowClick(row: TableRow) {
+    if (this.selection === 'single' && !this.isRowSelected(row)) {
+      this.setSelection([row]);
+    }
+  }
+
+  private handleRowKeyDown(event: KeyboardEvent, row: TableRow) {
+    const rowElement = event.currentTarget as HTMLTableRowElement;
+
+    if (event.target !== rowElement) {
+      return;
+    }
+
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      this.handleRowClick(row);
+    }
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      const sibling = event.key === 'ArrowDown' ? rowElement.nextElementSibling : rowElement.previousElementSibling;
+
+      event.preventDefault();
+      (sibling as HTMLElement | null)?.focus();
+    }
+  }
+
+  // Measures each column so the table can switch to a fixed layout once a column is resized
+  private lockColumnWidths() {
+    const headerCells = [...this.table.querySelectorAll<HTMLTableCellElement>('th[data-field]')];
+    const widths = new Map(this.columnWidths);
+
+    headerCells.forEach(cell => {
+      if (!widths.has(cell.dataset.field!)) {
+        widths.set(cell.dataset.field!, cell.getBoundingClientRect().width);
+      }
+    });
+
+    this.columnWidths = widths;
+  }
+
+  private resizeColumn(column: TableColumn, width: number) {
+    const widths = new Map(this.columnWidths);
+    widths.set(column.field, Math.round(clamp(width, column.minWidth ?? 48, Infinity)));
+    this.columnWidths = widths;
+  }
+
+  private handleResizerPointerDown(event: PointerEvent, column: TableColumn) {
+    const isRtl = this.localize.dir() === 'rtl';
+    let startX: number | null = null;
+
+    // Prevent text selection and sorting
+    event.preventDefault();
+    event.stopPropagation();
+
+    this.lockColumnWidths();
+    this.resizingField = column.field;
+    const startWidth = this.getColumnWidth(column)!;
+
+    drag(this.table, {
+      onMove: x => {
+        startX ??= x;
+        this.resizeColumn(column, startWidth + (x - startX) * (isRtl ? -1 : 1));
+      },
+      onStop: () => {
+        this.resizingField = '';
+        this.emit('sl-column-resize', { detail: { field: column.field, width: this.getColumnWidth(column)! } });
+      },
+      initialEvent: event
+    });
+  }
+
+  private handleResizerKeyDown(event: KeyboardEvent, column: TableColumn) {
+    const isRtl = this.localize.dir() === 'rtl';
+    const increment = event.shiftKey ? 50 : 10;
+    let delta = 0;
+
+    if (event.key === 'ArrowLeft') delta = isRtl ? increment : -increment;
+    if (event.key === 'ArrowRight') delta = isRtl ? -increment : increment;
+
+    if (delta !== 0) {
+      event.preventDefault();
+      this.lockColumnWidths();
+      this.resizeColumn(column, this.getColumnWidth(column)! + delta);
+      this.emit('sl-column-resize', { detail: { field: column.field, width: this.getColumnWidth(column)! } });
+    }
+  }
+
+  @watch('rows', { waitUntilFirstUpdate: true })
+  handleRowsChange() {
+    // Map the selection to the new rows so it survives when the rows are replaced
+    const selectedKeys = this.selectedRows.map(row => this.getRowKey(row));
+    const selection = this.rows.filter(row => selectedKeys.includes(this.getRowKey(row)));
+
+    if (selection.length !== this.selectedRows.length || selection.some((row, i) => row !== this.selectedRows[i])) {
+      this.selectedRows = selection;
+    }
+  }
+
+  @watch('selection', { waitUntilFirstUpdate: true })
+  handleSelectionChange() {
+    if (this.selection === 'none' && this.selectedRows.length > 0) {
+      this.selectedRows = [];
+    } else if (this.selection === 'single' && this.selectedRows.length > 1) {
+      this.selectedRows = this.selectedRows.slice(0, 1);
+    }
+  }
+
+  /** Selects all rows. Only works when `selection` is set to `multiple`. */
+  selectAll() {
+    if (this.selection === 'multiple') {
+      this.selectedRows = [...this.rows];
+    }
+  }
+
+  /** Deselects all rows. */
+  deselectAll() {
+    this.selectedRows = [];
+  }
+
+  private renderHeaderCell(column: TableColumn) {
+    const isSorted = column.sortable && this.sortBy === column.field;
+    const isResizable = this.resizable && column.resizable !== false;
+    const width = this.getColumnWidth(column);
+    const ariaSort = isSorted ? (this.sortDirection === 'asc' ? 'ascending' : 'descending') : 'none';
+
+    return html`
+      <th
+        part="header-cell"
+        class=${classMap({
+          'table__header-cell': true,
+          'table__header-cell--sortable': column.sortable === true,
+          'table__header-cell--sorted': isSorted === true,
+          'table__header-cell--resizing': this.resizingField === column.field,
+          [`table__cell--align-${column.align ?? 'start'}`]: true
+        })}
+        scope="col"
+        data-field=${column.field}
+        aria-sort=${ifDefined(column.sortable ? ariaSort : undefined)}
+        style=${styleMap({ width: width === undefined ? undefined : `${width}px` })}
+      >
+        ${column.sortable
+          ? html`
+              <button
+                part="sort-button"
+                class="table__sort-button"
+                type="button"
+                @click=${() => this.handleSortClick(column)}
+              >
+                ${column.label}
+                <sl-icon
+                  part="sort-icon"
+                  class=${classMap({
+                    'table__sort-icon': true,
+                    'table__sort-icon--asc': isSorted === true && this.sortDirection === 'asc',
+                    'table__sort-icon--desc': isSorted === true && this.sortDirection === 'desc'
+                  })}
+                  library="system"
+                  name="chevron-down"
+                  aria-hidden="true"
+                ></sl-icon>
+              </button>
+            `
+          : column.label}
+        ${isResizable
+          ? html`
+              <div
+                part="resizer"
+                class="table__resizer"
+                role="separator"
+                aria-orientation="vertical"
+                aria-label=${`${this.localize.term('resize')} ${column.label}`}
+                aria-valuenow=${ifDefined(width === undefined ? undefined : Math.round(width))}
+                tabindex="0"
+                @pointerdown=${(event: PointerEvent) => this.handleResizerPointerDown(event, column)}
+                @keydown=${(event: KeyboardEvent) => this.handleResizerKeyDown(event, column)}
+              ></div>
+            `
+          : ''}
+      </th>
+    `;
+  }
+
+  private renderRow(row: TableRow) {
+    const isSelected = this.selection !== 'none' && this.isRowSelected(row);
+
+    return html`
+      <tr
+        part="row ${isSelected ? 'row--selected' : ''}"
+        class=${classMap({
+          table__row: true,
+          'table__row--selectable': this.selection === 'single',
+          'table__row--selected': isSelected
+        })}
+        tabindex=${ifDefined(this.selection === 'single' ? '0' : undefined)}
+        aria-selected=${ifDefined(this.selection === 'none' ? undefined : isSelected ? 'true' : 'false')}
+        @click=${() => this.handleRowClick(row)}
+        @keydown=${(event: KeyboardEvent) => this.handleRowKeyDown(event, row)}
+      >
+        ${this.selection === 'multiple'
+          ? html`
+              <td part="cell" class="table__cell table__cell--checkbox">
+                <sl-checkbox
+                  part="checkbox"
+                  class="table__checkbox"
+                  ?checked=${live(isSelected)}
+                  @sl-change=${(event: Event) => this.handleRowCheckboxChange(event, row)}
+                >
+                  <sl-visually-hidden>${this.localize.term('selectRow')}</sl-visually-hidden>
+                </sl-checkbox>
+              </td>
+            `
+          : ''}
+        ${this.columns.map(column => {
+          const value = row[column.field];
+          const content = column.render
+            ? column.render(row, column)
+            : value === null || value === undefined
+            ? ''
+            : String(value);
+
+          return html`
+            <td part="cell" class="table__cell table__cell--align-${column.align ?? 'start'}">${content}</td>
+          `;
+        })}
+      </tr>
+    `;
+  }
+
+  render() {
+    const hasSelectionColumn = this.selection === 'multiple';
+    const columnCount = this.columns.length + (hasSelectionColumn ? 1 : 0);
+    const selectedCount = this.rows.filter(row => this.isRowSelected(row)).length;
+    const allSelected = this.rows.length > 0 && selectedCount === this.rows.length;
+    const someSelected = selectedCount > 0 && !allSelected;
+    let body;
+
+    if (this.loading) {
+      body = html`
+        <tr>
+          <td class="table__message" colspan=${columnCount}>
+            <div part="loading" class="table__loading">
+              <slot name="loading">
+                <sl-spinner></sl-spinner>
+                ${this.localize.term('loading')}
+              </slot>
+            </div>
+          </td>
+        </tr>
+      `;
+    } else if (this.rows.length === 0) {
+      body = html`
+        <tr>
+          <td class="table__message" colspan=${columnCount}>
+            <div part="empty" class="table__empty">
+              <slot name="empty">${this.localize.term('noData')}</slot>
+            </div>
+          </td>
+        </tr>
+      `;
+    } else {
+      body = this.getSortedRows().map(row => this.renderRow(row));
+    }
+
+    return html`
+      <div
+        part="base"
+        class=${classMap({
+          table: true,
+          'table--resizing': this.resizingField !== ''
+        })}
+      >
+        <table
+          part="table"
+          class=${classMap({
+            table__table: true,
+            'table__table--fixed': this.columnWidths.size > 0
+          })}
+          role=${ifDefined(this.selection === 'none' ? undefined : 'grid')}
+          aria-multiselectable=${ifDefined(this.selection === 'multiple' ? 'true' : undefined)}
+          aria-busy=${this.loading ? 'true' : 'false'}
+        >
+          <thead part="header" class="table__header">
+            <tr part="header-row">
+              ${hasSelectionColumn
+                ? html`
+                    <th part="header-cell" class="table__header-cell table__cell--checkbox" scope="col">
+                      <sl-checkbox
+                        part="checkbox"
+                        class="table__checkbox"
+                        ?checked=${live(allSelected)}
+                        ?indeterminate=${live(someSelected)}
+                        ?disabled=${this.rows.length === 0 || this.loading}
+                        @sl-change=${this.handleSelectAllChange}
+                      >
+                        <sl-visually-hidden>${this.localize.term('selectAll')}</sl-visually-hidden>
+                      </sl-checkbox>
+                    </th>
+                  `
+                : ''}
+              ${this.columns.map(column => this.renderHeaderCell(column))}
+            </tr>
+          </thead>
+          <tbody part="body" class="table__body">
+            ${body}
+          </tbody>
+        </table>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'sl-table': SlTable;
+  }
+}
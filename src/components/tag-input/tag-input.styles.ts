@@ -0,0 +1,196 @@
+import { css } from 'lit';
+import componentStyles from '../../styles/component.styles.js';
+import formControlStyles from '../../styles/form-control.styles.js';
+
+export default css`
+  ${componentStyles}
+  ${formControlStyles}
+
+  :host {
+    display: block;
+  }
+
+  .tag-input__base {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    position: relative;
+    width: 100%;
+    font-family: var(--sl-input-font-family);
+    font-weight: var(--sl-input-font-weight);
+    letter-spacing: var(--sl-input-letter-spacing);
+    cursor: text;
+    transition: var(--sl-transition-fast) color, var(--sl-transition-fast) border, var(--sl-transition-fast) box-shadow,
+      var(--sl-transition-fast) background-color;
+  }
+
+  /* Standard tag inputs */
+  .tag-input--standard {
+    background-color: var(--sl-input-background-color);
+    border: solid var(--sl-input-border-width) var(--sl-input-border-color);
+  }
+
+  .tag-input--standard:hover:not(.tag-input--disabled) {
+    background-color: var(--sl-input-background-color-hover);
+    border-color: var(--sl-input-border-color-hover);
+  }
+
+  .tag-input--standard.tag-input--focused:not(.tag-input--disabled) {
+    background-color: var(--sl-input-background-color-focus);
+    border-color: var(--sl-input-border-color-focus);
+    box-shadow: 0 0 0 var(--sl-focus-ring-width) var(--sl-input-focus-ring-color);
+  }
+
+  .tag-input--standard.tag-input--disabled {
+    background-color: var(--sl-input-background-color-disabled);
+    border-color: var(--sl-input-border-color-disabled);
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+
+  /* Filled tag inputs */
+  .tag-input--filled {
+    border: none;
+    background-color: var(--sl-input-filled-background-color);
+  }
+
+  .tag-input--filled:hover:not(.tag-input--disabled) {
+    background-color: var(--sl-input-filled-background-color-hover);
+  }
+
+  .tag-input--filled.tag-input--focused:not(.tag-input--disabled) {
+    background-color: var(--sl-input-filled-background-color-focus);
+    outline: var(--sl-focus-ring);
+    outline-offset: var(--sl-focus-ring-offset);
+  }
+
+  .tag-input--filled.tag-input--disabled {
+    background-color: var(--sl-input-filled-background-color-disabled);
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+
+  /* Tags */
+  .tag-input__tags {
+    display: contents;
+  }
+
+  .tag-input__tag {
+    cursor: default;
+  }
+
+  .tag-input__tag:focus {
+    outline: none;
+  }
+
+  .tag-input__tag:focus-visible {
+    outline: var(--sl-focus-ring);
+    outline-offset: var(--sl-focus-ring-offset);
+  }
+
+  .tag-input--disabled .tag-input__tag {
+    cursor: not-allowed;
+  }
+
+  /* Input */
+  .tag-input__control {
+    flex: 1 1 4em;
+    min-width: 4em;
+    font-family: inherit;
+    font-size: inherit;
+    font-weight: inherit;
+    color: var(--sl-input-color);
+    border: none;
+    background: none;
+    box-shadow: none;
+    padding: 0;
+    margin: 0;
+    cursor: inherit;
+    -webkit-appearance: none;
+  }
+
+  .tag-input__control::placeholder {
+    color: var(--sl-input-placeholder-color);
+    user-select: none;
+  }
+
+  .tag-input__control:focus {
+    outline: none;
+  }
+
+  .tag-input--disabled .tag-input__control {
+    color: var(--sl-input-color-disabled);
+  }
+
+  .tag-input__value-input {
+    position: absolute;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+    padding: 0;
+    margin: 0;
+    opacity: 0;
+    z-index: -1;
+  }
+
+  /* Sizes */
+  .tag-input--small {
+    gap: 2px;
+    min-height: var(--sl-input-height-small);
+    padding-block: 2px;
+    padding-inline: 2px var(--sl-input-spacing-small);
+    border-radius: var(--sl-input-border-radius-small);
+    font-size: var(--sl-input-font-size-small);
+  }
+
+  .tag-input--medium {
+    gap: 3px;
+    min-height: var(--sl-input-height-medium);
+    padding-block: 3px;
+    padding-inline: 3px var(--sl-input-spacing-medium);
+    border-radius: var(--sl-input-border-radius-medium);
+    font-size: var(--sl-input-font-size-medium);
+  }
+
+  .tag-input--large {
+    gap: 4px;
+    min-height: var(--sl-input-height-large);
+    padding-block: 4px;
+    padding-inline: 4px var(--sl-input-spacing-large);
+    border-radius: var(--sl-input-border-radius-large);
+    font-size: var(--sl-input-font-size-large);
+  }
+
+  .tag-input--small:not(.tag-input--has-tags) .tag-input__control {
+    padding-inline-start: calc(var(--sl-input-spacing-small) - 2px);
+  }
+
+  .tag-input--medium:not(.tag-input--has-tags) .tag-input__control {
+    padding-inline-start: calc(var(--sl-input-spacing-medium) - 3px);
+  }
+
+  .tag-input--large:not(.tag-input--has-tags) .tag-input__control {
+    padding-inline-start: calc(var(--sl-input-spacing-large) - 4px);
+  }
+
+  /* Pills */
+  .tag-input--pill.tag-input--small {
+    border-radius: var(--sl-input-height-small);
+  }
+
+  .tag-input--pill.tag-input--medium {
+    border-radius: var(--sl-input-height-medium);
+  }
+
+  .tag-input--pill.tag-input--large {
+    border-radius: var(--sl-input-height-large);
+  }
+
+  /* Forced colors mode */
+  @media (forced-colors: active) {
+    .tag-input--standard.tag-input--focused:not(.tag-input--disabled) {
+      outline: solid var(--sl-focus-ring-width) Highlight;
+    }
+  }
+`;
@@ -0,0 +1,227 @@
+import '../../../dist/shoelace.js';
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { runFormControlBaseTests } from '../../internal/test/form-control-base-tests.js';
+import { sendKeys } from '@web/test-runner-commands';
+import sinon from 'sinon';
+import type SlTag from '../tag/tag.js';
+import type SlTagInput from './tag-input.js';
+
+function paste(el: SlTagInput, text: string) {
+  const clipboardData = new DataTransfer();
+  clipboardData.setData('text', text);
+  el.input.dispatchEvent(new ClipboardEvent('paste', { bubbles: true, cancelable: true, clipboardData }));
+}
+
+describe('<sl-tag-input>', () => {
+  it('should pass accessibility tests', async () => {
+    const el = await fixture<SlTagInput>(html` <sl-tag-input label="Labels" value="bug, feature"></sl-tag-input> `);
+    await expect(el).to.be.accessible();
+  });
+
+  it('should parse the value attribute as a comma-separated list', async () => {
+    const el = await fixture<SlTagInput>(html` <sl-tag-input value="bug, feature ,docs"></sl-tag-input> `);
+
+    expect(el.value).to.deep.equal(['bug', 'feature', 'docs']);
+    expect(el.shadowRoot!.querySelectorAll('sl-tag')).to.have.lengthOf(3);
+  });
+
+  it('should add a tag when enter is pressed and emit sl-change and sl-input', async () => {
+    const el = await fixture<SlTagInput>(html` <sl-tag-input></sl-tag-input> `);
+    const changeHandler = sinon.spy();
+    const inputHandler = sinon.spy();
+
+    el.addEventListener('sl-change', changeHandler);
+    el.addEventListener('sl-input', inputHandler);
+    el.focus();
+    await sendKeys({ type: 'bug' });
+    await sendKeys({ press: 'Enter' });
+    await oneEvent(el, 'sl-change');
+
+    expect(el.value).to.deep.equal(['bug']);
+    expect(el.input.value).to.equal('');
+    expect(changeHandler).to.have.been.calledOnce;
+    expect(inputHandler).to.have.been.calledOnce;
+  });
+
+  it('should add a tag when a delimiter is typed', async () => {
+    const el = await fixture<SlTagInput>(html` <sl-tag-input delimiters=",;"></sl-tag-input> `);
+
+    el.focus();
+    await sendKeys({ type: 'bug;feat' });
+    await el.updateComplete;
+
+    expect(el.value).to.deep.equal(['bug']);
+    expect(el.input.value).to.equal('feat');
+  });
+
+  it('should split pasted text into tags', async () => {
+    const el = await fixture<SlTagInput>(html` <sl-tag-input></sl-tag-input> `);
+
+    el.focus();
+    paste(el, 'a@example.com, b@example.com\nc@example.com');
+    await el.updateComplete;
+
+    expect(el.value).to.deep.equal(['a@example.com', 'b@example.com', 'c@example.com']);
+    expect(el.input.value).to.equal('');
+  });
+
+  it('should ignore blank and duplicate tags', async () => {
+    const el = await fixture<SlTagInput>(html` <sl-tag-input value="bug"></sl-tag-input> `);
+
+    el.focus();
+    paste(el, 'bug, , docs, docs');
+    await el.updateComplete;
+
+    expect(el.value).to.deep.equal(['bug', 'docs']);
+  });
+
+  it('should add the text as a tag when the control loses focus', async () => {
+    const el = await fixture<SlTagInput>(html` <sl-tag-input></sl-tag-input> `);
+
+    el.focus();
+    await sendKeys({ type: 'bug' });
+    el.blur();
+    await el.updateComplete;
+
+    expect(el.value).to.deep.equal(['bug']);
+  });
+
+  it('should remove the last tag when backspace is pressed in an empty input', async () => {
+    const el = await fixture<SlTagInput>(html` <sl-tag-input value="bug, docs"></sl-tag-input> `);
+
+    el.focus();
+    await sendKeys({ press: 'Backspace' });
+    await el.updateComplete;
+
+    expect(el.value).to.deep.equal(['bug']);
+  });
+
+  it('should remove a tag when its remove button is clicked', async () => {
+    const el = await fixture<SlTagInput>(html` <sl-tag-input value="bug, docs"></sl-tag-input> `);
+    const tag = el.shadowRoot!.querySelector<SlTag>('sl-tag')!;
+    const removeButton = tag.shadowRoot!.querySelector<HTMLElement>('[part~="remove-button"]')!;
+
+    removeButton.click();
+    await oneEvent(el, 'sl-change');
+
+    expect(el.value).to.deep.equal(['docs']);
+  });
+
+  it('should move between tags with the arrow keys and remove them with backspace', async () => {
+    const el = await fixture<SlTagInput>(html` <sl-tag-input value="a, b, c"></sl-tag-input> `);
+    const tags = [...el.shadowRoot!.querySelectorAll<SlTag>('sl-tag')];
+
+    el.focus();
+    await sendKeys({ press: 'ArrowLeft' });
+    await el.updateComplete;
+    expect(el.shadowRoot!.activeElement).to.equal(tags[2]);
+
+    await sendKeys({ press: 'ArrowLeft' });
+    await el.updateComplete;
+    expect(el.shadowRoot!.activeElement).to.equal(tags[1]);
+
+    await sendKeys({ press: 'Backspace' });
+    await el.updateComplete;
+    expect(el.value).to.deep.equal(['a', 'c']);
+    expect(el.shadowRoot!.activeElement).to.equal(el.shadowRoot!.querySelector('sl-tag'));
+
+    await sendKeys({ press: 'End' });
+    await el.updateComplete;
+    expect(el.shadowRoot!.activeElement).to.equal(el.input);
+  });
+
+  it('should not add more tags than max-tags', async () => {
+    const el = await fixture<SlTagInput>(html` <sl-tag-input max-tags="2"></sl-tag-input> `);
+
+    el.focus();
+    paste(el, 'a, b, c');
+    await el.updateComplete;
+
+    expect(el.value).to.deep.equal(['a', 'b']);
+    expect(el.addTag('d')).to.be.false;
+  });
+
+  describe('when using constraint validation', () => {
+    it('should be invalid when required and empty', async () => {
+      const el = await fixture<SlTagInput>(html` <sl-tag-input required></sl-tag-input> `);
+      expect(el.checkValidity()).to.be.false;
+      expect(el.hasAttribute('data-invalid')).to.be.true;
+
+      el.value = ['bug'];
+      await el.updateComplete;
+      expect(el.checkValidity()).to.be.true;
+    });
+
+    it('should be invalid when a tag is not a valid email', async () => {
+      const el = await fixture<SlTagInput>(html` <sl-tag-input type="email" value="a@example.com"></sl-tag-input> `);
+      expect(el.checkValidity()).to.be.true;
+
+      el.value = ['a@example.com', 'not an email'];
+      await el.updateComplete;
+
+      expect(el.checkValidity()).to.be.false;
+      expect(el.validationMessage).to.contain('not an email');
+      expect(el.shadowRoot!.querySelectorAll('sl-tag')[1].variant).to.equal('danger');
+    });
+
+    it('should be invalid when a tag does not match the pattern', async () => {
+      const el = await fixture<SlTagInput>(html` <sl-tag-input pattern="[a-z]+" value="bug"></sl-tag-input> `);
+      expect(el.checkValidity()).to.be.true;
+
+      el.value = ['bug', 'Bug1'];
+      await el.updateComplete;
+      expect(el.checkValidity()).to.be.false;
+    });
+
+    it('should be invalid when there are more tags than max-tags', async () => {
+      const el = await fixture<SlTagInput>(html` <sl-tag-input max-tags="1"></sl-tag-input> `);
+
+      el.value = ['a', 'b'];
+      await el.updateComplete;
+
+      expect(el.checkValidity()).to.be.false;
+    });
+  });
+
+  describe('when submitting a form', () => {
+    it('should submit each tag as a separate entry', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><sl-tag-input name="labels" value="bug, docs"></sl-tag-input></form>
+      `);
+      const formData = new FormData(form);
+
+      expect(formData.getAll('labels')).to.deep.equal(['bug', 'docs']);
+    });
+
+    it('should not submit the form when enter is pressed to add a tag', async () => {
+      const form = await fixture<HTMLFormElement>(html`<form><sl-tag-input name="labels"></sl-tag-input></form>`);
+      const el = form.querySelector('sl-tag-input')!;
+      const submitHandler = sinon.spy((event: SubmitEvent) => event.preventDefault());
+
+      form.addEventListener('submit', submitHandler);
+      el.focus();
+      await sendKeys({ type: 'bug' });
+      await sendKeys({ press: 'Enter' });
+      await new Promise(resolve => setTimeout(resolve));
+
+      expect(el.value).to.deep.equal(['bug']);
+      expect(submitHandler).to.not.have.been.called;
+    });
+  });
+
+  describe('when resetting a form', () => {
+    it('should reset the tags to their initial value', async () => {
+      const form = await fixture<HTMLFormElement>(html`<form><sl-tag-input value="bug"></sl-tag-input></form>`);
+      const el = form.querySelector('sl-tag-input')!;
+
+      el.value = ['docs', 'feature'];
+      await el.updateComplete;
+      form.reset();
+      await el.updateComplete;
+
+      expect(el.value).to.deep.equal(['bug']);
+    });
+  });
+
+  runFormControlBaseTests('sl-tag-input');
+});
@@ -0,0 +1,591 @@
+import { classMap } from 'lit/directives/class-map.js';
+import { customElement } from '../../internal/scope.js';
+import { defaultValue } from '../../internal/default-value.js';
+import { FormControlController } from '../../internal/form.js';
+import { HasSlotController } from '../../internal/slot.js';
+import { html } from 'lit';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { LocalizeController } from '../../utilities/localize.js';
+import { property, query, queryAll, state } from 'lit/decorators.js';
+import { validatorsConverter } from '../../internal/validators.js';
+import { watch } from '../../internal/watch.js';
+import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlTag from '../tag/tag.js';
+import styles from './tag-input.styles.js';
+import type { CSSResultGroup } from 'lit';
+import type { ShoelaceFormControl } from '../../internal/shoelace-element.js';
+import type { Validator } from '../../internal/validators.js';
+
+function escapeRegExp(text: string) {
+  return text.replace(/[\\^$.*+?()[\]{}|/-]/g, '\\$&');
+}
+
+/**
+ * @summary Tag inputs turn the text the user enters into tags, which is useful for lists of email recipients, labels,
+ *  and other free-form values.
+ * @documentation https://shoelace.style/components/tag-input
+ * @status experimental
+ * @since 2.6
+ *
+ * @dependency sl-tag
+ *
+ * @slot label - The tag input's label. Alternatively, you can use the `label` attribute.
+ * @slot help-text - Text that describes how to use the tag input. Alternatively, you can use the `help-text`
+ *  attribute.
+ *
+ * @event sl-blur - Emitted when the control loses focus.
+ * @event sl-change - Emitted when tags are added or removed by the user.
+ * @event sl-focus - Emitted when the control gains focus.
+ * @event sl-input - Emitted when the control receives input.
+ * @event sl-invalid - Emitted when the form control has been checked for validity and its constraints aren't satisfied.
+ *
+ * @csspart form-control - The form control that wraps the label, input, and help text.
+ * @csspart form-control-label - The label's wrapper.
+ * @csspart form-control-input - The input's wrapper.
+ * @csspart form-control-help-text - The help text's wrapper.
+ * @csspart base - The component's base wrapper, which houses the tags and the input.
+ * @csspart tags - The container that houses the tags.
+ * @csspart tag - The individual tags.
+ * @csspart tag__base - The tag's base part.
+ * @csspart tag__content - The tag's content part.
+ * @csspart tag__remove-button - The tag's remove button.
+ * @csspart tag__remove-button__base - The tag's remove button base part.
+ * @csspart input - The internal `<input>` control that new tags are typed into.
+ */
+@customElement('sl-tag-input')
+export default class SlTagInput extends ShoelaceElement implements ShoelaceFormControl {
+  static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-tag': SlTag };
+
+  private readonly formControlController = new FormControlController(this, {
+    assumeInteractionOn: ['sl-blur', 'sl-change'],
+    setValidationMessage: (control: SlTagInput, message: string) => {
+      control.customValidityMessage = message;
+      control.updateConstraintValidity();
+    }
+  });
+  private readonly hasSlotController = new HasSlotController(this, 'help-text', 'label');
+  private readonly localize = new LocalizeController(this);
+  private tagValidationInput: HTMLInputElement | undefined;
+  private customValidityMessage = '';
+
+  @query('.tag-input__base') base: HTMLElement;
+  @query('.tag-input__control') input: HTMLInputElement;
+  @query('.tag-input__value-input') valueInput: HTMLInputElement;
+  @queryAll('.tag-input__tag') tags: SlTag[];
+
+  @state() private hasFocus = false;
+  @property() title = ''; // make reactive to pass through
+
+  /** The name of the tag input, submitted with form data. Each tag is submitted as a separate entry. */
+  @property() name = '';
+
+  /**
+   * The current tags, which are submitted with form data. In HTML, use a comma-separated list of tags in the `value`
+   * attribute.
+   */
+  @property({
+    converter: {
+      fromAttribute: (value: string) =>
+        value
+          .split(',')
+          .map(tag => tag.trim())
+          .filter(tag => tag !== ''),
+      toAttribute: (value: string[]) => value.join(', ')
+    }
+  })
+  value: string[] = [];
+
+  /** The default value of the form control. Primarily used for resetting the form control. */
+  @defaultValue() defaultValue: string[] = [];
+
+  /** The tag input's size. */
+  @property({ reflect: true }) size: 'small' | 'medium' | 'large' = 'medium';
+
+  /** Draws a filled tag input. */
+  @property({ type: Boolean, reflect: true }) filled = false;
+
+  /** Draws a pill-style tag input with rounded edges. */
+  @property({ type: Boolean, reflect: true }) pill = false;
+
+  /** The tag input's label. If you need to display HTML, use the `label` slot instead. */
+  @property() label = '';
+
+  /** The tag input's help text. If you need to display HTML, use the `help-text` slot instead. */
+  @property({ attribute: 'help-text' }) helpText = '';
+
+  /** Placeholder text to show as a hint when there are no tags. */
+  @property() placeholder = '';
+
+  /**
+   * The characters that turn the text into a tag as the user types. Pressing enter always adds a tag. When text is
+   * pasted, these characters, tabs, and line breaks separate the tags.
+   */
+  @property() delimiters = ',';
+
+  /**
+   * The type of value each tag must be. Tags that aren't valid emails or URLs are highlighted and make the tag input
+   * invalid, just like a native `<input>` of the same type.
+   */
+  @property() type: 'text' | 'email' | 'url' = 'text';
+
+  /** A regular expression pattern that each tag must match. Tags that don't match make the tag input invalid. */
+  @property() pattern: string;
+
+  /** The maximum number of tags. Once it's reached, no more tags can be added. Set to 0 to allow any number. */
+  @property({ attribute: 'max-tags', type: Number }) maxTags = 0;
+
+  /** Disables the tag input. */
+  @property({ type: Boolean, reflect: true }) disabled = false;
+
+  /**
+   * By default, form controls are associated with the nearest containing `<form>` element. This attribute allows you
+   * to place the form control outside of a form and associate it with the form that has this `id`. The form must be in
+   * the same document or shadow root for this to work.
+   */
+  @property({ reflect: true }) form = '';
+
+  /** Requires at least one tag. */
+  @property({ type: Boolean, reflect: true }) required = false;
+
+  /**
+   * Validators to run in addition to the browser's constraint validation. A validator can be a function that returns a
+   * validation message, an object with a `validate` function and a `debounce` delay for async validators, or the name
+   * of a registered rule such as `min-items:2`. In HTML, use a space-delimited list of rules.
+   */
+  @property({ converter: validatorsConverter }) validators: Validator[] = [];
+
+  /** Gets the validity state object */
+  get validity() {
+    return this.valueInput.validity;
+  }
+
+  /** Gets the validation message */
+  get validationMessage() {
+    return this.valueInput.validationMessage;
+  }
+
+  firstUpdated() {
+    this.updateConstraintValidity();
+    this.formControlController.updateValidity();
+  }
+
+  // Returns a message for the first tag that isn't valid or when there are more tags than max-tags
+  private getConstraintMessage() {
+    if (this.maxTags > 0 && this.value.length > this.maxTags) {
+      return this.localize.term('maxItems', this.maxTags);
+    }
+
+    const tag = this.value.find(t => !this.isValidTag(t));
+    return tag === undefined ? '' : this.localize.term('invalidTag', tag);
+  }
+
+  // Tags are checked with an in-memory input so they're validated exactly like a native input of the same type. The
+  // input is created on first use, since there's no document on the server.
+  private isValidTag(tag: string) {
+    if (this.type === 'text' && !this.pattern) {
+      return true;
+    }
+
+    this.tagValidationInput ??= document.createElement('input');
+    const input = this.tagValidationInput;
+    input.type = this.type;
+    input.value = tag;
+
+    if (this.pattern) {
+      input.pattern = this.pattern;
+    } else {
+      input.removeAttribute('pattern');
+    }
+
+    return input.validity.valid;
+  }
+
+  // Applies the custom validity message or, when there isn't one, the message for the tag constraints
+  private updateConstraintValidity() {
+    this.valueInput?.setCustomValidity(this.customValidityMessage || this.getConstraintMessage());
+  }
+
+  private splitText(text: string, separators = this.delimiters) {
+    const pattern = new RegExp(`[${escapeRegExp(separators)}]`);
+    return text.split(pattern);
+  }
+
+  // Adds tags and emits events when any were added. Blank and duplicate tags are ignored, as are tags beyond max-tags.
+  private addTags(texts: string[]) {
+    const newTags: string[] = [];
+
+    texts
+      .map(text => text.trim())
+      .forEach(tag => {
+        const isFull = this.maxTags > 0 && this.value.length + newTags.length >= this.maxTags;
+
+        if (tag !== '' && !isFull && !this.value.includes(tag) && !newTags.includes(tag)) {
+          newTags.push(tag);
+        }
+      });
+
+    if (newTags.length === 0) {
+      return false;
+    }
+
+    this.value = [...this.value, ...newTags];
+    this.emitChange();
+    return true;
+  }
+
+  // Turns the text in the input into a tag
+  private commitText() {
+    const text = this.input.value;
+
+    if (text.trim() !== '' && this.addTags([text])) {
+      this.input.value = '';
+    }
+  }
+
+  private emitChange() {
+    // Emit after updating
+    this.updateComplete.then(() => {
+      this.emit('sl-input');
+      this.emit('sl-change');
+    });
+  }
+
+  private removeTagAt(index: number) {
+    this.value = this.value.filter((_, i) => i !== index);
+    this.emitChange();
+  }
+
+  // Focuses the tag at an index or, when the index is past the last tag, the input
+  private focusTagAt(index: number) {
+    this.updateComplete.then(() => {
+      const tag = this.tags[Math.max(0, index)] as SlTag | undefined;
+
+      if (tag) {
+        tag.focus();
+      } else {
+        this.input.focus();
+      }
+    });
+  }
+
+  private handleBaseClick(event: MouseEvent) {
+    // Clicking the empty space around the tags focuses the input
+    if (event.target === this.base) {
+      this.input.focus();
+    }
+  }
+
+  private handleFocusIn() {
+    if (!this.hasFocus) {
+      this.hasFocus = true;
+      this.emit('sl-focus');
+    }
+  }
+
+  private handleFocusOut(event: FocusEvent) {
+    // Ignore focus that moves between the tags and the input
+    if (this.base.contains(event.relatedTarget as Node | null)) {
+      return;
+    }
+
+    this.hasFocus = false;
+    this.commitText();
+    this.emit('sl-blur');
+  }
+
+  private handleInput() {
+    const parts = this.splitText(this.input.value);
+
+    // Typing a delimiter turns everything before it into a tag
+    if (parts.length > 1) {
+      const text = parts.pop()!;
+      this.addTags(parts);
+      this.input.value = text;
+    }
+  }
+
+  private handlePaste(event: ClipboardEvent) {
+    const pastedText = event.clipboardData?.getData('text') ?? '';
+    const parts = this.splitText(pastedText, `${this.delimiters}\n\r\t`);
+
+    if (parts.length > 1) {
+      const { value, selectionStart, selectionEnd } = this.input;
+      const text = value.slice(0, selectionStart ?? 0) + pastedText + value.slice(selectionEnd ?? value.length);
+
+      event.preventDefault();
+      this.addTags(this.splitText(text, `${this.delimiters}\n\r\t`));
+      this.input.value = '';
+    }
+  }
+
+  private handleInputKeyDown(event: KeyboardEvent) {
+    const hasModifier = event.metaKey || event.ctrlKey || event.shiftKey || event.altKey;
+    const isAtStart = this.input.selectionStart === 0 && this.input.selectionEnd === 0;
+    const previousKey = this.localize.dir() === 'rtl' ? 'ArrowRight' : 'ArrowLeft';
+
+    if (event.key === 'Enter' && !hasModifier && !event.isComposing) {
+      // Pressing enter adds a tag, or submits the form like a native input when there's no text
+      if (this.input.value.trim() !== '') {
+        event.preventDefault();
+        this.commitText();
+      } else {
+        setTimeout(() => {
+          if (!event.defaultPrevented) {
+            this.formControlController.submit();
+          }
+        });
+      }
+    }
+
+    // Backspace removes the last tag when the input is empty
+    if (event.key === 'Backspace' && this.input.value === '' && this.value.length > 0) {
+      event.preventDefault();
+      this.removeTagAt(this.value.length - 1);
+    }
+
+    // Move to the last tag from the start of the input
+    if ((event.key === previousKey || event.key === 'Home') && isAtStart && this.value.length > 0) {
+      event.preventDefault();
+      this.focusTagAt(event.key === 'Home' ? 0 : this.value.length - 1);
+    }
+  }
+
+  private handleTagKeyDown(event: KeyboardEvent, index: number) {
+    const isRtl = this.localize.dir() === 'rtl';
+    const previousKey = isRtl ? 'ArrowRight' : 'ArrowLeft';
+    const nextKey = isRtl ? 'ArrowLeft' : 'ArrowRight';
+
+    // Ignore keys that come from the tag's remove button
+    if (event.target !== event.currentTarget) {
+      return;
+    }
+
+    if (event.key === previousKey || event.key === nextKey || event.key === 'Home' || event.key === 'End') {
+      event.preventDefault();
+
+      if (event.key === 'Home') {
+        this.focusTagAt(0);
+      } else if (event.key === 'End') {
+        this.input.focus();
+      } else {
+        this.focusTagAt(event.key === previousKey ? Math.max(0, index - 1) : index + 1);
+      }
+    }
+
+    if ((event.key === 'Backspace' || event.key === 'Delete') && !this.disabled) {
+      event.preventDefault();
+      this.removeTagAt(index);
+
+      // Backspace moves to the previous tag and delete moves to the next one
+      this.focusTagAt(event.key === 'Backspace' && index > 0 ? index - 1 : index);
+    }
+  }
+
+  private handleTagRemove(event: Event, index: number) {
+    event.stopPropagation();
+
+    if (!this.disabled) {
+      this.removeTagAt(index);
+      this.input.focus();
+    }
+  }
+
+  private handleInvalid(event: Event) {
+    this.formControlController.setValidity(false);
+    this.formControlController.emitInvalidEvent(event);
+  }
+
+  @watch('disabled', { waitUntilFirstUpdate: true })
+  handleDisabledChange() {
+    // Disabled form controls are always valid
+    this.formControlController.setValidity(this.disabled);
+  }
+
+  @watch(['maxTags', 'pattern', 'type'], { waitUntilFirstUpdate: true })
+  handleConstraintsChange() {
+    this.updateConstraintValidity();
+    this.formControlController.updateValidity();
+  }
+
+  @watch('value', { waitUntilFirstUpdate: true })
+  async handleValueChange() {
+    await this.updateComplete;
+    this.updateConstraintValidity();
+    this.formControlController.updateValidity();
+  }
+
+  /** Adds a tag. Returns `false` if the tag is blank, already exists, or max-tags has been reached. */
+  addTag(tag: string) {
+    const newTag = tag.trim();
+    const isFull = this.maxTags > 0 && this.value.length >= this.maxTags;
+
+    if (newTag === '' || isFull || this.value.includes(newTag)) {
+      return false;
+    }
+
+    this.value = [...this.value, newTag];
+    return true;
+  }
+
+  /** Removes a tag. */
+  removeTag(tag: string) {
+    this.value = this.value.filter(t => t !== tag);
+  }
+
+  /** Checks for validity but does not show a validation message. Returns `true` when valid and `false` when invalid. */
+  checkValidity() {
+    return this.valueInput.checkValidity();
+  }
+
+  /** Gets the associated form, if one exists. */
+  getForm(): HTMLFormElement | null {
+    return this.formControlController.getForm();
+  }
+
+  /** Checks for validity and shows the browser's validation message if the control is invalid. */
+  reportValidity() {
+    return this.valueInput.reportValidity();
+  }
+
+  /** Sets a custom validation message. Pass an empty string to restore validity. */
+  setCustomValidity(message: string) {
+    this.formControlController.setCustomValidity(message);
+  }
+
+  /** Sets focus on the tag input. */
+  focus(options?: FocusOptions) {
+    this.input.focus(options);
+  }
+
+  /** Removes focus from the tag input. */
+  blur() {
+    this.input.blur();
+  }
+
+  render() {
+    const hasLabelSlot = this.hasSlotController.test('label');
+    const hasHelpTextSlot = this.hasSlotController.test('help-text');
+    const hasLabel = this.label ? true : !!hasLabelSlot;
+    const hasHelpText = this.helpText ? true : !!hasHelpTextSlot;
+
+    return html`
+      <div
+        part="form-control"
+        class=${classMap({
+          'form-control': true,
+          'form-control--small': this.size === 'small',
+          'form-control--medium': this.size === 'medium',
+          'form-control--large': this.size === 'large',
+          'form-control--has-label': hasLabel,
+          'form-control--has-help-text': hasHelpText
+        })}
+      >
+        <label
+          part="form-control-label"
+          class="form-control__label"
+          for="input"
+          aria-hidden=${hasLabel ? 'false' : 'true'}
+        >
+          <slot name="label">${this.label}</slot>
+        </label>
+
+        <div part="form-control-input" class="form-control-input">
+          <div
+            part="base"
+            class=${classMap({
+              'tag-input__base': true,
+              'tag-input--small': this.size === 'small',
+              'tag-input--medium': this.size === 'medium',
+              'tag-input--large': this.size === 'large',
+              'tag-input--pill': this.pill,
+              'tag-input--standard': !this.filled,
+              'tag-input--filled': this.filled,
+              'tag-input--disabled': this.disabled,
+              'tag-input--focused': this.hasFocus,
+              'tag-input--has-tags': this.value.length > 0
+            })}
+            @click=${this.handleBaseClick}
+            @focusin=${this.handleFocusIn}
+            @focusout=${this.handleFocusOut}
+          >
+            ${this.value.length > 0
+              ? html`
+                  <div part="tags" class="tag-input__tags" role="list">
+                    ${this.value.map(
+                      (tag, index) => html`
+                        <sl-tag
+                          part="tag"
+                          exportparts="
+                            base:tag__base,
+                            content:tag__content,
+                            remove-button:tag__remove-button,
+                            remove-button__base:tag__remove-button__base
+                          "
+                          class="tag-input__tag"
+                          role="listitem"
+                          tabindex="-1"
+                          size=${this.size}
+                          variant=${this.isValidTag(tag) ? 'neutral' : 'danger'}
+                          ?pill=${this.pill}
+                          ?removable=${!this.disabled}
+                          @keydown=${(event: KeyboardEvent) => this.handleTagKeyDown(event, index)}
+                          @sl-remove=${(event: Event) => this.handleTagRemove(event, index)}
+                        >
+                          ${tag}
+                        </sl-tag>
+                      `
+                    )}
+                  </div>
+                `
+              : ''}
+
+            <input
+              part="input"
+              id="input"
+              class="tag-input__control"
+              type="text"
+              title=${this.title /* An empty title prevents browser validation tooltips from appearing on hover */}
+              ?disabled=${this.disabled}
+              placeholder=${ifDefined(this.value.length === 0 ? this.placeholder : undefined)}
+              inputmode=${ifDefined(this.type === 'text' ? undefined : this.type)}
+              autocomplete="off"
+              aria-describedby="help-text"
+              @input=${this.handleInput}
+              @paste=${this.handlePaste}
+              @keydown=${this.handleInputKeyDown}
+            />
+
+            <input
+              class="tag-input__value-input"
+              type="text"
+              ?disabled=${this.disabled}
+              ?required=${this.required}
+              .value=${this.value.join(', ')}
+              tabindex="-1"
+              aria-hidden="true"
+              @focus=${() => this.focus()}
+              @invalid=${this.handleInvalid}
+            />
+          </div>
+        </div>
+
+        <slot
+          name="help-text"
+          part="form-control-help-text"
+          id="help-text"
+          class="form-control__help-text"
+          aria-hidden=${hasHelpText ? 'false' : 'true'}
+        >
+          ${this.helpText}
+        </slot>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'sl-tag-input': SlTagInput;
+  }
+}
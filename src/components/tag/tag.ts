@@ -1,9 +1,10 @@
-import '../icon-button/icon-button.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { html } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property } from 'lit/decorators.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlIconButton from '../icon-button/icon-button.js';
 import styles from './tag.styles.js';
 import type { CSSResultGroup } from 'lit';
 
@@ -27,6 +28,7 @@ import type { CSSResultGroup } from 'lit';
 @customElement('sl-tag')
 export default class SlTag extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-icon-button': SlIconButton };
   private readonly localize = new LocalizeController(this);
 
   /** The tag's theme variant. */
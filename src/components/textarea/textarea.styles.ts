@@ -166,4 +166,11 @@ export default css`
     resize: none;
     overflow-y: hidden;
   }
+
+  /* Forced colors mode */
+  @media (forced-colors: active) {
+    .textarea--standard.textarea--focused:not(.textarea--disabled) {
+      outline: solid var(--sl-focus-ring-width) Highlight;
+    }
+  }
 `;
@@ -52,4 +52,11 @@ export default css`
     padding: var(--sl-tooltip-padding);
     pointer-events: none;
   }
+
+  /* Forced colors mode */
+  @media (forced-colors: active) {
+    .tooltip__body {
+      border: solid 1px CanvasText;
+    }
+  }
 `;
@@ -1,16 +1,16 @@
-import '../popup/popup.js';
 import { animateTo, parseDuration, stopAnimations } from '../../internal/animate.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { getAnimation, setDefaultAnimation } from '../../utilities/animation-registry.js';
-import { html } from 'lit';
+import { html, isServer } from 'lit';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query } from 'lit/decorators.js';
 import { waitForEvent } from '../../internal/event.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlPopup from '../popup/popup.js';
 import styles from './tooltip.styles.js';
 import type { CSSResultGroup } from 'lit';
-import type SlPopup from '../popup/popup.js';
 
 /**
  * @summary Tooltips display additional information based on a specific action.
@@ -43,13 +43,14 @@ import type SlPopup from '../popup/popup.js';
 @customElement('sl-tooltip')
 export default class SlTooltip extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = { 'sl-popup': SlPopup };
 
   private hoverTimeout: number;
   private readonly localize = new LocalizeController(this);
 
   @query('slot:not([name])') defaultSlot: HTMLSlotElement;
   @query('.tooltip__body') body: HTMLElement;
-  @query('sl-popup') popup: SlPopup;
+  @query('.tooltip') popup: SlPopup;
 
   /** The tooltip's content. If you need to display HTML, use the `content` slot instead. */
   @property() content = '';
@@ -100,14 +101,17 @@ export default class SlTooltip extends ShoelaceElement {
 
   constructor() {
     super();
-    // TODO (justinfagnani): does this need to be done in firstUpdated for some
-    // reason? If so, document why in a comment.
-    this.addEventListener('blur', this.handleBlur, true);
-    this.addEventListener('focus', this.handleFocus, true);
-    this.addEventListener('click', this.handleClick);
-    this.addEventListener('keydown', this.handleKeyDown);
-    this.addEventListener('mouseover', this.handleMouseOver);
-    this.addEventListener('mouseout', this.handleMouseOut);
+
+    if (!isServer) {
+      // TODO (justinfagnani): does this need to be done in firstUpdated for some
+      // reason? If so, document why in a comment.
+      this.addEventListener('blur', this.handleBlur, true);
+      this.addEventListener('focus', this.handleFocus, true);
+      this.addEventListener('click', this.handleClick);
+      this.addEventListener('keydown', this.handleKeyDown);
+      this.addEventListener('mouseover', this.handleMouseOver);
+      this.addEventListener('mouseout', this.handleMouseOut);
+    }
   }
 
   connectedCallback() {
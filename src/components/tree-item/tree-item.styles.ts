@@ -118,6 +118,25 @@ export default css`
     color: var(--sl-color-neutral-600);
   }
 
+  /* Reordering */
+  .tree-item--dragging .tree-item__item {
+    opacity: 0.5;
+  }
+
+  .tree-item--drop-before .tree-item__item {
+    box-shadow: inset 0 2px 0 0 var(--sl-color-primary-600);
+  }
+
+  .tree-item--drop-after .tree-item__item {
+    box-shadow: inset 0 -2px 0 0 var(--sl-color-primary-600);
+  }
+
+  .tree-item--drop-inside .tree-item__item {
+    background-color: var(--sl-color-primary-50);
+    outline: dashed 1px var(--sl-color-primary-600);
+    outline-offset: -1px;
+  }
+
   .tree-item__label {
     display: flex;
     align-items: center;
@@ -153,5 +172,17 @@ export default css`
     :host(:not([aria-disabled='true'])) .tree-item--selected .tree-item__item {
       outline: dashed 1px SelectedItem;
     }
+
+    .tree-item--drop-before .tree-item__item {
+      border-block-start: solid 2px Highlight;
+    }
+
+    .tree-item--drop-after .tree-item__item {
+      border-block-end: solid 2px Highlight;
+    }
+
+    .tree-item--drop-inside .tree-item__item {
+      outline: dashed 1px Highlight;
+    }
   }
 `;
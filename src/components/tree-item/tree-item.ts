@@ -1,16 +1,17 @@
-import '../checkbox/checkbox.js';
-import '../icon/icon.js';
-import '../spinner/spinner.js';
 import { animateTo, shimKeyframesHeightAuto, stopAnimations } from '../../internal/animate.js';
 import { classMap } from 'lit/directives/class-map.js';
-import { customElement, property, query, state } from 'lit/decorators.js';
+import { customElement } from '../../internal/scope.js';
 import { getAnimation, setDefaultAnimation } from '../../utilities/animation-registry.js';
 import { html } from 'lit';
 import { live } from 'lit/directives/live.js';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query, state } from 'lit/decorators.js';
 import { watch } from '../../internal/watch.js';
 import { when } from 'lit/directives/when.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlCheckbox from '../checkbox/checkbox.js';
+import SlIcon from '../icon/icon.js';
+import SlSpinner from '../spinner/spinner.js';
 import styles from './tree-item.styles.js';
 import type { CSSResultGroup, PropertyValueMap } from 'lit';
 
@@ -43,6 +44,10 @@ import type { CSSResultGroup, PropertyValueMap } from 'lit';
  * @csspart item--expanded - Applied when the tree item is expanded.
  * @csspart item--indeterminate - Applied when the selection is indeterminate.
  * @csspart item--selected - Applied when the tree item is selected.
+ * @csspart item--dragging - Applied when the tree item is being dragged in a reorderable tree.
+ * @csspart item--drop-before - Applied when a dragged item will be dropped before the tree item.
+ * @csspart item--drop-after - Applied when a dragged item will be dropped after the tree item.
+ * @csspart item--drop-inside - Applied when a dragged item will be dropped inside the tree item.
  * @csspart indentation - The tree item's indentation container.
  * @csspart expand-button - The container that wraps the tree item's expand button and spinner.
  * @csspart label - The tree item's label.
@@ -59,6 +64,11 @@ import type { CSSResultGroup, PropertyValueMap } from 'lit';
 @customElement('sl-tree-item')
 export default class SlTreeItem extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = {
+    'sl-checkbox': SlCheckbox,
+    'sl-icon': SlIcon,
+    'sl-spinner': SlSpinner
+  };
 
   static isTreeItem(node: Node) {
     return node instanceof Element && node.getAttribute('role') === 'treeitem';
@@ -70,6 +80,8 @@ export default class SlTreeItem extends ShoelaceElement {
   @state() isLeaf = false;
   @state() loading = false;
   @state() selectable = false;
+  @state() dragging = false;
+  @state() dropPosition: 'before' | 'after' | 'inside' | null = null;
 
   /** Expands the tree item. */
   @property({ type: Boolean, reflect: true }) expanded = false;
@@ -97,6 +109,9 @@ export default class SlTreeItem extends ShoelaceElement {
 
     if (this.isNestedItem()) {
       this.slot = 'children';
+    } else if (this.slot === 'children') {
+      // The item was moved out of its parent item
+      this.removeAttribute('slot');
     }
   }
 
@@ -229,6 +244,10 @@ export default class SlTreeItem extends ShoelaceElement {
           'tree-item--disabled': this.disabled,
           'tree-item--leaf': this.isLeaf,
           'tree-item--has-expand-button': showExpandButton,
+          'tree-item--dragging': this.dragging,
+          'tree-item--drop-before': this.dropPosition === 'before',
+          'tree-item--drop-after': this.dropPosition === 'after',
+          'tree-item--drop-inside': this.dropPosition === 'inside',
           'tree-item--rtl': this.localize.dir() === 'rtl'
         })}"
       >
@@ -240,6 +259,8 @@ export default class SlTreeItem extends ShoelaceElement {
             ${this.expanded ? 'item--expanded' : ''}
             ${this.indeterminate ? 'item--indeterminate' : ''}
             ${this.selected ? 'item--selected' : ''}
+            ${this.dragging ? 'item--dragging' : ''}
+            ${this.dropPosition ? `item--drop-${this.dropPosition}` : ''}
           "
         >
           <div class="tree-item__indentation" part="indentation"></div>
@@ -14,6 +14,7 @@ export default css`
     --indent-guide-style: solid;
     --indent-guide-width: 0;
     --indent-size: var(--sl-spacing-large);
+    --max-height: 20rem;
 
     display: block;
     isolation: isolate;
@@ -24,4 +25,89 @@ export default css`
      */
     font-size: 0;
   }
+
+  /* Trees rendered from data */
+  .tree__viewport {
+    max-height: var(--max-height);
+    overflow: auto;
+    outline: none;
+  }
+
+  .tree__spacer {
+    position: relative;
+    overflow: hidden;
+  }
+
+  .tree__node {
+    display: flex;
+    align-items: center;
+    border-inline-start: solid 3px transparent;
+    color: var(--sl-color-neutral-700);
+    font-family: var(--sl-font-sans);
+    font-size: var(--sl-font-size-medium);
+    font-weight: var(--sl-font-weight-normal);
+    line-height: var(--sl-line-height-dense);
+    letter-spacing: var(--sl-letter-spacing-normal);
+    cursor: pointer;
+    user-select: none;
+  }
+
+  .tree__node--disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+
+  .tree__node--selected:not(.tree__node--disabled) {
+    background-color: var(--sl-color-neutral-100);
+    border-inline-start-color: var(--sl-color-primary-600);
+  }
+
+  .tree__viewport:focus-visible .tree__node--active {
+    outline: var(--sl-focus-ring);
+    outline-offset: calc(-1 * var(--sl-focus-ring-width));
+  }
+
+  .tree__expand-button {
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    box-sizing: content-box;
+    color: var(--sl-color-neutral-600);
+    padding: var(--sl-spacing-x-small);
+    width: 1rem;
+    height: 1rem;
+    flex-shrink: 0;
+    transition: var(--sl-transition-medium) rotate ease;
+  }
+
+  .tree__node--expanded .tree__expand-button {
+    rotate: 90deg;
+  }
+
+  .tree--rtl .tree__node--expanded .tree__expand-button {
+    rotate: -90deg;
+  }
+
+  .tree__checkbox {
+    pointer-events: none;
+  }
+
+  .tree__checkbox::part(base) {
+    display: flex;
+    align-items: center;
+  }
+
+  .tree__label {
+    flex: 1 1 auto;
+    min-width: 0;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  @media (forced-colors: active) {
+    .tree__node--selected:not(.tree__node--disabled) {
+      outline: dashed 1px SelectedItem;
+    }
+  }
 `;
@@ -1,8 +1,9 @@
 import '../../../dist/shoelace.js';
 import { aTimeout, expect, fixture, html, triggerBlurFor, triggerFocusFor } from '@open-wc/testing';
-import { clickOnElement } from '../../internal/test.js';
-import { sendKeys } from '@web/test-runner-commands';
+import { clickOnElement, moveMouseOnElement } from '../../internal/test.js';
+import { sendKeys, sendMouse } from '@web/test-runner-commands';
 import sinon from 'sinon';
+import type { TreeNode } from './tree.js';
 import type SlTree from './tree.js';
 import type SlTreeItem from '../tree-item/tree-item.js';
 
@@ -754,4 +755,322 @@ describe('<sl-tree>', () => {
       });
     });
   });
+
+  describe('Reordering', () => {
+    beforeEach(async () => {
+      el.reorderable = true;
+      await el.updateComplete;
+    });
+
+    describe('when Alt+ArrowDown is pressed', () => {
+      it('should move the focused item after its next sibling', async () => {
+        // Arrange
+        const node = el.children[0] as SlTreeItem;
+        const nextNode = el.children[1] as SlTreeItem;
+        const moveHandler = sinon.spy();
+        el.addEventListener('sl-move', moveHandler);
+        node.focus();
+
+        // Act
+        await sendKeys({ press: 'Alt+ArrowDown' });
+        await el.updateComplete;
+
+        // Assert
+        expect(el.children[0]).to.equal(nextNode);
+        expect(el.children[1]).to.equal(node);
+        expect(document.activeElement).to.equal(node);
+        expect(moveHandler).to.have.been.calledOnce;
+        expect(moveHandler.args[0][0]).to.deep.include({
+          detail: { source: node, target: nextNode, position: 'after' }
+        });
+      });
+    });
+
+    describe('when Alt+ArrowRight is pressed', () => {
+      it('should move the focused item into its previous sibling', async () => {
+        // Arrange
+        const node = el.children[1] as SlTreeItem;
+        const previousNode = el.children[0] as SlTreeItem;
+        node.focus();
+
+        // Act
+        await sendKeys({ press: 'Alt+ArrowRight' });
+        await Promise.all([previousNode.updateComplete, node.updateComplete]);
+
+        // Assert
+        expect(node.parentElement).to.equal(previousNode);
+        expect(node).to.have.attribute('slot', 'children');
+        expect(previousNode).to.have.attribute('expanded');
+      });
+    });
+
+    describe('when Alt+ArrowLeft is pressed', () => {
+      it('should move the focused item out of its parent', async () => {
+        // Arrange
+        const parentNode = el.children[2] as SlTreeItem;
+        const childNode = parentNode.children[0] as SlTreeItem;
+        parentNode.expanded = true;
+        await parentNode.updateComplete;
+        childNode.focus();
+
+        // Act
+        await sendKeys({ press: 'Alt+ArrowLeft' });
+        await el.updateComplete;
+
+        // Assert
+        expect(childNode.parentElement).to.equal(el);
+        expect(childNode.previousElementSibling).to.equal(parentNode);
+        expect(childNode).not.to.have.attribute('slot');
+      });
+    });
+
+    describe('when the sl-move event is canceled', () => {
+      it('should not move the item', async () => {
+        // Arrange
+        const node = el.children[0] as SlTreeItem;
+        el.addEventListener('sl-move', event => event.preventDefault());
+        node.focus();
+
+        // Act
+        await sendKeys({ press: 'Alt+ArrowDown' });
+        await el.updateComplete;
+
+        // Assert
+        expect(el.children[0]).to.equal(node);
+      });
+    });
+
+    describe('when reorderable is not set', () => {
+      it('should not move the item', async () => {
+        // Arrange
+        el.reorderable = false;
+        await el.updateComplete;
+
+        const node = el.children[0] as SlTreeItem;
+        node.focus();
+
+        // Act
+        await sendKeys({ press: 'Alt+ArrowDown' });
+        await el.updateComplete;
+
+        // Assert
+        expect(el.children[0]).to.equal(node);
+      });
+    });
+
+    describe('when an item is dragged', () => {
+      it('should move the item after the item it is dropped on', async () => {
+        // Arrange
+        const node = el.children[0] as SlTreeItem;
+        const lastNode = el.children[3] as SlTreeItem;
+        await Promise.all([node.updateComplete, lastNode.updateComplete]);
+
+        // Act
+        await moveMouseOnElement(node.itemElement);
+        await sendMouse({ type: 'down' });
+        await moveMouseOnElement(lastNode.itemElement, 'bottom');
+        await sendMouse({ type: 'up' });
+        await el.updateComplete;
+
+        // Assert
+        expect(el.lastElementChild).to.equal(node);
+        expect(node.dragging).to.be.false;
+        expect(lastNode.dropPosition).to.be.null;
+      });
+
+      it('should move the item inside the item it is dropped on', async () => {
+        // Arrange
+        const node = el.children[0] as SlTreeItem;
+        const targetNode = el.children[1] as SlTreeItem;
+        await Promise.all([node.updateComplete, targetNode.updateComplete]);
+
+        // Act
+        await moveMouseOnElement(node.itemElement);
+        await sendMouse({ type: 'down' });
+        await moveMouseOnElement(targetNode.itemElement);
+        await sendMouse({ type: 'up' });
+        await el.updateComplete;
+
+        // Assert
+        expect(node.parentElement).to.equal(targetNode);
+      });
+
+      it('should show a drop indicator on the target item', async () => {
+        // Arrange
+        const node = el.children[0] as SlTreeItem;
+        const targetNode = el.children[1] as SlTreeItem;
+        await Promise.all([node.updateComplete, targetNode.updateComplete]);
+
+        // Act
+        await moveMouseOnElement(node.itemElement);
+        await sendMouse({ type: 'down' });
+        await moveMouseOnElement(targetNode.itemElement, 'top', 0, 1);
+        await targetNode.updateComplete;
+
+        // Assert
+        expect(node.dragging).to.be.true;
+        expect(targetNode.dropPosition).to.equal('before');
+
+        await sendMouse({ type: 'up' });
+      });
+
+      it('should not move an item into its own descendants', async () => {
+        // Arrange
+        const parentNode = el.children[2] as SlTreeItem;
+        const childNode = parentNode.children[0] as SlTreeItem;
+        const moveHandler = sinon.spy();
+        parentNode.expanded = true;
+        el.addEventListener('sl-move', moveHandler);
+        await parentNode.updateComplete;
+
+        // Act
+        await moveMouseOnElement(parentNode.itemElement);
+        await sendMouse({ type: 'down' });
+        await moveMouseOnElement(childNode.itemElement);
+        await sendMouse({ type: 'up' });
+        await el.updateComplete;
+
+        // Assert
+        expect(moveHandler).not.to.have.been.called;
+        expect(childNode.parentElement).to.equal(parentNode);
+      });
+    });
+  });
+
+  describe('when nodes are set', () => {
+    let tree: SlTree;
+
+    const createNodes = (): TreeNode[] => [
+      {
+        id: 'parent',
+        label: 'Parent',
+        children: [
+          { id: 'child-1', label: 'Child 1' },
+          { id: 'child-2', label: 'Child 2' }
+        ]
+      },
+      { id: 'lazy', label: 'Lazy', lazy: true },
+      ...Array.from({ length: 10000 }, (_, i) => ({ id: `node-${i}`, label: `Node ${i}` }))
+    ];
+
+    const getRenderedNodes = () => [...tree.shadowRoot!.querySelectorAll<HTMLElement>('[role="treeitem"]')];
+    const getViewport = () => tree.shadowRoot!.querySelector<HTMLElement>('[role="tree"]')!;
+
+    beforeEach(async () => {
+      tree = await fixture<SlTree>(html` <sl-tree></sl-tree> `);
+      tree.nodes = createNodes();
+      await tree.updateComplete;
+    });
+
+    it('should only render the visible nodes', async () => {
+      await aTimeout(0);
+      await tree.updateComplete;
+
+      const renderedNodes = getRenderedNodes();
+      expect(renderedNodes.length).to.be.greaterThan(0);
+      expect(renderedNodes.length).to.be.lessThan(50);
+      expect(renderedNodes[0]).to.have.trimmed.text('Parent');
+    });
+
+    it('should move the role to the shadow root', () => {
+      expect(tree).not.to.have.attribute('role');
+      expect(tree).not.to.have.attribute('tabindex');
+      expect(getViewport()).to.have.attribute('tabindex', '0');
+    });
+
+    it('should set the position of each node in its set', async () => {
+      tree.nodes![0].expanded = true;
+      tree.nodes = [...tree.nodes!];
+      await tree.updateComplete;
+
+      const [parent, child1, child2, lazy] = getRenderedNodes();
+      expect(parent).to.have.attribute('aria-level', '1');
+      expect(parent).to.have.attribute('aria-posinset', '1');
+      expect(parent).to.have.attribute('aria-setsize', '10002');
+      expect(parent).to.have.attribute('aria-expanded', 'true');
+      expect(child1).to.have.attribute('aria-level', '2');
+      expect(child1).to.have.attribute('aria-setsize', '2');
+      expect(child2).to.have.attribute('aria-posinset', '2');
+      expect(child2).not.to.have.attribute('aria-expanded');
+      expect(lazy).to.have.attribute('aria-expanded', 'false');
+    });
+
+    it('should navigate and expand nodes with the keyboard', async () => {
+      getViewport().focus();
+
+      await sendKeys({ press: 'ArrowDown' });
+      await sendKeys({ press: 'ArrowUp' });
+      await tree.updateComplete;
+      expect(getViewport()).to.have.attribute('aria-activedescendant', 'tree-node-0');
+
+      await sendKeys({ press: 'ArrowRight' });
+      await tree.updateComplete;
+      expect(tree.nodes![0].expanded).to.be.true;
+
+      await sendKeys({ press: 'ArrowDown' });
+      await tree.updateComplete;
+      expect(getViewport()).to.have.attribute('aria-activedescendant', 'tree-node-1');
+      expect(getRenderedNodes()[1]).to.have.trimmed.text('Child 1');
+
+      await sendKeys({ press: 'End' });
+      await tree.updateComplete;
+      await aTimeout(0);
+      await tree.updateComplete;
+      expect(getViewport()).to.have.attribute('aria-activedescendant', 'tree-node-10003');
+      expect(getRenderedNodes().at(-1)).to.have.trimmed.text('Node 9999');
+    });
+
+    it('should select a node and emit sl-selection-change when a node is clicked', async () => {
+      const selectionChangeHandler = sinon.spy();
+      tree.addEventListener('sl-selection-change', selectionChangeHandler);
+
+      await clickOnElement(getRenderedNodes()[2]);
+      await tree.updateComplete;
+
+      expect(tree.selectedNodes.map(node => node.id)).to.deep.equal(['node-0']);
+      expect(getRenderedNodes()[2]).to.have.attribute('aria-selected', 'true');
+      expect(selectionChangeHandler).to.have.been.calledOnce;
+      expect(selectionChangeHandler.args[0][0]).to.deep.include({
+        detail: { selection: [], nodes: [tree.nodes![2]] }
+      });
+    });
+
+    it('should sync the selection of parents and children when selection is "multiple"', async () => {
+      tree.selection = 'multiple';
+      tree.nodes![0].expanded = true;
+      tree.nodes = [...tree.nodes!];
+      await tree.updateComplete;
+
+      // Select a child
+      await clickOnElement(getRenderedNodes()[1]);
+      await tree.updateComplete;
+
+      const parent = tree.nodes[0];
+      const checkbox = getRenderedNodes()[0].querySelector('sl-checkbox')!;
+      expect(parent.selected).to.be.false;
+      expect(checkbox.indeterminate).to.be.true;
+
+      // Select the parent
+      await clickOnElement(getRenderedNodes()[0].querySelector('.tree__label')!);
+      await tree.updateComplete;
+
+      expect(parent.selected).to.be.true;
+      expect(parent.children!.every(child => child.selected)).to.be.true;
+      expect(checkbox.indeterminate).to.be.false;
+    });
+
+    it('should load the children of lazy nodes with loadChildren', async () => {
+      tree.loadChildren = () => Promise.resolve([{ id: 'loaded', label: 'Loaded' }]);
+
+      await clickOnElement(getRenderedNodes()[1]);
+      await aTimeout(0);
+      await tree.updateComplete;
+
+      const lazyNode = tree.nodes![1];
+      expect(lazyNode.lazy).to.be.false;
+      expect(lazyNode.expanded).to.be.true;
+      expect(getRenderedNodes()[2]).to.have.trimmed.text('Loaded');
+      expect(getRenderedNodes()[2]).to.have.attribute('aria-level', '2');
+    });
+  });
 });
@@ -1,13 +1,54 @@
 import { clamp } from '../../internal/math.js';
-import { customElement, property, query } from 'lit/decorators.js';
-import { html } from 'lit';
+import { classMap } from 'lit/directives/class-map.js';
+import { customElement, scopedTagName } from '../../internal/scope.js';
+import { drag } from '../../internal/drag.js';
+import { html, isServer } from 'lit';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { live } from 'lit/directives/live.js';
 import { LocalizeController } from '../../utilities/localize.js';
+import { property, query } from 'lit/decorators.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import { VirtualizerController } from '../../internal/virtualizer.js';
 import { watch } from '../../internal/watch.js';
 import ShoelaceElement from '../../internal/shoelace-element.js';
+import SlCheckbox from '../checkbox/checkbox.js';
+import SlIcon from '../icon/icon.js';
+import SlSpinner from '../spinner/spinner.js';
 import SlTreeItem from '../tree-item/tree-item.js';
 import styles from './tree.styles.js';
 import type { CSSResultGroup } from 'lit';
 
+type DropPosition = 'before' | 'after' | 'inside';
+
+export interface TreeNode {
+  /** A unique identifier for the node. */
+  id: string | number;
+  /** The node's label. */
+  label: string;
+  /** The node's children. */
+  children?: TreeNode[];
+  /** Expands the node. */
+  expanded?: boolean;
+  /** Draws the node in a selected state. */
+  selected?: boolean;
+  /** Disables the node. */
+  disabled?: boolean;
+  /** Loads the node's children with the tree's `loadChildren` function the first time it's expanded. */
+  lazy?: boolean;
+}
+
+// A visible node and the position information needed to render it
+interface TreeRow {
+  node: TreeNode;
+  level: number;
+  setSize: number;
+  posInSet: number;
+}
+
+function isLeafNode(node: TreeNode) {
+  return !node.lazy && !node.children?.length;
+}
+
 function syncCheckboxes(changedTreeItem: SlTreeItem, initialSync = false) {
   function syncParentItem(treeItem: SlTreeItem) {
     const children = treeItem.getChildrenItems({ includeDisabled: false });
@@ -54,13 +95,22 @@ function syncCheckboxes(changedTreeItem: SlTreeItem, initialSync = false) {
  * @status stable
  * @since 2.0
  *
- * @event {{ selection: SlTreeItem[] }} sl-selection-change - Emitted when a tree item is selected or deselected.
+ * @dependency sl-checkbox
+ * @dependency sl-icon
+ * @dependency sl-spinner
+ *
+ * @event {{ selection: SlTreeItem[], nodes?: TreeNode[] }} sl-selection-change - Emitted when a tree item is selected or
+ *  deselected. When the tree is rendered from data, `selection` is empty and `nodes` contains the selected nodes.
+ * @event {{ source: SlTreeItem, target: SlTreeItem, position: 'before' | 'after' | 'inside' }} sl-move - Emitted when
+ *  the user moves a tree item in a reorderable tree, before the item is moved. Calling `event.preventDefault()` will
+ *  prevent the move.
  *
  * @slot - The default slot.
  * @slot expand-icon - The icon to show when the tree item is expanded. Works best with `<sl-icon>`.
  * @slot collapse-icon - The icon to show when the tree item is collapsed. Works best with `<sl-icon>`.
  *
  * @csspart base - The component's base wrapper.
+ * @csspart node - A node's row when the tree is rendered from data.
  *
  * @cssproperty [--indent-size=var(--sl-spacing-medium)] - The size of the indentation for nested items.
  * @cssproperty [--indent-guide-color=var(--sl-color-neutral-200)] - The color of the indentation line.
@@ -68,14 +118,21 @@ function syncCheckboxes(changedTreeItem: SlTreeItem, initialSync = false) {
  *  indentation line's starting position.
  * @cssproperty [--indent-guide-style=solid] - The style of the indentation line, e.g. solid, dotted, dashed.
  * @cssproperty [--indent-guide-width=0] - The width of the indentation line.
+ * @cssproperty [--max-height=20rem] - The maximum height of the tree when it's rendered from data.
  */
 @customElement('sl-tree')
 export default class SlTree extends ShoelaceElement {
   static styles: CSSResultGroup = styles;
+  static dependencies = {
+    'sl-checkbox': SlCheckbox,
+    'sl-icon': SlIcon,
+    'sl-spinner': SlSpinner
+  };
 
   @query('slot:not([name])') defaultSlot: HTMLSlotElement;
   @query('slot[name=expand-icon]') expandedIconSlot: HTMLSlotElement;
   @query('slot[name=collapse-icon]') collapsedIconSlot: HTMLSlotElement;
+  @query('.tree__viewport') viewport: HTMLDivElement;
 
   /**
    * The selection behavior of the tree. Single selection allows only one node to be selected at a time. Multiple
@@ -83,6 +140,23 @@ export default class SlTree extends ShoelaceElement {
    */
   @property() selection: 'single' | 'multiple' | 'leaf' = 'single';
 
+  /**
+   * Allows the user to move tree items by dragging them or by pressing <kbd>Alt</kbd> and the arrow keys. Items can be
+   * moved between siblings and into other parents.
+   */
+  @property({ type: Boolean, reflect: true }) reorderable = false;
+
+  /**
+   * The nodes to render. When set, the tree is rendered from data instead of its slotted tree items, and only the rows
+   * that are scrolled into view are added to the DOM. Use this for trees with thousands of items. The tree updates the
+   * nodes' `expanded` and `selected` properties as the user interacts with it. Set a new array to render changes you
+   * make to the nodes.
+   */
+  @property({ attribute: false }) nodes: TreeNode[] | null = null;
+
+  /** A function that loads the children of a lazy node when it's expanded in a tree that's rendered from data. */
+  @property({ attribute: false }) loadChildren: ((node: TreeNode) => Promise<TreeNode[]>) | null = null;
+
   //
   // A collection of all the items in the tree, in the order they appear. The collection is live, meaning it is
   // automatically updated when the underlying document is changed.
@@ -91,19 +165,40 @@ export default class SlTree extends ShoelaceElement {
   private readonly localize = new LocalizeController(this);
   private mutationObserver: MutationObserver;
   private clickTarget: SlTreeItem | null = null;
+  private dragSource: SlTreeItem | null = null;
+  private dropTarget: SlTreeItem | null = null;
+  private dropPosition: DropPosition | null = null;
+  private autoExpandTimeout: number;
+
+  // State for trees that are rendered from data
+  private rows: TreeRow[] = [];
+  private activeNode: TreeNode | null = null;
+  private readonly parentNodes = new WeakMap<TreeNode, TreeNode>();
+  private readonly indeterminateNodes = new WeakSet<TreeNode>();
+  private readonly loadingNodes = new WeakSet<TreeNode>();
+  private readonly virtualizer = new VirtualizerController(this, {
+    getScrollElement: () => this.viewport,
+    getCount: () => this.rows.length
+  });
 
   constructor() {
     super();
-    this.addEventListener('focusin', this.handleFocusIn);
-    this.addEventListener('focusout', this.handleFocusOut);
-    this.addEventListener('sl-lazy-change', this.handleSlotChange);
+
+    if (!isServer) {
+      this.addEventListener('focusin', this.handleFocusIn);
+      this.addEventListener('focusout', this.handleFocusOut);
+      this.addEventListener('sl-lazy-change', this.handleSlotChange);
+    }
   }
 
   async connectedCallback() {
     super.connectedCallback();
 
-    this.setAttribute('role', 'tree');
-    this.setAttribute('tabindex', '0');
+    // When the tree is rendered from data, the role and focus are handled in the shadow root
+    if (!this.nodes) {
+      this.setAttribute('role', 'tree');
+      this.setAttribute('tabindex', '0');
+    }
 
     await this.updateComplete;
 
@@ -164,7 +259,7 @@ export default class SlTree extends ShoelaceElement {
       addedNodes.forEach(this.initTreeItem);
 
       // If the focused item has been removed form the DOM, move the focus to the first focusable item
-      if (removedNodes.includes(this.lastFocusedItem)) {
+      if (removedNodes.includes(this.lastFocusedItem) && !this.contains(this.lastFocusedItem)) {
         this.focusItem(this.getFocusableItems()[0]);
       }
     }
@@ -216,7 +311,7 @@ export default class SlTree extends ShoelaceElement {
   }
 
   private getAllTreeItems() {
-    return [...this.querySelectorAll<SlTreeItem>('sl-tree-item')];
+    return [...this.querySelectorAll<SlTreeItem>(scopedTagName(this, 'sl-tree-item'))];
   }
 
   private focusItem(item?: SlTreeItem | null) {
@@ -224,6 +319,12 @@ export default class SlTree extends ShoelaceElement {
   }
 
   private handleKeyDown(event: KeyboardEvent) {
+    if (this.reorderable && event.altKey && ['ArrowDown', 'ArrowUp', 'ArrowRight', 'ArrowLeft'].includes(event.key)) {
+      event.preventDefault();
+      this.handleMoveKey(event.key);
+      return;
+    }
+
     if (!['ArrowDown', 'ArrowUp', 'ArrowRight', 'ArrowLeft', 'Home', 'End', 'Enter', ' '].includes(event.key)) {
       return;
     }
@@ -290,7 +391,7 @@ export default class SlTree extends ShoelaceElement {
 
   private handleClick(event: Event) {
     const target = event.target as SlTreeItem;
-    const treeItem = target.closest('sl-tree-item')!;
+    const treeItem = target.closest<SlTreeItem>(scopedTagName(this, 'sl-tree-item'))!;
     const isExpandButton = event
       .composedPath()
       .some((el: HTMLElement) => el?.classList?.contains('tree-item__expand-button'));
@@ -318,7 +419,197 @@ export default class SlTree extends ShoelaceElement {
     this.clickTarget = event.target as SlTreeItem;
   }
 
+  // Moves the focused item with the keyboard. Up and down move it between its siblings, the inline arrow keys move it
+  // into its previous sibling or out of its parent.
+  private handleMoveKey(key: string) {
+    const item = this.getAllTreeItems().find(el => el.matches(':focus'));
+    if (!item || item.disabled) {
+      return;
+    }
+
+    const isLtr = this.localize.dir() === 'ltr';
+    const previousItem = this.getSiblingItem(item, 'previous');
+    const nextItem = this.getSiblingItem(item, 'next');
+    const parentItem = item.parentElement;
+    const isIndent = (isLtr && key === 'ArrowRight') || (!isLtr && key === 'ArrowLeft');
+    const isOutdent = (isLtr && key === 'ArrowLeft') || (!isLtr && key === 'ArrowRight');
+
+    if (key === 'ArrowUp' && previousItem) {
+      this.moveItem(item, previousItem, 'before');
+    } else if (key === 'ArrowDown' && nextItem) {
+      this.moveItem(item, nextItem, 'after');
+    } else if (isIndent && previousItem) {
+      this.moveItem(item, previousItem, 'inside');
+    } else if (isOutdent && parentItem && SlTreeItem.isTreeItem(parentItem)) {
+      this.moveItem(item, parentItem as SlTreeItem, 'after');
+    }
+  }
+
+  private getSiblingItem(item: SlTreeItem, direction: 'previous' | 'next') {
+    let sibling = direction === 'previous' ? item.previousElementSibling : item.nextElementSibling;
+
+    while (sibling && !SlTreeItem.isTreeItem(sibling)) {
+      sibling = direction === 'previous' ? sibling.previousElementSibling : sibling.nextElementSibling;
+    }
+
+    return sibling as SlTreeItem | null;
+  }
+
+  private handlePointerDown(event: PointerEvent) {
+    const item = (event.target as HTMLElement).closest<SlTreeItem>(scopedTagName(this, 'sl-tree-item'));
+
+    if (!this.reorderable || event.button !== 0 || !item || item.disabled) {
+      return;
+    }
+
+    const { left, top } = this.getBoundingClientRect();
+    const startX = event.clientX - left;
+    const startY = event.clientY - top;
+    let isDragging = false;
+
+    const handleKeyDown = (keyEvent: KeyboardEvent) => {
+      if (keyEvent.key === 'Escape') {
+        keyEvent.stopPropagation();
+        item.dragging = false;
+        this.setDropTarget(null, null);
+        this.dragSource = null;
+      }
+    };
+
+    drag(this, {
+      onMove: (x, y) => {
+        // Don't start dragging until the pointer has moved a few pixels so clicks still work
+        if (!isDragging) {
+          if (Math.hypot(x - startX, y - startY) < 5) {
+            return;
+          }
+
+          isDragging = true;
+          item.dragging = true;
+          this.dragSource = item;
+          this.clickTarget = null;
+          document.addEventListener('keydown', handleKeyDown, true);
+        }
+
+        if (this.dragSource) {
+          this.updateDropTarget(y + this.getBoundingClientRect().top);
+        }
+      },
+      onStop: () => {
+        const target = this.dropTarget;
+        const position = this.dropPosition;
+
+        document.removeEventListener('keydown', handleKeyDown, true);
+        item.dragging = false;
+        this.setDropTarget(null, null);
+
+        if (this.dragSource && target && position) {
+          this.moveItem(this.dragSource, target, position);
+        }
+
+        this.dragSource = null;
+      }
+    });
+  }
+
+  // Finds the item and drop position under the pointer and updates the drop indicator
+  private updateDropTarget(clientY: number) {
+    const source = this.dragSource!;
+    let target: SlTreeItem | null = null;
+    let position: DropPosition | null = null;
+
+    for (const item of this.getFocusableItems()) {
+      const { top, height } = item.itemElement.getBoundingClientRect();
+
+      if (clientY >= top && clientY < top + height) {
+        const ratio = (clientY - top) / height;
+        target = item;
+        position = ratio < 0.25 ? 'before' : ratio > 0.75 ? 'after' : 'inside';
+        break;
+      }
+    }
+
+    // Dropping after an expanded item is the same as dropping before its first child
+    const firstChild = target?.expanded ? target.getChildrenItems()[0] : undefined;
+    if (position === 'after' && firstChild) {
+      target = firstChild;
+      position = 'before';
+    }
+
+    // Items can't be dropped onto themselves or their descendants
+    if (target && (target === source || source.contains(target))) {
+      target = null;
+      position = null;
+    }
+
+    this.setDropTarget(target, position);
+  }
+
+  private setDropTarget(target: SlTreeItem | null, position: DropPosition | null) {
+    if (this.dropTarget !== target) {
+      clearTimeout(this.autoExpandTimeout);
+
+      if (this.dropTarget) {
+        this.dropTarget.dropPosition = null;
+      }
+    }
+
+    // Expand collapsed items when the user hovers over them for a moment
+    if (target && position === 'inside' && !target.expanded && (!target.isLeaf || target.lazy)) {
+      if (this.dropTarget !== target || this.dropPosition !== 'inside') {
+        clearTimeout(this.autoExpandTimeout);
+        this.autoExpandTimeout = window.setTimeout(() => (target.expanded = true), 750);
+      }
+    } else {
+      clearTimeout(this.autoExpandTimeout);
+    }
+
+    this.dropTarget = target;
+    this.dropPosition = position;
+
+    if (target) {
+      target.dropPosition = position;
+    }
+  }
+
+  // Moves an item relative to the target item unless the sl-move event is canceled
+  private moveItem(source: SlTreeItem, target: SlTreeItem, position: DropPosition) {
+    const slMove = this.emit('sl-move', { cancelable: true, detail: { source, target, position } });
+    if (slMove.defaultPrevented) {
+      return;
+    }
+
+    const previousParent = source.parentElement;
+    const hasFocus = source.matches(':focus');
+
+    if (position === 'before') {
+      target.before(source);
+    } else if (position === 'after') {
+      target.after(source);
+    } else {
+      target.append(source);
+      target.expanded = true;
+    }
+
+    if (this.selection === 'multiple') {
+      [previousParent, source].forEach(item => {
+        if (item && SlTreeItem.isTreeItem(item)) {
+          syncCheckboxes(item as SlTreeItem, true);
+        }
+      });
+    }
+
+    // Moving an element removes its focus, so restore it
+    if (hasFocus) {
+      this.focusItem(source);
+    }
+  }
+
   private handleFocusOut = (event: FocusEvent) => {
+    if (this.nodes) {
+      return;
+    }
+
     const relatedTarget = event.relatedTarget as HTMLElement;
 
     // If the element that got the focus is not in the tree
@@ -328,6 +619,10 @@ export default class SlTree extends ShoelaceElement {
   };
 
   private handleFocusIn = (event: FocusEvent) => {
+    if (this.nodes) {
+      return;
+    }
+
     const target = event.target as SlTreeItem;
 
     // If the tree has been focused, move the focus to the last focused item
@@ -357,6 +652,13 @@ export default class SlTree extends ShoelaceElement {
     const isSelectionMultiple = this.selection === 'multiple';
     const items = this.getAllTreeItems();
 
+    if (this.nodes) {
+      if (isSelectionMultiple) {
+        this.nodes.forEach(node => this.syncNodeSelection(node, true));
+      }
+      return;
+    }
+
     this.setAttribute('aria-multiselectable', isSelectionMultiple ? 'true' : 'false');
 
     for (const item of items) {
@@ -366,12 +668,263 @@ export default class SlTree extends ShoelaceElement {
     if (isSelectionMultiple) {
       await this.updateComplete;
 
-      [...this.querySelectorAll(':scope > sl-tree-item')].forEach((treeItem: SlTreeItem) =>
+      [...this.querySelectorAll(`:scope > ${scopedTagName(this, 'sl-tree-item')}`)].forEach((treeItem: SlTreeItem) =>
         syncCheckboxes(treeItem, true)
       );
     }
   }
 
+  @watch('nodes')
+  handleNodesChange() {
+    if (this.nodes) {
+      this.removeAttribute('role');
+      this.removeAttribute('tabindex');
+      this.removeAttribute('aria-multiselectable');
+
+      this.indexNodes(this.nodes);
+
+      if (this.selection === 'multiple') {
+        this.nodes.forEach(node => this.syncNodeSelection(node, true));
+      }
+    } else if (!this.hasAttribute('role')) {
+      // The tree is no longer rendered from data
+      this.setAttribute('role', 'tree');
+      this.setAttribute('tabindex', '0');
+      this.handleSelectionChange();
+    }
+
+    this.updateRows();
+  }
+
+  // Records each node's parent so selection changes can be synced to its ancestors
+  private indexNodes(nodes: TreeNode[], parent?: TreeNode) {
+    for (const node of nodes) {
+      if (parent) {
+        this.parentNodes.set(node, parent);
+      } else {
+        this.parentNodes.delete(node);
+      }
+
+      this.indexNodes(node.children ?? [], node);
+    }
+  }
+
+  // Flattens the expanded nodes into the list of rows to render
+  private updateRows() {
+    const rows: TreeRow[] = [];
+    const addRows = (nodes: TreeNode[], level: number) => {
+      nodes.forEach((node, index) => {
+        rows.push({ node, level, setSize: nodes.length, posInSet: index + 1 });
+
+        if (node.expanded && node.children && !this.loadingNodes.has(node)) {
+          addRows(node.children, level + 1);
+        }
+      });
+    };
+
+    addRows(this.nodes ?? [], 1);
+    this.rows = rows;
+    this.requestUpdate();
+  }
+
+  private forEachNode(callback: (node: TreeNode) => void, nodes = this.nodes ?? []) {
+    for (const node of nodes) {
+      callback(node);
+      this.forEachNode(callback, node.children ?? []);
+    }
+  }
+
+  // The data equivalent of syncCheckboxes()
+  private syncNodeSelection(changedNode: TreeNode, initialSync = false) {
+    const syncParentNode = (node: TreeNode) => {
+      const children = (node.children ?? []).filter(child => !child.disabled);
+
+      if (children.length) {
+        const allChecked = children.every(child => child.selected);
+        const allUnchecked = children.every(child => !child.selected && !this.indeterminateNodes.has(child));
+
+        node.selected = allChecked;
+        this.setNodeIndeterminate(node, !allChecked && !allUnchecked);
+      }
+    };
+
+    const syncAncestors = (node: TreeNode) => {
+      const parentNode = this.parentNodes.get(node);
+
+      if (parentNode) {
+        syncParentNode(parentNode);
+        syncAncestors(parentNode);
+      }
+    };
+
+    const syncDescendants = (node: TreeNode) => {
+      for (const child of node.children ?? []) {
+        child.selected = initialSync ? !!(node.selected || child.selected) : !child.disabled && !!node.selected;
+        this.setNodeIndeterminate(child, false);
+
+        syncDescendants(child);
+      }
+
+      if (initialSync) {
+        syncParentNode(node);
+      }
+    };
+
+    syncDescendants(changedNode);
+    syncAncestors(changedNode);
+  }
+
+  private setNodeIndeterminate(node: TreeNode, indeterminate: boolean) {
+    if (indeterminate) {
+      this.indeterminateNodes.add(node);
+    } else {
+      this.indeterminateNodes.delete(node);
+    }
+  }
+
+  private async setNodeExpanded(node: TreeNode, expanded: boolean) {
+    if (!expanded || !node.lazy) {
+      node.expanded = expanded;
+      this.updateRows();
+      return;
+    }
+
+    if (!this.loadChildren || this.loadingNodes.has(node)) {
+      return;
+    }
+
+    node.expanded = true;
+    this.loadingNodes.add(node);
+    this.updateRows();
+
+    try {
+      const children = await this.loadChildren(node);
+
+      node.children = children;
+      node.lazy = false;
+      this.indexNodes(children, node);
+
+      if (this.selection === 'multiple') {
+        this.syncNodeSelection(node, true);
+      }
+    } catch {
+      node.expanded = false;
+    } finally {
+      this.loadingNodes.delete(node);
+      this.updateRows();
+    }
+  }
+
+  private selectNode(node: TreeNode) {
+    const previousSelection = this.selectedNodes;
+
+    if (this.selection === 'multiple') {
+      node.selected = !node.selected;
+      this.setNodeIndeterminate(node, false);
+      if (node.lazy) {
+        this.setNodeExpanded(node, true);
+      }
+      this.syncNodeSelection(node);
+    } else if (this.selection === 'single' || isLeafNode(node)) {
+      this.setNodeExpanded(node, !node.expanded);
+      this.forEachNode(el => (el.selected = el === node));
+    } else if (this.selection === 'leaf') {
+      this.setNodeExpanded(node, !node.expanded);
+    }
+
+    const nextSelection = this.selectedNodes;
+
+    if (
+      previousSelection.length !== nextSelection.length ||
+      nextSelection.some(el => !previousSelection.includes(el))
+    ) {
+      this.emit('sl-selection-change', { detail: { selection: [], nodes: nextSelection } });
+    }
+
+    this.requestUpdate();
+  }
+
+  private setActiveNode(node: TreeNode) {
+    this.activeNode = node;
+    this.virtualizer.scrollToIndex(this.rows.findIndex(row => row.node === node));
+    this.requestUpdate();
+  }
+
+  // The data equivalent of handleKeyDown()
+  private handleViewportKeyDown(event: KeyboardEvent) {
+    if (!['ArrowDown', 'ArrowUp', 'ArrowRight', 'ArrowLeft', 'Home', 'End', 'Enter', ' '].includes(event.key)) {
+      return;
+    }
+
+    const nodes = this.rows.map(row => row.node).filter(node => !node.disabled);
+    const isLtr = this.localize.dir() === 'ltr';
+    const isRtl = this.localize.dir() === 'rtl';
+
+    if (nodes.length > 0) {
+      event.preventDefault();
+      const activeNodeIndex = Math.max(0, nodes.indexOf(this.activeNode!));
+      const activeNode = nodes[activeNodeIndex];
+      const isLeaf = isLeafNode(activeNode);
+
+      const focusNodeAt = (index: number) => this.setActiveNode(nodes[clamp(index, 0, nodes.length - 1)]);
+
+      if (event.key === 'ArrowDown') {
+        focusNodeAt(activeNodeIndex + 1);
+      } else if (event.key === 'ArrowUp') {
+        focusNodeAt(activeNodeIndex - 1);
+      } else if ((isLtr && event.key === 'ArrowRight') || (isRtl && event.key === 'ArrowLeft')) {
+        if (activeNode.expanded || isLeaf) {
+          focusNodeAt(activeNodeIndex + 1);
+        } else {
+          this.setNodeExpanded(activeNode, true);
+        }
+      } else if ((isLtr && event.key === 'ArrowLeft') || (isRtl && event.key === 'ArrowRight')) {
+        if (isLeaf || !activeNode.expanded) {
+          focusNodeAt(activeNodeIndex - 1);
+        } else {
+          this.setNodeExpanded(activeNode, false);
+        }
+      } else if (event.key === 'Home') {
+        focusNodeAt(0);
+      } else if (event.key === 'End') {
+        focusNodeAt(nodes.length - 1);
+      } else if (event.key === 'Enter' || event.key === ' ') {
+        this.setActiveNode(activeNode);
+        this.selectNode(activeNode);
+      }
+    }
+  }
+
+  private handleNodeClick(event: MouseEvent, node: TreeNode) {
+    const isExpandButton = event
+      .composedPath()
+      .some((el: HTMLElement) => el?.classList?.contains('tree__expand-button'));
+
+    if (node.disabled) {
+      return;
+    }
+
+    this.setActiveNode(node);
+
+    if (this.selection === 'multiple' && isExpandButton) {
+      this.setNodeExpanded(node, !node.expanded);
+    } else {
+      this.selectNode(node);
+    }
+  }
+
+  /** The nodes that are selected when the tree is rendered from data. */
+  get selectedNodes(): TreeNode[] {
+    const selectedNodes: TreeNode[] = [];
+    this.forEachNode(node => {
+      if (node.selected) {
+        selectedNodes.push(node);
+      }
+    });
+
+    return selectedNodes;
+  }
+
   /** @internal Returns the list of tree items that are selected in the tree. */
   get selectedItems(): SlTreeItem[] {
     const items = this.getAllTreeItems();
@@ -399,7 +952,95 @@ export default class SlTree extends ShoelaceElement {
     });
   }
 
+  updated() {
+    if (this.nodes) {
+      this.virtualizer.measure(this.shadowRoot!.querySelector<HTMLElement>('.tree__node'));
+    }
+  }
+
+  private renderNode(row: TreeRow, index: number) {
+    const { node, level, setSize, posInSet } = row;
+    const isRtl = this.localize.dir() === 'rtl';
+    const isLeaf = isLeafNode(node);
+    const isLoading = this.loadingNodes.has(node);
+    const isIndeterminate = this.indeterminateNodes.has(node);
+
+    return html`
+      <div
+        id="tree-node-${index}"
+        part="node"
+        class=${classMap({
+          tree__node: true,
+          'tree__node--active': node === this.activeNode,
+          'tree__node--expanded': !!node.expanded,
+          'tree__node--selected': !!node.selected,
+          'tree__node--disabled': !!node.disabled
+        })}
+        role="treeitem"
+        aria-level=${level}
+        aria-setsize=${setSize}
+        aria-posinset=${posInSet}
+        aria-expanded=${ifDefined(isLeaf ? undefined : node.expanded ? 'true' : 'false')}
+        aria-selected=${node.selected ? 'true' : 'false'}
+        aria-disabled=${node.disabled ? 'true' : 'false'}
+        aria-busy=${isLoading ? 'true' : 'false'}
+        style=${styleMap({ paddingInlineStart: `calc(${level - 1} * var(--indent-size))` })}
+        @click=${(event: MouseEvent) => this.handleNodeClick(event, node)}
+      >
+        <div class="tree__expand-button" aria-hidden="true">
+          ${isLoading
+            ? html`<sl-spinner></sl-spinner>`
+            : isLeaf
+            ? ''
+            : html`<sl-icon library="system" name=${isRtl ? 'chevron-left' : 'chevron-right'}></sl-icon>`}
+        </div>
+
+        ${this.selection === 'multiple'
+          ? html`
+              <sl-checkbox
+                class="tree__checkbox"
+                ?disabled=${!!node.disabled}
+                ?checked=${live(!!node.selected)}
+                ?indeterminate=${isIndeterminate}
+                tabindex="-1"
+              ></sl-checkbox>
+            `
+          : ''}
+
+        <span class="tree__label">${node.label}</span>
+      </div>
+    `;
+  }
+
+  private renderNodes() {
+    const { start, end, offset, totalSize } = this.virtualizer;
+    const activeIndex = this.rows.findIndex(row => row.node === this.activeNode);
+
+    return html`
+      <div part="base" class=${classMap({ tree: true, 'tree--rtl': this.localize.dir() === 'rtl' })}>
+        <div
+          class="tree__viewport"
+          role="tree"
+          tabindex="0"
+          aria-multiselectable=${this.selection === 'multiple' ? 'true' : 'false'}
+          aria-activedescendant=${ifDefined(activeIndex >= 0 ? `tree-node-${activeIndex}` : undefined)}
+          @keydown=${this.handleViewportKeyDown}
+        >
+          <div class="tree__spacer" style=${styleMap({ height: `${totalSize}px` })}>
+            <div class="tree__nodes" style=${styleMap({ transform: `translateY(${offset}px)` })}>
+              ${this.rows.slice(start, end).map((row, index) => this.renderNode(row, start + index))}
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
   render() {
+    if (this.nodes) {
+      return this.renderNodes();
+    }
+
     return html`
       <div
         part="base"
@@ -407,6 +1048,7 @@ export default class SlTree extends ShoelaceElement {
         @click=${this.handleClick}
         @keydown=${this.handleKeyDown}
         @mousedown=${this.handleMouseDown}
+        @pointerdown=${this.handlePointerDown}
       >
         <slot @slotchange=${this.handleSlotChange}></slot>
         <slot name="expand-icon" hidden aria-hidden="true"> </slot>
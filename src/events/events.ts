@@ -2,12 +2,15 @@ export type { default as SlAfterCollapseEvent } from './sl-after-collapse';
 export type { default as SlAfterExpandEvent } from './sl-after-expand';
 export type { default as SlAfterHideEvent } from './sl-after-hide';
 export type { default as SlAfterShowEvent } from './sl-after-show';
+export type { default as SlAutoloadErrorEvent } from './sl-autoload-error';
 export type { default as SlBlurEvent } from './sl-blur';
 export type { default as SlCancelEvent } from './sl-cancel';
 export type { default as SlChangeEvent } from './sl-change';
 export type { default as SlClearEvent } from './sl-clear';
 export type { default as SlCloseEvent } from './sl-close';
 export type { default as SlCollapseEvent } from './sl-collapse';
+export type { default as SlColumnResizeEvent } from './sl-column-resize';
+export type { default as SlDirtyChangeEvent } from './sl-dirty-change';
 export type { default as SlErrorEvent } from './sl-error';
 export type { default as SlExpandEvent } from './sl-expand';
 export type { default as SlFinishEvent } from './sl-finish';
@@ -20,15 +23,18 @@ export type { default as SlInvalidEvent } from './sl-invalid';
 export type { default as SlLazyChangeEvent } from './sl-lazy-change';
 export type { default as SlLazyLoadEvent } from './sl-lazy-load';
 export type { default as SlLoadEvent } from './sl-load';
+export type { default as SlMoveEvent } from './sl-move';
 export type { default as SlMutationEvent } from './sl-mutation';
 export type { default as SlRemoveEvent } from './sl-remove';
 export type { default as SlRepositionEvent } from './sl-reposition';
 export type { default as SlRequestCloseEvent } from './sl-request-close';
 export type { default as SlResizeEvent } from './sl-resize';
+export type { default as SlRowSelectionChangeEvent } from './sl-row-selection-change';
 export type { default as SlSelectEvent } from './sl-select';
 export type { default as SlSelectionChangeEvent } from './sl-selection-change';
 export type { default as SlShowEvent } from './sl-show';
 export type { default as SlSlideChange } from './sl-slide-change';
+export type { default as SlSortEvent } from './sl-sort';
 export type { default as SlStartEvent } from './sl-start';
 export type { default as SlTabHideEvent } from './sl-tab-hide';
 export type { default as SlTabShowEvent } from './sl-tab-show';
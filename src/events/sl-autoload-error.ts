@@ -0,0 +1,9 @@
+type SlAutoloadErrorEvent = CustomEvent<{ tagName: string; error: Error }>;
+
+declare global {
+  interface GlobalEventHandlersEventMap {
+    'sl-autoload-error': SlAutoloadErrorEvent;
+  }
+}
+
+export default SlAutoloadErrorEvent;
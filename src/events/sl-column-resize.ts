@@ -0,0 +1,9 @@
+type SlColumnResizeEvent = CustomEvent<{ field: string; width: number }>;
+
+declare global {
+  interface GlobalEventHandlersEventMap {
+    'sl-column-resize': SlColumnResizeEvent;
+  }
+}
+
+export default SlColumnResizeEvent;
@@ -0,0 +1,9 @@
+type SlDirtyChangeEvent = CustomEvent<{ dirty: boolean }>;
+
+declare global {
+  interface GlobalEventHandlersEventMap {
+    'sl-dirty-change': SlDirtyChangeEvent;
+  }
+}
+
+export default SlDirtyChangeEvent;
@@ -0,0 +1,11 @@
+import type SlTreeItem from '../components/tree-item/tree-item';
+
+type SlMoveEvent = CustomEvent<{ source: SlTreeItem; target: SlTreeItem; position: 'before' | 'after' | 'inside' }>;
+
+declare global {
+  interface GlobalEventHandlersEventMap {
+    'sl-move': SlMoveEvent;
+  }
+}
+
+export default SlMoveEvent;
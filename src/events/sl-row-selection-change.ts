@@ -0,0 +1,11 @@
+import type { TableRow } from '../components/table/table';
+
+type SlRowSelectionChangeEvent = CustomEvent<{ selection: TableRow[] }>;
+
+declare global {
+  interface GlobalEventHandlersEventMap {
+    'sl-row-selection-change': SlRowSelectionChangeEvent;
+  }
+}
+
+export default SlRowSelectionChangeEvent;
@@ -1,6 +1,7 @@
+import type { TreeNode } from '../components/tree/tree';
 import type SlTreeItem from '../components/tree-item/tree-item';
 
-type SlSelectionChangeEvent = CustomEvent<{ selection: SlTreeItem[] }>;
+type SlSelectionChangeEvent = CustomEvent<{ selection: SlTreeItem[]; nodes?: TreeNode[] }>;
 
 declare global {
   interface GlobalEventHandlersEventMap {
@@ -0,0 +1,9 @@
+type SlSortEvent = CustomEvent<{ field: string; direction: 'asc' | 'desc' }>;
+
+declare global {
+  interface GlobalEventHandlersEventMap {
+    'sl-sort': SlSortEvent;
+  }
+}
+
+export default SlSortEvent;
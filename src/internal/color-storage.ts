@@ -0,0 +1,70 @@
+/**
+ * Stores the recent colors and custom swatches of color pickers. Colors are stored as arrays of strings under a key that
+ * the color picker provides.
+ */
+export interface ColorStorage {
+  /** Returns the colors that are stored under the key, or an empty array when there aren't any. */
+  get: (key: string) => string[];
+  /** Stores the colors under the key. */
+  set: (key: string, colors: string[]) => void;
+}
+
+export type ColorStorageListener = (storage: ColorStorage, key: string) => void;
+
+const listeners = new Set<ColorStorageListener>();
+
+/** Creates a storage adapter that persists colors in `localStorage`, with each key prepended by `prefix`. */
+export function createLocalColorStorage(prefix = 'sl-color-picker:'): ColorStorage {
+  return {
+    get(key) {
+      // Storage may be disabled, full, or hold something that isn't ours, so colors are only a best effort
+      try {
+        const colors = JSON.parse(window.localStorage.getItem(prefix + key) ?? '[]') as unknown;
+        return Array.isArray(colors) ? (colors as unknown[]).filter((c): c is string => typeof c === 'string') : [];
+      } catch {
+        return [];
+      }
+    },
+    set(key, colors) {
+      try {
+        window.localStorage.setItem(prefix + key, JSON.stringify(colors));
+      } catch {
+        // Do nothing
+      }
+    }
+  };
+}
+
+/** Creates a storage adapter that keeps colors in memory, which is useful for tests and private browsing. */
+export function createMemoryColorStorage(): ColorStorage {
+  const store = new Map<string, string[]>();
+
+  return {
+    get: key => [...(store.get(key) ?? [])],
+    set: (key, colors) => store.set(key, [...colors])
+  };
+}
+
+let colorStorage = createLocalColorStorage();
+
+/** Gets the storage adapter that color pickers use by default. */
+export function getColorStorage() {
+  return colorStorage;
+}
+
+/** Sets the storage adapter that color pickers use by default. */
+export function setColorStorage(storage: ColorStorage) {
+  colorStorage = storage;
+}
+
+/** Stores colors and lets other color pickers that share the storage and key know about it. */
+export function storeColors(storage: ColorStorage, key: string, colors: string[]) {
+  storage.set(key, colors);
+  listeners.forEach(listener => listener(storage, key));
+}
+
+/** Calls the listener when colors are stored. Returns a function that removes the listener. */
+export function onColorsStored(listener: ColorStorageListener) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
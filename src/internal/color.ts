@@ -0,0 +1,258 @@
+//
+// Conversions between sRGB and the CSS Color 4 color spaces that TinyColor doesn't support, along with WCAG contrast
+// calculations. RGB channels are 0-255 and alpha is 0-1.
+//
+// See https://www.w3.org/TR/css-color-4/#color-conversion-code
+//
+
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+type Matrix = [number, number, number][];
+
+// Linear sRGB to XYZ with a D50 white point, which is what CSS uses for Lab
+const linearRgbToXyzD50: Matrix = [
+  [0.4360747, 0.3850649, 0.1430804],
+  [0.2225045, 0.7168786, 0.0606169],
+  [0.0139322, 0.0971045, 0.7141733]
+];
+
+const xyzD50ToLinearRgb: Matrix = [
+  [3.1338561, -1.6168667, -0.4906146],
+  [-0.9787684, 1.9161415, 0.033454],
+  [0.0719453, -0.2289914, 1.4052427]
+];
+
+const d50White = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const labEpsilon = 216 / 24389;
+const labKappa = 24389 / 27;
+
+function multiply(matrix: Matrix, vector: number[]) {
+  return matrix.map(row => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2]);
+}
+
+function toLinear(channel: number) {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+// Converts a linear channel to a gamma-encoded one, clipping colors that are outside of the sRGB gamut
+function fromLinear(channel: number) {
+  const c = channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+  return Math.min(Math.max(c, 0), 1) * 255;
+}
+
+function toRgb([r, g, b]: number[], a: number): RgbColor {
+  return { r: fromLinear(r), g: fromLinear(g), b: fromLinear(b), a };
+}
+
+function toPolar(a: number, b: number) {
+  const chroma = Math.sqrt(a * a + b * b);
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+
+  // The hue of grays is meaningless and would only be noise from rounding
+  return { chroma, hue: chroma < 0.0002 ? 0 : (hue + 360) % 360 };
+}
+
+function fromPolar(chroma: number, hue: number) {
+  const radians = (hue * Math.PI) / 180;
+  return { a: chroma * Math.cos(radians), b: chroma * Math.sin(radians) };
+}
+
+export function rgbToOklab({ r, g, b }: RgbColor) {
+  const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)];
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s
+  };
+}
+
+export function oklabToRgb(lightness: number, a: number, b: number, alpha = 1) {
+  const l = Math.pow(lightness + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(lightness - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(lightness - 0.0894841775 * a - 1.291485548 * b, 3);
+
+  return toRgb(
+    [
+      4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+      -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+      -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+    ],
+    alpha
+  );
+}
+
+export function rgbToOklch(color: RgbColor) {
+  const { l, a, b } = rgbToOklab(color);
+  const { chroma, hue } = toPolar(a, b);
+  return { l, c: chroma, h: hue };
+}
+
+export function oklchToRgb(lightness: number, chroma: number, hue: number, alpha = 1) {
+  const { a, b } = fromPolar(chroma, hue);
+  return oklabToRgb(lightness, a, b, alpha);
+}
+
+export function rgbToLab({ r, g, b }: RgbColor) {
+  const xyz = multiply(linearRgbToXyzD50, [toLinear(r), toLinear(g), toLinear(b)]);
+  const [fx, fy, fz] = xyz.map((value, index) => {
+    const t = value / d50White[index];
+    return t > labEpsilon ? Math.cbrt(t) : (labKappa * t + 16) / 116;
+  });
+
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+export function labToRgb(lightness: number, a: number, b: number, alpha = 1) {
+  const fy = (lightness + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+  const xyz = [
+    Math.pow(fx, 3) > labEpsilon ? Math.pow(fx, 3) : (116 * fx - 16) / labKappa,
+    lightness > labKappa * labEpsilon ? Math.pow(fy, 3) : lightness / labKappa,
+    Math.pow(fz, 3) > labEpsilon ? Math.pow(fz, 3) : (116 * fz - 16) / labKappa
+  ].map((value, index) => value * d50White[index]);
+
+  return toRgb(multiply(xyzD50ToLinearRgb, xyz), alpha);
+}
+
+export function rgbToHwb({ r, g, b }: RgbColor) {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const delta = max - min;
+  let hue = 0;
+
+  if (delta > 0) {
+    if (max === r / 255) {
+      hue = ((g - b) / 255 / delta) % 6;
+    } else if (max === g / 255) {
+      hue = (b - r) / 255 / delta + 2;
+    } else {
+      hue = (r - g) / 255 / delta + 4;
+    }
+  }
+
+  return { h: (hue * 60 + 360) % 360, w: min * 100, b: (1 - max) * 100 };
+}
+
+export function hwbToRgb(hue: number, whiteness: number, blackness: number, alpha = 1): RgbColor {
+  let white = whiteness / 100;
+  let black = blackness / 100;
+
+  // When whiteness and blackness add up to more than 100%, they're scaled down and the result is a gray
+  if (white + black >= 1) {
+    const gray = (white / (white + black)) * 255;
+    return { r: gray, g: gray, b: gray, a: alpha };
+  }
+
+  white = Math.max(white, 0);
+  black = Math.max(black, 0);
+
+  // The fully saturated color at this hue
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return 0.5 - 0.5 * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+
+  const [r, g, b] = [channel(0), channel(8), channel(4)].map(c => (c * (1 - white - black) + white) * 255);
+  return { r, g, b, a: alpha };
+}
+
+// Parses a number, percentage, hue, or `none`. Percentages are relative to `percentReference`.
+function parseComponent(text: string, percentReference: number, isHue = false) {
+  const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i.exec(text);
+
+  if (text.toLowerCase() === 'none') {
+    return 0;
+  }
+
+  if (!match) {
+    return NaN;
+  }
+
+  const value = parseFloat(match[1]);
+  const unit = (match[2] ?? '').toLowerCase();
+
+  if (unit === '%') {
+    return (value / 100) * percentReference;
+  }
+
+  if (isHue) {
+    const degrees = { '': 1, deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 }[unit] ?? NaN;
+    return value * degrees;
+  }
+
+  return unit === '' ? value : NaN;
+}
+
+/**
+ * Parses the `oklch()`, `oklab()`, `lab()`, and `hwb()` color functions. Returns `null` for other strings or when the
+ * color is invalid. Colors that are outside of the sRGB gamut are clipped.
+ */
+export function parseColor4(colorString: string): RgbColor | null {
+  const match = /^\s*(oklch|oklab|lab|hwb)\(\s*([^)]*)\)\s*$/i.exec(colorString);
+
+  if (!match) {
+    return null;
+  }
+
+  const [channels, alphaText] = match[2].split('/').map(part => part.trim());
+  const parts = channels.split(/\s+/);
+  const alpha = alphaText === undefined ? 1 : parseComponent(alphaText, 1);
+
+  if (parts.length !== 3 || match[2].split('/').length > 2) {
+    return null;
+  }
+
+  let color: RgbColor;
+
+  switch (match[1].toLowerCase()) {
+    case 'oklch':
+      color = oklchToRgb(parseComponent(parts[0], 1), parseComponent(parts[1], 0.4), parseComponent(parts[2], 1, true));
+      break;
+    case 'oklab':
+      color = oklabToRgb(parseComponent(parts[0], 1), parseComponent(parts[1], 0.4), parseComponent(parts[2], 0.4));
+      break;
+    case 'lab':
+      color = labToRgb(parseComponent(parts[0], 100), parseComponent(parts[1], 125), parseComponent(parts[2], 125));
+      break;
+    default:
+      color = hwbToRgb(parseComponent(parts[0], 1, true), parseComponent(parts[1], 100), parseComponent(parts[2], 100));
+  }
+
+  color.a = Math.min(Math.max(alpha, 0), 1);
+
+  return [color.r, color.g, color.b, color.a].some(isNaN) ? null : color;
+}
+
+/** Returns the relative luminance of a color as defined by WCAG 2. */
+export function getRelativeLuminance({ r, g, b }: RgbColor) {
+  return 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+}
+
+/**
+ * Returns the WCAG 2 contrast ratio of two colors, from 1 to 21. A foreground color with transparency is blended with
+ * the background first, since that's the color users will see.
+ */
+export function getContrastRatio(foreground: RgbColor, background: RgbColor) {
+  const blend = (fg: number, bg: number) => fg * foreground.a + bg * (1 - foreground.a);
+  const blended = {
+    r: blend(foreground.r, background.r),
+    g: blend(foreground.g, background.g),
+    b: blend(foreground.b, background.b),
+    a: 1
+  };
+  const first = getRelativeLuminance(blended);
+  const second = getRelativeLuminance(background);
+
+  return (Math.max(first, second) + 0.05) / (Math.min(first, second) + 0.05);
+}
@@ -0,0 +1,89 @@
+//
+// Date utilities for components that work with calendar dates. All dates are local dates at midnight, so the time and
+// time zone never affect the day a date represents.
+//
+
+/** Parses an ISO 8601 date string (YYYY-MM-DD) as a local date. Returns `null` if the string isn't a valid date. */
+export function parseIsoDate(value: string | null | undefined) {
+  const match = /^(\d{4,})-(\d{2})-(\d{2})$/.exec(value ?? '');
+
+  if (!match) {
+    return null;
+  }
+
+  return createDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+/** Creates a local date. Returns `null` if the day doesn't exist in the given month, e.g. February 30th. */
+export function createDate(year: number, month: number, day: number) {
+  const date = new Date(year, month, day);
+
+  // Years 0–99 map to 1900–1999 in the Date constructor
+  date.setFullYear(year);
+
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+    return null;
+  }
+
+  return date;
+}
+
+/** Formats a date as an ISO 8601 date string (YYYY-MM-DD). */
+export function toIsoDate(date: Date) {
+  const year = String(date.getFullYear()).padStart(4, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+
+  return `${year}-${month}-${day}`;
+}
+
+/** Returns the current date without the time. */
+export function today() {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+/** Returns a new date that's the given number of days later (or earlier, if negative). */
+export function addDays(date: Date, days: number) {
+  const newDate = new Date(date);
+  newDate.setDate(newDate.getDate() + days);
+  return newDate;
+}
+
+/**
+ * Returns a new date that's the given number of months later (or earlier, if negative). If the day doesn't exist in the
+ * resulting month, the last day of that month is used instead.
+ */
+export function addMonths(date: Date, months: number) {
+  const newDate = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const daysInMonth = new Date(newDate.getFullYear(), newDate.getMonth() + 1, 0).getDate();
+
+  newDate.setDate(Math.min(date.getDate(), daysInMonth));
+  return newDate;
+}
+
+/** Returns the first day of the date's month. */
+export function startOfMonth(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/** Returns the first day of the date's week. The first day of the week is 0 for Sunday, 1 for Monday, etc. */
+export function startOfWeek(date: Date, firstDayOfWeek: number) {
+  return addDays(date, -((date.getDay() - firstDayOfWeek + 7) % 7));
+}
+
+/** Determines whether two dates fall on the same day. */
+export function isSameDay(a: Date | null, b: Date | null) {
+  return (
+    a !== null &&
+    b !== null &&
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+}
+
+/** Determines whether two dates fall in the same month. */
+export function isSameMonth(a: Date, b: Date) {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth();
+}
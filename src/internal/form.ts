@@ -1,5 +1,9 @@
+import { LocalizeController } from '../utilities/localize.js';
+import { resolveValidator } from './validators.js';
+import { unscopedTagName } from './scope.js';
 import type { ReactiveController, ReactiveControllerHost } from 'lit';
 import type { ShoelaceFormControl } from '../internal/shoelace-element.js';
+import type { Validator, ValidatorContext, ValidatorDefinition, ValidatorResult } from './validators.js';
 import type SlButton from '../components/button/button.js';
 
 //
@@ -26,6 +30,136 @@ const userInteractedControls: WeakSet<ShoelaceFormControl> = new WeakSet();
 //
 const interactions = new WeakMap<ShoelaceFormControl, string[]>();
 
+//
+// We store a Set of controls whose values differ from their default values and the last known dirty state of each form.
+// This lets us emit sl-dirty-change only when a form's dirty state actually changes.
+//
+const dirtyControls: WeakSet<ShoelaceFormControl> = new WeakSet();
+const formDirtyStates: WeakMap<HTMLFormElement, boolean> = new WeakMap();
+
+// We store the controller of each form control so form-level utilities can reach it
+const controllers: WeakMap<ShoelaceFormControl, FormControlController> = new WeakMap();
+
+//
+// Each form has a single input listener that's shared by its controls. A listener per control would update the form's
+// dirty state once per control on every keystroke, and updating it checks every control in the form.
+//
+const formInputListeners: WeakMap<HTMLFormElement, (event: Event) => void> = new WeakMap();
+
+// Normalizes a value so values of different types, e.g. `''` and `[]` or `5` and `'5'`, can be compared
+function toComparableValue(value: unknown) {
+  if (Array.isArray(value)) {
+    return (value as unknown[]).map(val => String(val));
+  }
+
+  return value === undefined || value === null || value === '' ? [] : [String(value)];
+}
+
+function isSameValue(a: unknown, b: unknown) {
+  const first = toComparableValue(a);
+  const second = toComparableValue(b);
+
+  return first.length === second.length && first.every((val, index) => val === second[index]);
+}
+
+// Determines if a native form control's value differs from its default value
+function isNativeControlDirty(el: Element) {
+  if (el instanceof HTMLInputElement) {
+    if (el.type === 'checkbox' || el.type === 'radio') {
+      return el.checked !== el.defaultChecked;
+    }
+
+    return !['button', 'file', 'image', 'reset', 'submit'].includes(el.type) && el.value !== el.defaultValue;
+  }
+
+  if (el instanceof HTMLTextAreaElement) {
+    return el.value !== el.defaultValue;
+  }
+
+  if (el instanceof HTMLSelectElement) {
+    const options = [...el.options];
+
+    if (el.multiple) {
+      return options.some(option => option.selected !== option.defaultSelected);
+    }
+
+    // Single selects fall back to their first option when none of them are selected by default
+    const defaultOption = options.reverse().find(option => option.defaultSelected) ?? el.options[0];
+    return el.selectedIndex !== (defaultOption?.index ?? -1);
+  }
+
+  return false;
+}
+
+// Sets the current value of a native form control as its default value
+function markNativeControlPristine(el: Element) {
+  if (el instanceof HTMLInputElement && (el.type === 'checkbox' || el.type === 'radio')) {
+    el.defaultChecked = el.checked;
+  } else if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+    el.defaultValue = el.value;
+  } else if (el instanceof HTMLSelectElement) {
+    [...el.options].forEach(option => (option.defaultSelected = option.selected));
+  }
+}
+
+/**
+ * Returns `true` if the value of any control in the form differs from its default value. Both Shoelace and native form
+ * controls are checked.
+ */
+export function isFormDirty(form: HTMLFormElement) {
+  const controls = [...(formCollections.get(form) ?? [])];
+  return controls.some(control => dirtyControls.has(control)) || [...form.elements].some(isNativeControlDirty);
+}
+
+/**
+ * Sets the current value of every control in the form as its default value, making the form pristine. This is useful
+ * after the form's data has been saved. Resetting the form will restore these values.
+ */
+export function markFormPristine(form: HTMLFormElement) {
+  formCollections.get(form)?.forEach(control => controllers.get(control)?.markPristine());
+  [...form.elements].forEach(markNativeControlPristine);
+  updateFormDirtyState(form);
+}
+
+// Updates the form's dirty state attributes and emits sl-dirty-change when the state changes
+function updateFormDirtyState(form: HTMLFormElement) {
+  const isDirty = isFormDirty(form);
+
+  form.toggleAttribute('data-dirty', isDirty);
+  form.toggleAttribute('data-pristine', !isDirty);
+
+  if (isDirty !== (formDirtyStates.get(form) ?? false)) {
+    formDirtyStates.set(form, isDirty);
+    form.dispatchEvent(
+      new CustomEvent('sl-dirty-change', { bubbles: true, composed: true, detail: { dirty: isDirty } })
+    );
+  }
+}
+
+function handleFormInput(form: HTMLFormElement, event: Event) {
+  const controls = formCollections.get(form) ?? new Set<ShoelaceFormControl>();
+  const target = event.target as ShoelaceFormControl;
+
+  // Shoelace form controls emit sl-input, so their native input events can be ignored
+  if (event.type === 'input' && controls.has(target)) {
+    return;
+  }
+
+  // Shoelace form controls update the form's dirty state when they update, but native ones need to do it here
+  if (event.type === 'input') {
+    updateFormDirtyState(form);
+  }
+
+  // Validators can depend on other fields in the form, so the ones that depend on this field run again
+  if (target.name) {
+    controls.forEach(control => {
+      if (control !== target) {
+        controllers.get(control)?.revalidate(target.name);
+      }
+    });
+  }
+}
+
 export interface FormControlControllerOptions {
   /** A function that returns the form containing the form control. */
   form: (input: ShoelaceFormControl) => HTMLFormElement | null;
@@ -44,6 +178,15 @@ export interface FormControlControllerOptions {
   reportValidity: (input: ShoelaceFormControl) => boolean;
   /** A function that sets the form control's value */
   setValue: (input: ShoelaceFormControl, value: unknown) => void;
+  /** A function that returns whether the form control's current value differs from its default value. */
+  dirty: (input: ShoelaceFormControl) => boolean;
+  /** A function that sets the form control's current value as its default value. */
+  markPristine: (input: ShoelaceFormControl) => void;
+  /**
+   * A function that sets the validation message of the form control's underlying native element. Controls that pass
+   * their `setCustomValidity()` method through to the controller must provide this.
+   */
+  setValidationMessage: (input: ShoelaceFormControl, message: string) => void;
   /**
    * An array of event names to listen to. When all events in the list are emitted, the control will receive validity
    * states such as user-valid and user-invalid.user interacted validity states. */
@@ -56,6 +199,18 @@ export class FormControlController implements ReactiveController {
   form?: HTMLFormElement | null;
   options: FormControlControllerOptions;
 
+  private customValidityMessage = '';
+  private validatorMessage = '';
+  private validators: Validator[] = [];
+  private validatorDefinitions: ValidatorDefinition[] = [];
+  private validatedValue: unknown;
+  // The last message of each validator, so validators that depend on other fields can run again on their own
+  private validatorMessages: Map<ValidatorDefinition, string> = new Map();
+  private validationAbortController: AbortController | null = null;
+  private dependentsAbortController: AbortController | null = null;
+  private pendingValidation: Promise<void> | null = null;
+  private localize: LocalizeController | null = null;
+
   constructor(host: ReactiveControllerHost & ShoelaceFormControl, options?: Partial<FormControlControllerOptions>) {
     (this.host = host).addController(this);
     this.options = {
@@ -78,6 +233,12 @@ export class FormControlController implements ReactiveController {
       disabled: input => input.disabled ?? false,
       reportValidity: input => (typeof input.reportValidity === 'function' ? input.reportValidity() : true),
       setValue: (input, value: string) => (input.value = value),
+      dirty: input => !isSameValue(this.options.value(input), this.options.defaultValue(input)),
+      markPristine: input => {
+        const value = this.options.value(input);
+        input.defaultValue = Array.isArray(value) ? [...(value as unknown[])] : value;
+      },
+      setValidationMessage: (input, message) => input.setCustomValidity(message),
       assumeInteractionOn: ['sl-input'],
       ...options
     };
@@ -86,6 +247,7 @@ export class FormControlController implements ReactiveController {
     this.handleFormReset = this.handleFormReset.bind(this);
     this.reportFormValidity = this.reportFormValidity.bind(this);
     this.handleInteraction = this.handleInteraction.bind(this);
+    controllers.set(host, this);
   }
 
   hostConnected() {
@@ -104,6 +266,7 @@ export class FormControlController implements ReactiveController {
 
   hostDisconnected() {
     this.detachForm();
+    this.cancelValidation();
 
     // Clean up interactions
     interactions.delete(this.host);
@@ -127,8 +290,11 @@ export class FormControlController implements ReactiveController {
     }
 
     if (this.host.hasUpdated) {
+      this.runValidators();
       this.setValidity(this.host.validity.valid);
     }
+
+    this.updateDirtyState();
   }
 
   private attachForm(form?: HTMLFormElement) {
@@ -139,7 +305,12 @@ export class FormControlController implements ReactiveController {
       if (formCollections.has(this.form)) {
         formCollections.get(this.form)!.add(this.host);
       } else {
+        const listener = (event: Event) => handleFormInput(form, event);
+
         formCollections.set(this.form, new Set<ShoelaceFormControl>([this.host]));
+        formInputListeners.set(this.form, listener);
+        this.form.addEventListener('input', listener);
+        this.form.addEventListener('sl-input', listener);
       }
 
       this.form.addEventListener('formdata', this.handleFormData);
@@ -151,6 +322,8 @@ export class FormControlController implements ReactiveController {
         reportValidityOverloads.set(this.form, this.form.reportValidity);
         this.form.reportValidity = () => this.reportFormValidity();
       }
+
+      updateFormDirtyState(this.form);
     } else {
       this.form = undefined;
     }
@@ -158,8 +331,18 @@ export class FormControlController implements ReactiveController {
 
   private detachForm() {
     if (this.form) {
-      // Remove this element from the form's collection
-      formCollections.get(this.form)?.delete(this.host);
+      const collection = formCollections.get(this.form);
+      const listener = formInputListeners.get(this.form);
+
+      // Remove this element from the form's collection, and the collection when it was the last element in it
+      collection?.delete(this.host);
+
+      if (collection?.size === 0 && listener) {
+        formCollections.delete(this.form);
+        formInputListeners.delete(this.form);
+        this.form.removeEventListener('input', listener);
+        this.form.removeEventListener('sl-input', listener);
+      }
 
       this.form.removeEventListener('formdata', this.handleFormData);
       this.form.removeEventListener('submit', this.handleFormSubmit);
@@ -170,6 +353,8 @@ export class FormControlController implements ReactiveController {
         this.form.reportValidity = reportValidityOverloads.get(this.form)!;
         reportValidityOverloads.delete(this.form);
       }
+
+      updateFormDirtyState(this.form);
     }
 
     this.form = undefined;
@@ -182,15 +367,19 @@ export class FormControlController implements ReactiveController {
 
     // For buttons, we only submit the value if they were the submitter. This is currently done in doAction() by
     // injecting the name/value on a temporary button, so we can just skip them here.
-    const isButton = this.host.tagName.toLowerCase() === 'sl-button';
+    const isButton = unscopedTagName(this.host) === 'sl-button';
 
     if (!disabled && !isButton && typeof name === 'string' && name.length > 0 && typeof value !== 'undefined') {
+      // Files are appended as they are so they can be uploaded
+      const append = (val: unknown) =>
+        val instanceof File
+          ? event.formData.append(name, val)
+          : event.formData.append(name, (val as string | number | boolean).toString());
+
       if (Array.isArray(value)) {
-        (value as unknown[]).forEach(val => {
-          event.formData.append(name, (val as string | number | boolean).toString());
-        });
+        (value as unknown[]).forEach(append);
       } else {
-        event.formData.append(name, (value as string | number | boolean).toString());
+        append(value);
       }
     }
   }
@@ -199,6 +388,17 @@ export class FormControlController implements ReactiveController {
     const disabled = this.options.disabled(this.host);
     const reportValidity = this.options.reportValidity;
 
+    // Wait for async validators to finish, then submit again so the results are taken into account
+    if (this.pendingValidation && this.form && !this.form.noValidate && !disabled) {
+      const form = this.form;
+      const submitter = (event as SubmitEvent).submitter;
+
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      this.whenValidated().then(() => form.requestSubmit(submitter?.isConnected ? submitter : undefined));
+      return;
+    }
+
     // Update the interacted state for all controls when the form is submitted
     if (this.form && !this.form.noValidate) {
       formCollections.get(this.form)?.forEach(control => {
@@ -213,9 +413,14 @@ export class FormControlController implements ReactiveController {
   }
 
   private handleFormReset() {
+    const form = this.form!;
+
     this.options.setValue(this.host, this.options.defaultValue(this.host));
     this.setUserInteracted(this.host, false);
     interactions.set(this.host, []);
+
+    // Native controls are reset after the reset event, so wait for them before updating the form's dirty state
+    setTimeout(() => updateFormDirtyState(form));
   }
 
   private handleInteraction(event: Event) {
@@ -261,6 +466,183 @@ export class FormControlController implements ReactiveController {
     return true;
   }
 
+  // Runs the host's validators when its value or validators have changed, or always when `force` is true
+  private runValidators(force = false) {
+    const host = this.host;
+    const validators = host.validators;
+    const value = this.options.value(host);
+    const valueChanged = value !== this.validatedValue;
+
+    // Only controls with a validators property support them
+    if (!validators || (!force && !valueChanged && validators === this.validators)) {
+      return;
+    }
+
+    if (validators !== this.validators) {
+      this.validators = validators;
+      this.validatorMessages.clear();
+      this.validatorDefinitions = validators
+        .map(validator => resolveValidator(validator))
+        .filter((definition): definition is ValidatorDefinition => definition !== null);
+    }
+
+    this.validatedValue = value;
+    this.cancelValidation();
+
+    if (this.validatorDefinitions.length === 0) {
+      if (this.validatorMessage !== '') {
+        this.setValidatorMessage('');
+      }
+      return;
+    }
+
+    // Don't keep a message that was meant for a previous value while new results are pending
+    if (valueChanged) {
+      this.validatorMessages.clear();
+      this.setValidatorMessage('');
+    }
+
+    const abortController = new AbortController();
+    const signal = abortController.signal;
+    const immediate = this.validatorDefinitions.filter(definition => !definition.debounce);
+    const debounced = this.validatorDefinitions.filter(definition => definition.debounce);
+    const result = this.evaluateValidators(immediate, value, signal);
+
+    if (typeof result === 'string' && (result !== '' || debounced.length === 0)) {
+      this.setValidatorMessage(this.getValidatorMessage());
+      return;
+    }
+
+    // Some validators are async or debounced, so the control is pending until they finish
+    this.validationAbortController = abortController;
+    this.host.toggleAttribute('data-pending', true);
+    this.pendingValidation = (async () => {
+      const message = await result;
+
+      if (message === '' && debounced.length > 0 && !signal.aborted) {
+        const delay = Math.max(...debounced.map(definition => definition.debounce!));
+
+        await new Promise<void>(resolve => {
+          const timeout = setTimeout(resolve, delay);
+          signal.addEventListener('abort', () => {
+            clearTimeout(timeout);
+            resolve();
+          });
+        });
+
+        if (!signal.aborted) {
+          await this.evaluateValidators(debounced, value, signal);
+        }
+      }
+
+      if (!signal.aborted) {
+        this.validationAbortController = null;
+        this.pendingValidation = null;
+        this.host.toggleAttribute('data-pending', false);
+        this.setValidatorMessage(this.getValidatorMessage());
+      }
+    })();
+  }
+
+  // Calls each validator and returns the first message, or a promise for it if any of the validators are async
+  private evaluateValidators(definitions: ValidatorDefinition[], value: unknown, signal: AbortSignal) {
+    this.localize ??= new LocalizeController(this.host);
+
+    const context: ValidatorContext = { control: this.host, form: this.form ?? null, signal, localize: this.localize };
+    const toMessage = (results: ValidatorResult[]) =>
+      (results.find(result => typeof result === 'string' && result !== '') as string | undefined) ?? '';
+    const results = definitions.map(definition => {
+      try {
+        return definition.validate(value, context);
+      } catch (error) {
+        console.error(error);
+        return undefined;
+      }
+    });
+    const recordMessages = (settled: (ValidatorResult | Promise<ValidatorResult>)[]) => {
+      if (!signal.aborted) {
+        settled.forEach((result, index) => {
+          if (!(result instanceof Promise)) {
+            this.validatorMessages.set(definitions[index], typeof result === 'string' ? result : '');
+          }
+        });
+      }
+    };
+    const message = toMessage(results.filter(result => !(result instanceof Promise)) as ValidatorResult[]);
+
+    recordMessages(results);
+
+    // A synchronous failure doesn't need to wait for the async validators
+    if (message !== '' || !results.some(result => result instanceof Promise)) {
+      return message;
+    }
+
+    return Promise.all(
+      results.map(result =>
+        Promise.resolve(result).catch((error: unknown) => {
+          // Validators that reject are treated as valid so a failed request doesn't block the form
+          if (!signal.aborted) {
+            console.error(error);
+          }
+          return undefined;
+        })
+      )
+    ).then(settled => {
+      recordMessages(settled);
+      return toMessage(settled);
+    });
+  }
+
+  // Returns the message of the first validator that failed, in the order the validators were given
+  private getValidatorMessage() {
+    const messages = this.validatorDefinitions.map(definition => this.validatorMessages.get(definition) ?? '');
+    return messages.find(message => message !== '') ?? '';
+  }
+
+  private cancelValidation() {
+    this.dependentsAbortController?.abort();
+    this.dependentsAbortController = null;
+
+    if (this.validationAbortController) {
+      this.validationAbortController.abort();
+      this.validationAbortController = null;
+      this.pendingValidation = null;
+      this.host.toggleAttribute('data-pending', false);
+    }
+  }
+
+  private setValidatorMessage(message: string) {
+    this.validatorMessage = message;
+    this.options.setValidationMessage(this.host, this.customValidityMessage || this.validatorMessage);
+    this.setValidity(this.host.validity.valid);
+  }
+
+  // Updates the host's dirty state attributes and the dirty state of its form
+  private updateDirtyState() {
+    const host = this.host;
+
+    // Buttons don't have a value that users can change
+    if (unscopedTagName(host) === 'sl-button') {
+      return;
+    }
+
+    const isDirty = this.options.dirty(host);
+    const wasDirty = dirtyControls.has(host);
+
+    host.toggleAttribute('data-dirty', isDirty);
+    host.toggleAttribute('data-pristine', !isDirty);
+
+    if (isDirty) {
+      dirtyControls.add(host);
+    } else {
+      dirtyControls.delete(host);
+    }
+
+    if (isDirty !== wasDirty && this.form) {
+      updateFormDirtyState(this.form);
+    }
+  }
+
   private setUserInteracted(el: ShoelaceFormControl, hasInteracted: boolean) {
     if (hasInteracted) {
       userInteractedControls.add(el);
@@ -317,6 +699,67 @@ export class FormControlController implements ReactiveController {
     this.doAction('submit', submitter);
   }
 
+  /** Sets the host's current value as its default value, so it's no longer dirty and resetting the form restores it. */
+  markPristine() {
+    this.options.markPristine(this.host);
+    this.updateDirtyState();
+  }
+
+  /**
+   * Runs the host's validators again, even if its value hasn't changed. When a field name is given, only the validators
+   * that depend on that field run again.
+   */
+  revalidate(field?: string) {
+    if (field === undefined) {
+      if (this.validators.length > 0) {
+        this.runValidators(true);
+      }
+      return;
+    }
+
+    const dependents = this.validatorDefinitions.filter(definition => definition.dependsOn?.includes(field));
+
+    if (dependents.length === 0) {
+      return;
+    }
+
+    this.dependentsAbortController?.abort();
+
+    const abortController = new AbortController();
+    const result = this.evaluateValidators(dependents, this.options.value(this.host), abortController.signal);
+
+    if (typeof result === 'string') {
+      this.dependentsAbortController = null;
+      this.setValidatorMessage(this.getValidatorMessage());
+      return;
+    }
+
+    this.dependentsAbortController = abortController;
+    void result.then(() => {
+      if (!abortController.signal.aborted) {
+        this.dependentsAbortController = null;
+        this.setValidatorMessage(this.getValidatorMessage());
+      }
+    });
+  }
+
+  /**
+   * Sets a custom validation message. It takes precedence over messages from the host's validators. Pass an empty
+   * string to restore validity.
+   */
+  setCustomValidity(message: string) {
+    this.customValidityMessage = message;
+    this.options.setValidationMessage(this.host, this.customValidityMessage || this.validatorMessage);
+    this.setValidity(this.host.validity.valid);
+  }
+
+  /** Returns a promise that resolves after the host's async validators have finished. */
+  async whenValidated() {
+    while (this.pendingValidation) {
+      await this.pendingValidation;
+    }
+  }
+
   /**
    * Synchronously sets the form control's validity. Call this when you know the future validity but need to update
    * the host element immediately, i.e. before Lit updates the component in the next update.
@@ -342,10 +785,12 @@ export class FormControlController implements ReactiveController {
 
   /**
    * Updates the form control's validity based on the current value of `host.validity.valid`. Call this when anything
-   * that affects constraint validation changes so the component receives the correct validity states.
+   * that affects constraint validation changes so the component receives the correct validity states. The host's
+   * validators will run first if its value has changed.
    */
   updateValidity() {
     const host = this.host;
+    this.runValidators();
     this.setValidity(host.validity.valid);
   }
 
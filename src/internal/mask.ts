@@ -0,0 +1,211 @@
+/**
+ * A function that returns a mask pattern. It receives the letters and digits the user has entered so far, which makes it
+ * possible to change the mask as the user types, e.g. to switch between card number formats.
+ */
+export type MaskFunction = (value: string) => string;
+
+/** A mask is a pattern, the name of a registered mask, or a function that returns a pattern. */
+export type Mask = string | MaskFunction;
+
+export interface MaskResult {
+  /** The masked value. */
+  value: string;
+  /** The value without literal characters. */
+  raw: string;
+  /** The position of the caret in the masked value. */
+  caret: number;
+  /** The number of raw characters before the caret. */
+  rawCaret: number;
+  /** Whether all of the mask's required characters have been entered. */
+  complete: boolean;
+}
+
+interface MaskToken {
+  /** The character to insert for literals, or a test for the characters that can be entered in a slot. */
+  literal?: string;
+  test?: RegExp;
+  source?: string;
+  uppercase?: boolean;
+  /** The optional section that the token belongs to, or -1 if it's required. */
+  section: number;
+}
+
+//
+// Mask patterns use the following characters. Everything else is a literal character that's inserted automatically.
+// Use a backslash to insert one of these characters as a literal and square brackets to mark a section as optional.
+//
+const slots: Record<string, { source: string; uppercase?: boolean }> = {
+  '9': { source: '\\d' },
+  a: { source: '\\p{L}' },
+  A: { source: '\\p{L}', uppercase: true },
+  '*': { source: '[\\p{L}\\d]' },
+  X: { source: '[\\p{L}\\d]', uppercase: true }
+};
+
+const masks = new Map<string, Mask>();
+const tokenCache = new Map<string, MaskToken[]>();
+
+/**
+ * Registers a mask so it can be used by name, e.g. `mask="phone"`. The mask can be a pattern or a function that returns
+ * a pattern based on what the user has entered.
+ */
+export function registerMask(name: string, mask: Mask) {
+  masks.set(name, mask);
+}
+
+function parseMask(pattern: string) {
+  let tokens = tokenCache.get(pattern);
+
+  if (!tokens) {
+    tokens = [];
+    let section = -1;
+    let sectionCount = 0;
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      if (char === '\\' && i + 1 < pattern.length) {
+        tokens.push({ literal: pattern[++i], section });
+      } else if (char === '[') {
+        section = sectionCount++;
+      } else if (char === ']') {
+        section = -1;
+      } else if (char in slots) {
+        const { source, uppercase } = slots[char];
+        tokens.push({ test: new RegExp(`^${source}$`, 'u'), source, uppercase, section });
+      } else {
+        tokens.push({ literal: char, section });
+      }
+    }
+
+    tokenCache.set(pattern, tokens);
+  }
+
+  return tokens;
+}
+
+// Returns the mask's pattern for a value, looking up registered masks and calling mask functions
+function resolvePattern(mask: Mask, text: string) {
+  const resolved = typeof mask === 'string' ? masks.get(mask) ?? mask : mask;
+  return typeof resolved === 'function' ? resolved(text.replace(/[^\p{L}\d]/gu, '')) : resolved;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[\\^$.*+?()[\]{}|/]/g, '\\$&');
+}
+
+/**
+ * Formats text with a mask. Characters that don't fit the mask are dropped and literal characters are inserted as
+ * needed. The caret is moved along with the characters that were entered before it.
+ *
+ * @param mask - The mask to apply.
+ * @param text - The text to format. It can be raw or already masked.
+ * @param caret - The position of the caret in the text.
+ * @param skipLiterals - Moves the caret past literal characters that follow it, which is what users expect while typing.
+ */
+export function applyMask(mask: Mask, text: string, caret = text.length, skipLiterals = true): MaskResult {
+  const tokens = parseMask(resolvePattern(mask, text));
+  let value = '';
+  let raw = '';
+  let rawCaret = 0;
+  let index = 0;
+  let lastSlotEnd = 0;
+  let complete = true;
+
+  for (const token of tokens) {
+    if (index >= text.length) {
+      complete = complete && (token.section !== -1 || token.literal !== undefined);
+      continue;
+    }
+
+    if (token.literal !== undefined) {
+      if (text[index] === token.literal) {
+        index++;
+      }
+
+      value += token.literal;
+      continue;
+    }
+
+    // Skip characters that don't fit the slot
+    while (index < text.length && !token.test!.test(text[index])) {
+      index++;
+    }
+
+    if (index < text.length) {
+      const char = token.uppercase ? text[index].toUpperCase() : text[index];
+
+      if (index < caret) {
+        rawCaret++;
+      }
+
+      value += char;
+      raw += char;
+      lastSlotEnd = value.length;
+      index++;
+    } else {
+      complete = complete && token.section !== -1;
+    }
+  }
+
+  // Don't end with literal characters that aren't followed by anything the user entered
+  value = value.slice(0, lastSlotEnd);
+
+  // Place the caret after the same number of raw characters that were before it
+  let newCaret = 0;
+  let count = 0;
+
+  while (newCaret < value.length && count < rawCaret) {
+    if (tokens[newCaret]?.literal === undefined) {
+      count++;
+    }
+    newCaret++;
+  }
+
+  if (skipLiterals || rawCaret === 0) {
+    while (newCaret < value.length && tokens[newCaret]?.literal !== undefined) {
+      newCaret++;
+    }
+  }
+
+  return { value, raw, caret: newCaret, rawCaret, complete };
+}
+
+/**
+ * Returns a regular expression, suitable for the `pattern` attribute, that matches values that satisfy the mask.
+ * Optional sections can be partially filled.
+ */
+export function getMaskPattern(mask: Mask, text = '') {
+  const tokens = parseMask(resolvePattern(mask, text));
+  let pattern = '';
+  let closing = '';
+  let section = -1;
+
+  tokens.forEach(token => {
+    const source = token.literal !== undefined ? escapeRegExp(token.literal) : token.source!;
+
+    if (token.section !== section) {
+      pattern += closing;
+      closing = '';
+      section = token.section;
+    }
+
+    if (token.section === -1) {
+      pattern += source;
+    } else {
+      pattern += `(?:${source}`;
+      closing += ')?';
+    }
+  });
+
+  return pattern + closing;
+}
+
+//
+// Preset masks
+//
+registerMask('card', value => (/^3[47]/.test(value) ? '9999 999999 99999' : '9999 9999 9999 9999[ 999]'));
+registerMask('date', '99/99/9999');
+registerMask('iban', 'AA99 XXXX XXXX XXX[X XXXX XXXX XXXX XXXX XX]');
+registerMask('phone', '(999) 999-9999');
+registerMask('time', '99:99');
@@ -1,10 +1,93 @@
 import { getTabbableBoundary } from './tabbable.js';
 
-let activeModals: HTMLElement[] = [];
+//
+// Open modals are kept in a stack. The modal on top of the stack is the only one the user can interact with, so
+// everything outside of it is made inert. When a modal is removed from the stack, the one below it becomes interactive
+// again. This lets modals open other modals, e.g. a dialog that's shown from inside a drawer.
+//
+const modalStack: Modal[] = [];
+
+// Elements that were made inert by the stack, so we don't touch ones that were inert to begin with
+const inertElements = new Set<Element>();
+
+/** Returns the element that currently has focus, looking inside of shadow roots. */
+function getDeepActiveElement() {
+  let activeElement = document.activeElement;
+
+  while (activeElement?.shadowRoot?.activeElement) {
+    activeElement = activeElement.shadowRoot.activeElement;
+  }
+
+  return activeElement instanceof HTMLElement ? activeElement : null;
+}
+
+/** Returns an element's parent in the flat tree, i.e. the slot it's assigned to or the host of its shadow root. */
+function getFlatParent(el: Element): Element | null {
+  if (el.assignedSlot) {
+    return el.assignedSlot;
+  }
+
+  if (el.parentElement) {
+    return el.parentElement;
+  }
+
+  const root = el.parentNode;
+  return root instanceof ShadowRoot ? root.host : null;
+}
+
+/** Returns an element's children in the flat tree. */
+function getFlatChildren(el: Element) {
+  if (el instanceof HTMLSlotElement) {
+    return el.assignedElements({ flatten: true });
+  }
+
+  return [...(el.shadowRoot ?? el).children];
+}
+
+/** Makes everything outside of the top modal inert. */
+function updateInertElements() {
+  inertElements.forEach(el => el.removeAttribute('inert'));
+  inertElements.clear();
+
+  const top = modalStack[modalStack.length - 1];
+  if (!top) {
+    return;
+  }
+
+  // Walk up the flat tree from the modal and make the siblings of every ancestor inert
+  let el: Element = top.element;
+  let parent = getFlatParent(el);
+
+  while (parent && el !== document.body) {
+    for (const sibling of getFlatChildren(parent)) {
+      // Toasts remain interactive so notifications can be dismissed while a modal is open
+      if (sibling === el || sibling.hasAttribute('inert') || sibling.classList.contains('sl-toast-stack')) {
+        continue;
+      }
+
+      sibling.setAttribute('inert', '');
+      inertElements.add(sibling);
+    }
+
+    el = parent;
+    parent = getFlatParent(el);
+  }
+}
+
+/** Returns the elements of all active modals, ordered from the bottom of the stack to the top. */
+export function getModalStack() {
+  return modalStack.map(modal => modal.element);
+}
+
+/** Returns the element of the modal on top of the stack, or `null` if there are no active modals. */
+export function getTopModal() {
+  return modalStack[modalStack.length - 1]?.element ?? null;
+}
 
 export default class Modal {
   element: HTMLElement;
   tabDirection: 'forward' | 'backward' = 'forward';
+  trigger: HTMLElement | null = null;
 
   constructor(element: HTMLElement) {
     this.element = element;
@@ -13,23 +96,59 @@ export default class Modal {
     this.handleKeyUp = this.handleKeyUp.bind(this);
   }
 
+  /** Adds the modal to the top of the stack and remembers the element that had focus so it can be restored later. */
   activate() {
-    activeModals.push(this.element);
+    if (modalStack.includes(this)) {
+      return;
+    }
+
+    this.captureTrigger();
+    modalStack.push(this);
+    updateInertElements();
     document.addEventListener('focusin', this.handleFocusIn);
     document.addEventListener('keydown', this.handleKeyDown);
     document.addEventListener('keyup', this.handleKeyUp);
   }
 
+  /** Removes the modal from the stack, making the modal below it interactive again. */
   deactivate() {
-    activeModals = activeModals.filter(modal => modal !== this.element);
+    const index = modalStack.indexOf(this);
+
+    if (index > -1) {
+      modalStack.splice(index, 1);
+      updateInertElements();
+    }
+
     document.removeEventListener('focusin', this.handleFocusIn);
     document.removeEventListener('keydown', this.handleKeyDown);
     document.removeEventListener('keyup', this.handleKeyUp);
   }
 
   isActive() {
-    // The "active" modal is always the most recent one shown
-    return activeModals[activeModals.length - 1] === this.element;
+    // The "active" modal is always the one on top of the stack
+    return modalStack[modalStack.length - 1] === this;
+  }
+
+  /**
+   * Remembers the element that currently has focus so `restoreFocus()` can return focus to it. If focus is already
+   * inside the modal, the previous trigger is kept.
+   */
+  captureTrigger() {
+    const activeElement = getDeepActiveElement();
+
+    if (!activeElement || !this.element.contains(activeElement)) {
+      this.trigger = activeElement;
+    }
+  }
+
+  /** Returns focus to the element that had it when the modal was activated. */
+  restoreFocus() {
+    const trigger = this.trigger;
+    this.trigger = null;
+
+    if (trigger && trigger !== document.body && trigger.isConnected) {
+      setTimeout(() => trigger.focus());
+    }
   }
 
   checkFocus() {
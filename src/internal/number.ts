@@ -0,0 +1,83 @@
+import type { LocalizeController } from '../utilities/localize.js';
+
+interface NumberSymbols {
+  group: string;
+  decimal: string;
+  digits: Map<string, string>;
+}
+
+// The symbols each locale uses to format numbers, e.g. `.` and `,` for grouping and decimals in German
+const symbolsCache = new Map<string, NumberSymbols>();
+
+function getNumberSymbols(locale: string) {
+  let symbols = symbolsCache.get(locale);
+
+  if (!symbols) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+    const localizedDigits = new Intl.NumberFormat(locale, { useGrouping: false }).format(1234567890);
+
+    symbols = {
+      group: parts.find(part => part.type === 'group')?.value ?? ',',
+      decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+      // Maps the locale's digits to Latin ones, e.g. for Persian
+      digits: new Map([...localizedDigits].map((digit, index) => [digit, String((index + 1) % 10)]))
+    };
+
+    symbolsCache.set(locale, symbols);
+  }
+
+  return symbols;
+}
+
+/**
+ * Parses a number that was formatted for a locale, e.g. `1.234,5` in German or `1 234,5` in French. Grouping
+ * separators, spaces, currency symbols, and percent signs are ignored. Returns `NaN` when the text isn't a number.
+ */
+export function parseLocalizedNumber(text: string, locale: string) {
+  const { group, decimal, digits } = getNumberSymbols(locale);
+  let normalized = '';
+
+  for (const char of text.trim()) {
+    if (digits.has(char)) {
+      normalized += digits.get(char)!;
+    } else if (/\d/.test(char)) {
+      normalized += char;
+    } else if (char === decimal) {
+      normalized += '.';
+    } else if (char === '-' || char === '−') {
+      normalized += '-';
+    } else if (char !== group && !/[\s\p{Sc}%‰]/u.test(char)) {
+      return NaN;
+    }
+  }
+
+  return /^-?(\d+\.?\d*|\.\d+)$/.test(normalized) ? Number(normalized) : NaN;
+}
+
+/** Removes floating point errors from a number, e.g. `0.1 + 0.2` becomes `0.3`. */
+export function roundNumber(value: number) {
+  return Number(value.toPrecision(15));
+}
+
+/**
+ * Formats a number of bytes or bits as a human readable value, e.g. `1.2 MB`. This is what `<sl-format-bytes>` renders,
+ * so components can use it in text that can't contain elements, such as validation messages.
+ */
+export function formatBytes(
+  localize: LocalizeController,
+  value: number,
+  options: { unit?: 'byte' | 'bit'; display?: 'long' | 'short' | 'narrow' } = {}
+) {
+  const { unit = 'byte', display = 'short' } = options;
+  const bitPrefixes = ['', 'kilo', 'mega', 'giga', 'tera']; // petabit isn't a supported unit
+  const bytePrefixes = ['', 'kilo', 'mega', 'giga', 'tera', 'peta'];
+  const prefix = unit === 'bit' ? bitPrefixes : bytePrefixes;
+  const index = Math.max(0, Math.min(Math.floor(Math.log10(value) / 3), prefix.length - 1));
+  const valueToFormat = parseFloat((value / Math.pow(1000, index)).toPrecision(3));
+
+  return localize.number(valueToFormat, {
+    style: 'unit',
+    unit: prefix[index] + unit,
+    unitDisplay: display
+  });
+}
@@ -0,0 +1,233 @@
+import { CSSResult, unsafeCSS } from 'lit';
+import { isDirectiveResult, isTemplateResult } from 'lit/directive-helpers.js';
+import type { CSSResultGroup, TemplateResult } from 'lit';
+import type { DirectiveResult } from 'lit/directive.js';
+import type ShoelaceElement from './shoelace-element.js';
+
+/**
+ * A set of elements that were registered together. Elements render, style, and look for other elements using the tag
+ * names of their own scope, so elements that were registered with a custom prefix or into a scoped registry never mix
+ * with the ones that were registered as `sl-*`, e.g. by another version of Shoelace on the same page.
+ */
+export interface ElementScope {
+  /** The prefix that the scope's tag names start with instead of `sl-`. */
+  prefix: string;
+  /** The registry that the scope's elements are defined in. When it's undefined, the global registry is used. */
+  registry?: CustomElementRegistry;
+}
+
+export interface RegisterComponentsOptions {
+  /** The prefix to use instead of `sl-`, e.g. `acme-`. It must start with a letter and end with a dash. */
+  prefix?: string;
+  /** A scoped custom element registry to define the components in instead of the global one. */
+  registry?: CustomElementRegistry;
+}
+
+type ElementClass = typeof ShoelaceElement;
+
+/** The scope of the elements that define themselves as `sl-*` when they're imported. */
+export const defaultScope: ElementScope = { prefix: 'sl-' };
+
+const scopes: ElementScope[] = [defaultScope];
+const definedElements = new Map<ElementScope, Set<ElementClass>>();
+const defaultTagNames = new Map<ElementClass, string>();
+const scopedStrings = new WeakMap<TemplateStringsArray, Map<string, TemplateStringsArray>>();
+
+// Matches the `sl-*` type selectors in a stylesheet, but not custom properties or class names that start with `sl-`
+const tagSelectors = /(^|[^-\w.#])sl-([a-z][a-z-]*)(?![-\w])/g;
+
+/** Returns the scope that an element was registered in. Other elements are in the default scope. */
+export function getScope(el: Element): ElementScope {
+  return (el.constructor as Partial<ElementClass>).scope ?? defaultScope;
+}
+
+/** Returns the registry that an element and the other elements in its scope are defined in. */
+export function getScopedRegistry(el: Element) {
+  return getScope(el).registry ?? customElements;
+}
+
+/** Converts an `sl-*` tag name into the one that's used in the host's scope, e.g. `sl-icon` to `acme-icon`. */
+export function scopedTagName(host: Element, tagName: string) {
+  const { prefix } = getScope(host);
+  return prefix === defaultScope.prefix ? tagName : tagName.replace(/^sl-/, prefix);
+}
+
+// Rewrites the `sl-*` tags in a template's strings. The result is cached so Lit can reuse the template it prepares.
+function scopeStrings(strings: TemplateStringsArray, prefix: string) {
+  const cache = scopedStrings.get(strings) ?? new Map<string, TemplateStringsArray>();
+  let result = cache.get(prefix);
+
+  if (!result) {
+    const rewritten = strings.map(s => s.replace(/<(\/?)sl-([a-z][a-z0-9-]*)/g, `<$1${prefix}$2`));
+
+    // Lit only accepts strings that look like they came from a template literal
+    result = Object.assign(rewritten, { raw: rewritten }) as unknown as TemplateStringsArray;
+    cache.set(prefix, result);
+    scopedStrings.set(strings, cache);
+  }
+
+  return result;
+}
+
+function scopeValue(value: unknown, prefix: string): unknown {
+  if (isTemplateResult(value)) {
+    return scopeTemplate(value, prefix);
+  }
+
+  if (isDirectiveResult(value)) {
+    const directiveResult = value as DirectiveResult & { values: unknown[] };
+
+    // Function arguments, such as the template callback of `repeat()`, return templates as well
+    const values = directiveResult.values.map(arg =>
+      typeof arg === 'function'
+        ? (...args: unknown[]) => scopeValue((arg as (...a: unknown[]) => unknown)(...args), prefix)
+        : scopeValue(arg, prefix)
+    );
+    return { ...directiveResult, values };
+  }
+
+  if (Array.isArray(value)) {
+    const items = value as unknown[];
+    const values = items.map(item => scopeValue(item, prefix));
+
+    // Keep the same array when nothing changed so property bindings don't see a new value on every render
+    return values.every((item, index) => item === items[index]) ? items : values;
+  }
+
+  // Iterators, such as the ones returned by `map()` and `range()`, can only be consumed once
+  if (typeof (value as Iterator<unknown> | null)?.next === 'function' && Symbol.iterator in (value as object)) {
+    return Array.from(value as Iterable<unknown>, item => scopeValue(item, prefix));
+  }
+
+  return value;
+}
+
+// Rewrites the `sl-*` tags in a template, and the templates nested in it, to use the specified prefix
+function scopeTemplate(template: unknown, prefix: string): unknown {
+  if (!isTemplateResult(template)) {
+    return scopeValue(template, prefix);
+  }
+
+  const { strings, values } = template as TemplateResult;
+
+  return {
+    ...template,
+    strings: scopeStrings(strings, prefix),
+    values: values.map(value => scopeValue(value, prefix))
+  };
+}
+
+/** Converts an element's tag name into the one that it has in the default scope, e.g. `acme-icon` to `sl-icon`. */
+export function unscopedTagName(el: Element) {
+  const { prefix } = getScope(el);
+  const tagName = el.tagName.toLowerCase();
+  return prefix !== defaultScope.prefix && tagName.startsWith(prefix) ? `sl-${tagName.slice(prefix.length)}` : tagName;
+}
+
+function scopeStyles(styles: CSSResultGroup, prefix: string): CSSResultGroup {
+  if (Array.isArray(styles)) {
+    return styles.map(style => scopeStyles(style, prefix));
+  }
+
+  if (styles instanceof CSSResult) {
+    return unsafeCSS(styles.cssText.replace(tagSelectors, `$1${prefix}$2`));
+  }
+
+  return styles;
+}
+
+// Creates a subclass that belongs to the scope, since a constructor can only be defined once per registry
+function createScopedElement(elementClass: ElementClass, scope: ElementScope) {
+  const scopedElement = class extends elementClass {
+    static scope = scope;
+
+    // Elements render the tags of their own scope, e.g. `<acme-icon>` instead of `<sl-icon>`
+    protected render() {
+      const template = super.render();
+      return scope.prefix === defaultScope.prefix ? template : scopeTemplate(template, scope.prefix);
+    }
+  };
+
+  if (scope.prefix !== defaultScope.prefix && elementClass.styles) {
+    scopedElement.styles = scopeStyles(elementClass.styles, scope.prefix);
+  }
+
+  if (scope.registry) {
+    const shadowRootOptions: ShadowRootInit & { registry: CustomElementRegistry } = {
+      ...elementClass.shadowRootOptions,
+      registry: scope.registry
+    };
+    scopedElement.shadowRootOptions = shadowRootOptions;
+  }
+
+  return scopedElement;
+}
+
+/** Defines an element in a scope, along with the elements that it renders. */
+function defineElement(tagName: string, elementClass: ElementClass, scope: ElementScope) {
+  const defined = definedElements.get(scope) ?? new Set();
+  const registry = scope.registry ?? customElements;
+  const name = tagName.replace(/^sl-/, scope.prefix);
+
+  if (defined.has(elementClass)) {
+    return;
+  }
+
+  definedElements.set(scope, defined.add(elementClass));
+
+  if (registry.get(name)) {
+    console.warn(
+      `Unable to define <${name}> because another element is already using that tag name, possibly from another ` +
+        'version of Shoelace. To use more than one version on the same page, register the components with a custom ' +
+        'prefix or into a scoped registry.'
+    );
+  } else {
+    registry.define(name, scope === defaultScope ? elementClass : createScopedElement(elementClass, scope));
+  }
+
+  Object.entries(elementClass.dependencies).forEach(([dependencyTagName, dependency]) => {
+    defineElement(dependencyTagName, dependency, scope);
+  });
+}
+
+/**
+ * Defines a component as `sl-*` when its module is imported. It replaces Lit's decorator of the same name, which throws
+ * when the tag name has already been defined, e.g. by another version of Shoelace on the same page.
+ */
+export function customElement(tagName: string) {
+  return (elementClass: ElementClass) => {
+    defaultTagNames.set(elementClass, tagName);
+    defineElement(tagName, elementClass, defaultScope);
+  };
+}
+
+/**
+ * Registers components with a custom prefix, into a scoped registry, or both. The elements that the components render,
+ * such as the popup in a select, are registered along with them, and components only render and look for elements
+ * from the same registration.
+ */
+export function registerComponents(components: ElementClass[], options: RegisterComponentsOptions = {}) {
+  const prefix = (options.prefix ?? defaultScope.prefix).toLowerCase();
+  const registry = options.registry === customElements ? undefined : options.registry;
+
+  if (!/^[a-z][a-z0-9-]*-$/.test(prefix)) {
+    throw new Error(`Unable to register components with the prefix "${prefix}" because it isn't a valid prefix.`);
+  }
+
+  let scope = scopes.find(s => s.prefix === prefix && s.registry === registry);
+
+  if (!scope) {
+    scope = { prefix, registry };
+    scopes.push(scope);
+  }
+
+  components.forEach(component => {
+    const tagName = defaultTagNames.get(component);
+
+    if (!tagName) {
+      throw new Error(`Unable to register ${component.name} because it isn't a Shoelace component.`);
+    }
+
+    defineElement(tagName, component, scope!);
+  });
+}
@@ -0,0 +1,4 @@
+// Installs the browser globals before shoelace-ssr.js imports the dependencies that read them
+import { installServerGlobals } from './server-globals.js';
+
+installServerGlobals();
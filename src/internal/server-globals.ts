@@ -0,0 +1,59 @@
+import { isServer } from 'lit';
+
+//
+// The browser globals that Shoelace's dependencies read when they're imported. The localization library watches <html>
+// for changes to its dir and lang attributes and falls back to the browser's language, and the QR code library assigns
+// itself to `self`.
+//
+const browserGlobals: Record<string, unknown> = {
+  document: { documentElement: { dir: '', lang: '' } },
+  MutationObserver: class {
+    observe() {
+      // Do nothing
+    }
+    disconnect() {
+      // Do nothing
+    }
+    takeRecords() {
+      return [];
+    }
+  },
+  navigator: { language: 'en' },
+  self: globalThis
+};
+
+let installedGlobals: string[] = [];
+
+/**
+ * Installs the browser globals that are missing on the server. They must be removed with `removeServerGlobals()` right
+ * after use, since other libraries check for them to detect a browser.
+ */
+export function installServerGlobals() {
+  if (!isServer) {
+    return;
+  }
+
+  const globals = globalThis as unknown as Record<string, unknown>;
+
+  installedGlobals = Object.keys(browserGlobals).filter(name => !(name in globals));
+  installedGlobals.forEach(name => (globals[name] = browserGlobals[name]));
+}
+
+/** Removes the globals that were installed by `installServerGlobals()`. Existing globals are left alone. */
+export function removeServerGlobals() {
+  const globals = globalThis as unknown as Record<string, unknown>;
+
+  installedGlobals.forEach(name => delete globals[name]);
+  installedGlobals = [];
+}
+
+/** Calls a function with the browser globals installed on the server, e.g. one from a library that reads them. */
+export function withServerGlobals<T>(callback: () => T) {
+  installServerGlobals();
+
+  try {
+    return callback();
+  } finally {
+    removeServerGlobals();
+  }
+}
@@ -1,5 +1,8 @@
+import { defaultScope } from './scope.js';
 import { LitElement } from 'lit';
 import { property } from 'lit/decorators.js';
+import type { ElementScope } from './scope.js';
+import type { Validator } from './validators.js';
 
 // Match event type name strings that are registered on GlobalEventHandlersEventMap...
 type EventTypeRequiresDetail<T> = T extends keyof GlobalEventHandlersEventMap
@@ -63,10 +66,27 @@ type GetCustomEventType<T> = T extends keyof GlobalEventHandlersEventMap
 type ValidEventTypeMap = EventTypesWithRequiredDetail | EventTypesWithoutRequiredDetail;
 
 export default class ShoelaceElement extends LitElement {
+  /** The elements that this element renders in its shadow root, keyed by their `sl-*` tag names. */
+  static dependencies: Record<string, typeof ShoelaceElement> = {};
+
+  /** The scope that this element was registered in. */
+  static scope: ElementScope = defaultScope;
+
   // Make localization attributes reactive
   @property() dir: string;
   @property() lang: string;
 
+  protected createRenderRoot() {
+    const renderRoot = super.createRenderRoot();
+
+    // Scoped shadow roots create their elements from their own registry, so they come from the same scope as this element
+    if ((this.constructor as typeof ShoelaceElement).scope.registry) {
+      this.renderOptions.creationScope = renderRoot as ShadowRoot & Pick<Document, 'importNode'>;
+    }
+
+    return renderRoot;
+  }
+
   /** Emits a custom event with more convenient defaults. */
   emit<T extends string & keyof EventTypesWithoutRequiredDetail>(
     name: EventTypeDoesNotRequireDetail<T>,
@@ -115,6 +135,7 @@ export interface ShoelaceFormControl extends ShoelaceElement {
   // Form validation properties
   readonly validity: ValidityState;
   readonly validationMessage: string;
+  validators?: Validator[];
 
   // Form validation methods
   checkValidity: () => boolean;
@@ -1,3 +1,5 @@
+import { isServer } from 'lit';
+import { unscopedTagName } from './scope.js';
 import type { ReactiveController, ReactiveControllerHost } from 'lit';
 
 /** A reactive controller that determines when slots exist. */
@@ -19,10 +21,9 @@ export class HasSlotController implements ReactiveController {
 
       if (node.nodeType === node.ELEMENT_NODE) {
         const el = node as HTMLElement;
-        const tagName = el.tagName.toLowerCase();
 
         // Ignore visually hidden elements since they aren't rendered
-        if (tagName === 'sl-visually-hidden') {
+        if (unscopedTagName(el) === 'sl-visually-hidden') {
           return false;
         }
 
@@ -41,6 +42,11 @@ export class HasSlotController implements ReactiveController {
   }
 
   test(slotName: string) {
+    // The server doesn't know about the host's children, so slots are assumed to be empty until the host hydrates
+    if (isServer) {
+      return false;
+    }
+
     return slotName === '[default]' ? this.hasDefaultSlot() : this.hasNamedSlot(slotName);
   }
 
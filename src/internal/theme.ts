@@ -0,0 +1,253 @@
+import { TinyColor } from '@ctrl/tinycolor';
+
+export interface ThemeOptions {
+  /** The brand color that the primary palette is generated from. Any CSS color that can be parsed works. */
+  primary: string;
+  /** The color that the neutral palette is tinted with. Defaults to a hint of the primary color. */
+  neutral?: string;
+  /** The medium border radius, e.g. `6px`. The other radii are scaled from it. */
+  radius?: string;
+  /** The font family to use for text, e.g. `Inter, sans-serif`. */
+  font?: string;
+}
+
+/** A set of custom properties, keyed by name, for each color scheme. */
+export interface ThemeTokens {
+  light: Record<string, string>;
+  dark: Record<string, string>;
+}
+
+export interface ThemeStylesheetOptions {
+  /** The selector that the light tokens are applied to. */
+  lightSelector?: string;
+  /** The selector that the dark tokens are applied to. */
+  darkSelector?: string;
+}
+
+interface Oklch {
+  l: number;
+  c: number;
+  h: number;
+}
+
+type ColorScheme = keyof ThemeTokens;
+
+const steps = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+//
+// The lightness and relative chroma of each step, measured in OKLCH so every hue gets the same perceived contrast. They
+// follow the built-in palettes: chroma peaks in the middle of a scale and fades towards the light and dark ends. Dark
+// scales run from dark to light because the dark theme inverts the palettes.
+//
+const curves: Record<ColorScheme, { lightness: number[]; neutralLightness: number[]; chroma: number[] }> = {
+  light: {
+    lightness: [0.975, 0.945, 0.895, 0.82, 0.72, 0.63, 0.55, 0.48, 0.42, 0.37, 0.28],
+    neutralLightness: [0.98, 0.965, 0.92, 0.87, 0.71, 0.55, 0.44, 0.37, 0.275, 0.21, 0.19],
+    chroma: [0.08, 0.18, 0.36, 0.62, 0.86, 1, 0.97, 0.88, 0.76, 0.64, 0.44]
+  },
+  dark: {
+    lightness: [0.3, 0.36, 0.42, 0.48, 0.56, 0.64, 0.72, 0.8, 0.87, 0.93, 0.97],
+    neutralLightness: [0.265, 0.295, 0.335, 0.385, 0.455, 0.535, 0.65, 0.78, 0.87, 0.935, 0.96],
+    chroma: [0.45, 0.62, 0.72, 0.85, 0.96, 1, 0.96, 0.78, 0.5, 0.32, 0.15]
+  }
+};
+
+// The default neutral palette is tinted with the primary hue, but only slightly, like the built-in gray palette
+const defaultNeutralChroma = 0.012;
+
+function srgbToLinear(value: number) {
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+}
+
+function linearToSrgb(value: number) {
+  return value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+}
+
+function toOklch(color: TinyColor): Oklch {
+  const { r, g, b } = color.toRgb();
+  const [lr, lg, lb] = [r, g, b].map(channel => srgbToLinear(channel / 255));
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const bb = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    c: Math.hypot(a, bb),
+    h: ((Math.atan2(bb, a) * 180) / Math.PI + 360) % 360
+  };
+}
+
+// Returns the linear sRGB channels of an OKLCH color, which are outside of 0–1 when the color is out of gamut
+function toLinearRgb({ l, c, h }: Oklch) {
+  const a = c * Math.cos((h * Math.PI) / 180);
+  const b = c * Math.sin((h * Math.PI) / 180);
+  const lc = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const mc = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const sc = (l - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+  return [
+    4.0767416621 * lc - 3.3077115913 * mc + 0.2309699292 * sc,
+    -1.2684380046 * lc + 2.6097574011 * mc - 0.3413193965 * sc,
+    -0.0041960863 * lc - 0.7034186147 * mc + 1.707614701 * sc
+  ];
+}
+
+function isInGamut(color: Oklch) {
+  return toLinearRgb(color).every(channel => channel >= -0.0001 && channel <= 1.0001);
+}
+
+// Reduces the chroma of a color until it can be displayed in sRGB, which keeps its lightness and hue intact
+function fromOklch(color: Oklch) {
+  let { c } = color;
+
+  if (!isInGamut(color)) {
+    let low = 0;
+    let high = c;
+
+    while (high - low > 0.0005) {
+      c = (low + high) / 2;
+      if (isInGamut({ ...color, c })) {
+        low = c;
+      } else {
+        high = c;
+      }
+    }
+
+    c = low;
+  }
+
+  const [r, g, b] = toLinearRgb({ ...color, c }).map(channel =>
+    Math.round(Math.min(Math.max(linearToSrgb(channel), 0), 1) * 255)
+  );
+
+  return new TinyColor({ r, g, b });
+}
+
+function formatColor(color: TinyColor) {
+  const { h, s, l } = color.toHsl();
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  return `hsl(${round(h)} ${round(s * 100)}% ${round(l * 100)}%)`;
+}
+
+function parseColor(value: string) {
+  const color = new TinyColor(value);
+
+  if (!color.isValid) {
+    throw new Error(`Unable to generate a theme because "${value}" isn't a valid color.`);
+  }
+
+  return color;
+}
+
+// Generates a palette whose most vivid step matches the brand color's chroma. The brand color itself replaces the
+// step that's closest to it in lightness, so it appears in the palette exactly as it was given.
+function createPalette(brand: TinyColor, scheme: ColorScheme) {
+  const { lightness, chroma } = curves[scheme];
+  const base = toOklch(brand);
+  const closest = lightness.reduce(
+    (best, l, index) => (Math.abs(l - base.l) < Math.abs(lightness[best] - base.l) ? index : best),
+    0
+  );
+  const peak = base.c / chroma[closest];
+
+  return lightness.map((l, index) =>
+    index === closest ? brand : fromOklch({ l, c: peak * chroma[index], h: base.h })
+  );
+}
+
+function createNeutralPalette(tint: Oklch, scheme: ColorScheme) {
+  const { neutralLightness, chroma } = curves[scheme];
+
+  return neutralLightness.map((l, index) => fromOklch({ l, c: tint.c * chroma[index], h: tint.h }));
+}
+
+/**
+ * Generates the primary and neutral palettes, border radii, and font of a theme for both color schemes. Palettes are
+ * generated in OKLCH, so a brand color of any hue produces steps with the same contrast as the built-in palettes.
+ */
+export function generateThemeTokens(options: ThemeOptions): ThemeTokens {
+  const primary = parseColor(options.primary);
+  const neutralTint = options.neutral
+    ? toOklch(parseColor(options.neutral))
+    : { ...toOklch(primary), c: defaultNeutralChroma };
+  const tokens: ThemeTokens = { light: {}, dark: {} };
+
+  (['light', 'dark'] as const).forEach(scheme => {
+    const declarations = tokens[scheme];
+    const palette = createPalette(primary, scheme);
+    const neutralPalette = createNeutralPalette(neutralTint, scheme);
+
+    steps.forEach((step, index) => {
+      declarations[`--sl-color-primary-${step}`] = formatColor(palette[index]);
+    });
+
+    steps.forEach((step, index) => {
+      declarations[`--sl-color-neutral-${step}`] = formatColor(neutralPalette[index]);
+    });
+
+    // The dark theme's panels are a shade darker than its darkest step
+    const darkest = fromOklch({ l: 0.2, c: neutralTint.c, h: neutralTint.h });
+    const white = new TinyColor('#fff');
+    declarations['--sl-color-neutral-0'] = formatColor(scheme === 'light' ? white : darkest);
+    declarations['--sl-color-neutral-1000'] = formatColor(scheme === 'light' ? new TinyColor('#000') : white);
+
+    if (options.radius) {
+      declarations['--sl-border-radius-small'] = `calc(${options.radius} * 0.75)`;
+      declarations['--sl-border-radius-medium'] = options.radius;
+      declarations['--sl-border-radius-large'] = `calc(${options.radius} * 2)`;
+      declarations['--sl-border-radius-x-large'] = `calc(${options.radius} * 4)`;
+    }
+
+    if (options.font) {
+      declarations['--sl-font-sans'] = options.font;
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * Generates a stylesheet that overlays the tokens of a theme on the built-in themes. It isn't a complete theme, so it
+ * must be loaded after the light and dark themes, which provide the tokens that aren't generated, such as the success,
+ * warning, and danger palettes.
+ */
+export function generateThemeOverlay(options: ThemeOptions, stylesheetOptions: ThemeStylesheetOptions = {}) {
+  const { lightSelector = ':root,\n:host,\n.sl-theme-light', darkSelector = '.sl-theme-dark' } = stylesheetOptions;
+  const tokens = generateThemeTokens(options);
+  const block = (selector: string, declarations: Record<string, string>) =>
+    `${selector} {\n${Object.entries(declarations)
+      .map(([name, value]) => `  ${name}: ${value};`)
+      .join('\n')}\n}\n`;
+
+  return `${block(lightSelector, tokens.light)}\n${block(darkSelector, tokens.dark)}`;
+}
+
+const appliedThemes = new WeakMap<Document | ShadowRoot, HTMLStyleElement>();
+
+/**
+ * Generates a theme overlay and applies it to a document or shadow root on top of the built-in themes. Applying another
+ * theme to the same root replaces the previous one, e.g. when switching between tenants.
+ */
+export function applyTheme(options: ThemeOptions, root: Document | ShadowRoot = document) {
+  let style = appliedThemes.get(root);
+
+  if (!style) {
+    style = document.createElement('style');
+    style.setAttribute('data-shoelace-theme', '');
+    appliedThemes.set(root, style);
+  }
+
+  style.textContent = generateThemeOverlay(options);
+
+  // Appending the style again moves it after the themes that were loaded since, so it keeps taking precedence
+  (root instanceof Document ? root.head : root).append(style);
+}
+
+/** Removes a theme that was applied with `applyTheme()`. */
+export function removeTheme(root: Document | ShadowRoot = document) {
+  appliedThemes.get(root)?.remove();
+  appliedThemes.delete(root);
+}
@@ -0,0 +1,172 @@
+import type SlAlert from '../components/alert/alert.js';
+
+export type ToastPlacement = 'top-start' | 'top-center' | 'top-end' | 'bottom-start' | 'bottom-center' | 'bottom-end';
+
+export interface ToastStackOptions {
+  /** The maximum number of toasts that can be visible at once. Additional toasts wait in a queue. */
+  maxVisible: number;
+  /**
+   * When enabled, a toast with the same variant and message as one that's already showing or waiting in the queue
+   * won't be shown again.
+   */
+  dedupe: boolean;
+}
+
+//
+// Toast stacks are fixed position containers that hold toast notifications. There's one stack per placement, and each
+// stack is added to the DOM when it receives its first toast and removed once its last toast is dismissed.
+//
+export class ToastStack {
+  /** The stack's position in the viewport. */
+  readonly placement: ToastPlacement;
+
+  /** The maximum number of toasts that can be visible at once. Additional toasts wait in a queue. */
+  maxVisible = 5;
+
+  /** Prevents identical toasts from being shown more than once at the same time. */
+  dedupe = true;
+
+  private element: HTMLDivElement | null = null;
+  private queue: SlAlert[] = [];
+  private readonly resolvers = new Map<SlAlert, () => void>();
+
+  constructor(placement: ToastPlacement) {
+    this.placement = placement;
+  }
+
+  /** The toasts that are currently in the stack, excluding the ones waiting in the queue. */
+  get toasts() {
+    return this.element ? [...(this.element.children as HTMLCollectionOf<SlAlert>)] : [];
+  }
+
+  /** The toasts that are waiting to be shown. */
+  get queued() {
+    return [...this.queue];
+  }
+
+  /**
+   * Adds a toast to the stack. It will be shown immediately if there's room for it, otherwise it will wait in the queue.
+   * The returned promise resolves after the toast is hidden.
+   */
+  add(alert: SlAlert) {
+    const duplicate = this.dedupe ? this.findDuplicate(alert) : undefined;
+
+    if (duplicate) {
+      // The duplicate is discarded and the caller waits for the existing toast instead
+      alert.remove();
+      return this.resolvers.has(duplicate) ? this.waitForRemoval(duplicate) : Promise.resolve();
+    }
+
+    const promise = new Promise<void>(resolve => this.resolvers.set(alert, resolve));
+
+    if (this.toasts.length < this.maxVisible) {
+      this.show(alert);
+    } else {
+      alert.remove();
+      this.queue.push(alert);
+    }
+
+    return promise;
+  }
+
+  /** Removes all toasts from the stack, including the ones waiting in the queue. */
+  clear() {
+    this.queue.forEach(alert => this.resolve(alert));
+    this.queue = [];
+    this.toasts.forEach(alert => alert.hide());
+  }
+
+  private getElement() {
+    if (!this.element) {
+      this.element = Object.assign(document.createElement('div'), {
+        className: `sl-toast-stack sl-toast-stack--${this.placement}`
+      });
+    }
+
+    return this.element;
+  }
+
+  // Returns a toast that's visible or queued with the same variant and message, if one exists
+  private findDuplicate(alert: SlAlert) {
+    const getKey = (el: SlAlert) => `${el.variant}:${el.textContent?.trim() ?? ''}`;
+    const key = getKey(alert);
+
+    return [...this.toasts, ...this.queue].find(el => el !== alert && getKey(el) === key);
+  }
+
+  private show(alert: SlAlert) {
+    const element = this.getElement();
+
+    if (element.parentElement === null) {
+      document.body.append(element);
+    }
+
+    element.appendChild(alert);
+
+    // Wait for the toast stack to render
+    requestAnimationFrame(() => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-expressions -- force a reflow for the initial transition
+      alert.clientWidth;
+      alert.show();
+    });
+
+    alert.addEventListener(
+      'sl-after-hide',
+      () => {
+        element.removeChild(alert);
+        this.resolve(alert);
+
+        // Show the next toast in the queue, if any
+        const next = this.queue.shift();
+        if (next) {
+          this.show(next);
+        }
+
+        // Remove the toast stack from the DOM when there are no more alerts
+        if (element.childElementCount === 0) {
+          element.remove();
+        }
+      },
+      { once: true }
+    );
+  }
+
+  private resolve(alert: SlAlert) {
+    this.resolvers.get(alert)?.();
+    this.resolvers.delete(alert);
+  }
+
+  private waitForRemoval(alert: SlAlert) {
+    const resolve = this.resolvers.get(alert)!;
+
+    return new Promise<void>(done => {
+      this.resolvers.set(alert, () => {
+        resolve();
+        done();
+      });
+    });
+  }
+}
+
+const toastStacks = new Map<ToastPlacement, ToastStack>();
+
+/** Returns the toast stack for the given placement, creating it if necessary. */
+export function getToastStack(placement: ToastPlacement = 'top-end') {
+  let stack = toastStacks.get(placement);
+
+  if (!stack) {
+    stack = new ToastStack(placement);
+    toastStacks.set(placement, stack);
+  }
+
+  return stack;
+}
+
+/** Sets options for the toast stack at the given placement, or for all placements if no placement is provided. */
+export function setToastStackOptions(options: Partial<ToastStackOptions>, placement?: ToastPlacement) {
+  const placements: ToastPlacement[] = placement
+    ? [placement]
+    : ['top-start', 'top-center', 'top-end', 'bottom-start', 'bottom-center', 'bottom-end'];
+
+  placements.forEach(p => Object.assign(getToastStack(p), options));
+}
@@ -0,0 +1,143 @@
+import { formCollections } from './form.js';
+import type { LocalizeController } from '../utilities/localize.js';
+import type { ShoelaceFormControl } from './shoelace-element.js';
+
+/** The result of a validator. Return a validation message when the value is invalid, or nothing when it's valid. */
+export type ValidatorResult = string | null | undefined;
+
+export interface ValidatorContext {
+  /** The form control that's being validated. */
+  control: ShoelaceFormControl;
+  /** The form that contains the control, if any. */
+  form: HTMLFormElement | null;
+  /** Aborted when the validator's result is no longer needed, e.g. because the value changed. */
+  signal: AbortSignal;
+  /** A localize controller for the form control, useful for formatting validation messages. */
+  localize: LocalizeController;
+}
+
+export type ValidatorFunction = (
+  value: unknown,
+  context: ValidatorContext
+) => ValidatorResult | Promise<ValidatorResult>;
+
+export interface ValidatorDefinition {
+  /** The function that validates the value. */
+  validate: ValidatorFunction;
+  /**
+   * The number of milliseconds to wait after the value stops changing before running the validator. This is useful for
+   * async validators that make network requests.
+   */
+  debounce?: number;
+  /**
+   * The names of other fields in the form that the validator reads. When one of them changes, this validator runs again
+   * but the control's other validators don't.
+   */
+  dependsOn?: string[];
+}
+
+/**
+ * A validator is a function, an object with a function and options, or the name of a registered rule. Rules that take
+ * an argument are written as `name:argument`, e.g. `min-items:2`.
+ */
+export type Validator = ValidatorFunction | ValidatorDefinition | string;
+
+/** Creates a validator function from a rule's argument. */
+export type ValidatorRule = (argument: string) => ValidatorFunction | ValidatorDefinition;
+
+const rules = new Map<string, ValidatorRule>();
+
+/** Lit converter that turns a space-delimited list of rules into an array of validators. */
+export const validatorsConverter = {
+  fromAttribute: (value: string | null) => (value ? value.trim().split(/\s+/) : [])
+};
+
+function isEmpty(value: unknown) {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function countItems(value: unknown) {
+  return Array.isArray(value) ? value.length : isEmpty(value) ? 0 : 1;
+}
+
+// Finds the value of a form control by name, looking at Shoelace form controls first and native ones second
+function getFieldValue(form: HTMLFormElement | null, name: string) {
+  if (!form) {
+    return undefined;
+  }
+
+  const control = [...(formCollections.get(form) ?? [])].find(el => el.name === name);
+  if (control) {
+    return control.value;
+  }
+
+  const element = form.elements.namedItem(name);
+  return element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement ? element.value : undefined;
+}
+
+/**
+ * Registers a named rule that can be used as a validator, e.g. `validators="my-rule:argument"`. Like the browser's
+ * built-in constraints, rules should ignore empty values and leave them to the `required` attribute.
+ */
+export function registerValidator(name: string, rule: ValidatorRule) {
+  rules.set(name, rule);
+}
+
+/** Returns the definition for a validator, looking up named rules. Returns `null` for unknown rules. */
+export function resolveValidator(validator: Validator): ValidatorDefinition | null {
+  if (typeof validator === 'function') {
+    return { validate: validator };
+  }
+
+  if (typeof validator === 'string') {
+    const separator = validator.indexOf(':');
+    const name = separator === -1 ? validator : validator.slice(0, separator);
+    const argument = separator === -1 ? '' : validator.slice(separator + 1);
+    const rule = rules.get(name);
+
+    if (!rule) {
+      console.error(`Unknown validator: "${name}"`);
+      return null;
+    }
+
+    try {
+      const result = rule(argument);
+      return typeof result === 'function' ? { validate: result } : result;
+    } catch (error) {
+      console.error(`Invalid validator: "${validator}"`, error);
+      return null;
+    }
+  }
+
+  return validator;
+}
+
+// The value must be the same as the value of another field in the form, e.g. `equals-field:password`
+registerValidator('equals-field', name => ({
+  dependsOn: [name],
+  validate: (value, { form, localize }) => {
+    return !isEmpty(value) && value !== getFieldValue(form, name) ? localize.term('valuesMustMatch') : undefined;
+  }
+}));
+
+// The value must have at least this many items, e.g. `min-items:2`
+registerValidator('min-items', argument => (value, { localize }) => {
+  const min = Number(argument);
+  return !isEmpty(value) && countItems(value) < min ? localize.term('minItems', min) : undefined;
+});
+
+// The value can't have more than this many items, e.g. `max-items:5`
+registerValidator('max-items', argument => (value, { localize }) => {
+  const max = Number(argument);
+  return !isEmpty(value) && countItems(value) > max ? localize.term('maxItems', max) : undefined;
+});
+
+// The entire value must match a regular expression, e.g. `matches:[a-z]+`
+registerValidator('matches', pattern => {
+  const regex = new RegExp(`^(?:${pattern})$`, 'u');
+
+  return (value, { localize }) => {
+    const values = Array.isArray(value) ? (value as unknown[]) : [value];
+    return !isEmpty(value) && values.some(val => !regex.test(String(val))) ? localize.term('invalidFormat') : undefined;
+  };
+});
@@ -0,0 +1,136 @@
+import type { ReactiveController, ReactiveControllerHost } from 'lit';
+
+interface VirtualizerOptions {
+  /** Returns the element that scrolls the list. It's usually in the host's shadow root. */
+  getScrollElement: () => HTMLElement | null;
+  /** Returns the number of items in the list. */
+  getCount: () => number;
+  /** The height of each item in pixels. It's used until an item has been measured. */
+  estimatedItemSize?: number;
+  /** The number of items to render above and below the visible ones. */
+  overscan?: number;
+}
+
+/**
+ * A reactive controller that determines which items of a long list are visible so the host only needs to render those.
+ * All items must have the same height, which is measured from a rendered item with `measure()`.
+ */
+export class VirtualizerController implements ReactiveController {
+  host: ReactiveControllerHost & HTMLElement;
+  itemSize: number;
+
+  private readonly options: VirtualizerOptions;
+  private resizeObserver: ResizeObserver | undefined;
+  private scrollElement: HTMLElement | null = null;
+  private scrollTop = 0;
+  private viewportHeight = 0;
+
+  constructor(host: ReactiveControllerHost & HTMLElement, options: VirtualizerOptions) {
+    (this.host = host).addController(this);
+    this.options = options;
+    this.itemSize = options.estimatedItemSize ?? 32;
+    this.handleScroll = this.handleScroll.bind(this);
+  }
+
+  hostUpdated() {
+    // The scroll element may be rendered conditionally, so look for it after every update
+    const scrollElement = this.options.getScrollElement();
+
+    if (scrollElement !== this.scrollElement) {
+      this.detach();
+      this.scrollElement = scrollElement;
+
+      if (scrollElement) {
+        // The observer is created here rather than in the constructor, since hosts are also constructed on the server
+        this.resizeObserver ??= new ResizeObserver(() => this.handleScroll());
+        scrollElement.addEventListener('scroll', this.handleScroll, { passive: true });
+        this.resizeObserver.observe(scrollElement);
+        this.handleScroll();
+      }
+    }
+  }
+
+  hostDisconnected() {
+    this.detach();
+    this.scrollElement = null;
+  }
+
+  /** The index of the first item to render. */
+  get start() {
+    const overscan = this.options.overscan ?? 5;
+    return Math.max(0, Math.floor(this.scrollTop / this.itemSize) - overscan);
+  }
+
+  /** The index after the last item to render. */
+  get end() {
+    const overscan = this.options.overscan ?? 5;
+    const visibleCount = Math.ceil(this.viewportHeight / this.itemSize) + 1;
+    return Math.min(this.options.getCount(), Math.floor(this.scrollTop / this.itemSize) + visibleCount + overscan);
+  }
+
+  /** The distance, in pixels, between the top of the list and the first rendered item. */
+  get offset() {
+    return this.start * this.itemSize;
+  }
+
+  /** The height, in pixels, of the whole list. */
+  get totalSize() {
+    return this.options.getCount() * this.itemSize;
+  }
+
+  /** Updates the item size using the height of a rendered item. */
+  measure(item: HTMLElement | null) {
+    const height = item?.offsetHeight;
+
+    if (height && height !== this.itemSize) {
+      this.itemSize = height;
+      this.host.requestUpdate();
+    }
+  }
+
+  /** Scrolls the minimum amount needed to show the item at the given index. */
+  scrollToIndex(index: number) {
+    if (!this.scrollElement) {
+      return;
+    }
+
+    const top = index * this.itemSize;
+    const bottom = top + this.itemSize;
+
+    if (top < this.scrollElement.scrollTop) {
+      this.scrollElement.scrollTop = top;
+    } else if (bottom > this.scrollElement.scrollTop + this.scrollElement.clientHeight) {
+      this.scrollElement.scrollTop = bottom - this.scrollElement.clientHeight;
+    }
+
+    this.handleScroll();
+  }
+
+  private detach() {
+    if (this.scrollElement) {
+      this.scrollElement.removeEventListener('scroll', this.handleScroll);
+      this.resizeObserver?.unobserve(this.scrollElement);
+    }
+  }
+
+  private handleScroll() {
+    if (!this.scrollElement) {
+      return;
+    }
+
+    const { scrollTop, clientHeight } = this.scrollElement;
+
+    if (scrollTop !== this.scrollTop || clientHeight !== this.viewportHeight) {
+      const previousStart = this.start;
+      const previousEnd = this.end;
+
+      this.scrollTop = scrollTop;
+      this.viewportHeight = clientHeight;
+
+      // Only render when the window of items changes
+      if (this.start !== previousStart || this.end !== previousEnd) {
+        this.host.requestUpdate();
+      }
+    }
+  }
+}
@@ -1,6 +1,20 @@
 import { getBasePath } from './utilities/base-path.js';
 
-const observer = new MutationObserver(mutations => {
+/**
+ * Returns the URL of the module that defines an element, or a promise that resolves when the element has been defined,
+ * such as one returned by a dynamic `import()` in your bundle.
+ */
+export type AutoloaderResolver = (tagName: string) => string | Promise<unknown>;
+
+// The autoloader only runs in the browser. When it's imported on the server, e.g. by Lit SSR, it does nothing.
+const isBrowser = typeof Node !== 'undefined';
+const resolvers = new Map<string, AutoloaderResolver>();
+const loading = new Map<string, Promise<void>>();
+const observedRoots = new WeakSet<Element | ShadowRoot>();
+let observer: MutationObserver | undefined;
+let isObservingShadowRoots = false;
+
+function handleMutations(mutations: MutationRecord[]) {
   for (const { addedNodes } of mutations) {
     for (const node of addedNodes) {
       if (node.nodeType === Node.ELEMENT_NODE) {
@@ -8,51 +22,163 @@ const observer = new MutationObserver(mutations => {
       }
     }
   }
-});
+}
+
+/**
+ * Tells the autoloader how to load elements whose tag names start with the specified prefix, e.g. `acme-`. When more
+ * than one prefix matches a tag name, the longest one wins. Registering a prefix again replaces its resolver.
+ */
+export function registerAutoloaderPrefix(prefix: string, resolver: AutoloaderResolver) {
+  resolvers.set(prefix.toLowerCase(), resolver);
+
+  // Load any elements that are already waiting for this prefix
+  if (isBrowser && observedRoots.has(document.documentElement)) {
+    discover(document.documentElement);
+  }
+}
+
+/** Stops the autoloader from loading elements whose tag names start with the specified prefix. */
+export function unregisterAutoloaderPrefix(prefix: string) {
+  resolvers.delete(prefix.toLowerCase());
+}
+
+/** Returns the resolver for a tag name, or undefined if none of the registered prefixes match. */
+function getResolver(tagName: string) {
+  const prefix = [...resolvers.keys()].filter(p => tagName.startsWith(p)).sort((a, b) => b.length - a.length)[0];
+
+  return prefix === undefined ? undefined : resolvers.get(prefix);
+}
 
 /**
- * Checks a node for undefined elements and attempts to register them.
+ * Checks a node for undefined elements and attempts to register them. Elements that fail to load are reported with
+ * the `sl-autoload-error` event, which is dispatched on the document.
  */
 export async function discover(root: Element | ShadowRoot) {
   const rootTagName = root instanceof Element ? root.tagName.toLowerCase() : '';
   const rootIsCustomElement = rootTagName?.includes('-');
-  const tags = [...root.querySelectorAll(':not(:defined)')]
-    .map(el => el.tagName.toLowerCase())
-    .filter(tag => tag.startsWith('sl-'));
+  const tags = [...root.querySelectorAll(':not(:defined)')].map(el => el.tagName.toLowerCase());
 
   // If the root element is an undefined custom element, add it to the list
   if (rootIsCustomElement && !customElements.get(rootTagName)) {
     tags.push(rootTagName);
   }
 
-  // Make the list unique
-  const tagsToRegister = [...new Set(tags)];
+  // Make the list unique and skip tags we don't know how to load
+  const tagsToRegister = [...new Set(tags)].filter(tagName => getResolver(tagName));
 
   await Promise.allSettled(tagsToRegister.map(tagName => register(tagName)));
 }
 
+/**
+ * Loads elements before they're used, e.g. to avoid a flash of undefined elements in a dialog that's about to open.
+ * Resolves when all of the elements have been defined and rejects if any of them fail to load.
+ */
+export async function preload(tagNames: string | string[]) {
+  const tags = (Array.isArray(tagNames) ? tagNames : [tagNames]).map(tagName => tagName.toLowerCase());
+  await Promise.all(tags.map(tagName => register(tagName)));
+}
+
+/**
+ * Watches a root for undefined elements. The document is watched by default, but mutations inside of shadow roots
+ * aren't reported to it, so pass a shadow root to this function to watch it too. To watch shadow roots automatically,
+ * use `observeShadowRoots()`.
+ */
+export function observe(root: Element | ShadowRoot) {
+  if (!isBrowser || observedRoots.has(root)) {
+    return;
+  }
+
+  observer ??= new MutationObserver(handleMutations);
+  observedRoots.add(root);
+  observer.observe(root, { subtree: true, childList: true });
+  discover(root);
+
+  if (isObservingShadowRoots) {
+    observeExistingShadowRoots(root);
+  }
+}
+
+// Existing shadow roots, e.g. declarative ones that were rendered by the server, don't show up as mutations
+function observeExistingShadowRoots(root: Element | ShadowRoot) {
+  root.querySelectorAll('*').forEach(el => {
+    if (el.shadowRoot) {
+      observe(el.shadowRoot);
+    }
+  });
+}
+
+/**
+ * Watches the open shadow roots in the page and every shadow root that's attached from now on, including the shadow
+ * roots of your own elements. This is opt-in because it patches `Element.prototype.attachShadow` for the whole page
+ * and adds an observer to each shadow root, which can be costly when there are many elements.
+ */
+export function observeShadowRoots() {
+  if (!isBrowser || isObservingShadowRoots) {
+    return;
+  }
+
+  const attachShadow = Element.prototype.attachShadow;
+
+  isObservingShadowRoots = true;
+  Element.prototype.attachShadow = function (this: Element, init: ShadowRootInit) {
+    const shadowRoot = attachShadow.call(this, init);
+    observe(shadowRoot);
+    return shadowRoot;
+  };
+
+  observeExistingShadowRoots(document.documentElement);
+}
+
 /**
  * Registers an element by tag name.
  */
 function register(tagName: string): Promise<void> {
-  const tagWithoutPrefix = tagName.replace(/^sl-/i, '');
-  const path = getBasePath(`components/${tagWithoutPrefix}/${tagWithoutPrefix}.js`);
+  const resolver = getResolver(tagName);
 
   // If the element is already defined, there's nothing more to do
   if (customElements.get(tagName)) {
     return Promise.resolve();
   }
 
-  // Register it
-  return new Promise((resolve, reject) => {
-    import(path)
-      .then(() => resolve())
-      .catch(() => reject(new Error(`Unable to automatically load<${tagName}> from ${path}`)));
-  });
+  if (!resolver) {
+    return Promise.reject(new Error(`Unable to automatically load <${tagName}> because no prefix matches it`));
+  }
+
+  if (!loading.has(tagName)) {
+    let result: ReturnType<AutoloaderResolver>;
+
+    try {
+      result = resolver(tagName);
+    } catch (error) {
+      result = Promise.reject(error);
+    }
+
+    const path = typeof result === 'string' ? result : undefined;
+    const promise = (typeof result === 'string' ? import(result) : result)
+      .then(() => undefined)
+      .catch((cause: unknown) => {
+        const error = new Error(`Unable to automatically load <${tagName}>${path ? ` from ${path}` : ''}`, { cause });
+
+        // Allow another attempt in case the failure was temporary, e.g. the network was down
+        loading.delete(tagName);
+        document.dispatchEvent(new CustomEvent('sl-autoload-error', { detail: { tagName, error } }));
+
+        throw error;
+      });
+
+    loading.set(tagName, promise);
+  }
+
+  return loading.get(tagName)!;
 }
 
-// Initial discovery
-discover(document.body);
+// Shoelace's own elements
+registerAutoloaderPrefix('sl-', tagName => {
+  const tagWithoutPrefix = tagName.replace(/^sl-/i, '');
+  return getBasePath(`components/${tagWithoutPrefix}/${tagWithoutPrefix}.js`);
+});
 
-// Listen for new undefined elements
-observer.observe(document.documentElement, { subtree: true, childList: true });
+if (isBrowser) {
+  // Initial discovery and listen for new undefined elements
+  observe(document.documentElement);
+}
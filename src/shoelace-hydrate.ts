@@ -0,0 +1,9 @@
+//
+// Import this module in the browser before importing any Shoelace components when your pages are rendered on the
+// server. It lets components hydrate the declarative shadow DOM that was rendered for them instead of rendering
+// their shadow roots from scratch.
+//
+//   <script type="module" src="/shoelace/dist/shoelace-hydrate.js"></script>
+//   <script type="module" src="/shoelace/dist/shoelace.js"></script>
+//
+import 'lit/experimental-hydrate-support.js';
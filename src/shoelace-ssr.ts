@@ -0,0 +1,17 @@
+//
+// Import this module on the server before importing any Shoelace components. A few of Shoelace's dependencies read
+// browser globals as soon as they're imported, so this module imports them with the globals filled in and removes the
+// globals again right after. Nothing is left behind that would make other libraries mistake the server for a browser,
+// and components can render to declarative shadow DOM with Lit SSR. In the browser, this module does nothing.
+//
+//   import '@shoelace-style/shoelace/dist/shoelace-ssr.js';
+//   import '@shoelace-style/shoelace/dist/components/button/button.js';
+//
+// The order of these imports matters: the globals are installed first and removed after the dependencies are loaded.
+//
+import './internal/server-globals-start.js';
+import './utilities/localize.js';
+import 'qr-creator';
+import { removeServerGlobals } from './internal/server-globals.js';
+
+removeServerGlobals();
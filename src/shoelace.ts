@@ -13,11 +13,13 @@ export { default as SlCarousel } from './components/carousel/carousel.js';
 export { default as SlCarouselItem } from './components/carousel-item/carousel-item.js';
 export { default as SlCheckbox } from './components/checkbox/checkbox.js';
 export { default as SlColorPicker } from './components/color-picker/color-picker.js';
+export { default as SlDatePicker } from './components/date-picker/date-picker.js';
 export { default as SlDetails } from './components/details/details.js';
 export { default as SlDialog } from './components/dialog/dialog.js';
 export { default as SlDivider } from './components/divider/divider.js';
 export { default as SlDrawer } from './components/drawer/drawer.js';
 export { default as SlDropdown } from './components/dropdown/dropdown.js';
+export { default as SlFileInput } from './components/file-input/file-input.js';
 export { default as SlFormatBytes } from './components/format-bytes/format-bytes.js';
 export { default as SlFormatDate } from './components/format-date/format-date.js';
 export { default as SlFormatNumber } from './components/format-number/format-number.js';
@@ -50,7 +52,9 @@ export { default as SlSwitch } from './components/switch/switch.js';
 export { default as SlTab } from './components/tab/tab.js';
 export { default as SlTabGroup } from './components/tab-group/tab-group.js';
 export { default as SlTabPanel } from './components/tab-panel/tab-panel.js';
+export { default as SlTable } from './components/table/table.js';
 export { default as SlTag } from './components/tag/tag.js';
+export { default as SlTagInput } from './components/tag-input/tag-input.js';
 export { default as SlTextarea } from './components/textarea/textarea.js';
 export { default as SlTooltip } from './components/tooltip/tooltip.js';
 export { default as SlTree } from './components/tree/tree.js';
@@ -61,8 +65,14 @@ export { default as SlVisuallyHidden } from './components/visually-hidden/visual
 // Utilities
 export * from './utilities/animation.js';
 export * from './utilities/base-path.js';
+export * from './utilities/color-storage.js';
 export * from './utilities/icon-library.js';
 export * from './utilities/form.js';
+export * from './utilities/toast.js';
+export * from './utilities/modal.js';
+export * from './utilities/mask.js';
+export * from './utilities/registration.js';
+export * from './utilities/theme.js';
 
 // Events
 export * from './events/events.js';
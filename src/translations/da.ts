@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'Dansk',
   $dir: 'ltr',
 
+  addSwatch: 'Tilføj farveprøve',
   carousel: 'Karrusel',
+  chooseDate: 'Vælg dato',
   clearEntry: 'Ryd indtastning',
   close: 'Luk',
+  contrastRatio: 'Kontrastforhold',
   copy: 'Kopier',
   currentValue: 'Nuværende værdi',
+  dateUnavailable: 'Denne dato er ikke tilgængelig',
+  dropFiles: 'Slip filer her, eller klik for at gennemse',
+  fail: 'Ikke bestået',
+  fileTooLarge: (name, size) => `${name} er større end ${size}`,
+  fileTypeNotAccepted: name => `${name} er ikke en tilladt filtype`,
   goToSlide: (slide, count) => `Gå til dias ${slide} af ${count}`,
   hidePassword: 'Skjul adgangskode',
+  invalidFormat: 'Brug det ønskede format',
+  invalidTag: tag => `${tag} er ikke gyldig`,
+  largeText: 'Stor tekst',
   loading: 'Indlæser',
+  maxFiles: num => `Største antal filer: ${num}`,
+  maxItems: num => `Største antal elementer: ${num}`,
+  maximum: 'Maksimum',
+  minItems: num => `Mindste antal elementer: ${num}`,
+  minimum: 'Minimum',
+  nextMonth: 'Næste måned',
   nextSlide: 'Næste slide',
+  noData: 'Ingen data',
+  noResults: 'Ingen resultater',
+  normalText: 'Normal tekst',
   numOptionsSelected: (num: number) => {
     if (num === 0) return 'Ingen valgt';
     if (num === 1) return '1 valgt';
     return `${num} valgt`;
   },
+  pass: 'Bestået',
+  previousMonth: 'Forrige måned',
   previousSlide: 'Forrige dias',
   progress: 'Status',
+  recentColors: 'Seneste farver',
   remove: 'Fjern',
   resize: 'Tilpas størrelse',
   scrollToEnd: 'Scroll til slut',
   scrollToStart: 'Scroll til start',
   selectAColorFromTheScreen: 'Vælg en farve fra skærmen',
+  selectAll: 'Vælg alle',
+  selectRow: 'Vælg række',
   showPassword: 'Vis adgangskode',
   slideNum: slide => `Slide ${slide}`,
-  toggleColorFormat: 'Skift farveformat'
+  toggleColorFormat: 'Skift farveformat',
+  valuesMustMatch: 'Værdierne skal være ens'
 };
 
 registerTranslation(translation);
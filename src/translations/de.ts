@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'Deutsch',
   $dir: 'ltr',
 
+  addSwatch: 'Farbfeld hinzufügen',
   carousel: 'Karussell',
+  chooseDate: 'Datum auswählen',
   clearEntry: 'Eingabe löschen',
   close: 'Schließen',
+  contrastRatio: 'Kontrastverhältnis',
   copy: 'Kopieren',
   currentValue: 'Aktueller Wert',
+  dateUnavailable: 'Dieses Datum ist nicht verfügbar',
+  dropFiles: 'Dateien hierher ziehen oder zum Durchsuchen klicken',
+  fail: 'Nicht bestanden',
+  fileTooLarge: (name, size) => `${name} ist größer als ${size}`,
+  fileTypeNotAccepted: name => `${name} hat keinen zulässigen Dateityp`,
   goToSlide: (slide, count) => `Gehen Sie zu Folie ${slide} von ${count}`,
   hidePassword: 'Passwort verbergen',
+  invalidFormat: 'Bitte das geforderte Format verwenden',
+  invalidTag: tag => `${tag} ist ungültig`,
+  largeText: 'Großer Text',
   loading: 'Wird geladen',
+  maxFiles: num => `Höchstanzahl an Dateien: ${num}`,
+  maxItems: num => `Höchstanzahl an Elementen: ${num}`,
+  maximum: 'Maximum',
+  minItems: num => `Mindestanzahl an Elementen: ${num}`,
+  minimum: 'Minimum',
+  nextMonth: 'Nächster Monat',
   nextSlide: 'Nächste Folie',
+  noData: 'Keine Daten',
+  noResults: 'Keine Ergebnisse',
+  normalText: 'Normaler Text',
   numOptionsSelected: num => {
     if (num === 0) return 'Keine Optionen ausgewählt';
     if (num === 1) return '1 Option ausgewählt';
     return `${num} Optionen ausgewählt`;
   },
+  pass: 'Bestanden',
+  previousMonth: 'Vorheriger Monat',
   previousSlide: 'Vorherige Folie',
   progress: 'Fortschritt',
+  recentColors: 'Zuletzt verwendete Farben',
   remove: 'Entfernen',
   resize: 'Größe ändern',
   scrollToEnd: 'Zum Ende scrollen',
   scrollToStart: 'Zum Anfang scrollen',
   selectAColorFromTheScreen: 'Wähle eine Farbe vom Bildschirm',
+  selectAll: 'Alle auswählen',
+  selectRow: 'Zeile auswählen',
   showPassword: 'Passwort anzeigen',
   slideNum: slide => `Folie ${slide}`,
-  toggleColorFormat: 'Farbformat umschalten'
+  toggleColorFormat: 'Farbformat umschalten',
+  valuesMustMatch: 'Die Werte müssen übereinstimmen'
 };
 
 registerTranslation(translation);
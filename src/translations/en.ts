@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'English',
   $dir: 'ltr',
 
+  addSwatch: 'Add swatch',
   carousel: 'Carousel',
+  chooseDate: 'Choose date',
   clearEntry: 'Clear entry',
   close: 'Close',
+  contrastRatio: 'Contrast ratio',
   copy: 'Copy',
   currentValue: 'Current value',
+  dateUnavailable: 'This date is unavailable',
+  dropFiles: 'Drop files here or click to browse',
+  fail: 'Fail',
+  fileTooLarge: (name, size) => `${name} is larger than ${size}`,
+  fileTypeNotAccepted: name => `${name} isn't an accepted file type`,
   goToSlide: (slide, count) => `Go to slide ${slide} of ${count}`,
   hidePassword: 'Hide password',
+  invalidFormat: 'Please match the requested format',
+  invalidTag: tag => `${tag} isn't valid`,
+  largeText: 'Large text',
   loading: 'Loading',
+  maxFiles: num => (num === 1 ? 'No more than 1 file is allowed' : `No more than ${num} files are allowed`),
+  maxItems: num => (num === 1 ? 'No more than 1 item is allowed' : `No more than ${num} items are allowed`),
+  maximum: 'Maximum',
+  minItems: num => (num === 1 ? 'At least 1 item is required' : `At least ${num} items are required`),
+  minimum: 'Minimum',
+  nextMonth: 'Next month',
   nextSlide: 'Next slide',
+  noData: 'No data',
+  noResults: 'No results',
+  normalText: 'Normal text',
   numOptionsSelected: num => {
     if (num === 0) return 'No options selected';
     if (num === 1) return '1 option selected';
     return `${num} options selected`;
   },
+  pass: 'Pass',
+  previousMonth: 'Previous month',
   previousSlide: 'Previous slide',
   progress: 'Progress',
+  recentColors: 'Recent colors',
   remove: 'Remove',
   resize: 'Resize',
   scrollToEnd: 'Scroll to end',
   scrollToStart: 'Scroll to start',
   selectAColorFromTheScreen: 'Select a color from the screen',
+  selectAll: 'Select all',
+  selectRow: 'Select row',
   showPassword: 'Show password',
   slideNum: slide => `Slide ${slide}`,
-  toggleColorFormat: 'Toggle color format'
+  toggleColorFormat: 'Toggle color format',
+  valuesMustMatch: 'The values must match'
 };
 
 registerTranslation(translation);
@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'Español',
   $dir: 'ltr',
 
+  addSwatch: 'Añadir muestra',
   carousel: 'Carrusel',
+  chooseDate: 'Elegir fecha',
   clearEntry: 'Borrar entrada',
   close: 'Cerrar',
+  contrastRatio: 'Relación de contraste',
   copy: 'Copiar',
   currentValue: 'Valor actual',
+  dateUnavailable: 'Esta fecha no está disponible',
+  dropFiles: 'Suelte archivos aquí o haga clic para explorar',
+  fail: 'No cumple',
+  fileTooLarge: (name, size) => `${name} supera ${size}`,
+  fileTypeNotAccepted: name => `${name} no es un tipo de archivo aceptado`,
   goToSlide: (slide, count) => `Ir a la diapositiva ${slide} de ${count}`,
   hidePassword: 'Ocultar contraseña',
+  invalidFormat: 'Usa el formato solicitado',
+  invalidTag: tag => `${tag} no es válido`,
+  largeText: 'Texto grande',
   loading: 'Cargando',
+  maxFiles: num => `Número máximo de archivos: ${num}`,
+  maxItems: num => `Número máximo de elementos: ${num}`,
+  maximum: 'Máximo',
+  minItems: num => `Número mínimo de elementos: ${num}`,
+  minimum: 'Mínimo',
+  nextMonth: 'Mes siguiente',
   nextSlide: 'Siguiente diapositiva',
+  noData: 'No hay datos',
+  noResults: 'No hay resultados',
+  normalText: 'Texto normal',
   numOptionsSelected: num => {
     if (num === 0) return 'No hay opciones seleccionadas';
     if (num === 1) return '1 opción seleccionada';
     return `${num} opción seleccionada`;
   },
+  pass: 'Cumple',
+  previousMonth: 'Mes anterior',
   previousSlide: 'Diapositiva anterior',
   progress: 'Progreso',
+  recentColors: 'Colores recientes',
   remove: 'Eliminar',
   resize: 'Cambiar el tamaño',
   scrollToEnd: 'Desplazarse hasta el final',
   scrollToStart: 'Desplazarse al inicio',
   selectAColorFromTheScreen: 'Seleccione un color de la pantalla',
+  selectAll: 'Seleccionar todo',
+  selectRow: 'Seleccionar fila',
   showPassword: 'Mostrar contraseña',
   slideNum: slide => `Diapositiva ${slide}`,
-  toggleColorFormat: 'Alternar formato de color'
+  toggleColorFormat: 'Alternar formato de color',
+  valuesMustMatch: 'Los valores deben coincidir'
 };
 
 registerTranslation(translation);
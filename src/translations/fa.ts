@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'فارسی',
   $dir: 'rtl',
 
+  addSwatch: 'افزودن نمونه رنگ',
   carousel: 'چرخ فلک',
+  chooseDate: 'انتخاب تاریخ',
   clearEntry: 'پاک کردن ورودی',
   close: 'بستن',
+  contrastRatio: 'نسبت کنتراست',
   copy: 'رونوشت',
   currentValue: 'مقدار فعلی',
+  dateUnavailable: 'این تاریخ در دسترس نیست',
+  dropFiles: 'فایل‌ها را اینجا رها کنید یا برای انتخاب کلیک کنید',
+  fail: 'رد شده',
+  fileTooLarge: (name, size) => `${name} بزرگ‌تر از ${size} است`,
+  fileTypeNotAccepted: name => `${name} از نوع فایل مجاز نیست`,
   goToSlide: (slide, count) => `رفتن به اسلاید ${slide} از ${count}`,
   hidePassword: 'پنهان کردن رمز',
+  invalidFormat: 'لطفاً از قالب درخواستی استفاده کنید',
+  invalidTag: tag => `${tag} معتبر نیست`,
+  largeText: 'متن بزرگ',
   loading: 'بارگذاری',
+  maxFiles: num => `حداکثر تعداد فایل‌ها: ${num}`,
+  maxItems: num => `حداکثر تعداد موارد: ${num}`,
+  maximum: 'حداکثر',
+  minItems: num => `حداقل تعداد موارد: ${num}`,
+  minimum: 'حداقل',
+  nextMonth: 'ماه بعد',
   nextSlide: 'اسلاید بعدی',
+  noData: 'داده‌ای وجود ندارد',
+  noResults: 'نتیجه‌ای یافت نشد',
+  normalText: 'متن معمولی',
   numOptionsSelected: num => {
     if (num === 0) return 'هیچ گزینه ای انتخاب نشده است';
     if (num === 1) return '1 گزینه انتخاب شده است';
     return `${num} گزینه انتخاب شده است`;
   },
+  pass: 'قبول',
+  previousMonth: 'ماه قبل',
   previousSlide: 'اسلاید قبلی',
   progress: 'پیشرفت',
+  recentColors: 'رنگ‌های اخیر',
   remove: 'حذف',
   resize: 'تغییر اندازه',
   scrollToEnd: 'پیمایش به انتها',
   scrollToStart: 'پیمایش به ابتدا',
   selectAColorFromTheScreen: 'انتخاب یک رنگ از صفحه نمایش',
+  selectAll: 'انتخاب همه',
+  selectRow: 'انتخاب ردیف',
   showPassword: 'نمایش رمز',
   slideNum: slide => `اسلاید ${slide}`,
-  toggleColorFormat: 'تغییر قالب رنگ'
+  toggleColorFormat: 'تغییر قالب رنگ',
+  valuesMustMatch: 'مقادیر باید یکسان باشند'
 };
 
 registerTranslation(translation);
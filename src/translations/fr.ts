@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'Français',
   $dir: 'ltr',
 
+  addSwatch: 'Ajouter un échantillon',
   carousel: 'Carrousel',
+  chooseDate: 'Choisir une date',
   clearEntry: `Effacer l'entrée`,
   close: 'Fermer',
+  contrastRatio: 'Rapport de contraste',
   copy: 'Copier',
   currentValue: 'Valeur actuelle',
+  dateUnavailable: 'Cette date n’est pas disponible',
+  dropFiles: 'Déposez des fichiers ici ou cliquez pour parcourir',
+  fail: 'Échec',
+  fileTooLarge: (name, size) => `${name} dépasse ${size}`,
+  fileTypeNotAccepted: name => `${name} n’est pas un type de fichier accepté`,
   goToSlide: (slide, count) => `Aller à la diapositive ${slide} de ${count}`,
   hidePassword: 'Masquer le mot de passe',
+  invalidFormat: 'Veuillez respecter le format demandé',
+  invalidTag: tag => `${tag} n’est pas valide`,
+  largeText: 'Grand texte',
   loading: 'Chargement',
+  maxFiles: num => `Nombre maximum de fichiers : ${num}`,
+  maxItems: num => `Nombre maximum d’éléments : ${num}`,
+  maximum: 'Maximum',
+  minItems: num => `Nombre minimum d’éléments : ${num}`,
+  minimum: 'Minimum',
+  nextMonth: 'Mois suivant',
   nextSlide: 'Diapositive suivante',
+  noData: 'Aucune donnée',
+  noResults: 'Aucun résultat',
+  normalText: 'Texte normal',
   numOptionsSelected: num => {
     if (num === 0) return 'Aucune option sélectionnée';
     if (num === 1) return '1 option sélectionnée';
     return `${num} options sélectionnées`;
   },
+  pass: 'Réussi',
+  previousMonth: 'Mois précédent',
   previousSlide: 'Diapositive précédente',
   progress: 'Progrès',
+  recentColors: 'Couleurs récentes',
   remove: 'Retirer',
   resize: 'Redimensionner',
   scrollToEnd: `Faire défiler jusqu'à la fin`,
   scrollToStart: `Faire défiler jusqu'au début`,
   selectAColorFromTheScreen: `Sélectionnez une couleur à l'écran`,
+  selectAll: 'Tout sélectionner',
+  selectRow: 'Sélectionner la ligne',
   showPassword: 'Montrer le mot de passe',
   slideNum: slide => `Diapositive ${slide}`,
-  toggleColorFormat: 'Changer le format de couleur'
+  toggleColorFormat: 'Changer le format de couleur',
+  valuesMustMatch: 'Les valeurs doivent correspondre'
 };
 
 registerTranslation(translation);
@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'עברית',
   $dir: 'rtl',
 
+  addSwatch: 'הוסף דוגמית',
   carousel: 'קרוסלה',
+  chooseDate: 'בחר תאריך',
   clearEntry: 'נקה קלט',
   close: 'סגור',
+  contrastRatio: 'יחס ניגודיות',
   copy: 'העתק',
   currentValue: 'ערך נוכחי',
+  dateUnavailable: 'תאריך זה אינו זמין',
+  dropFiles: 'גרור קבצים לכאן או לחץ כדי לעיין',
+  fail: 'נכשל',
+  fileTooLarge: (name, size) => `${name} גדול מ-${size}`,
+  fileTypeNotAccepted: name => `${name} אינו סוג קובץ מותר`,
   goToSlide: (slide, count) => `עבור לשקופית ${slide} של ${count}`,
   hidePassword: 'הסתר סיסמא',
+  invalidFormat: 'יש להשתמש בפורמט המבוקש',
+  invalidTag: tag => `${tag} אינו תקין`,
+  largeText: 'טקסט גדול',
   loading: 'טוען',
+  maxFiles: num => `מספר קבצים מרבי: ${num}`,
+  maxItems: num => `מספר פריטים מרבי: ${num}`,
+  maximum: 'מקסימום',
+  minItems: num => `מספר פריטים מינימלי: ${num}`,
+  minimum: 'מינימום',
+  nextMonth: 'החודש הבא',
   nextSlide: 'Next slide',
+  noData: 'אין נתונים',
+  noResults: 'אין תוצאות',
+  normalText: 'טקסט רגיל',
   numOptionsSelected: num => {
     if (num === 0) return 'לא נבחרו אפשרויות';
     if (num === 1) return 'נבחרה אפשרות אחת';
     return `נבחרו ${num} אפשרויות`;
   },
+  pass: 'עבר',
+  previousMonth: 'החודש הקודם',
   previousSlide: 'Previous slide',
   progress: 'התקדמות',
+  recentColors: 'צבעים אחרונים',
   remove: 'לְהַסִיר',
   resize: 'שנה גודל',
   scrollToEnd: 'גלול עד הסוף',
   scrollToStart: 'גלול להתחלה',
   selectAColorFromTheScreen: 'בחור צבע מהמסך',
+  selectAll: 'בחר הכל',
+  selectRow: 'בחר שורה',
   showPassword: 'הראה סיסמה',
   slideNum: slide => `שקופית ${slide}`,
-  toggleColorFormat: 'החלף פורמט צבע'
+  toggleColorFormat: 'החלף פורמט צבע',
+  valuesMustMatch: 'הערכים חייבים להיות זהים'
 };
 
 registerTranslation(translation);
@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'Magyar',
   $dir: 'ltr',
 
+  addSwatch: 'Színminta hozzáadása',
   carousel: 'Körhinta',
+  chooseDate: 'Dátum kiválasztása',
   clearEntry: 'Bejegyzés törlése',
   close: 'Bezárás',
+  contrastRatio: 'Kontrasztarány',
   copy: 'Másolás',
   currentValue: 'Aktuális érték',
+  dateUnavailable: 'Ez a dátum nem választható',
+  dropFiles: 'Húzza ide a fájlokat, vagy kattintson a tallózáshoz',
+  fail: 'Nem felel meg',
+  fileTooLarge: (name, size) => `${name} nagyobb, mint ${size}`,
+  fileTypeNotAccepted: name => `${name} nem engedélyezett fájltípus`,
   goToSlide: (slide, count) => `Ugrás a ${count}/${slide}. diára`,
   hidePassword: 'Jelszó elrejtése',
+  invalidFormat: 'Kérjük, a kért formátumot használja',
+  invalidTag: tag => `${tag} érvénytelen`,
+  largeText: 'Nagy szöveg',
   loading: 'Betöltés',
+  maxFiles: num => `Fájlok maximális száma: ${num}`,
+  maxItems: num => `Elemek maximális száma: ${num}`,
+  maximum: 'Maximum',
+  minItems: num => `Elemek minimális száma: ${num}`,
+  minimum: 'Minimum',
+  nextMonth: 'Következő hónap',
   nextSlide: 'Következő dia',
+  noData: 'Nincs adat',
+  noResults: 'Nincs találat',
+  normalText: 'Normál szöveg',
   numOptionsSelected: num => {
     if (num === 0) return 'Nincsenek kiválasztva opciók';
     if (num === 1) return '1 lehetőség kiválasztva';
     return `${num} lehetőség kiválasztva`;
   },
+  pass: 'Megfelel',
+  previousMonth: 'Előző hónap',
   previousSlide: 'Előző dia',
   progress: 'Folyamat',
+  recentColors: 'Legutóbbi színek',
   remove: 'Eltávolítás',
   resize: 'Átméretezés',
   scrollToEnd: 'Görgessen a végére',
   scrollToStart: 'Görgessen az elejére',
   selectAColorFromTheScreen: 'Szín választása a képernyőről',
+  selectAll: 'Összes kijelölése',
+  selectRow: 'Sor kijelölése',
   showPassword: 'Jelszó megjelenítése',
   slideNum: slide => `${slide}. dia`,
-  toggleColorFormat: 'Színformátum változtatása'
+  toggleColorFormat: 'Színformátum változtatása',
+  valuesMustMatch: 'Az értékeknek egyezniük kell'
 };
 
 registerTranslation(translation);
@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: '日本語',
   $dir: 'ltr',
 
+  addSwatch: 'スウォッチを追加',
   carousel: 'カルーセル',
+  chooseDate: '日付を選択',
   clearEntry: 'クリアエントリ',
   close: '閉じる',
+  contrastRatio: 'コントラスト比',
   copy: 'コピー',
   currentValue: '現在の価値',
+  dateUnavailable: 'この日付は選択できません',
+  dropFiles: 'ここにファイルをドロップするか、クリックして参照',
+  fail: '不合格',
+  fileTooLarge: (name, size) => `${name} は ${size} を超えています`,
+  fileTypeNotAccepted: name => `${name} は許可されていないファイル形式です`,
   goToSlide: (slide, count) => `${count} 枚中 ${slide} 枚のスライドに移動`,
   hidePassword: 'パスワードを隠す',
+  invalidFormat: '指定された形式で入力してください',
+  invalidTag: tag => `${tag} は無効です`,
+  largeText: '大きいテキスト',
   loading: '読み込み中',
+  maxFiles: num => `最大ファイル数: ${num}`,
+  maxItems: num => `最大項目数: ${num}`,
+  maximum: '最大',
+  minItems: num => `最小項目数: ${num}`,
+  minimum: '最小',
+  nextMonth: '次の月',
   nextSlide: '次のスライド',
+  noData: 'データがありません',
+  noResults: '結果がありません',
+  normalText: '通常のテキスト',
   numOptionsSelected: num => {
     if (num === 0) return 'オプションが選択されていません';
     if (num === 1) return '1 つのオプションが選択されました';
     return `${num} つのオプションが選択されました`;
   },
+  pass: '合格',
+  previousMonth: '前の月',
   previousSlide: '前のスライド',
   progress: '進行',
+  recentColors: '最近使用した色',
   remove: '削除',
   resize: 'サイズ変更',
   scrollToEnd: '最後にスクロールする',
   scrollToStart: '最初にスクロールする',
   selectAColorFromTheScreen: '画面から色を選択してください',
+  selectAll: 'すべて選択',
+  selectRow: '行を選択',
   showPassword: 'パスワードを表示',
   slideNum: slide => `スライド ${slide}`,
-  toggleColorFormat: '色のフォーマットを切り替える'
+  toggleColorFormat: '色のフォーマットを切り替える',
+  valuesMustMatch: '値が一致しません'
 };
 
 registerTranslation(translation);
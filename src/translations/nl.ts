@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'Nederlands',
   $dir: 'ltr',
 
+  addSwatch: 'Staal toevoegen',
   carousel: 'Carrousel',
+  chooseDate: 'Datum kiezen',
   clearEntry: 'Invoer wissen',
   close: 'Sluiten',
+  contrastRatio: 'Contrastverhouding',
   copy: 'Kopiëren',
   currentValue: 'Huidige waarde',
+  dateUnavailable: 'Deze datum is niet beschikbaar',
+  dropFiles: 'Sleep bestanden hierheen of klik om te bladeren',
+  fail: 'Niet geslaagd',
+  fileTooLarge: (name, size) => `${name} is groter dan ${size}`,
+  fileTypeNotAccepted: name => `${name} is geen toegestaan bestandstype`,
   goToSlide: (slide, count) => `Ga naar slide ${slide} van ${count}`,
   hidePassword: 'Verberg wachtwoord',
+  invalidFormat: 'Gebruik de gevraagde notatie',
+  invalidTag: tag => `${tag} is ongeldig`,
+  largeText: 'Grote tekst',
   loading: 'Bezig met laden',
+  maxFiles: num => `Maximaal aantal bestanden: ${num}`,
+  maxItems: num => `Maximaal aantal items: ${num}`,
+  maximum: 'Maximum',
+  minItems: num => `Minimaal aantal items: ${num}`,
+  minimum: 'Minimum',
+  nextMonth: 'Volgende maand',
   nextSlide: 'Volgende dia',
+  noData: 'Geen gegevens',
+  noResults: 'Geen resultaten',
+  normalText: 'Normale tekst',
   numOptionsSelected: num => {
     if (num === 0) return 'Geen optie geselecteerd';
     if (num === 1) return '1 optie geselecteerd';
     return `${num} opties geselecteerd`;
   },
+  pass: 'Geslaagd',
+  previousMonth: 'Vorige maand',
   previousSlide: 'Vorige dia',
   progress: 'Voortgang',
+  recentColors: 'Recente kleuren',
   remove: 'Verwijderen',
   resize: 'Formaat wijzigen',
   scrollToEnd: 'Scroll naar einde',
   scrollToStart: 'Scroll naar begin',
   selectAColorFromTheScreen: 'Selecteer een kleur van het scherm',
+  selectAll: 'Alles selecteren',
+  selectRow: 'Rij selecteren',
   showPassword: 'Laat wachtwoord zien',
   slideNum: slide => `Schuif ${slide}`,
-  toggleColorFormat: 'Wissel kleurnotatie'
+  toggleColorFormat: 'Wissel kleurnotatie',
+  valuesMustMatch: 'De waarden moeten overeenkomen'
 };
 
 registerTranslation(translation);
@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'Polski',
   $dir: 'ltr',
 
+  addSwatch: 'Dodaj próbkę',
   carousel: 'Karuzela',
+  chooseDate: 'Wybierz datę',
   clearEntry: 'Wyczyść wpis',
   close: 'Zamknij',
+  contrastRatio: 'Współczynnik kontrastu',
   copy: 'Kopiuj',
   currentValue: 'Aktualna wartość',
+  dateUnavailable: 'Ta data jest niedostępna',
+  dropFiles: 'Upuść pliki tutaj lub kliknij, aby przeglądać',
+  fail: 'Niezgodny',
+  fileTooLarge: (name, size) => `${name} jest większy niż ${size}`,
+  fileTypeNotAccepted: name => `${name} nie jest dozwolonym typem pliku`,
   goToSlide: (slide, count) => `Przejdź do slajdu ${slide} z ${count}`,
   hidePassword: 'Ukryj hasło',
+  invalidFormat: 'Użyj wymaganego formatu',
+  invalidTag: tag => `${tag} jest nieprawidłowy`,
+  largeText: 'Duży tekst',
   loading: 'Ładowanie',
+  maxFiles: num => `Maksymalna liczba plików: ${num}`,
+  maxItems: num => `Maksymalna liczba elementów: ${num}`,
+  maximum: 'Maksimum',
+  minItems: num => `Minimalna liczba elementów: ${num}`,
+  minimum: 'Minimum',
+  nextMonth: 'Następny miesiąc',
   nextSlide: 'Następny slajd',
+  noData: 'Brak danych',
+  noResults: 'Brak wyników',
+  normalText: 'Normalny tekst',
   numOptionsSelected: num => {
     if (num === 0) return 'Nie wybrano opcji';
     if (num === 1) return 'Wybrano 1 opcję';
     return `Wybrano ${num} opcje`;
   },
+  pass: 'Zgodny',
+  previousMonth: 'Poprzedni miesiąc',
   previousSlide: 'Poprzedni slajd',
   progress: 'Postęp',
+  recentColors: 'Ostatnie kolory',
   remove: 'Usunąć',
   resize: 'Zmień rozmiar',
   scrollToEnd: 'Przewiń do końca',
   scrollToStart: 'Przewiń do początku',
   selectAColorFromTheScreen: 'Próbkuj z ekranu',
+  selectAll: 'Zaznacz wszystko',
+  selectRow: 'Zaznacz wiersz',
   showPassword: 'Pokaż hasło',
   slideNum: slide => `Slajd ${slide}`,
-  toggleColorFormat: 'Przełącz format'
+  toggleColorFormat: 'Przełącz format',
+  valuesMustMatch: 'Wartości muszą być takie same'
 };
 
 registerTranslation(translation);
@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'Português',
   $dir: 'ltr',
 
+  addSwatch: 'Adicionar amostra',
   carousel: 'Carrossel',
+  chooseDate: 'Escolher data',
   clearEntry: 'Limpar entrada',
   close: 'Fechar',
+  contrastRatio: 'Taxa de contraste',
   copy: 'Copiar',
   currentValue: 'Valor atual',
+  dateUnavailable: 'Esta data não está disponível',
+  dropFiles: 'Solte arquivos aqui ou clique para procurar',
+  fail: 'Reprovado',
+  fileTooLarge: (name, size) => `${name} é maior que ${size}`,
+  fileTypeNotAccepted: name => `${name} não é um tipo de arquivo aceito`,
   goToSlide: (slide, count) => `Vá para o slide ${slide} de ${count}`,
   hidePassword: 'Esconder a senha',
+  invalidFormat: 'Use o formato solicitado',
+  invalidTag: tag => `${tag} não é válido`,
+  largeText: 'Texto grande',
   loading: 'Carregando',
+  maxFiles: num => `Número máximo de arquivos: ${num}`,
+  maxItems: num => `Número máximo de itens: ${num}`,
+  maximum: 'Máximo',
+  minItems: num => `Número mínimo de itens: ${num}`,
+  minimum: 'Mínimo',
+  nextMonth: 'Próximo mês',
   nextSlide: 'Próximo slide',
+  noData: 'Sem dados',
+  noResults: 'Nenhum resultado',
+  normalText: 'Texto normal',
   numOptionsSelected: num => {
     if (num === 0) return 'Nenhuma opção selecionada';
     if (num === 1) return '1 opção selecionada';
     return `${num} opções selecionadas`;
   },
+  pass: 'Aprovado',
+  previousMonth: 'Mês anterior',
   previousSlide: 'Slide anterior',
   progress: 'Progresso',
+  recentColors: 'Cores recentes',
   remove: 'Remover',
   resize: 'Mudar o tamanho',
   scrollToEnd: 'Rolar até o final',
   scrollToStart: 'Rolar até o início',
   selectAColorFromTheScreen: 'Selecionar uma cor da tela',
+  selectAll: 'Selecionar tudo',
+  selectRow: 'Selecionar linha',
   showPassword: 'Mostrar senha',
   slideNum: slide => `Slide ${slide}`,
-  toggleColorFormat: 'Trocar o formato de cor'
+  toggleColorFormat: 'Trocar o formato de cor',
+  valuesMustMatch: 'Os valores devem coincidir'
 };
 
 registerTranslation(translation);
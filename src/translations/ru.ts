@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'Русский',
   $dir: 'ltr',
 
+  addSwatch: 'Добавить образец',
   carousel: 'Карусель',
+  chooseDate: 'Выбрать дату',
   clearEntry: 'Очистить запись',
   close: 'Закрыть',
+  contrastRatio: 'Коэффициент контрастности',
   copy: 'Скопировать',
   currentValue: 'Текущее значение',
+  dateUnavailable: 'Эта дата недоступна',
+  dropFiles: 'Перетащите файлы сюда или нажмите, чтобы выбрать',
+  fail: 'Не соответствует',
+  fileTooLarge: (name, size) => `${name} больше ${size}`,
+  fileTypeNotAccepted: name => `${name} имеет недопустимый тип файла`,
   goToSlide: (slide, count) => `Перейти к слайду ${slide} из ${count}`,
   hidePassword: 'Скрыть пароль',
+  invalidFormat: 'Используйте требуемый формат',
+  invalidTag: tag => `${tag} недействителен`,
+  largeText: 'Крупный текст',
   loading: 'Загрузка',
+  maxFiles: num => `Максимальное количество файлов: ${num}`,
+  maxItems: num => `Максимальное количество элементов: ${num}`,
+  maximum: 'Максимум',
+  minItems: num => `Минимальное количество элементов: ${num}`,
+  minimum: 'Минимум',
+  nextMonth: 'Следующий месяц',
   nextSlide: 'Следующий слайд',
+  noData: 'Нет данных',
+  noResults: 'Нет результатов',
+  normalText: 'Обычный текст',
   numOptionsSelected: num => {
     if (num === 0) return 'выбрано 0 вариантов';
     if (num === 1) return 'Выбран 1 вариант';
     return `выбрано ${num} варианта`;
   },
+  pass: 'Соответствует',
+  previousMonth: 'Предыдущий месяц',
   previousSlide: 'Предыдущий слайд',
   progress: 'Прогресс',
+  recentColors: 'Недавние цвета',
   remove: 'Удалить',
   resize: 'Изменить размер',
   scrollToEnd: 'Пролистать до конца',
   scrollToStart: 'Пролистать к началу',
   selectAColorFromTheScreen: 'Выберите цвет на экране',
+  selectAll: 'Выбрать все',
+  selectRow: 'Выбрать строку',
   showPassword: 'Показать пароль',
   slideNum: slide => `Слайд ${slide}`,
-  toggleColorFormat: 'Переключить цветовую модель'
+  toggleColorFormat: 'Переключить цветовую модель',
+  valuesMustMatch: 'Значения должны совпадать'
 };
 
 registerTranslation(translation);
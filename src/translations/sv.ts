@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'Svenska',
   $dir: 'ltr',
 
+  addSwatch: 'Lägg till färgprov',
   carousel: 'Karusell',
+  chooseDate: 'Välj datum',
   clearEntry: 'Återställ val',
   close: 'Stäng',
+  contrastRatio: 'Kontrastförhållande',
   copy: 'Kopiera',
   currentValue: 'Nuvarande värde',
+  dateUnavailable: 'Detta datum är inte tillgängligt',
+  dropFiles: 'Släpp filer här eller klicka för att bläddra',
+  fail: 'Underkänd',
+  fileTooLarge: (name, size) => `${name} är större än ${size}`,
+  fileTypeNotAccepted: name => `${name} är inte en tillåten filtyp`,
   goToSlide: (slide, count) => `Gå till bild ${slide} av ${count}`,
   hidePassword: 'Dölj lösenord',
+  invalidFormat: 'Använd det begärda formatet',
+  invalidTag: tag => `${tag} är inte giltig`,
+  largeText: 'Stor text',
   loading: 'Läser in',
+  maxFiles: num => `Högsta antal filer: ${num}`,
+  maxItems: num => `Högsta antal objekt: ${num}`,
+  maximum: 'Maximum',
+  minItems: num => `Minsta antal objekt: ${num}`,
+  minimum: 'Minimum',
+  nextMonth: 'Nästa månad',
   nextSlide: 'Nästa bild',
+  noData: 'Inga data',
+  noResults: 'Inga resultat',
+  normalText: 'Normal text',
   numOptionsSelected: num => {
     if (num === 0) return 'Inga alternativ har valts';
     if (num === 1) return '1 alternativ valt';
     return `${num} alternativ valda`;
   },
+  pass: 'Godkänd',
+  previousMonth: 'Föregående månad',
   previousSlide: 'Föregående bild',
   progress: 'Framsteg',
+  recentColors: 'Senaste färger',
   remove: 'Ta bort',
   resize: 'Ändra storlek',
   scrollToEnd: 'Skrolla till slutet',
   scrollToStart: 'Skrolla till början',
   selectAColorFromTheScreen: 'Välj en färg från skärmen',
+  selectAll: 'Markera alla',
+  selectRow: 'Markera rad',
   showPassword: 'Visa lösenord',
   slideNum: slide => `Bild ${slide}`,
-  toggleColorFormat: 'Växla färgformat'
+  toggleColorFormat: 'Växla färgformat',
+  valuesMustMatch: 'Värdena måste matcha'
 };
 
 registerTranslation(translation);
@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: 'Türkçe',
   $dir: 'ltr',
 
+  addSwatch: 'Renk örneği ekle',
   carousel: 'Atlıkarınca',
+  chooseDate: 'Tarih seç',
   clearEntry: 'Girişi sil',
   close: 'Kapat',
+  contrastRatio: 'Kontrast oranı',
   copy: 'Kopya',
   currentValue: 'Mevcut değer',
+  dateUnavailable: 'Bu tarih kullanılamıyor',
+  dropFiles: 'Dosyaları buraya bırakın veya göz atmak için tıklayın',
+  fail: 'Başarısız',
+  fileTooLarge: (name, size) => `${name} boyutu ${size} değerinden büyük`,
+  fileTypeNotAccepted: name => `${name} kabul edilen bir dosya türü değil`,
   goToSlide: (slide, count) => `${count} slayttan ${slide} slayta gidin`,
   hidePassword: 'Şifreyi sakla',
+  invalidFormat: 'Lütfen istenen biçimi kullanın',
+  invalidTag: tag => `${tag} geçerli değil`,
+  largeText: 'Büyük metin',
   loading: 'Yükleme',
+  maxFiles: num => `En fazla dosya sayısı: ${num}`,
+  maxItems: num => `En fazla öğe sayısı: ${num}`,
+  maximum: 'En yüksek',
+  minItems: num => `En az öğe sayısı: ${num}`,
+  minimum: 'En düşük',
+  nextMonth: 'Sonraki ay',
   nextSlide: 'Sonraki slayt',
+  noData: 'Veri yok',
+  noResults: 'Sonuç yok',
+  normalText: 'Normal metin',
   numOptionsSelected: num => {
     if (num === 0) return 'Hiçbir seçenek seçilmedi';
     if (num === 1) return '1 seçenek seçildi';
     return `${num} seçenek seçildi`;
   },
+  pass: 'Başarılı',
+  previousMonth: 'Önceki ay',
   previousSlide: 'Bir onceki slayt',
   progress: 'İlerleme',
+  recentColors: 'Son renkler',
   remove: 'Kaldır',
   resize: 'Yeniden boyutlandır',
   scrollToEnd: 'Sona kay',
   scrollToStart: 'Başa kay',
   selectAColorFromTheScreen: 'Ekrandan bir renk seçin',
+  selectAll: 'Tümünü seç',
+  selectRow: 'Satırı seç',
   showPassword: 'Şifreyi göster',
   slideNum: slide => `Slayt ${slide}`,
-  toggleColorFormat: 'Renk biçimini değiştir'
+  toggleColorFormat: 'Renk biçimini değiştir',
+  valuesMustMatch: 'Değerler eşleşmelidir'
 };
 
 registerTranslation(translation);
@@ -6,30 +6,56 @@ const translation: Translation = {
   $name: '正體中文',
   $dir: 'ltr',
 
+  addSwatch: '新增色票',
   carousel: '旋轉木馬',
+  chooseDate: '選擇日期',
   clearEntry: '清空',
   close: '關閉',
+  contrastRatio: '對比度',
   copy: '複製',
   currentValue: '當前值',
+  dateUnavailable: '此日期無法使用',
+  dropFiles: '將檔案拖放到此處或按一下以瀏覽',
+  fail: '未通過',
+  fileTooLarge: (name, size) => `${name} 超過 ${size}`,
+  fileTypeNotAccepted: name => `${name} 不是可接受的檔案類型`,
   goToSlide: (slide, count) => `轉到第 ${slide} 張幻燈片，共 ${count} 張`,
   hidePassword: '隱藏密碼',
+  invalidFormat: '請使用要求的格式',
+  invalidTag: tag => `${tag} 無效`,
+  largeText: '大型文字',
   loading: '載入中',
+  maxFiles: num => `最多檔案數：${num}`,
+  maxItems: num => `最多項目數：${num}`,
+  maximum: '最大值',
+  minItems: num => `最少項目數：${num}`,
+  minimum: '最小值',
+  nextMonth: '下個月',
   nextSlide: '下一張幻燈片',
+  noData: '沒有資料',
+  noResults: '沒有結果',
+  normalText: '一般文字',
   numOptionsSelected: num => {
     if (num === 0) return '未選擇任何項目';
     if (num === 1) return '已選擇 1 個項目';
     return `${num} 選擇項目`;
   },
+  pass: '通過',
+  previousMonth: '上個月',
   previousSlide: '上一張幻燈片',
   progress: '進度',
+  recentColors: '最近使用的顏色',
   remove: '移除',
   resize: '調整大小',
   scrollToEnd: '捲至頁尾',
   scrollToStart: '捲至頁首',
   selectAColorFromTheScreen: '從螢幕中選擇一種顏色',
+  selectAll: '全選',
+  selectRow: '選擇列',
   showPassword: '顯示密碼',
   slideNum: slide => `幻燈片 ${slide}`,
-  toggleColorFormat: '切換顏色格式'
+  toggleColorFormat: '切換顏色格式',
+  valuesMustMatch: '數值必須相符'
 };
 
 registerTranslation(translation);
@@ -0,0 +1,7 @@
+export {
+  createLocalColorStorage,
+  createMemoryColorStorage,
+  getColorStorage,
+  setColorStorage
+} from '../internal/color-storage.js';
+export type { ColorStorage } from '../internal/color-storage.js';
@@ -0,0 +1,260 @@
+import { deserialize, isFormDirty, markFormPristine, serialize } from '../../dist/shoelace.js';
+import { expect, fixture, html, waitUntil } from '@open-wc/testing';
+import { sendKeys } from '@web/test-runner-commands';
+import sinon from 'sinon';
+import type SlCheckbox from '../components/checkbox/checkbox.js';
+import type SlInput from '../components/input/input.js';
+import type SlRadioGroup from '../components/radio-group/radio-group.js';
+import type SlRange from '../components/range/range.js';
+import type SlSelect from '../components/select/select.js';
+
+describe('form utilities', () => {
+  describe('when using the serialize() and deserialize() functions', () => {
+    it('should serialize nested names into objects and arrays', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-input name="address[city]" value="Springfield"></sl-input>
+          <input name="address.zip" value="12345" />
+          <sl-input name="items[0].qty" value="1"></sl-input>
+          <sl-input name="items[1].qty" value="2"></sl-input>
+          <input name="tags[]" value="a" />
+        </form>
+      `);
+
+      expect(serialize(form, { nested: true })).to.deep.equal({
+        address: { city: 'Springfield', zip: '12345' },
+        items: [{ qty: '1' }, { qty: '2' }],
+        tags: ['a']
+      });
+    });
+
+    it('should serialize numbers, booleans, and arrays in typed mode', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-input name="age" type="number" value="42"></sl-input>
+          <sl-range name="volume" value="7"></sl-range>
+          <sl-checkbox name="subscribe" checked></sl-checkbox>
+          <sl-switch name="notify"></sl-switch>
+          <sl-select name="colors" multiple value="red">
+            <sl-option value="red">Red</sl-option>
+            <sl-option value="blue">Blue</sl-option>
+          </sl-select>
+          <sl-input name="name" value="Shoelace"></sl-input>
+        </form>
+      `);
+      await Promise.all([...form.querySelectorAll('sl-select')].map(el => el.updateComplete));
+
+      expect(serialize(form, { typed: true })).to.deep.equal({
+        age: 42,
+        volume: 7,
+        subscribe: true,
+        notify: false,
+        colors: ['red'],
+        name: 'Shoelace'
+      });
+    });
+
+    it('should populate controls from nested data', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-input name="address[city]"></sl-input>
+          <sl-input name="items[1].qty"></sl-input>
+          <sl-checkbox name="subscribe"></sl-checkbox>
+          <sl-checkbox name="days" value="mon"></sl-checkbox>
+          <sl-checkbox name="days" value="tue"></sl-checkbox>
+          <sl-select name="colors" multiple>
+            <sl-option value="red">Red</sl-option>
+            <sl-option value="blue">Blue</sl-option>
+          </sl-select>
+          <sl-radio-group name="size">
+            <sl-radio value="s">Small</sl-radio>
+            <sl-radio value="l">Large</sl-radio>
+          </sl-radio-group>
+          <input type="radio" name="shape" value="circle" />
+          <input type="radio" name="shape" value="square" />
+          <sl-range name="volume"></sl-range>
+        </form>
+      `);
+      const data = {
+        address: { city: 'Springfield' },
+        items: [{ qty: 1 }, { qty: 2 }],
+        subscribe: true,
+        days: ['tue'],
+        colors: ['red', 'blue'],
+        size: 'l',
+        shape: 'square',
+        volume: 30
+      };
+
+      deserialize(form, data);
+
+      expect(form.querySelector<SlInput>('[name="address[city]"]')!.value).to.equal('Springfield');
+      expect(form.querySelector<SlInput>('[name="items[1].qty"]')!.value).to.equal('2');
+      expect(form.querySelector<SlCheckbox>('[name="subscribe"]')!.checked).to.be.true;
+      expect([...form.querySelectorAll<SlCheckbox>('[name="days"]')].map(el => el.checked)).to.deep.equal([
+        false,
+        true
+      ]);
+      expect(form.querySelector<SlSelect>('sl-select')!.value).to.deep.equal(['red', 'blue']);
+      expect(form.querySelector<SlRadioGroup>('sl-radio-group')!.value).to.equal('l');
+      expect(form.querySelector<HTMLInputElement>('[value="square"]')!.checked).to.be.true;
+      expect(form.querySelector<SlRange>('sl-range')!.value).to.equal(30);
+      expect(serialize(form, { nested: true, typed: true })).to.deep.include({
+        address: { city: 'Springfield' },
+        subscribe: true,
+        days: ['tue'],
+        colors: ['red', 'blue'],
+        volume: 30
+      });
+    });
+
+    it('should skip names that contain __proto__ without writing to the prototype', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <input name="__proto__" value="yes" />
+          <input name="__proto__[polluted]" value="yes" />
+          <input name="a[__proto__][polluted]" value="yes" />
+          <input name="b" value="1" />
+        </form>
+      `);
+
+      expect(serialize(form, { nested: true })).to.deep.equal({ b: '1' });
+      expect(serialize(form)).to.deep.equal({ '__proto__[polluted]': 'yes', 'a[__proto__][polluted]': 'yes', b: '1' });
+      expect(Object.prototype).to.not.have.property('polluted');
+    });
+
+    it('should keep fields named constructor and prototype', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <input name="constructor" value="1" />
+          <input name="prototype" value="2" />
+          <input name="a[constructor][prototype][polluted]" value="yes" />
+        </form>
+      `);
+
+      expect(serialize(form, { nested: true })).to.deep.equal({
+        constructor: '1',
+        prototype: '2',
+        a: { constructor: { prototype: { polluted: 'yes' } } }
+      });
+      expect(Object.prototype).to.not.have.property('polluted');
+    });
+
+    it('should leave controls that are missing from the data unchanged unless reset is used', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-input name="a" value="1"></sl-input>
+          <sl-input name="b" value="2"></sl-input>
+        </form>
+      `);
+      const [a, b] = form.querySelectorAll('sl-input');
+
+      deserialize(form, { a: 'x' });
+      expect([a.value, b.value]).to.deep.equal(['x', '2']);
+
+      deserialize(form, { a: 'y' }, { reset: true });
+      expect([a.value, b.value]).to.deep.equal(['y', '']);
+    });
+  });
+
+  describe('when tracking dirty state', () => {
+    it('should be pristine by default and dirty after the value changes', async () => {
+      const form = await fixture<HTMLFormElement>(html`<form><sl-input name="a" value="1"></sl-input></form>`);
+      const input = form.querySelector('sl-input')!;
+
+      expect(input.hasAttribute('data-pristine')).to.be.true;
+      expect(form.hasAttribute('data-pristine')).to.be.true;
+
+      input.focus();
+      await sendKeys({ type: '2' });
+      await input.updateComplete;
+
+      expect(input.hasAttribute('data-dirty')).to.be.true;
+      expect(form.hasAttribute('data-dirty')).to.be.true;
+      expect(isFormDirty(form)).to.be.true;
+    });
+
+    it('should emit sl-dirty-change on the form when its dirty state changes', async () => {
+      const form = await fixture<HTMLFormElement>(html`<form><sl-input name="a" value="1"></sl-input></form>`);
+      const input = form.querySelector('sl-input')!;
+      const changeHandler = sinon.spy((event: CustomEvent<{ dirty: boolean }>) => event.detail.dirty);
+
+      form.addEventListener('sl-dirty-change', changeHandler);
+      input.value = '2';
+      await input.updateComplete;
+      input.value = '3';
+      await input.updateComplete;
+      input.value = '1';
+      await input.updateComplete;
+
+      expect(changeHandler).to.have.been.calledTwice;
+      expect(changeHandler.returnValues).to.deep.equal([true, false]);
+    });
+
+    it('should be pristine after the form is reset', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-input name="a" value="1"></sl-input>
+          <input name="b" value="1" />
+        </form>
+      `);
+      const input = form.querySelector('sl-input')!;
+      const nativeInput = form.querySelector('input')!;
+
+      input.value = '2';
+      nativeInput.value = '2';
+      nativeInput.dispatchEvent(new Event('input', { bubbles: true }));
+      await input.updateComplete;
+      expect(form.hasAttribute('data-dirty')).to.be.true;
+
+      form.reset();
+      await waitUntil(() => form.hasAttribute('data-pristine'));
+
+      expect(input.hasAttribute('data-pristine')).to.be.true;
+      expect(isFormDirty(form)).to.be.false;
+    });
+
+    it('should track native form controls', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-input name="a" value="1"></sl-input>
+          <input type="checkbox" name="b" />
+        </form>
+      `);
+      const checkbox = form.querySelector('input')!;
+      const changeHandler = sinon.spy();
+
+      form.addEventListener('sl-dirty-change', changeHandler);
+      checkbox.click();
+
+      expect(changeHandler).to.have.been.calledOnce;
+      expect(isFormDirty(form)).to.be.true;
+    });
+
+    it('should use the current values as default values after calling markFormPristine()', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <sl-input name="a" value="1"></sl-input>
+          <sl-checkbox name="b"></sl-checkbox>
+        </form>
+      `);
+      const input = form.querySelector('sl-input')!;
+      const checkbox = form.querySelector('sl-checkbox')!;
+
+      input.value = '2';
+      checkbox.checked = true;
+      await Promise.all([input.updateComplete, checkbox.updateComplete]);
+      expect(form.hasAttribute('data-dirty')).to.be.true;
+
+      markFormPristine(form);
+      expect(form.hasAttribute('data-pristine')).to.be.true;
+      expect(input.hasAttribute('data-pristine')).to.be.true;
+      expect(checkbox.hasAttribute('data-pristine')).to.be.true;
+
+      form.reset();
+      await Promise.all([input.updateComplete, checkbox.updateComplete]);
+      expect(input.value).to.equal('2');
+      expect(checkbox.checked).to.be.true;
+    });
+  });
+});
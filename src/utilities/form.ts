@@ -1,29 +1,328 @@
 import { formCollections } from '../internal/form.js';
+import { unscopedTagName } from '../internal/scope.js';
+import type SlFileInput from '../components/file-input/file-input.js';
+import type SlRange from '../components/range/range.js';
+import type SlSelect from '../components/select/select.js';
+
+export { isFormDirty, markFormPristine } from '../internal/form.js';
+export { registerValidator } from '../internal/validators.js';
+export type {
+  Validator,
+  ValidatorContext,
+  ValidatorDefinition,
+  ValidatorFunction,
+  ValidatorResult,
+  ValidatorRule
+} from '../internal/validators.js';
+
+export interface SerializeOptions {
+  /**
+   * Turns names such as `address[city]`, `address.city`, and `items[0].qty` into nested objects and arrays. Names that
+   * end with `[]`, such as `tags[]`, always produce an array.
+   */
+  nested?: boolean;
+  /**
+   * Returns numbers for number inputs and ranges and booleans for checkboxes and switches that don't share their name
+   * with other controls. Multiple selects and groups of checkboxes always return an array, even when it's empty.
+   */
+  typed?: boolean;
+}
+
+type PathSegment = string | number;
+type Container = Record<string, unknown> | unknown[];
+
+//
+// Field names come from the page's markup, so they must never reach an object's prototype. Only own properties are
+// read and properties are defined rather than assigned, so names such as `constructor` are safe. Names containing
+// `__proto__` are skipped, since the resulting objects would behave unexpectedly when they're used.
+//
+function isSafePath(path: PathSegment[]) {
+  return !path.includes('__proto__');
+}
+
+function hasOwn(object: object, key: PathSegment) {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function setOwn(object: object, key: PathSegment, value: unknown) {
+  Object.defineProperty(object, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+/**
+ * Splits a field name such as `items[0].qty` into the keys of a path, e.g. `['items', 0, 'qty']`. Numeric keys become
+ * numbers and `[]` becomes an empty string, which means "append to the array".
+ */
+function parsePath(name: string): PathSegment[] {
+  const path: PathSegment[] = [];
+  const pattern = /([^.[\]]+)|\[([^\]]*)\]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(name))) {
+    const key = match[1] ?? match[2];
+    path.push(/^\d+$/.test(key) ? Number(key) : key);
+  }
+
+  return path.length > 0 ? path : [name];
+}
+
+// Adds a value to an object, turning the property into an array when it already has a value
+function addValue(container: Container, key: PathSegment, value: unknown) {
+  if (!isSafePath([key])) {
+    return;
+  }
+
+  if (Array.isArray(container) && key === '') {
+    container.push(value);
+    return;
+  }
+
+  const record = container as Record<PathSegment, unknown>;
+
+  if (hasOwn(record, key)) {
+    const entry = record[key];
+    if (Array.isArray(entry)) {
+      entry.push(value);
+    } else {
+      setOwn(record, key, [entry, value]);
+    }
+  } else {
+    setOwn(record, key, value);
+  }
+}
+
+// Sets a value at the given path, creating objects and arrays along the way
+function setPath(object: Record<string, unknown>, path: PathSegment[], value: unknown) {
+  if (!isSafePath(path)) {
+    return;
+  }
+
+  let container: Container = object;
+
+  path.forEach((key, index) => {
+    if (index === path.length - 1) {
+      addValue(container, key, value);
+      return;
+    }
+
+    const next = path[index + 1];
+    const record = container as Record<PathSegment, unknown>;
+    let child = (Array.isArray(container) && key === '') || !hasOwn(record, key) ? undefined : record[key];
+
+    if (typeof child !== 'object' || child === null) {
+      child = typeof next === 'number' || next === '' ? [] : {};
+      addValue(container, key, child);
+    }
+
+    container = child as Container;
+  });
+}
+
+// Returns the value at the given path, or undefined if it doesn't exist
+function getPath(object: unknown, path: PathSegment[]) {
+  return path.reduce<unknown>((value, key) => {
+    if (key === '' || typeof value !== 'object' || value === null) {
+      return key === '' ? value : undefined;
+    }
+
+    return hasOwn(value, key) ? (value as Record<PathSegment, unknown>)[key] : undefined;
+  }, object);
+}
+
+function getType(control: Element) {
+  const tag = unscopedTagName(control);
+  const type = (control as HTMLInputElement).type;
+
+  if (tag === 'sl-checkbox' || tag === 'sl-switch' || (tag === 'input' && type === 'checkbox')) {
+    return 'checkbox';
+  }
+
+  if (tag === 'sl-range' || ((tag === 'input' || tag === 'sl-input') && (type === 'number' || type === 'range'))) {
+    return 'number';
+  }
+
+  if (['sl-file-input', 'sl-select', 'select'].includes(tag) && (control as HTMLSelectElement).multiple) {
+    return 'multiple';
+  }
+
+  if (tag === 'sl-tag-input') {
+    return 'multiple';
+  }
+
+  return tag === 'input' && type === 'radio' ? 'radio' : 'text';
+}
+
+function isSubmittable(control: Element) {
+  const tag = unscopedTagName(control);
+  const type = (control as HTMLInputElement).type;
+
+  return (
+    tag !== 'button' &&
+    tag !== 'sl-button' &&
+    tag !== 'fieldset' &&
+    tag !== 'output' &&
+    !(tag === 'input' && ['button', 'file', 'image', 'reset', 'submit'].includes(type))
+  );
+}
+
+// Converts the form data values of a field based on the type of the controls that share its name
+function toTypedValue(controls: Element[], values: FormDataEntryValue[]) {
+  const types = controls.map(control => getType(control));
+
+  if (types.every(type => type === 'number')) {
+    const numbers = values.map(value => (value === '' ? null : Number(value)));
+    return numbers.length === 1 ? numbers[0] : numbers;
+  }
+
+  if (controls.length === 1 && types[0] === 'checkbox') {
+    return values.length > 0;
+  }
+
+  if (types.includes('multiple') || types.every(type => type === 'checkbox')) {
+    return values;
+  }
+
+  return values.length === 1 ? values[0] : values;
+}
 
 /**
  * Serializes a form and returns a plain object. If a form control with the same name appears more than once, the
  * property will be converted to an array.
  */
-export function serialize(form: HTMLFormElement) {
+export function serialize(form: HTMLFormElement, options: SerializeOptions = {}) {
   const formData = new FormData(form);
   const object: Record<string, unknown> = {};
+  const add = (key: string, value: unknown) => {
+    if (options.nested) {
+      setPath(object, parsePath(key), value);
+    } else {
+      addValue(object, key, value);
+    }
+  };
+
+  if (!options.typed) {
+    formData.forEach((value, key) => add(key, value));
+    return object;
+  }
 
-  formData.forEach((value, key) => {
-    if (Reflect.has(object, key)) {
-      const entry = object[key];
-      if (Array.isArray(entry)) {
-        entry.push(value);
+  // Group the controls by name so each field's values can be converted based on the type of its controls
+  const controlsByName = new Map<string, Element[]>();
+  getFormControls(form).forEach(control => {
+    const name = (control as HTMLInputElement).name;
+    if (name && isSubmittable(control) && !(control as HTMLInputElement).disabled) {
+      controlsByName.set(name, [...(controlsByName.get(name) ?? []), control]);
+    }
+  });
+
+  // Fields without values, such as unchecked checkboxes, are included too
+  const names = new Set([...formData.keys(), ...controlsByName.keys()]);
+
+  names.forEach(name => {
+    const values = formData.getAll(name);
+    const controls = controlsByName.get(name) ?? [];
+
+    if (controls.length === 0) {
+      values.forEach(value => add(name, value));
+    } else if (values.length > 0 || ['checkbox', 'multiple'].includes(getType(controls[0]))) {
+      const value = toTypedValue(controls, values);
+
+      // Values that are already arrays shouldn't be nested inside another array by names that end with []
+      if (Array.isArray(value) && options.nested && name.endsWith('[]')) {
+        value.forEach(val => add(name, val));
+        if (value.length === 0) {
+          setPath(object, parsePath(name).slice(0, -1), []);
+        }
       } else {
-        object[key] = [object[key], value];
+        add(name, value);
       }
-    } else {
-      object[key] = value;
     }
   });
 
   return object;
 }
 
+export interface DeserializeOptions {
+  /** Clears the controls whose names aren't found in the data. By default, they're left unchanged. */
+  reset?: boolean;
+}
+
+/**
+ * Populates a form's controls with the values in a plain object, such as one returned by `serialize()`. Names such as
+ * `address[city]` and `items[0].qty` are looked up in nested objects and arrays. When more than one control shares the
+ * same name, checkboxes and radios are checked if their value is in the data and other controls receive the values of
+ * an array in order.
+ */
+export function deserialize(form: HTMLFormElement, data: Record<string, unknown>, options: DeserializeOptions = {}) {
+  const indexes = new Map<string, number>();
+
+  getFormControls(form).forEach(control => {
+    const el = control as HTMLInputElement;
+    const name = el.name;
+
+    if (!name || !isSubmittable(control)) {
+      return;
+    }
+
+    let value = hasOwn(data, name) ? data[name] : getPath(data, parsePath(name));
+
+    if (value === undefined) {
+      if (!options.reset) {
+        return;
+      }
+      value = null;
+    }
+
+    // Files can't be created from data, so only values that are already files are used
+    if (unscopedTagName(control) === 'sl-file-input') {
+      const files = Array.isArray(value) ? (value as unknown[]) : [value];
+      (control as SlFileInput).value = files.filter((file): file is File => file instanceof File);
+      return;
+    }
+
+    const type = getType(control);
+    const values = (Array.isArray(value) ? value : value === null ? [] : [value]).map(val => String(val));
+
+    switch (type) {
+      case 'checkbox':
+        el.checked = typeof value === 'boolean' ? value : values.includes(el.value || 'on');
+        break;
+
+      case 'radio':
+        el.checked = values.includes(el.value);
+        break;
+
+      case 'multiple':
+        if (control instanceof HTMLSelectElement) {
+          [...control.options].forEach(option => (option.selected = values.includes(option.value)));
+        } else {
+          (control as SlSelect).value = values;
+        }
+        break;
+
+      default: {
+        const isRange = unscopedTagName(control) === 'sl-range';
+
+        // Ranges with two thumbs take a pair of values
+        if (isRange && (control as SlRange).range && Array.isArray(value)) {
+          const range = control as SlRange;
+          [range.minValue, range.maxValue] = value.map(val => Number(val));
+          break;
+        }
+
+        // Controls that share a name receive the values in order
+        const index = indexes.get(name) ?? 0;
+        const val = Array.isArray(value) ? (value as unknown[])[index] : value;
+        indexes.set(name, index + 1);
+
+        if (isRange) {
+          (control as SlRange).value = Number(val ?? 0);
+        } else {
+          el.value = val === null || val === undefined ? '' : String(val);
+        }
+      }
+    }
+  });
+}
+
 /**
  * Returns all form controls that are associated with the specified form. Includes both native and Shoelace form
  * controls. Use this function in lieu of the `HTMLFormElement.elements` property, which doesn't recognize Shoelace
@@ -1,36 +1,83 @@
 import '../translations/en.js';
-import { LocalizeController as DefaultLocalizationController } from '@shoelace-style/localize'; // Register English as the default/fallback language
+import {
+  LocalizeController as DefaultLocalizationController,
+  registerTranslation as registerDefaultTranslation
+} from '@shoelace-style/localize'; // Register English as the default/fallback language
+import { isServer } from 'lit';
+import { withServerGlobals } from '../internal/server-globals.js';
 import type { Translation as DefaultTranslation } from '@shoelace-style/localize';
 
 // Extend the controller and apply our own translation interface for better typings
-export class LocalizeController extends DefaultLocalizationController<Translation> {}
+export class LocalizeController extends DefaultLocalizationController<Translation> {
+  // There's no document on the server, so elements use their own dir and lang or fall back to English
+  dir() {
+    return isServer ? `${this.host.dir || 'ltr'}`.toLowerCase() : super.dir();
+  }
 
-// Export functions from the localize lib so we have one central place to import them from
-export { registerTranslation } from '@shoelace-style/localize';
+  lang() {
+    return isServer ? `${this.host.lang || 'en'}`.toLowerCase() : super.lang();
+  }
+}
+
+/** Registers one or more translations. */
+export function registerTranslation(...translations: DefaultTranslation[]) {
+  // The localize lib reads the document's dir and lang after registering translations
+  if (isServer) {
+    withServerGlobals(() => registerDefaultTranslation(...translations));
+  } else {
+    registerDefaultTranslation(...translations);
+  }
+}
 
 export interface Translation extends DefaultTranslation {
   $code: string; // e.g. en, en-GB
   $name: string; // e.g. English, Español
   $dir: 'ltr' | 'rtl';
 
+  addSwatch: string;
   carousel: string;
+  chooseDate: string;
   clearEntry: string;
   close: string;
+  contrastRatio: string;
   copy: string;
   currentValue: string;
+  dateUnavailable: string;
+  dropFiles: string;
+  fail: string;
+  fileTooLarge: (name: string, size: string) => string;
+  fileTypeNotAccepted: (name: string) => string;
   goToSlide: (slide: number, count: number) => string;
   hidePassword: string;
+  invalidFormat: string;
+  invalidTag: (tag: string) => string;
+  largeText: string;
   loading: string;
+  maxFiles: (num: number) => string;
+  maxItems: (num: number) => string;
+  maximum: string;
+  minItems: (num: number) => string;
+  minimum: string;
+  nextMonth: string;
   nextSlide: string;
+  noData: string;
+  noResults: string;
+  normalText: string;
   numOptionsSelected: (num: number) => string;
+  pass: string;
+  previousMonth: string;
   previousSlide: string;
   progress: string;
+  recentColors: string;
   remove: string;
   resize: string;
   scrollToEnd: string;
   scrollToStart: string;
   selectAColorFromTheScreen: string;
+  selectAll: string;
+  selectRow: string;
   showPassword: string;
   slideNum: (slide: number) => string;
   toggleColorFormat: string;
+  valuesMustMatch: string;
 }
@@ -0,0 +1,2 @@
+export { applyMask, registerMask } from '../internal/mask.js';
+export type { Mask, MaskFunction, MaskResult } from '../internal/mask.js';
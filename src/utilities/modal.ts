@@ -0,0 +1 @@
+export { getModalStack, getTopModal } from '../internal/modal.js';
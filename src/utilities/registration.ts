@@ -0,0 +1,2 @@
+export { registerComponents } from '../internal/scope.js';
+export type { RegisterComponentsOptions } from '../internal/scope.js';
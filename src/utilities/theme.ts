@@ -0,0 +1,2 @@
+export { applyTheme, generateThemeOverlay, generateThemeTokens, removeTheme } from '../internal/theme.js';
+export type { ThemeOptions, ThemeStylesheetOptions, ThemeTokens } from '../internal/theme.js';
@@ -0,0 +1,67 @@
+import '../components/alert/alert.js';
+import '../components/button/button.js';
+import '../components/icon/icon.js';
+import type { ToastPlacement } from '../internal/toast-stack.js';
+import type SlAlert from '../components/alert/alert.js';
+
+export { getToastStack, setToastStackOptions } from '../internal/toast-stack.js';
+export type { ToastPlacement, ToastStack, ToastStackOptions } from '../internal/toast-stack.js';
+
+export interface NotifyOptions {
+  /** The message to show. It's always rendered as text, so it's safe to use with user input. */
+  message: string;
+  /** The alert's theme variant. */
+  variant?: SlAlert['variant'];
+  /** The length of time, in milliseconds, the toast will show before closing itself. Use `Infinity` to keep it open. */
+  duration?: number;
+  /** Shows a close button. */
+  closable?: boolean;
+  /** The name of an icon from the default icon library to show next to the message. */
+  icon?: string;
+  /** The toast stack to show the toast in. */
+  placement?: ToastPlacement;
+  /** A button to show next to the message. Clicking the button runs the callback and closes the toast. */
+  action?: {
+    label: string;
+    onClick: (alert: SlAlert) => void;
+  };
+}
+
+/**
+ * Creates an alert and shows it as a toast notification. The alert is returned so you can hide it or listen for its
+ * events. It's removed from the DOM after it's dismissed.
+ */
+export function notify(options: NotifyOptions) {
+  const alert = Object.assign(document.createElement('sl-alert'), {
+    variant: options.variant ?? 'primary',
+    duration: options.duration ?? 3000,
+    closable: options.closable ?? true
+  });
+
+  if (options.icon) {
+    alert.append(Object.assign(document.createElement('sl-icon'), { slot: 'icon', name: options.icon }));
+  }
+
+  alert.append(document.createTextNode(options.message));
+
+  if (options.action) {
+    const { label, onClick } = options.action;
+    const button = Object.assign(document.createElement('sl-button'), {
+      className: 'sl-toast-action',
+      variant: 'text',
+      size: 'small',
+      textContent: label
+    });
+
+    button.addEventListener('click', () => {
+      onClick(alert);
+      alert.hide();
+    });
+
+    alert.append(button);
+  }
+
+  alert.toast(options.placement);
+
+  return alert;
+}